@@ -1,47 +1,173 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import Layout from './components/Layout';
 import EntryEditor from './components/EntryEditor';
 import EntryList from './components/EntryList';
 import Dashboard from './components/Dashboard';
 import Settings from './components/Settings';
 import Guidance from './components/Guidance';
-import { JournalEntry, ViewMode, TodoItem } from './types';
-import { getEntries, saveEntry, deleteEntry } from './services/storage';
+import VaultUnlock from './components/VaultUnlock';
+import Trash from './components/Trash';
+import UndoToast from './components/UndoToast';
+import BackupReminder from './components/BackupReminder';
+import DatabaseNotice from './components/DatabaseNotice';
+import { JournalEntry, ViewMode, TodoItem, Notebook, EntryDraft } from './types';
+import {
+  getEntries, saveEntry, trashEntry, restoreEntry, purgeExpiredTrash,
+  getNotebooks, getActiveNotebookId, setActiveNotebookId, getEntryNotebookId, moveEntryToNotebook, ALL_NOTEBOOKS, DEFAULT_NOTEBOOK_ID
+} from './services/storage';
+import { isVaultLocked } from './services/vault';
+import { subscribeToChanges } from './services/tabSync';
+import { startAutoSync, subscribeToSyncStatus } from './services/sync';
+import { startAnalysisQueue, subscribeToAnalysisQueue } from './services/analysisQueue';
+import { startBackupScheduler, shouldShowBackupReminder } from './services/scheduledBackup';
 
 const App: React.FC = () => {
   const [view, setView] = useState<ViewMode>(ViewMode.WRITE);
   const [entries, setEntries] = useState<JournalEntry[]>([]);
   const [editingEntry, setEditingEntry] = useState<JournalEntry | null>(null);
   const [suggestedTodos, setSuggestedTodos] = useState<TodoItem[] | undefined>(undefined);
+  const [resumedDraft, setResumedDraft] = useState<EntryDraft | null>(null);
+  const [isLocked, setIsLocked] = useState(isVaultLocked());
+  const [trashedEntryId, setTrashedEntryId] = useState<string | null>(null); // Drives the undo toast
+  const [notebooks, setNotebooks] = useState<Notebook[]>([]);
+  const [activeNotebookId, setActiveNotebook] = useState(getActiveNotebookId());
+  const [showBackupReminder, setShowBackupReminder] = useState(false);
 
+  const refreshEntries = async () => {
+    setEntries(await getEntries());
+  };
+
+  const refreshNotebooks = async () => {
+    const list = await getNotebooks();
+    setNotebooks(list);
+    // The active notebook may have been deleted in another tab or by a restore
+    if (activeNotebookId !== ALL_NOTEBOOKS && !list.some(n => n.id === activeNotebookId)) handleSelectNotebook(ALL_NOTEBOOKS);
+    await refreshEntries(); // Deleting a notebook moves its entries
+  };
+
+  useEffect(() => {
+    // Load entries on mount (or once the vault has been unlocked), purging expired trash first
+    if (!isLocked) purgeExpiredTrash().catch(console.error).then(refreshNotebooks);
+  }, [isLocked]);
+
+  useEffect(() => {
+    // Pick up changes saved in other open tabs
+    if (isLocked) return;
+    return subscribeToChanges(message => {
+      if (message.kind === 'entries') refreshEntries();
+      if (message.kind === 'notebooks') refreshNotebooks();
+    });
+  }, [isLocked, activeNotebookId]);
+
+  useEffect(() => {
+    // Device sync runs in one tab at a time; the others pick up its changes through tabSync.
+    // Reload once a sync in this tab has pulled or deleted anything.
+    if (isLocked) return;
+    let wasSyncing = false;
+    const unsubscribe = subscribeToSyncStatus(status => {
+      if (wasSyncing && status.phase !== 'syncing') refreshNotebooks();
+      wasSyncing = status.phase === 'syncing';
+    });
+    const stopAutoSync = startAutoSync();
+    return () => {
+      unsubscribe();
+      stopAutoSync();
+    };
+  }, [isLocked, activeNotebookId]);
+
+  useEffect(() => {
+    // Resume analysis queued by an import, and show each result as it lands
+    if (isLocked) return;
+    let completed = 0;
+    const unsubscribe = subscribeToAnalysisQueue(status => {
+      if (status.completed !== completed) refreshEntries();
+      completed = status.completed;
+    });
+    startAnalysisQueue();
+    return unsubscribe;
+  }, [isLocked]);
+
+  useEffect(() => {
+    // Folder backups run on their own schedule; other browsers get a reminder once one is due
+    if (isLocked) return;
+    return startBackupScheduler();
+  }, [isLocked]);
+
+  const hasEntries = entries.length > 0;
   useEffect(() => {
-    // Load entries on mount
-    setEntries(getEntries());
-  }, []);
+    setShowBackupReminder(shouldShowBackupReminder(hasEntries));
+  }, [hasEntries]);
 
-  const handleSaveEntry = (entry: JournalEntry) => {
-    saveEntry(entry);
-    setEntries(getEntries()); // Refresh list
+  const handleSelectNotebook = (notebookId: string) => {
+    setActiveNotebookId(notebookId);
+    setActiveNotebook(notebookId);
+  };
+
+  // Entries of the selected notebook; everything when "All notebooks" is selected
+  const visibleEntries = useMemo(() => (
+    activeNotebookId === ALL_NOTEBOOKS ? entries : entries.filter(e => getEntryNotebookId(e) === activeNotebookId)
+  ), [entries, activeNotebookId]);
+
+  const notebookEntryCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    entries.forEach(e => {
+      const id = getEntryNotebookId(e);
+      counts[id] = (counts[id] || 0) + 1;
+    });
+    return counts;
+  }, [entries]);
+
+  // Reports are cached per notebook, or journal-wide for "All notebooks"
+  const reportNotebookId = activeNotebookId === ALL_NOTEBOOKS ? undefined : activeNotebookId;
+
+  const handleSaveEntry = async (entry: JournalEntry) => {
+    await saveEntry(entry);
+    await refreshEntries();
     setEditingEntry(null);
     setSuggestedTodos(undefined);
+    setResumedDraft(null);
     setView(ViewMode.LIST); // Go to list after save
   };
 
   const handleEditEntry = (entry: JournalEntry) => {
     setEditingEntry(entry);
     setSuggestedTodos(undefined);
+    setResumedDraft(null);
+    setView(ViewMode.WRITE);
+  };
+
+  // A draft of a deleted entry opens as a new entry that keeps the old id
+  const handleResumeDraft = (draft: EntryDraft) => {
+    setEditingEntry(draft.isNew ? null : entries.find(e => e.id === draft.entryId) || null);
+    setSuggestedTodos(undefined);
+    setResumedDraft(draft);
     setView(ViewMode.WRITE);
   };
 
-  const handleDeleteEntry = (id: string) => {
-    deleteEntry(id);
-    setEntries(getEntries());
+  // Deleting moves the entry to the trash; the toast offers an immediate undo
+  const handleDeleteEntry = async (id: string) => {
+    await trashEntry(id);
+    await refreshEntries();
+    setTrashedEntryId(id);
+  };
+
+  const handleMoveEntry = async (id: string, notebookId: string) => {
+    await moveEntryToNotebook(id, notebookId);
+    await refreshEntries();
+  };
+
+  const handleUndoDelete = async () => {
+    if (!trashedEntryId) return;
+    setTrashedEntryId(null);
+    await restoreEntry(trashedEntryId);
+    await refreshEntries();
   };
 
   const handleAddTasksToEntry = (tasks: TodoItem[]) => {
       setSuggestedTodos(tasks);
       setEditingEntry(null); // Ensure we are creating a new entry or editing current draft
+      setResumedDraft(null);
       setView(ViewMode.WRITE);
       alert("Tasks added to your Daily Plan!");
   };
@@ -54,35 +180,71 @@ const App: React.FC = () => {
             onSave={handleSaveEntry} 
             initialEntry={editingEntry}
             initialTodos={suggestedTodos}
+            initialDraft={resumedDraft}
+            notebookId={reportNotebookId || DEFAULT_NOTEBOOK_ID}
+            onEntriesChanged={refreshEntries}
           />
         );
       case ViewMode.LIST:
         return (
           <EntryList 
-            entries={entries} 
+            entries={visibleEntries} 
+            notebooks={notebooks}
             onEdit={handleEditEntry}
             onDelete={handleDeleteEntry}
+            onMove={handleMoveEntry}
+            onResumeDraft={handleResumeDraft}
           />
         );
       case ViewMode.ANALYTICS:
-        return <Dashboard entries={entries} />;
+        return <Dashboard entries={visibleEntries} notebookId={reportNotebookId} />;
       case ViewMode.GUIDANCE:
         return (
             <Guidance 
-                entries={entries} 
+                entries={visibleEntries} 
+                notebookId={reportNotebookId}
                 onAddTasksToEntry={handleAddTasksToEntry}
             />
         );
+      case ViewMode.TRASH:
+        return <Trash onEntriesChanged={refreshEntries} />;
       case ViewMode.SETTINGS:
-        return <Settings />;
+        return <Settings notebooks={notebooks} onEntriesChanged={refreshEntries} />;
       default:
-        return <EntryList entries={entries} onEdit={handleEditEntry} onDelete={handleDeleteEntry} />;
+        return <EntryList entries={visibleEntries} notebooks={notebooks} onEdit={handleEditEntry} onDelete={handleDeleteEntry} onMove={handleMoveEntry} onResumeDraft={handleResumeDraft} />;
     }
   };
 
+  if (isLocked) {
+    return (
+      <>
+        <DatabaseNotice />
+        <VaultUnlock onUnlock={() => setIsLocked(false)} />
+      </>
+    );
+  }
+
   return (
-    <Layout currentView={view} setView={setView}>
+    <Layout
+      currentView={view}
+      setView={setView}
+      notebooks={notebooks}
+      activeNotebookId={activeNotebookId}
+      notebookEntryCounts={notebookEntryCounts}
+      onSelectNotebook={handleSelectNotebook}
+      onNotebooksChanged={refreshNotebooks}
+    >
+      <DatabaseNotice />
+      {showBackupReminder && <BackupReminder onClose={() => setShowBackupReminder(false)} />}
       {renderContent()}
+      {trashedEntryId && (
+        <UndoToast
+          key={trashedEntryId}
+          message="Entry moved to Trash."
+          onUndo={handleUndoDelete}
+          onDismiss={() => setTrashedEntryId(null)}
+        />
+      )}
     </Layout>
   );
 };
@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { Bot, Save, PlugZap, Loader2, CheckCircle2, AlertTriangle } from 'lucide-react';
+import { AIProviderId, AISettings, getAISettings, setAISettings, createAIProvider } from '../services/aiProvider';
+
+const isLocalUrl = (url: string) => /^http:\/\/(localhost|127\.0\.0\.1|\[::1\])(:\d+)?(\/|$)/i.test(url);
+
+const AIProviderSettings: React.FC = () => {
+  const [settings, setSettings] = useState<AISettings>(getAISettings);
+  const [isChecking, setIsChecking] = useState(false);
+  const [result, setResult] = useState<{ ok: boolean, message: string } | null>(null);
+
+  const update = <K extends 'gemini' | 'openai'>(section: K, changes: Partial<AISettings[K]>) => {
+    setSettings(prev => ({ ...prev, [section]: { ...prev[section], ...changes } }));
+    setResult(null);
+  };
+
+  const validate = (): AISettings | null => {
+    const trimmed: AISettings = {
+      provider: settings.provider,
+      gemini: { apiKey: settings.gemini.apiKey.trim(), model: settings.gemini.model.trim(), imageModel: settings.gemini.imageModel.trim() },
+      openai: {
+        baseUrl: settings.openai.baseUrl.trim(),
+        apiKey: settings.openai.apiKey.trim(),
+        model: settings.openai.model.trim(),
+        imageModel: settings.openai.imageModel.trim(),
+        transcriptionModel: settings.openai.transcriptionModel.trim()
+      }
+    };
+    const model = trimmed.provider === 'gemini' ? trimmed.gemini.model : trimmed.openai.model;
+    if (!model) {
+      alert("Enter the name of the model to use.");
+      return null;
+    }
+    if (trimmed.provider === 'openai-compatible') {
+      const url = trimmed.openai.baseUrl;
+      if (!/^https?:\/\//i.test(url)) {
+        alert("Enter the full server URL, starting with http:// or https://");
+        return null;
+      }
+      if (/^http:\/\//i.test(url) && !isLocalUrl(url) && !confirm("This server does not use HTTPS, so your entries would be sent unencrypted over the network. Continue?")) {
+        return null;
+      }
+    }
+    return trimmed;
+  };
+
+  const handleSave = () => {
+    const valid = validate();
+    if (!valid) return;
+    setAISettings(valid);
+    setSettings(valid);
+    setResult({ ok: true, message: "Saved. AI features now use this provider." });
+  };
+
+  const handleCheck = async () => {
+    const valid = validate();
+    if (!valid) return;
+    setIsChecking(true);
+    setResult(null);
+    try {
+      await createAIProvider(valid).checkConnection();
+      setResult({ ok: true, message: "Connected. Save to start using this provider." });
+    } catch (e: any) {
+      console.error(e);
+      setResult({ ok: false, message: e?.message || "Could not connect." });
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const inputClass = "w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-lumina-500";
+  const buttonClass = "py-2 px-4 bg-slate-50 hover:bg-slate-100 text-slate-700 font-medium rounded-lg border border-slate-200 transition-all flex items-center justify-center gap-2 disabled:opacity-50 text-sm";
+  const labelClass = "text-xs text-slate-500 flex flex-col gap-1";
+
+  return (
+    <div className="mt-8 bg-white rounded-2xl shadow-sm border border-slate-200 p-6">
+      <div className="flex items-center gap-3 mb-4">
+        <Bot className="text-lumina-500" size={24} />
+        <h3 className="font-bold text-slate-800">AI Provider</h3>
+      </div>
+      <p className="text-slate-600 text-sm leading-relaxed mb-5">
+        Choose who analyzes your entries. <strong>Google Gemini</strong> supports every feature, including memory videos.
+        An <strong>OpenAI-compatible</strong> server can be OpenAI itself or a model running on your own computer with Ollama or
+        llama.cpp, so your entries never leave it. Local servers must allow requests from this page (for Ollama, set <code>OLLAMA_ORIGINS</code>).
+      </p>
+
+      <div className="space-y-3 max-w-sm">
+        <select
+          value={settings.provider}
+          onChange={e => { setSettings(prev => ({ ...prev, provider: e.target.value as AIProviderId })); setResult(null); }}
+          className={inputClass}
+        >
+          <option value="gemini">Google Gemini</option>
+          <option value="openai-compatible">OpenAI-compatible (OpenAI, Ollama, llama.cpp)</option>
+        </select>
+
+        {settings.provider === 'gemini' ? (
+          <>
+            <label className={labelClass}>
+              API key
+              <input type="password" value={settings.gemini.apiKey} onChange={e => update('gemini', { apiKey: e.target.value })} placeholder="Leave empty to use the built-in key" autoComplete="off" className={inputClass} />
+            </label>
+            <label className={labelClass}>
+              Model
+              <input type="text" value={settings.gemini.model} onChange={e => update('gemini', { model: e.target.value })} className={inputClass} />
+            </label>
+            <label className={labelClass}>
+              Image model
+              <input type="text" value={settings.gemini.imageModel} onChange={e => update('gemini', { imageModel: e.target.value })} placeholder="Leave empty to turn image features off" className={inputClass} />
+            </label>
+          </>
+        ) : (
+          <>
+            <label className={labelClass}>
+              Server URL
+              <input type="url" value={settings.openai.baseUrl} onChange={e => update('openai', { baseUrl: e.target.value })} placeholder="http://localhost:11434/v1" className={inputClass} />
+            </label>
+            <label className={labelClass}>
+              API key
+              <input type="password" value={settings.openai.apiKey} onChange={e => update('openai', { apiKey: e.target.value })} placeholder="Not needed for most local servers" autoComplete="off" className={inputClass} />
+            </label>
+            <label className={labelClass}>
+              Model
+              <input type="text" value={settings.openai.model} onChange={e => update('openai', { model: e.target.value })} placeholder="llama3.1, gpt-4o-mini..." className={inputClass} />
+            </label>
+            <label className={labelClass}>
+              Image model
+              <input type="text" value={settings.openai.imageModel} onChange={e => update('openai', { imageModel: e.target.value })} placeholder="Optional, e.g. gpt-image-1" className={inputClass} />
+            </label>
+            <label className={labelClass}>
+              Transcription model
+              <input type="text" value={settings.openai.transcriptionModel} onChange={e => update('openai', { transcriptionModel: e.target.value })} placeholder="Optional, e.g. whisper-1" className={inputClass} />
+            </label>
+          </>
+        )}
+
+        <p className="text-[10px] text-slate-400">API keys are stored in this browser only, without Vault encryption.</p>
+
+        <div className="flex flex-wrap gap-2">
+          <button onClick={handleSave} disabled={isChecking} className={buttonClass}>
+            <Save size={16} /> Save
+          </button>
+          <button onClick={handleCheck} disabled={isChecking} className={buttonClass}>
+            {isChecking ? <Loader2 className="animate-spin" size={16} /> : <PlugZap size={16} />}
+            {isChecking ? 'Checking...' : 'Test Connection'}
+          </button>
+        </div>
+      </div>
+
+      {result && (
+        <div className={`flex items-start gap-2 text-xs rounded-lg p-3 mt-4 max-w-sm border ${result.ok ? 'text-emerald-700 bg-emerald-50 border-emerald-100' : 'text-red-700 bg-red-50 border-red-100'}`}>
+          {result.ok ? <CheckCircle2 size={14} className="shrink-0 mt-0.5" /> : <AlertTriangle size={14} className="shrink-0 mt-0.5" />}
+          <span className="break-words min-w-0">{result.message}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AIProviderSettings;
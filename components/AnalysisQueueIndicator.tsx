@@ -0,0 +1,39 @@
+import React, { useEffect, useState } from 'react';
+import { BrainCircuit, AlertTriangle, X } from 'lucide-react';
+import { AnalysisQueueStatus, getAnalysisQueueStatus, subscribeToAnalysisQueue, startAnalysisQueue, clearAnalysisQueue } from '../services/analysisQueue';
+
+const AnalysisQueueIndicator: React.FC = () => {
+  const [status, setStatus] = useState<AnalysisQueueStatus>(getAnalysisQueueStatus());
+
+  useEffect(() => subscribeToAnalysisQueue(setStatus), []);
+
+  if (status.pending === 0) return null;
+
+  const hasError = !!status.error && !status.isRunning;
+  const label = hasError
+    ? `Analysis paused · ${status.pending} left`
+    : `Analyzing · ${status.pending} left`;
+
+  return (
+    <div className={`w-full mb-3 flex items-center gap-1 rounded-lg text-xs font-medium ${hasError ? 'text-amber-600' : 'text-lumina-600'}`}>
+      <button
+        onClick={startAnalysisQueue}
+        disabled={status.isRunning}
+        title={status.error || `${status.completed} analyzed so far`}
+        className="flex-1 min-w-0 flex items-center justify-center lg:justify-start gap-2 px-3 py-2 rounded-lg hover:bg-slate-50"
+      >
+        {hasError ? <AlertTriangle size={16} className="shrink-0" /> : <BrainCircuit size={16} className="shrink-0 animate-pulse" />}
+        <span className="hidden lg:block truncate">{label}</span>
+      </button>
+      <button
+        onClick={() => { if (confirm("Stop analyzing the remaining entries?")) clearAnalysisQueue(); }}
+        className="hidden lg:block p-1 text-slate-400 hover:text-slate-600 rounded"
+        title="Cancel remaining analysis"
+      >
+        <X size={12} />
+      </button>
+    </div>
+  );
+};
+
+export default AnalysisQueueIndicator;
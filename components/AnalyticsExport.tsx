@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { Table2, Download, Loader2 } from 'lucide-react';
+import { Notebook } from '../types';
+import { getEntries, getEntryNotebookId, ALL_NOTEBOOKS } from '../services/storage';
+import { downloadBlob } from '../services/storageUsage';
+import { toLocalDateKey } from '../services/calendar';
+import { ANALYTICS_COLUMNS, DEFAULT_ANALYTICS_COLUMNS, AnalyticsFormat, buildAnalyticsExport, getAnalyticsColumns, setAnalyticsColumns } from '../services/analyticsExport';
+
+interface AnalyticsExportProps {
+  notebooks: Notebook[];
+}
+
+const lastDays = (days: number): [string, string] => {
+  const now = new Date();
+  return [toLocalDateKey(new Date(now.getFullYear(), now.getMonth(), now.getDate() - days + 1)), toLocalDateKey(now)];
+};
+
+const thisYear = (): [string, string] => {
+  const year = new Date().getFullYear();
+  return [`${year}-01-01`, `${year}-12-31`];
+};
+
+const AnalyticsExport: React.FC<AnalyticsExportProps> = ({ notebooks }) => {
+  const [[from, to], setRange] = useState<[string, string]>(lastDays(30));
+  const [notebookId, setNotebookId] = useState(ALL_NOTEBOOKS);
+  const [format, setFormat] = useState<AnalyticsFormat>('csv');
+  const [columns, setColumns] = useState<string[]>(getAnalyticsColumns);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const updateColumns = (next: string[]) => {
+    setColumns(next);
+    setAnalyticsColumns(next);
+  };
+
+  const toggleColumn = (key: string) => {
+    // Kept in table order, whatever order they were ticked in
+    const next = columns.includes(key) ? columns.filter(k => k !== key) : [...columns, key];
+    updateColumns(ANALYTICS_COLUMNS.map(c => c.key).filter(k => next.includes(k)));
+  };
+
+  const handleExport = async () => {
+    if (!from || !to || from > to) {
+      alert("Choose a start date that is on or before the end date.");
+      return;
+    }
+    if (columns.length === 0) {
+      alert("Choose at least one column to export.");
+      return;
+    }
+    setIsExporting(true);
+    try {
+      const entries = (await getEntries()).filter(entry => notebookId === ALL_NOTEBOOKS || getEntryNotebookId(entry) === notebookId);
+      const { blob, rowCount } = buildAnalyticsExport(entries, {
+        from, to, columns, format, notebookNames: new Map(notebooks.map(n => [n.id, n.name] as const))
+      });
+      if (rowCount === 0) {
+        alert("There are no entries in this date range.");
+        return;
+      }
+      downloadBlob(blob, `lumina_analytics_${from}_to_${to}.${format === 'csv' ? 'csv' : 'ndjson'}`);
+    } catch (e) {
+      console.error(e);
+      alert("Failed to export the analytics data.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const inputClass = "border border-slate-200 rounded-lg px-3 py-2 text-sm text-slate-700 bg-white focus:outline-none focus:ring-2 focus:ring-lumina-100";
+  const presetClass = "text-xs px-2.5 py-1 rounded-full border border-slate-200 text-slate-500 hover:bg-slate-50";
+
+  return (
+    <div className="mt-8 bg-white rounded-2xl shadow-sm border border-slate-200 p-6">
+      <div className="flex items-center gap-3 mb-4">
+        <Table2 className="text-lumina-500" size={24} />
+        <h3 className="font-bold text-slate-800">Analytics Export</h3>
+      </div>
+      <p className="text-slate-600 text-sm leading-relaxed mb-5">
+        Download the numbers behind your Dashboard, one row per entry, to explore trends in a spreadsheet or notebook.
+        Entry text is not included unless you pick the summary column.
+      </p>
+
+      <div className="flex flex-wrap items-end gap-3 mb-3">
+        <label className="text-xs text-slate-500 flex flex-col gap-1">
+          From
+          <input type="date" value={from} onChange={e => setRange([e.target.value, to])} className={inputClass} />
+        </label>
+        <label className="text-xs text-slate-500 flex flex-col gap-1">
+          To
+          <input type="date" value={to} onChange={e => setRange([from, e.target.value])} className={inputClass} />
+        </label>
+        {notebooks.length > 1 && (
+          <select value={notebookId} onChange={e => setNotebookId(e.target.value)} className={inputClass}>
+            <option value={ALL_NOTEBOOKS}>All notebooks</option>
+            {notebooks.map(n => <option key={n.id} value={n.id}>{n.name} only</option>)}
+          </select>
+        )}
+        <select value={format} onChange={e => setFormat(e.target.value as AnalyticsFormat)} className={inputClass}>
+          <option value="csv">CSV (spreadsheets)</option>
+          <option value="ndjson">JSON lines (NDJSON)</option>
+        </select>
+      </div>
+      <div className="flex gap-2 mb-5">
+        <button onClick={() => setRange(lastDays(30))} className={presetClass}>Last 30 days</button>
+        <button onClick={() => setRange(lastDays(90))} className={presetClass}>Last 90 days</button>
+        <button onClick={() => setRange(thisYear())} className={presetClass}>This year</button>
+      </div>
+
+      <div className="mb-5">
+        <div className="flex items-center justify-between mb-2">
+          <span className="text-xs font-bold uppercase tracking-wider text-slate-400">Columns</span>
+          <span className="flex gap-3 text-xs">
+            <button onClick={() => updateColumns(ANALYTICS_COLUMNS.map(c => c.key))} className="text-lumina-600 hover:text-lumina-700">All</button>
+            <button onClick={() => updateColumns(DEFAULT_ANALYTICS_COLUMNS)} className="text-slate-500 hover:text-slate-700">Defaults</button>
+          </span>
+        </div>
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-x-4 gap-y-1.5">
+          {ANALYTICS_COLUMNS.map(column => (
+            <label key={column.key} className="flex items-center gap-2 text-sm text-slate-600">
+              <input type="checkbox" checked={columns.includes(column.key)} onChange={() => toggleColumn(column.key)} />
+              {column.label}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <button
+        onClick={handleExport}
+        disabled={isExporting}
+        className="py-2 px-4 bg-slate-50 hover:bg-slate-100 text-slate-700 font-medium rounded-lg border border-slate-200 transition-all flex items-center justify-center gap-2 disabled:opacity-50 text-sm"
+      >
+        {isExporting ? <Loader2 className="animate-spin" size={16} /> : <Download size={16} />}
+        {isExporting ? 'Preparing...' : `Download ${format === 'csv' ? 'CSV' : 'NDJSON'}`}
+      </button>
+    </div>
+  );
+};
+
+export default AnalyticsExport;
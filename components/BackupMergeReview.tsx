@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { GitMerge, Loader2, Plus, RefreshCw, SkipForward } from 'lucide-react';
+import { BackupMergePlan, ConflictResolution, summarizeMergePlan } from '../services/backup';
+
+interface BackupMergeReviewProps {
+  plan: BackupMergePlan;
+  isApplying: boolean;
+  onApply: (plan: BackupMergePlan) => void;
+  onCancel: () => void;
+}
+
+const formatTimestamp = (iso: string) =>
+  new Date(iso).toLocaleString('en-US', { month: 'short', day: 'numeric', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const BackupMergeReview: React.FC<BackupMergeReviewProps> = ({ plan, isApplying, onApply, onCancel }) => {
+  const [conflicts, setConflicts] = useState(plan.conflicts);
+  const currentPlan = { ...plan, conflicts };
+  const summary = summarizeMergePlan(currentPlan);
+
+  const setResolution = (id: string, resolution: ConflictResolution) => {
+    setConflicts(prev => prev.map(c => c.id === id ? { ...c, resolution } : c));
+  };
+
+  return (
+    <div className="mt-8 bg-white rounded-2xl shadow-sm border border-lumina-200 overflow-hidden animate-fade-in">
+      <div className="p-6 border-b border-slate-100">
+        <div className="flex items-center gap-3 mb-2">
+          <GitMerge className="text-lumina-500" size={24} />
+          <h3 className="font-bold text-slate-800">Review Merge</h3>
+        </div>
+        <p className="text-slate-500 text-sm">
+          Nothing has been changed yet. Entries are matched by ID; when both copies were edited, the newer one is selected.
+        </p>
+
+        <div className="grid grid-cols-3 gap-4 mt-5">
+          <div className="bg-emerald-50 border border-emerald-100 rounded-xl p-4">
+            <div className="flex items-center gap-2 text-emerald-700 text-xs font-bold uppercase tracking-wider"><Plus size={14} /> Added</div>
+            <div className="text-2xl font-bold text-slate-800 mt-1">{summary.added}</div>
+          </div>
+          <div className="bg-sky-50 border border-sky-100 rounded-xl p-4">
+            <div className="flex items-center gap-2 text-sky-700 text-xs font-bold uppercase tracking-wider"><RefreshCw size={14} /> Updated</div>
+            <div className="text-2xl font-bold text-slate-800 mt-1">{summary.updated}</div>
+          </div>
+          <div className="bg-slate-50 border border-slate-200 rounded-xl p-4">
+            <div className="flex items-center gap-2 text-slate-500 text-xs font-bold uppercase tracking-wider"><SkipForward size={14} /> Skipped</div>
+            <div className="text-2xl font-bold text-slate-800 mt-1">{summary.skipped}</div>
+          </div>
+        </div>
+      </div>
+
+      {conflicts.length > 0 && (
+        <div className="p-6 border-b border-slate-100">
+          <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-3">
+            {conflicts.length} {conflicts.length === 1 ? 'entry differs' : 'entries differ'} between this device and the backup
+          </h4>
+          <ul className="space-y-3 max-h-96 overflow-y-auto pr-2">
+            {conflicts.map(conflict => (
+              <li key={conflict.id} className="border border-slate-200 rounded-xl p-4">
+                <div className="text-xs font-bold text-slate-500 mb-3">
+                  Entry from {new Date(conflict.local.createdAt).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })}
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  {(['local', 'incoming'] as ConflictResolution[]).map(side => {
+                    const entry = side === 'local' ? conflict.local : conflict.incoming;
+                    const isSelected = conflict.resolution === side;
+                    return (
+                      <button
+                        key={side}
+                        onClick={() => setResolution(conflict.id, side)}
+                        className={`text-left p-3 rounded-lg border transition-all ${isSelected ? 'border-lumina-400 bg-lumina-50 ring-2 ring-lumina-100' : 'border-slate-200 hover:border-slate-300'}`}
+                      >
+                        <div className="flex justify-between items-center mb-1">
+                          <span className="text-xs font-bold text-slate-700">
+                            {side === 'incoming' ? (conflict.local.deletedAt ? 'Restore from backup' : 'Use backup') : conflict.local.deletedAt ? 'Keep in trash' : 'Keep this device'}
+                          </span>
+                          <span className="text-[10px] text-slate-400">edited {formatTimestamp(entry.updatedAt)}</span>
+                        </div>
+                        <p className="text-xs text-slate-600 font-serif line-clamp-3">{entry.content || <em>No text</em>}</p>
+                      </button>
+                    );
+                  })}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="p-4 bg-slate-50 flex justify-end gap-2">
+        <button onClick={onCancel} disabled={isApplying} className="px-4 py-2 text-sm text-slate-500 hover:text-slate-700 disabled:opacity-50">
+          Cancel
+        </button>
+        <button
+          onClick={() => onApply(currentPlan)}
+          disabled={isApplying}
+          className="px-5 py-2 bg-lumina-600 text-white rounded-lg hover:bg-lumina-700 transition-colors text-sm font-medium flex items-center gap-2 disabled:opacity-50"
+        >
+          {isApplying ? <Loader2 className="animate-spin" size={16} /> : <GitMerge size={16} />}
+          {isApplying ? 'Merging...' : 'Apply Merge'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default BackupMergeReview;
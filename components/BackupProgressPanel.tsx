@@ -0,0 +1,64 @@
+import React from 'react';
+import { Loader2, CheckCircle2, XCircle, Circle, X } from 'lucide-react';
+import { BackupProgress, BackupFileProgress } from '../services/backup';
+import { formatBytes } from '../services/storageUsage';
+
+interface BackupProgressPanelProps {
+  progress: BackupProgress;
+  onCancel: () => void;
+}
+
+const MAX_PENDING_SHOWN = 5;
+
+const FileRow: React.FC<{ file: BackupFileProgress }> = ({ file }) => (
+  <li className="flex items-center gap-2 py-1">
+    {file.status === 'working' && <Loader2 size={12} className="animate-spin text-lumina-500 shrink-0" />}
+    {file.status === 'done' && <CheckCircle2 size={12} className="text-green-500 shrink-0" />}
+    {file.status === 'failed' && <XCircle size={12} className="text-red-500 shrink-0" />}
+    {file.status === 'pending' && <Circle size={12} className="text-slate-300 shrink-0" />}
+    <span className="truncate flex-1">{file.mimeType || 'file'} · {file.id.slice(0, 8)}</span>
+    <span className="text-slate-400 shrink-0">{formatBytes(file.size)}</span>
+  </li>
+);
+
+const BackupProgressPanel: React.FC<BackupProgressPanelProps> = ({ progress, onCancel }) => {
+  const { stage, files, bytesDone, bytesTotal } = progress;
+  const percent = bytesTotal > 0 ? Math.min(100, Math.round((bytesDone / bytesTotal) * 100)) : 0;
+  const doneCount = files.filter(f => f.status === 'done').length;
+  const failedCount = files.filter(f => f.status === 'failed').length;
+  // Thousands of finished rows would only slow rendering down; show what is moving or went wrong
+  const visibleFiles = [
+    ...files.filter(f => f.status === 'working' || f.status === 'failed'),
+    ...files.filter(f => f.status === 'pending').slice(0, MAX_PENDING_SHOWN)
+  ];
+
+  return (
+    <div className="border border-lumina-100 bg-lumina-50/40 rounded-xl p-5 animate-fade-in">
+      <div className="flex items-center justify-between gap-3 mb-2">
+        <span className="text-sm font-semibold text-slate-700 flex items-center gap-2">
+          <Loader2 size={14} className="animate-spin text-lumina-500" /> {stage}...
+        </span>
+        <button onClick={onCancel} className="text-xs text-slate-500 hover:text-red-600 flex items-center gap-1">
+          <X size={12} /> Cancel
+        </button>
+      </div>
+
+      <div className="h-2 bg-white rounded-full overflow-hidden border border-slate-100">
+        <div className="h-full bg-lumina-500 transition-all" style={{ width: `${bytesTotal > 0 ? percent : 100}%` }} />
+      </div>
+      <p className="text-xs text-slate-500 mt-1.5">
+        {bytesTotal > 0 && `${formatBytes(bytesDone)} of ${formatBytes(bytesTotal)} · `}
+        {files.length > 0 && `${doneCount} of ${files.length} file${files.length === 1 ? '' : 's'}`}
+        {failedCount > 0 && ` · ${failedCount} failed`}
+      </p>
+
+      {visibleFiles.length > 0 && (
+        <ul className="mt-3 text-xs text-slate-600 max-h-40 overflow-y-auto">
+          {visibleFiles.map(file => <FileRow key={file.id} file={file} />)}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default BackupProgressPanel;
@@ -0,0 +1,55 @@
+import React, { useState } from 'react';
+import { HardDriveDownload, Loader2, X } from 'lucide-react';
+import { exportFullBackup } from '../services/backup';
+import { downloadBlob } from '../services/storageUsage';
+import { getScheduledBackupStatus, recordBackup, snoozeBackupReminder } from '../services/scheduledBackup';
+
+interface BackupReminderProps {
+  onClose: () => void;
+}
+
+// Shown in browsers that cannot back up to a folder, once a backup is overdue
+const BackupReminder: React.FC<BackupReminderProps> = ({ onClose }) => {
+  const [isExporting, setIsExporting] = useState(false);
+  const { lastBackupAt } = getScheduledBackupStatus();
+  const days = lastBackupAt ? Math.floor((Date.now() - new Date(lastBackupAt).getTime()) / (24 * 60 * 60 * 1000)) : null;
+
+  const handleDownload = async () => {
+    setIsExporting(true);
+    try {
+      const blob = await exportFullBackup();
+      downloadBlob(blob, `lumina_full_archive_${new Date().toISOString().split('T')[0]}.zip`);
+      recordBackup();
+      onClose();
+    } catch (e) {
+      console.error(e);
+      alert("Failed to create the backup.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleLater = () => {
+    snoozeBackupReminder();
+    onClose();
+  };
+
+  return (
+    <div className="m-4 lg:mx-10 mb-0 flex flex-wrap items-center gap-3 bg-amber-50 border border-amber-200 text-amber-900 rounded-xl px-4 py-3 text-sm animate-fade-in">
+      <HardDriveDownload size={18} className="shrink-0 text-amber-600" />
+      <span className="flex-1 min-w-[12rem]">
+        {days === null ? "You haven't backed up your journal yet." : `Your last backup was ${days} day${days === 1 ? '' : 's'} ago.`}
+        {' '}Everything lives in this browser, so keep a copy somewhere safe.
+      </span>
+      <button onClick={handleDownload} disabled={isExporting} className="flex items-center gap-2 font-semibold text-amber-800 hover:text-amber-950 disabled:opacity-50">
+        {isExporting && <Loader2 className="animate-spin" size={14} />}
+        {isExporting ? 'Preparing...' : 'Download Backup'}
+      </button>
+      <button onClick={handleLater} className="text-amber-600 hover:text-amber-800" title="Remind me tomorrow">
+        <X size={16} />
+      </button>
+    </div>
+  );
+};
+
+export default BackupReminder;
@@ -0,0 +1,193 @@
+import React, { useEffect, useState } from 'react';
+import { FolderSync, FolderOpen, Loader2, AlertTriangle, History, RefreshCw } from 'lucide-react';
+import {
+  BackupFrequency, BackupSchedule, FolderBackup, ScheduledBackupStatus,
+  getBackupSchedule, setBackupSchedule, isBackupDue,
+  getScheduledBackupStatus, subscribeToScheduledBackup,
+  chooseBackupFolder, reconnectBackupFolder, forgetBackupFolder, runFolderBackup,
+  listFolderBackups, loadFolderBackup
+} from '../services/scheduledBackup';
+import { isVaultEnabled } from '../services/vault';
+
+interface BackupScheduleSettingsProps {
+  onRestore: (file: File) => void; // Continues with the regular merge review
+}
+
+const FREQUENCY_LABELS: Record<BackupFrequency, string> = {
+  off: 'Off',
+  daily: 'Daily',
+  weekly: 'Weekly'
+};
+
+const formatLastBackup = (lastBackupAt?: string): string => {
+  if (!lastBackupAt) return 'Never';
+  const days = Math.floor((Date.now() - new Date(lastBackupAt).getTime()) / (24 * 60 * 60 * 1000));
+  const when = days === 0 ? 'today' : days === 1 ? 'yesterday' : `${days} days ago`;
+  return `${when} (${new Date(lastBackupAt).toLocaleString()})`;
+};
+
+const BackupScheduleSettings: React.FC<BackupScheduleSettingsProps> = ({ onRestore }) => {
+  const [status, setStatus] = useState<ScheduledBackupStatus>(getScheduledBackupStatus());
+  const [schedule, setSchedule] = useState<BackupSchedule>(getBackupSchedule());
+  const [backups, setBackups] = useState<FolderBackup[] | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  useEffect(() => subscribeToScheduledBackup(setStatus), []);
+
+  const updateSchedule = (changes: Partial<BackupSchedule>) => {
+    const next = { ...schedule, ...changes };
+    setBackupSchedule(next);
+    setSchedule(getBackupSchedule());
+  };
+
+  const runAction = async (action: () => Promise<void>) => {
+    setIsWorking(true);
+    try {
+      await action();
+    } catch (e) {
+      // Closing the folder picker rejects with an AbortError
+      if (!(e instanceof DOMException && e.name === 'AbortError')) {
+        console.error(e);
+        alert("Could not use that folder. Please choose another one.");
+      }
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleShowBackups = () => runAction(async () => {
+    setBackups(await listFolderBackups());
+  });
+
+  const handleRestore = (backup: FolderBackup) => runAction(async () => {
+    onRestore(await loadFolderBackup(backup.name));
+    setBackups(null);
+  });
+
+  const handleForget = () => {
+    if (!confirm("Stop backing up to this folder? Backups already in it are kept.")) return;
+    setBackups(null);
+    forgetBackupFolder();
+  };
+
+  const isOverdue = isBackupDue();
+  const isRunning = status.phase === 'running';
+  const hasFolder = status.phase !== 'unsupported' && status.phase !== 'no-folder';
+  const buttonClass = "py-2 px-4 bg-slate-50 hover:bg-slate-100 text-slate-700 font-medium rounded-lg border border-slate-200 transition-all flex items-center justify-center gap-2 disabled:opacity-50 text-sm";
+  const selectClass = "border border-slate-200 rounded-lg px-3 py-2 text-sm text-slate-700 bg-white focus:outline-none focus:ring-2 focus:ring-lumina-100";
+
+  return (
+    <div className="mt-8 bg-white rounded-2xl shadow-sm border border-slate-200 p-6">
+      <div className="flex items-center gap-3 mb-4">
+        <FolderSync className="text-lumina-500" size={24} />
+        <h3 className="font-bold text-slate-800">Automatic Backups</h3>
+      </div>
+
+      <div className={`flex items-center gap-2 text-sm mb-4 ${isOverdue && schedule.frequency !== 'off' ? 'text-amber-700' : 'text-slate-600'}`}>
+        <span className={`w-2 h-2 rounded-full shrink-0 ${isOverdue && schedule.frequency !== 'off' ? 'bg-amber-500' : 'bg-green-500'}`} />
+        Last backup: {formatLastBackup(status.lastBackupAt)}
+      </div>
+
+      {status.phase === 'unsupported' ? (
+        <p className="text-slate-600 text-sm leading-relaxed mb-4">
+          This browser cannot save files to a folder on its own, so Lumina will remind you when it is time to
+          download a Full Archive instead.
+        </p>
+      ) : (
+        <p className="text-slate-600 text-sm leading-relaxed mb-4">
+          Choose a folder (for example one synced by Dropbox or iCloud Drive) and Lumina will save a full backup there
+          while the app is open. Photos and videos are copied only once, and older backups are cleaned up automatically.
+        </p>
+      )}
+
+      <div className="flex flex-wrap items-center gap-4 mb-4">
+        <label className="text-xs text-slate-500 flex items-center gap-2">
+          {status.phase === 'unsupported' ? 'Remind me' : 'Back up'}
+          <select value={schedule.frequency} onChange={e => updateSchedule({ frequency: e.target.value as BackupFrequency })} className={selectClass}>
+            {(Object.keys(FREQUENCY_LABELS) as BackupFrequency[]).map(key => <option key={key} value={key}>{FREQUENCY_LABELS[key]}</option>)}
+          </select>
+        </label>
+        {status.phase !== 'unsupported' && (
+          <label className="text-xs text-slate-500 flex items-center gap-2">
+            Keep the last
+            <input
+              type="number"
+              min={1}
+              max={50}
+              value={schedule.keep}
+              onChange={e => updateSchedule({ keep: Number(e.target.value) || 1 })}
+              className={`${selectClass} w-20`}
+            />
+            backups
+          </label>
+        )}
+      </div>
+
+      {status.phase === 'no-folder' && (
+        <button onClick={() => runAction(chooseBackupFolder)} disabled={isWorking} className={buttonClass}>
+          {isWorking ? <Loader2 className="animate-spin" size={16} /> : <FolderOpen size={16} />} Choose Backup Folder
+        </button>
+      )}
+
+      {hasFolder && (
+        <>
+          <p className="text-xs text-slate-500 mb-3">Saving to <strong className="text-slate-700">{status.folderName}</strong></p>
+          {status.phase === 'needs-permission' && (
+            <div className="mb-3 text-xs text-amber-800 bg-amber-50 border border-amber-100 rounded-lg p-3 flex items-start gap-2">
+              <AlertTriangle size={14} className="shrink-0 mt-0.5" />
+              Your browser needs permission again before Lumina can write to this folder.
+            </div>
+          )}
+          {status.phase === 'error' && status.error && (
+            <div className="mb-3 text-xs text-red-700 bg-red-50 border border-red-100 rounded-lg p-3 flex items-start gap-2">
+              <AlertTriangle size={14} className="shrink-0 mt-0.5" /> {status.error}
+            </div>
+          )}
+          <div className="flex flex-wrap gap-2">
+            {status.phase === 'needs-permission' ? (
+              <button onClick={() => runAction(reconnectBackupFolder)} disabled={isWorking} className={buttonClass}>
+                <FolderOpen size={16} /> Allow Access
+              </button>
+            ) : (
+              <button onClick={() => runAction(runFolderBackup)} disabled={isWorking || isRunning} className={buttonClass}>
+                {isRunning ? <Loader2 className="animate-spin" size={16} /> : <RefreshCw size={16} />}
+                {isRunning ? 'Backing up...' : 'Back Up Now'}
+              </button>
+            )}
+            <button onClick={handleShowBackups} disabled={isWorking || status.phase === 'needs-permission'} className={buttonClass}>
+              <History size={16} /> Restore...
+            </button>
+            <button onClick={() => runAction(chooseBackupFolder)} disabled={isWorking || isRunning} className={buttonClass}>
+              Change Folder
+            </button>
+            <button onClick={handleForget} disabled={isWorking || isRunning} className="py-2 px-4 text-slate-500 hover:text-slate-700 text-sm">
+              Stop Using Folder
+            </button>
+          </div>
+        </>
+      )}
+
+      {backups && (
+        <div className="mt-4 border border-slate-100 rounded-xl divide-y divide-slate-100">
+          {backups.length === 0 && <p className="p-3 text-sm text-slate-500">No backups in this folder yet.</p>}
+          {backups.map(backup => (
+            <div key={backup.name} className="flex items-center justify-between gap-2 p-3 text-sm">
+              <span className="text-slate-700">{new Date(backup.createdAt).toLocaleString()}</span>
+              <button onClick={() => handleRestore(backup)} disabled={isWorking} className="text-lumina-600 hover:text-lumina-700 font-medium text-xs">
+                Review & Merge
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {hasFolder && isVaultEnabled() && (
+        <p className="mt-4 text-xs text-slate-500">
+          Backups in this folder are not encrypted. Keep it somewhere only you can reach, or download a password-protected archive instead.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default BackupScheduleSettings;
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { CalendarClock, Download, Loader2 } from 'lucide-react';
+import { Notebook } from '../types';
+import { getEntries, getEntryNotebookId, ALL_NOTEBOOKS } from '../services/storage';
+import { scheduleBlocksInRange, scheduleIcsBlob, toLocalDateKey } from '../services/calendar';
+import { downloadBlob } from '../services/storageUsage';
+
+interface CalendarExportProps {
+  notebooks: Notebook[];
+}
+
+const thisWeek = (): [string, string] => {
+  const now = new Date();
+  const monday = new Date(now.getFullYear(), now.getMonth(), now.getDate() - ((now.getDay() + 6) % 7));
+  return [toLocalDateKey(monday), toLocalDateKey(new Date(monday.getFullYear(), monday.getMonth(), monday.getDate() + 6))];
+};
+
+const thisMonth = (): [string, string] => {
+  const now = new Date();
+  return [toLocalDateKey(new Date(now.getFullYear(), now.getMonth(), 1)), toLocalDateKey(new Date(now.getFullYear(), now.getMonth() + 1, 0))];
+};
+
+const CalendarExport: React.FC<CalendarExportProps> = ({ notebooks }) => {
+  const [[from, to], setRange] = useState<[string, string]>(thisWeek());
+  const [notebookId, setNotebookId] = useState(ALL_NOTEBOOKS);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async () => {
+    if (!from || !to || from > to) {
+      alert("Choose a start date that is on or before the end date.");
+      return;
+    }
+    setIsExporting(true);
+    try {
+      const entries = (await getEntries()).filter(entry => notebookId === ALL_NOTEBOOKS || getEntryNotebookId(entry) === notebookId);
+      const blocks = scheduleBlocksInRange(entries, from, to);
+      if (blocks.length === 0) {
+        alert("There are no planned schedule blocks in this date range.");
+        return;
+      }
+      downloadBlob(scheduleIcsBlob(blocks), from === to ? `lumina_schedule_${from}.ics` : `lumina_schedule_${from}_to_${to}.ics`);
+    } catch (e) {
+      console.error(e);
+      alert("Failed to export the calendar.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const inputClass = "border border-slate-200 rounded-lg px-3 py-2 text-sm text-slate-700 bg-white focus:outline-none focus:ring-2 focus:ring-lumina-100";
+  const presetClass = "text-xs px-2.5 py-1 rounded-full border border-slate-200 text-slate-500 hover:bg-slate-50";
+
+  return (
+    <div className="mt-8 bg-white rounded-2xl shadow-sm border border-slate-200 p-6">
+      <div className="flex items-center gap-3 mb-4">
+        <CalendarClock className="text-indigo-500" size={24} />
+        <h3 className="font-bold text-slate-800">Calendar Export</h3>
+      </div>
+      <p className="text-slate-600 text-sm leading-relaxed mb-5">
+        Download the hourly schedules you planned as an <strong>.ics</strong> file to add them to Google Calendar, Apple Calendar
+        or Outlook. To bring events the other way, use the import button on an entry's Plan tab.
+      </p>
+
+      <div className="flex flex-wrap items-end gap-3 mb-3">
+        <label className="text-xs text-slate-500 flex flex-col gap-1">
+          From
+          <input type="date" value={from} onChange={e => setRange([e.target.value, to])} className={inputClass} />
+        </label>
+        <label className="text-xs text-slate-500 flex flex-col gap-1">
+          To
+          <input type="date" value={to} onChange={e => setRange([from, e.target.value])} className={inputClass} />
+        </label>
+        {notebooks.length > 1 && (
+          <select value={notebookId} onChange={e => setNotebookId(e.target.value)} className={inputClass}>
+            <option value={ALL_NOTEBOOKS}>All notebooks</option>
+            {notebooks.map(n => <option key={n.id} value={n.id}>{n.name} only</option>)}
+          </select>
+        )}
+      </div>
+      <div className="flex gap-2 mb-5">
+        <button onClick={() => setRange([toLocalDateKey(new Date()), toLocalDateKey(new Date())])} className={presetClass}>Today</button>
+        <button onClick={() => setRange(thisWeek())} className={presetClass}>This week</button>
+        <button onClick={() => setRange(thisMonth())} className={presetClass}>This month</button>
+      </div>
+
+      <button
+        onClick={handleExport}
+        disabled={isExporting}
+        className="py-2 px-4 bg-slate-50 hover:bg-slate-100 text-slate-700 font-medium rounded-lg border border-slate-200 transition-all flex items-center justify-center gap-2 disabled:opacity-50 text-sm"
+      >
+        {isExporting ? <Loader2 className="animate-spin" size={16} /> : <Download size={16} />}
+        {isExporting ? 'Preparing...' : 'Download .ics'}
+      </button>
+    </div>
+  );
+};
+
+export default CalendarExport;
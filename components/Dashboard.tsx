@@ -1,33 +1,49 @@
 
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, BarChart, Bar, Cell } from 'recharts';
 import { JournalEntry, PatternAnalysis, LifeJourneyAnalysis } from '../types';
-import { BrainCircuit, Lightbulb, TrendingUp, Calendar, ArrowRight, BarChart2, Award, Heart, Shield, Compass, Sparkles, Zap, Anchor, Target } from 'lucide-react';
-import { detectPatterns, generateLifeJourneyAnalysis } from '../services/gemini';
+import { BrainCircuit, Lightbulb, TrendingUp, Calendar, ArrowRight, BarChart2, Award, Heart, Shield, Compass, Sparkles, Zap, Anchor, Target, AlertTriangle, CheckCircle2, History } from 'lucide-react';
+import { detectPatterns, generateLifeJourneyAnalysis } from '../services/aiProvider';
+import { describeAIError } from '../services/aiErrors';
+import { reportInputHash } from '../services/analysisCache';
 import { getLifeJourneyAnalysis, saveLifeJourneyAnalysis } from '../services/storage';
+import { subscribeToChanges } from '../services/tabSync';
 
 interface DashboardProps {
   entries: JournalEntry[];
+  notebookId?: string; // Selected notebook; undefined for the whole journal
 }
 
 type TabMode = 'overview' | 'journey';
 
-const Dashboard: React.FC<DashboardProps> = ({ entries }) => {
+const Dashboard: React.FC<DashboardProps> = ({ entries, notebookId }) => {
   const [activeTab, setActiveTab] = useState<TabMode>('overview');
   
   // Pattern State
   const [patternData, setPatternData] = useState<PatternAnalysis | null>(null);
   const [isLoadingPatterns, setIsLoadingPatterns] = useState(false);
+  const [patternError, setPatternError] = useState<string | null>(null);
 
   // Journey Report State
   const [journeyData, setJourneyData] = useState<LifeJourneyAnalysis | null>(null);
   const [isLoadingJourney, setIsLoadingJourney] = useState(false);
+  const [journeyError, setJourneyError] = useState<string | null>(null);
 
   useEffect(() => {
     // Load cached reports
-    const cachedJourney = getLifeJourneyAnalysis();
-    if (cachedJourney) setJourneyData(cachedJourney);
-  }, []);
+    setPatternData(null);
+    const loadJourney = () => getLifeJourneyAnalysis(notebookId).then(setJourneyData);
+    loadJourney();
+    // A report generated in another tab replaces the one shown here
+    return subscribeToChanges(message => {
+      if (message.kind === 'reports') loadJourney();
+    });
+  }, [notebookId]);
+
+  // A saved report generated from exactly these entries is current; regenerating it would change nothing
+  const entriesHash = useMemo(() => reportInputHash(entries), [entries]);
+  const journeyCurrent = !!journeyData?.inputHash && journeyData.inputHash === entriesHash;
+  const journeyStale = !!journeyData?.inputHash && !journeyCurrent;
 
   // Prepare chart data
   const chartData = [...entries]
@@ -60,25 +76,30 @@ const Dashboard: React.FC<DashboardProps> = ({ entries }) => {
 
   const handleDetectPatterns = async () => {
       setIsLoadingPatterns(true);
+      setPatternError(null);
       try {
           const result = await detectPatterns(entries);
           setPatternData(result);
           // In a real app, save to storage
       } catch (e) {
           console.error(e);
+          setPatternError(describeAIError(e, "Pattern analysis failed. Please try again."));
       } finally {
           setIsLoadingPatterns(false);
       }
   };
 
   const handleGenerateJourney = async () => {
+      if (journeyCurrent) return;
       setIsLoadingJourney(true);
+      setJourneyError(null);
       try {
           const result = await generateLifeJourneyAnalysis(entries);
           setJourneyData(result);
-          saveLifeJourneyAnalysis(result);
+          saveLifeJourneyAnalysis(result, notebookId);
       } catch (e) {
           console.error(e);
+          setJourneyError(describeAIError(e, "The journey report could not be generated. Please try again."));
       } finally {
           setIsLoadingJourney(false);
       }
@@ -218,6 +239,13 @@ const Dashboard: React.FC<DashboardProps> = ({ entries }) => {
                         </button>
                     </div>
 
+                    {patternError && (
+                        <div className="flex items-start gap-2 text-sm text-amber-100 bg-amber-500/10 border border-amber-400/20 rounded-xl p-4 mb-6">
+                            <AlertTriangle size={16} className="shrink-0 mt-0.5 text-amber-300" />
+                            <span>{patternError}</span>
+                        </div>
+                    )}
+
                     {patternData ? (
                         <div className="grid grid-cols-1 md:grid-cols-3 gap-6 animate-fade-in">
                             <div className="bg-white/5 backdrop-blur-sm p-6 rounded-xl border border-white/10">
@@ -261,14 +289,29 @@ const Dashboard: React.FC<DashboardProps> = ({ entries }) => {
                 </div>
                 <button 
                    onClick={handleGenerateJourney}
-                   disabled={isLoadingJourney}
+                   disabled={isLoadingJourney || journeyCurrent}
+                   title={journeyCurrent ? "No entries were added or changed since this report" : undefined}
                    className="px-8 py-3 bg-white text-indigo-600 rounded-full font-bold hover:bg-indigo-50 transition-colors shadow-lg disabled:opacity-75 flex items-center gap-2"
                 >
-                   {isLoadingJourney ? <div className="animate-spin w-4 h-4 border-2 border-indigo-600 border-t-transparent rounded-full"></div> : <Sparkles size={18} />}
-                   {isLoadingJourney ? 'Analyzing Journey...' : 'Generate Report'}
+                   {isLoadingJourney ? <div className="animate-spin w-4 h-4 border-2 border-indigo-600 border-t-transparent rounded-full"></div> : journeyCurrent ? <CheckCircle2 size={18} /> : <Sparkles size={18} />}
+                   {isLoadingJourney ? 'Analyzing Journey...' : journeyCurrent ? 'Report Up to Date' : journeyStale ? 'Update Report' : 'Generate Report'}
                 </button>
             </div>
 
+            {journeyStale && !journeyError && (
+                <div className="flex items-center gap-2 text-sm text-slate-600 bg-white border border-slate-200 rounded-xl p-4">
+                    <History size={16} className="shrink-0 text-slate-400" />
+                    <span>Entries were added or edited since this report was generated.</span>
+                </div>
+            )}
+
+            {journeyError && (
+                <div className="flex items-start gap-2 text-sm text-red-700 bg-red-50 border border-red-100 rounded-xl p-4">
+                    <AlertTriangle size={16} className="shrink-0 mt-0.5" />
+                    <span>{journeyError}</span>
+                </div>
+            )}
+
             {journeyData ? (
                 <div className="space-y-8">
                     
@@ -0,0 +1,31 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, RefreshCw } from 'lucide-react';
+import { DatabaseStatus, getDatabaseStatus, subscribeToDatabaseStatus } from '../services/db';
+
+// Explains why the journal cannot load or save while another tab holds the database
+const DatabaseNotice: React.FC = () => {
+  const [status, setStatus] = useState<DatabaseStatus>(getDatabaseStatus());
+
+  useEffect(() => subscribeToDatabaseStatus(setStatus), []);
+
+  if (status === 'ready') return null;
+
+  return (
+    <div className="m-4 lg:mx-10 mb-0 flex flex-wrap items-center gap-3 bg-rose-50 border border-rose-200 text-rose-900 rounded-xl px-4 py-3 text-sm animate-fade-in">
+      <AlertTriangle size={18} className="shrink-0 text-rose-600" />
+      <span className="flex-1 min-w-[12rem]">
+        {status === 'blocked'
+          ? "Lumina is open in another tab with an older version. Close the other tabs to finish updating; your journal loads as soon as they are closed."
+          : "Lumina was updated in another tab. Reload this tab to keep writing; changes made here can no longer be saved."}
+      </span>
+      {status === 'outdated' && (
+        <button onClick={() => window.location.reload()} className="flex items-center gap-2 font-semibold text-rose-800 hover:text-rose-950">
+          <RefreshCw size={14} />
+          Reload
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default DatabaseNotice;
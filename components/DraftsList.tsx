@@ -0,0 +1,69 @@
+import React, { useEffect, useState } from 'react';
+import { FilePen, Trash2, Image as ImageIcon, ListTodo } from 'lucide-react';
+import { EntryDraft } from '../types';
+import { getDrafts, deleteDraft } from '../services/storage';
+import { subscribeToChanges } from '../services/tabSync';
+
+interface DraftsListProps {
+  onResume: (draft: EntryDraft) => void;
+}
+
+const draftTitle = (draft: EntryDraft): string => {
+  const firstLine = draft.content.split('\n').find(line => line.trim());
+  return firstLine ? firstLine.trim().slice(0, 80) : 'Untitled draft';
+};
+
+const DraftsList: React.FC<DraftsListProps> = ({ onResume }) => {
+  const [drafts, setDrafts] = useState<EntryDraft[]>([]);
+
+  const refresh = () => getDrafts().then(setDrafts).catch(console.error);
+
+  useEffect(() => {
+    refresh();
+    return subscribeToChanges(message => {
+      if (message.kind === 'drafts' || message.kind === 'entries') refresh();
+    });
+  }, []);
+
+  const handleDiscard = async (draft: EntryDraft) => {
+    if (!confirm("Discard this draft? Its unsaved changes will be lost.")) return;
+    await deleteDraft(draft.entryId);
+    refresh();
+  };
+
+  if (drafts.length === 0) return null;
+
+  return (
+    <div className="mb-6 bg-white rounded-2xl border border-sky-100 shadow-sm p-4">
+      <h3 className="text-xs font-bold uppercase tracking-wider text-sky-700 mb-3 flex items-center gap-2">
+        <FilePen size={14} /> Unsaved Drafts ({drafts.length})
+      </h3>
+      <ul className="divide-y divide-slate-100">
+        {drafts.map(draft => {
+          const mediaCount = draft.media.length + (draft.reflection ? 1 : 0);
+          const taskCount = draft.todos.length + draft.schedule.length;
+          return (
+            <li key={draft.entryId} className="flex items-center justify-between gap-3 py-2">
+              <button onClick={() => onResume(draft)} className="flex-1 min-w-0 text-left group">
+                <p className="text-sm font-medium text-slate-700 truncate group-hover:text-lumina-700">{draftTitle(draft)}</p>
+                <p className="text-xs text-slate-400 flex items-center gap-2">
+                  {draft.isNew ? 'New entry' : 'Changes to a saved entry'} · {new Date(draft.updatedAt).toLocaleString()}
+                  {mediaCount > 0 && <span className="flex items-center gap-0.5"><ImageIcon size={11} /> {mediaCount}</span>}
+                  {taskCount > 0 && <span className="flex items-center gap-0.5"><ListTodo size={11} /> {taskCount}</span>}
+                </p>
+              </button>
+              <button onClick={() => onResume(draft)} className="text-xs font-medium text-lumina-600 hover:text-lumina-700 shrink-0">
+                Resume
+              </button>
+              <button onClick={() => handleDiscard(draft)} className="p-1 text-slate-300 hover:text-red-500 shrink-0" title="Discard draft">
+                <Trash2 size={14} />
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default DraftsList;
@@ -1,11 +1,19 @@
 
-import React, { useState, useEffect, useRef } from 'react';
-import { Save, Wand2, RefreshCw, Sparkles, Lightbulb, Link2, Cloud, CheckCircle2, Image as ImageIcon, Video, PenTool, Youtube, Download, Loader2, Trash2, Mic, Square, Play, Pause, FileText, Music, ExternalLink, Upload, ListTodo, CalendarClock, Plus, X } from 'lucide-react';
-import { JournalEntry, JournalMedia, TodoItem, ScheduleBlock } from '../types';
-import { analyzeEntryWithGemini, findSimilarConnections, generateJournalImage, generateJournalVideo, transcribeAudio, generatePositiveReflection } from '../services/gemini';
-import { getEntries, saveDraft, getDraft, clearDraft } from '../services/storage';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Save, Wand2, RefreshCw, Sparkles, Lightbulb, Link2, Cloud, CheckCircle2, Image as ImageIcon, Video, PenTool, Youtube, Download, Loader2, Trash2, Mic, Square, Play, Pause, FileText, Music, ExternalLink, Upload, ListTodo, CalendarClock, Plus, X, History, CloudOff, AlertTriangle } from 'lucide-react';
+import { JournalEntry, JournalMedia, TodoItem, ScheduleBlock, EntryRevision, EntryDraft } from '../types';
+import { analyzeEntry, analyzeEntryWithFallback, canUseAI, findSimilarConnections, generateJournalImage, generateJournalVideo, transcribeAudio, generatePositiveReflection, getAICapabilities } from '../services/aiProvider';
+import { describeAIError } from '../services/aiErrors';
+import { pickAnalysis, isAnalysisStale } from '../services/analysisCache';
+import { getEntries, getEntry, saveEntry, saveDraft, getDraft, getDrafts, deleteDraft } from '../services/storage';
+import { subscribeToChanges } from '../services/tabSync';
+import { VaultError } from '../services/vault';
+import { subscribeToSyncStatus } from '../services/sync';
 import { saveMediaBlob, getMediaBlob, blobToBase64 } from '../services/db';
+import { parseIcs, scheduleBlocksForDay, scheduleIcsBlob, formatBlockTime, toLocalDateKey, blockDate, CalendarFormatError, DEFAULT_BLOCK_MINUTES } from '../services/calendar';
+import { downloadBlob } from '../services/storageUsage';
 import DrawingCanvas from './DrawingCanvas';
+import RevisionHistory from './RevisionHistory';
 import { v4 as uuidv4 } from 'uuid';
 
 // Simple ID generator if uuid fails or for compat
@@ -22,17 +30,37 @@ const PROMPTS = [
 ];
 
 interface EntryEditorProps {
-  onSave: (entry: JournalEntry) => void;
+  onSave: (entry: JournalEntry) => Promise<void>;
   initialEntry?: JournalEntry | null;
   initialTodos?: TodoItem[]; // For passing suggestions from Guidance
+  initialDraft?: EntryDraft | null; // Resumed from the drafts list; loaded without asking
+  notebookId: string; // Notebook that new entries are created in
+  onEntriesChanged?: () => void; // After the editor saved the entry itself, e.g. a generated reflection
 }
 
-const EntryEditor: React.FC<EntryEditorProps> = ({ onSave, initialEntry, initialTodos }) => {
+type EditableState = Pick<EntryDraft, 'content' | 'media' | 'reflection' | 'todos' | 'schedule' | 'analysis'>;
+
+const entryAnalysis = (entry: JournalEntry): Partial<JournalEntry> | null => entry.isAnalyzed ? pickAnalysis(entry) : null;
+
+// Compared to decide whether the editor holds anything worth keeping as a draft
+const serializeEditableState = (state: EditableState): string =>
+    JSON.stringify([state.content, state.media, state.reflection ?? null, state.todos, state.schedule, state.analysis]);
+
+// A locked vault says what to do about it; anything else (storage full, database blocked) gets the fallback
+const saveErrorMessage = (error: unknown, fallback: string): string =>
+    error instanceof VaultError ? error.message : fallback;
+
+const formatDraftTime = (draft: EntryDraft) =>
+    new Date(draft.updatedAt).toLocaleString('en-US', { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+const EntryEditor: React.FC<EntryEditorProps> = ({ onSave, initialEntry, initialTodos, initialDraft, notebookId, onEntriesChanged }) => {
   const [activeTab, setActiveTab] = useState<'write' | 'plan'>('write');
   const [content, setContent] = useState('');
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [analysisResult, setAnalysisResult] = useState<Partial<JournalEntry> | null>(null);
   const [similarConnection, setSimilarConnection] = useState<string | null>(null);
+  // The text was edited after it was analyzed
+  const analysisStale = useMemo(() => isAnalysisStale(analysisResult, content), [analysisResult, content]);
   const [saveStatus, setSaveStatus] = useState<'saved' | 'saving' | 'idle'>('idle');
   
   // Planner State
@@ -41,6 +69,8 @@ const EntryEditor: React.FC<EntryEditorProps> = ({ onSave, initialEntry, initial
   const [newTodo, setNewTodo] = useState('');
   const [newScheduleTime, setNewScheduleTime] = useState('08:00');
   const [newScheduleActivity, setNewScheduleActivity] = useState('');
+  const [newScheduleDuration, setNewScheduleDuration] = useState(DEFAULT_BLOCK_MINUTES);
+  const icsInputRef = useRef<HTMLInputElement>(null);
 
   // Media State
   const [showDrawing, setShowDrawing] = useState(false);
@@ -61,75 +91,192 @@ const EntryEditor: React.FC<EntryEditorProps> = ({ onSave, initialEntry, initial
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const timerRef = useRef<number | null>(null);
   const [transcribingId, setTranscribingId] = useState<string | null>(null);
+  const [aiError, setAIError] = useState<string | null>(null); // The last AI feature that failed, shown above the editor
+  const [saveError, setSaveError] = useState<string | null>(null);
 
   // Reflection State
   const [reflection, setReflection] = useState<JournalEntry['reflection'] | undefined>(undefined);
   const [loadedReflectionUrl, setLoadedReflectionUrl] = useState<string | null>(null);
 
+  // Revision History State
+  const [showHistory, setShowHistory] = useState(false);
+
+  // Cross-Tab State
+  const baseUpdatedAtRef = useRef<string | null>(null); // updatedAt of the version this editor started from
+  const [externalChange, setExternalChange] = useState<{ entry: JournalEntry | null } | null>(null); // null entry: deleted elsewhere
+  const [externalDraft, setExternalDraft] = useState<EntryDraft | null>(null); // This draft, changed in another tab
+
+  // Draft State
+  const draftIdRef = useRef<string>(generateId()); // Key of this editor's draft: the entry id, or the id a new entry will get
+  const draftNotebookIdRef = useRef<string | undefined>(undefined); // Notebook of a restored new-entry draft
+  const hasDraftRef = useRef(false); // Whether this editor has written a draft that is still stored
+  const draftWriteRef = useRef<Promise<void>>(Promise.resolve()); // Keeps draft writes and deletes in order
+  const [pendingDraft, setPendingDraft] = useState<EntryDraft | null>(null); // Offered for restoring
+
+  // Shows media and the reflection image from their stored blobs
+  const loadMedia = (media: JournalMedia[], entryReflection?: JournalEntry['reflection']) => {
+      setReflection(entryReflection);
+      setLoadedReflectionUrl(null);
+      if (entryReflection) {
+          // Load reflection image blob
+          getMediaBlob(entryReflection.imageId).then(blob => {
+              if (blob) setLoadedReflectionUrl(URL.createObjectURL(blob));
+          });
+      }
+      setMediaItems(media);
+      setLoadedMediaUrls({});
+      // Load blobs
+      media.forEach(async (m) => {
+          if (m.blobId && !m.externalUrl) {
+              const blob = await getMediaBlob(m.blobId);
+              if (blob) {
+                  const url = URL.createObjectURL(blob);
+                  setLoadedMediaUrls(prev => ({...prev, [m.id]: url}));
+              }
+          }
+      });
+  };
+
+  // Fills the editor from a stored entry (when opening it, or reloading a version saved in another tab)
+  const loadEntry = (entry: JournalEntry) => {
+      baseUpdatedAtRef.current = entry.updatedAt;
+      setContent(entry.content);
+      setAnalysisResult(entryAnalysis(entry));
+      loadMedia(entry.media || [], entry.reflection);
+      setTodos(entry.todos || []);
+      setSchedule(entry.schedule || []);
+  };
+
+  // Loads a draft over the editor. The saved entry stays the base version for conflict checks.
+  const applyDraft = (draft: EntryDraft) => {
+      draftIdRef.current = draft.entryId;
+      draftNotebookIdRef.current = draft.notebookId;
+      hasDraftRef.current = true;
+      setContent(draft.content);
+      setAnalysisResult(draft.analysis);
+      loadMedia(draft.media || [], draft.reflection);
+      setTodos(draft.todos || []);
+      setSchedule(draft.schedule || []);
+      setSimilarConnection(null);
+      setPendingDraft(null);
+  };
+
+  const queueDraftWrite = (write: () => Promise<void>) => {
+      draftWriteRef.current = draftWriteRef.current.then(write).catch(e => console.error("Draft could not be saved", e));
+      return draftWriteRef.current;
+  };
+
+  const discardDraft = (entryId: string) => {
+      if (entryId === draftIdRef.current) hasDraftRef.current = false;
+      queueDraftWrite(() => deleteDraft(entryId));
+  };
+
   // Load initial data
   useEffect(() => {
-    if (initialEntry) {
-        setContent(initialEntry.content);
-        if (initialEntry.isAnalyzed) {
-            setAnalysisResult({
-                moodScore: initialEntry.moodScore,
-                moodLabel: initialEntry.moodLabel,
-                keywords: initialEntry.keywords,
-                summary: initialEntry.summary,
-                reflectionQuestion: initialEntry.reflectionQuestion
-            });
-        }
-        if (initialEntry.reflection) {
-            setReflection(initialEntry.reflection);
-            // Load reflection image blob
-            getMediaBlob(initialEntry.reflection.imageId).then(blob => {
-                if (blob) setLoadedReflectionUrl(URL.createObjectURL(blob));
-            });
-        }
-        if (initialEntry.media) {
-            setMediaItems(initialEntry.media);
-            // Load blobs
-            initialEntry.media.forEach(async (m) => {
-                if (m.blobId && !m.externalUrl) {
-                    const blob = await getMediaBlob(m.blobId);
-                    if (blob) {
-                        const url = URL.createObjectURL(blob);
-                        setLoadedMediaUrls(prev => ({...prev, [m.id]: url}));
-                    }
-                }
-            });
-        }
-        if (initialEntry.todos) setTodos(initialEntry.todos);
-        if (initialEntry.schedule) setSchedule(initialEntry.schedule);
+    setExternalChange(null);
+    setExternalDraft(null);
+    setPendingDraft(null);
+    draftIdRef.current = initialEntry?.id || initialDraft?.entryId || generateId();
+    draftNotebookIdRef.current = undefined;
+    hasDraftRef.current = false;
+    if (initialEntry) loadEntry(initialEntry);
+
+    if (initialDraft) {
+        // The draft may have been auto-saved again since it was picked from the list
+        getDraft(initialDraft.entryId).then(latest => applyDraft(latest || initialDraft));
+    } else if (initialEntry) {
+        getDraft(initialEntry.id).then(draft => { if (draft) setPendingDraft(draft); });
     } else {
-        const draft = getDraft();
-        if (draft && draft.content && !draft.entryId) {
-             if (window.confirm("You have an unsaved draft. Would you like to restore it?")) {
-                 setContent(draft.content);
-             } else {
-                 clearDraft();
-             }
-        }
+        // Offer the most recent unsaved new entry; older ones stay in the drafts list
+        getDrafts().then(drafts => setPendingDraft(drafts.find(d => d.isNew) || null));
         if (initialTodos) {
             setTodos(prev => [...prev, ...initialTodos]);
             setActiveTab('plan'); // Switch to plan tab if suggestions passed
         }
     }
-  }, [initialEntry, initialTodos]);
+  }, [initialEntry, initialTodos, initialDraft]);
 
-  // Auto-save logic
+  // Auto-save the complete editor state as this entry's draft
   useEffect(() => {
-      if (!content || (initialEntry && content === initialEntry.content)) {
+      // Never overwrite a stored draft the user has not chosen to restore or discard yet
+      if (pendingDraft && pendingDraft.entryId === draftIdRef.current) return;
+
+      const state: EditableState = { content, media: mediaItems, reflection, todos, schedule, analysis: analysisResult };
+      const baseline: EditableState = initialEntry
+          ? { content: initialEntry.content, media: initialEntry.media || [], reflection: initialEntry.reflection, todos: initialEntry.todos || [], schedule: initialEntry.schedule || [], analysis: entryAnalysis(initialEntry) }
+          : { content: '', media: [], reflection: undefined, todos: [], schedule: [], analysis: null };
+      if (serializeEditableState(state) === serializeEditableState(baseline)) {
           setSaveStatus('idle');
+          // Edits were undone: the stored draft no longer holds anything unsaved
+          if (hasDraftRef.current) discardDraft(draftIdRef.current);
           return;
       }
+
       setSaveStatus('saving');
       const timer = setTimeout(() => {
-          saveDraft(content, initialEntry?.id);
-          setSaveStatus('saved');
+          const draft: EntryDraft = {
+              ...state,
+              entryId: draftIdRef.current,
+              isNew: !initialEntry,
+              notebookId: initialEntry ? initialEntry.notebookId : draftNotebookIdRef.current || notebookId,
+              baseUpdatedAt: baseUpdatedAtRef.current || undefined,
+              updatedAt: new Date().toISOString()
+          };
+          hasDraftRef.current = true;
+          queueDraftWrite(() => saveDraft(draft)).then(() => setSaveStatus('saved'));
       }, 1000);
       return () => clearTimeout(timer);
-  }, [content, initialEntry]);
+  }, [content, mediaItems, reflection, todos, schedule, analysisResult, initialEntry, pendingDraft]);
+
+  const handleRestoreDraft = () => {
+      if (pendingDraft) applyDraft(pendingDraft);
+  };
+
+  const handleDiscardDraft = () => {
+      if (!pendingDraft) return;
+      discardDraft(pendingDraft.entryId);
+      setPendingDraft(null);
+  };
+
+  // Returns true (and shows the banner) if the stored entry no longer matches the version being edited
+  const checkForExternalChange = async (): Promise<boolean> => {
+      if (!initialEntry) return false;
+      const stored = await getEntry(initialEntry.id);
+      if (stored && !stored.deletedAt && stored.updatedAt === baseUpdatedAtRef.current) return false;
+      setExternalChange({ entry: stored && !stored.deletedAt ? stored : null });
+      return true;
+  };
+
+  // Watch for the same entry, or this editor's draft, being saved in another tab
+  useEffect(() => {
+      return subscribeToChanges(message => {
+          if (initialEntry && message.kind === 'entries' && (!message.ids || message.ids.includes(initialEntry.id))) {
+              checkForExternalChange();
+          }
+          if (message.kind === 'drafts' && (!message.ids || message.ids.includes(draftIdRef.current))) {
+              getDraft(draftIdRef.current).then(setExternalDraft);
+          }
+      });
+  }, [initialEntry]);
+
+  // Device sync writes from this tab, so it is not announced above
+  useEffect(() => {
+      if (!initialEntry) return;
+      return subscribeToSyncStatus(status => {
+          if (status.phase === 'idle' && status.pulled > 0) checkForExternalChange();
+      });
+  }, [initialEntry]);
+
+  const handleReloadExternal = () => {
+      if (externalChange?.entry) loadEntry(externalChange.entry);
+      setExternalChange(null);
+  };
+
+  // Keep mine: the next save deliberately overwrites the other tab's version
+  const handleKeepMine = () => {
+      baseUpdatedAtRef.current = externalChange?.entry ? externalChange.entry.updatedAt : null;
+      setExternalChange(null);
+  };
 
   // Audio Timer
   useEffect(() => {
@@ -153,16 +300,37 @@ const EntryEditor: React.FC<EntryEditorProps> = ({ onSave, initialEntry, initial
     if (!content.trim()) return;
     setIsAnalyzing(true);
     setSimilarConnection(null);
+    setAIError(null);
     try {
-      const pastEntries = getEntries().filter(e => e.id !== initialEntry?.id);
+      const pastEntries = (await getEntries()).filter(e => e.id !== initialEntry?.id);
+      // Without AI the entry still gets the offline estimate, but related memories need the model
       const [analysis, connection] = await Promise.all([
-        analyzeEntryWithGemini(content),
-        pastEntries.length > 0 ? findSimilarConnections(content, pastEntries) : Promise.resolve(null)
+        analyzeEntryWithFallback(content),
+        canUseAI() && pastEntries.length > 0
+          // Related memories are a bonus; their failure should not cost the analysis
+          ? findSimilarConnections(content, pastEntries).catch(error => { console.warn("Related memories unavailable", error); return null; })
+          : Promise.resolve(null)
       ]);
       setAnalysisResult(analysis);
-      if (connection) setSimilarConnection(connection);
+      if (connection && analysis.analysisSource !== 'local') setSimilarConnection(connection);
+    } catch (error) {
+      console.error(error);
+      setAIError(describeAIError(error, "Analysis failed. Please try again."));
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  // Replaces the offline estimate with a full AI analysis
+  const handleUpgradeAnalysis = async () => {
+    if (!content.trim()) return;
+    setIsAnalyzing(true);
+    setAIError(null);
+    try {
+      setAnalysisResult(await analyzeEntry(content));
     } catch (error) {
-      alert("Analysis failed. Please try again.");
+      console.error(error);
+      setAIError(`${describeAIError(error, "AI analysis is not available right now.")} The offline analysis is kept.`);
     } finally {
       setIsAnalyzing(false);
     }
@@ -238,6 +406,7 @@ const EntryEditor: React.FC<EntryEditorProps> = ({ onSave, initialEntry, initial
       if (!url) return;
       
       setTranscribingId(mediaId);
+      setAIError(null);
       try {
           const response = await fetch(url);
           const blob = await response.blob();
@@ -249,7 +418,7 @@ const EntryEditor: React.FC<EntryEditorProps> = ({ onSave, initialEntry, initial
           setContent(prev => prev + (prev ? "\n\n" : "") + "[Transcript]: " + text);
       } catch (e) {
           console.error(e);
-          alert("Transcription failed.");
+          setAIError(describeAIError(e, "Transcription failed."));
       } finally {
           setTranscribingId(null);
       }
@@ -257,9 +426,13 @@ const EntryEditor: React.FC<EntryEditorProps> = ({ onSave, initialEntry, initial
 
   // --- Generation Functions ---
 
+  // Read on every render, so a provider chosen in Settings applies without reopening the editor
+  const aiCapabilities = getAICapabilities();
+
   const handleGenerateImage = async () => {
       if (!content) return alert("Write something first!");
       setIsGeneratingMedia('image');
+      setAIError(null);
       try {
           const base64 = await generateJournalImage(content);
           // Convert base64 to blob
@@ -268,7 +441,7 @@ const EntryEditor: React.FC<EntryEditorProps> = ({ onSave, initialEntry, initial
           await addMediaBlob(blob, 'image', 'image/png');
       } catch (e) {
           console.error(e);
-          alert("Failed to generate art.");
+          setAIError(describeAIError(e, "Failed to generate art."));
       } finally {
           setIsGeneratingMedia(null);
       }
@@ -277,6 +450,7 @@ const EntryEditor: React.FC<EntryEditorProps> = ({ onSave, initialEntry, initial
   const handleGenerateVideo = async () => {
       if (!content) return alert("Write something first!");
       setIsGeneratingMedia('video');
+      setAIError(null);
       try {
           const base64 = await generateJournalVideo(content);
           const res = await fetch(base64.startsWith('data:') ? base64 : `data:video/mp4;base64,${base64}`);
@@ -284,7 +458,7 @@ const EntryEditor: React.FC<EntryEditorProps> = ({ onSave, initialEntry, initial
           await addMediaBlob(blob, 'video', 'video/mp4');
       } catch (e) {
           console.error(e);
-          alert("Failed to generate video.");
+          setAIError(describeAIError(e, "Failed to generate video."));
       } finally {
           setIsGeneratingMedia(null);
       }
@@ -293,6 +467,7 @@ const EntryEditor: React.FC<EntryEditorProps> = ({ onSave, initialEntry, initial
   const handleGenerateReflection = async () => {
       if (!content) return alert("Write something first!");
       setIsGeneratingMedia('reflection');
+      setAIError(null);
       try {
           const { quote, imageBase64 } = await generatePositiveReflection(content);
           
@@ -312,35 +487,49 @@ const EntryEditor: React.FC<EntryEditorProps> = ({ onSave, initialEntry, initial
           setLoadedReflectionUrl(URL.createObjectURL(blob));
           
           // Auto-save the reflection to the entry if it's already saved
-          if (initialEntry) {
-              const updatedEntry: JournalEntry = {
-                  ...initialEntry,
-                  reflection: newReflection
-              };
-              onSave(updatedEntry);
-          }
-
+          if (initialEntry) await saveReflection(initialEntry.id, newReflection);
       } catch (e) {
           console.error(e);
-          alert("Failed to generate reflection.");
+          setAIError(describeAIError(e, "Failed to generate reflection."));
       } finally {
           setIsGeneratingMedia(null);
       }
   };
 
+  // Adds the reflection to the stored entry as it is now, leaving every other field alone; the
+  // rest of the editor's changes are saved with the entry as usual
+  const saveReflection = async (id: string, newReflection: JournalEntry['reflection']) => {
+      try {
+          const latest = await getEntry(id);
+          if (!latest || latest.deletedAt) return;
+          const updatedAt = new Date().toISOString();
+          // An editor that was up to date stays so; one behind keeps its external-change warning
+          const wasCurrent = latest.updatedAt === baseUpdatedAtRef.current;
+          await saveEntry({ ...latest, reflection: newReflection, updatedAt });
+          if (wasCurrent) baseUpdatedAtRef.current = updatedAt;
+          onEntriesChanged?.();
+      } catch (e) {
+          console.error("Failed to save the reflection", e);
+          setSaveError(saveErrorMessage(e, "The reflection could not be added to the saved entry. It stays in the editor and is saved with the entry."));
+      }
+  };
+
   const handleDrawingSave = async (blob: Blob) => {
       await addMediaBlob(blob, 'drawing', 'image/png');
       setShowDrawing(false);
   };
 
-  const handleSave = () => {
+  const handleSave = async () => {
     if (!content.trim() && mediaItems.length === 0 && todos.length === 0 && schedule.length === 0) return;
+    // Never silently overwrite a newer version saved in another tab
+    if (externalChange || (baseUpdatedAtRef.current && await checkForExternalChange())) return;
     
     const entry: JournalEntry = {
-      id: initialEntry?.id || generateId(),
+      id: initialEntry?.id || draftIdRef.current,
       content,
       createdAt: initialEntry?.createdAt || new Date().toISOString(),
       updatedAt: new Date().toISOString(),
+      notebookId: initialEntry ? initialEntry.notebookId : draftNotebookIdRef.current || notebookId,
       isAnalyzed: !!analysisResult,
       media: mediaItems,
       reflection: reflection,
@@ -349,9 +538,19 @@ const EntryEditor: React.FC<EntryEditorProps> = ({ onSave, initialEntry, initial
       ...analysisResult
     };
 
-    onSave(entry);
-    clearDraft();
+    setSaveError(null);
+    try {
+      await onSave(entry);
+    } catch (e) {
+      // The draft is the only other copy of this text, so it stays until a save succeeds
+      console.error("Failed to save entry", e);
+      setSaveError(saveErrorMessage(e, "The entry could not be saved. Your text is kept as a draft, so nothing is lost; try again."));
+      return;
+    }
+    discardDraft(entry.id);
     if (!initialEntry) {
+        draftIdRef.current = generateId();
+        draftNotebookIdRef.current = undefined;
         setContent('');
         setAnalysisResult(null);
         setSimilarConnection(null);
@@ -364,6 +563,37 @@ const EntryEditor: React.FC<EntryEditorProps> = ({ onSave, initialEntry, initial
     }
   };
 
+  // --- Revision History ---
+
+  const handleRestoreRevision = (revision: EntryRevision) => {
+      if (!confirm("Load this version into the editor? Your current text, tasks and schedule will be replaced until you save.")) return;
+      const { content: restoredContent, todos: restoredTodos, schedule: restoredSchedule, isAnalyzed, ...analysis } = revision.snapshot;
+      setContent(restoredContent);
+      setTodos(restoredTodos || []);
+      setSchedule(restoredSchedule || []);
+      setAnalysisResult(isAnalyzed ? analysis : null);
+      setSimilarConnection(null);
+      setShowHistory(false);
+  };
+
+  const handleForkRevision = async (revision: EntryRevision) => {
+      if (!confirm("Save this version as a new, separate entry?")) return;
+      const now = new Date().toISOString();
+      setSaveError(null);
+      try {
+          await onSave({
+              ...revision.snapshot,
+              id: generateId(),
+              notebookId: initialEntry?.notebookId,
+              createdAt: now,
+              updatedAt: now
+          });
+      } catch (e) {
+          console.error("Failed to save the version as a new entry", e);
+          setSaveError(saveErrorMessage(e, "This version could not be saved as a new entry. Please try again."));
+      }
+  };
+
   const downloadVideo = (url: string) => {
       const a = document.createElement('a');
       a.href = url;
@@ -430,10 +660,13 @@ const EntryEditor: React.FC<EntryEditorProps> = ({ onSave, initialEntry, initial
     setTodos(prev => prev.filter(t => t.id !== id));
   };
 
+  // The day this entry plans: the day it was written, or today for a new entry
+  const planDay = initialEntry ? toLocalDateKey(new Date(initialEntry.createdAt)) : toLocalDateKey(new Date());
+
   const addScheduleBlock = () => {
     if (!newScheduleActivity.trim()) return;
     setSchedule(prev => {
-        const newBlock = { id: uuidv4(), time: newScheduleTime, activity: newScheduleActivity };
+        const newBlock = { id: uuidv4(), time: newScheduleTime, activity: newScheduleActivity, durationMinutes: newScheduleDuration, date: planDay };
         return [...prev, newBlock].sort((a, b) => a.time.localeCompare(b.time));
     });
     setNewScheduleActivity('');
@@ -443,6 +676,37 @@ const EntryEditor: React.FC<EntryEditorProps> = ({ onSave, initialEntry, initial
     setSchedule(prev => prev.filter(s => s.id !== id));
   };
 
+  const handleIcsSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      if (icsInputRef.current) icsInputRef.current.value = '';
+      if (!file) return;
+      try {
+          const { blocks, allDayCount } = scheduleBlocksForDay(parseIcs(await file.text()), planDay);
+          const skipped = allDayCount > 0 ? ` ${allDayCount} all-day event${allDayCount === 1 ? ' was' : 's were'} left out.` : '';
+          if (blocks.length === 0) {
+              alert(`This calendar has no timed events on ${new Date(`${planDay}T00:00`).toLocaleDateString()}.${skipped}`);
+              return;
+          }
+          // Events imported before keep their ids, so importing the same calendar again only adds what is new
+          const existing = new Set(schedule.map(b => b.id));
+          const added = blocks.filter(b => !existing.has(b.id));
+          setSchedule(prev => [...prev, ...added].sort((a, b) => a.time.localeCompare(b.time)));
+          if (skipped || added.length < blocks.length) {
+              const duplicates = blocks.length - added.length;
+              alert(`Added ${added.length} event${added.length === 1 ? '' : 's'} to your schedule.${duplicates > 0 ? ` ${duplicates} already on it.` : ''}${skipped}`);
+          }
+      } catch (err) {
+          console.error(err);
+          alert(err instanceof CalendarFormatError ? err.message : "Failed to read the calendar file.");
+      }
+  };
+
+  const handleIcsExport = () => {
+      if (schedule.length === 0) return;
+      const blocks = schedule.map(block => ({ ...block, date: blockDate(block, initialEntry || undefined) }));
+      downloadBlob(scheduleIcsBlob(blocks), `lumina_schedule_${planDay}.ics`);
+  };
+
   return (
     <div className="p-6 lg:p-10 h-full flex flex-col">
       <header className="flex flex-col md:flex-row justify-between items-start md:items-center mb-6 gap-4">
@@ -474,6 +738,17 @@ const EntryEditor: React.FC<EntryEditorProps> = ({ onSave, initialEntry, initial
                </button>
             </div>
 
+           {initialEntry && (
+               <button
+                  onClick={() => setShowHistory(!showHistory)}
+                  className={`flex items-center gap-2 px-3 py-2 rounded-lg border transition-colors text-sm font-medium ${showHistory ? 'bg-lumina-50 border-lumina-200 text-lumina-700' : 'border-slate-200 text-slate-600 hover:bg-slate-50'}`}
+                  title="Revision History"
+               >
+                   <History size={18} />
+                   <span className="hidden sm:inline">History</span>
+               </button>
+           )}
+
            <button onClick={handleSave} className="flex items-center gap-2 px-6 py-2 bg-lumina-600 text-white rounded-lg hover:bg-lumina-700 transition-colors font-medium shadow-sm">
              <Save size={18} />
              <span className="hidden sm:inline">Save</span>
@@ -481,12 +756,93 @@ const EntryEditor: React.FC<EntryEditorProps> = ({ onSave, initialEntry, initial
         </div>
       </header>
 
+      {/* Changed in another tab */}
+      {externalChange && (
+        <div className="mb-6 bg-amber-50 border border-amber-200 rounded-xl p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3 animate-fade-in-down">
+            <p className="text-sm text-amber-800">
+                {externalChange.entry
+                    ? <><strong>This entry was changed in another tab or on another device.</strong> Load that version, or keep your edits and overwrite it when you save.</>
+                    : <><strong>This entry was deleted in another tab or on another device.</strong> Saving will bring it back.</>}
+            </p>
+            <div className="flex gap-2 shrink-0">
+                {externalChange.entry && (
+                    <button onClick={handleReloadExternal} className="px-3 py-1.5 text-xs font-medium text-amber-800 border border-amber-300 rounded-lg hover:bg-amber-100">
+                        Reload
+                    </button>
+                )}
+                <button onClick={handleKeepMine} className="px-3 py-1.5 text-xs font-medium text-white bg-amber-600 rounded-lg hover:bg-amber-700">
+                    Keep mine
+                </button>
+            </div>
+        </div>
+      )}
+      {externalDraft && (
+        <div className="mb-6 bg-sky-50 border border-sky-200 rounded-xl p-4 flex items-center justify-between gap-3 animate-fade-in-down">
+            <p className="text-sm text-sky-800">This draft was updated in another tab.</p>
+            <div className="flex gap-2 shrink-0">
+                <button onClick={() => setExternalDraft(null)} className="px-3 py-1.5 text-xs font-medium text-sky-700 hover:text-sky-900">
+                    Dismiss
+                </button>
+                <button onClick={() => { applyDraft(externalDraft); setExternalDraft(null); }} className="px-3 py-1.5 text-xs font-medium text-white bg-sky-600 rounded-lg hover:bg-sky-700">
+                    Load draft
+                </button>
+            </div>
+        </div>
+      )}
+      {pendingDraft && (
+        <div className="mb-6 bg-sky-50 border border-sky-200 rounded-xl p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3 animate-fade-in-down">
+            <p className="text-sm text-sky-800">
+                {initialEntry
+                    ? <><strong>You have unsaved changes to this entry</strong> from {formatDraftTime(pendingDraft)}.</>
+                    : <><strong>You have an unsaved draft</strong> from {formatDraftTime(pendingDraft)}.</>}
+                {initialEntry && pendingDraft.baseUpdatedAt && pendingDraft.baseUpdatedAt !== initialEntry.updatedAt &&
+                    ' The entry was saved again after that; restoring replaces the newer version when you save.'}
+            </p>
+            <div className="flex gap-2 shrink-0">
+                <button onClick={handleDiscardDraft} className="px-3 py-1.5 text-xs font-medium text-sky-700 hover:text-sky-900">
+                    Discard
+                </button>
+                <button onClick={handleRestoreDraft} className="px-3 py-1.5 text-xs font-medium text-white bg-sky-600 rounded-lg hover:bg-sky-700">
+                    Restore
+                </button>
+            </div>
+        </div>
+      )}
+      {saveError && (
+        <div className="mb-6 flex items-start gap-2 text-sm text-red-700 bg-red-50 border border-red-100 rounded-xl p-4 animate-fade-in-down">
+            <AlertTriangle size={16} className="shrink-0 mt-0.5" />
+            <span className="flex-1">{saveError}</span>
+            <button onClick={() => setSaveError(null)} className="text-red-400 hover:text-red-600" title="Dismiss">
+                <X size={16} />
+            </button>
+        </div>
+      )}
+      {aiError && (
+        <div className="mb-6 flex items-start gap-2 text-sm text-red-700 bg-red-50 border border-red-100 rounded-xl p-4 animate-fade-in-down">
+            <AlertTriangle size={16} className="shrink-0 mt-0.5" />
+            <span className="flex-1">{aiError}</span>
+            <button onClick={() => setAIError(null)} className="text-red-400 hover:text-red-600" title="Dismiss">
+                <X size={16} />
+            </button>
+        </div>
+      )}
+
       {/* Main Content Area */}
       <div className="flex flex-1 gap-6 flex-col lg:flex-row min-h-0 overflow-y-auto lg:overflow-visible">
         
         {/* LEFT COLUMN: Content (Write or Plan) */}
         <div className="flex-1 flex flex-col gap-6">
 
+            {showHistory && initialEntry && (
+                <RevisionHistory
+                    entryId={initialEntry.id}
+                    currentContent={content}
+                    onRestore={handleRestoreRevision}
+                    onFork={handleForkRevision}
+                    onClose={() => setShowHistory(false)}
+                />
+            )}
+
             {activeTab === 'write' ? (
                 /* --- WRITE MODE --- */
                 <>
@@ -504,9 +860,11 @@ const EntryEditor: React.FC<EntryEditorProps> = ({ onSave, initialEntry, initial
                         <button onClick={handleGenerateImage} disabled={!!isGeneratingMedia} className="p-2 hover:bg-slate-50 text-slate-600 rounded disabled:opacity-50" title="Generate Art">
                             {isGeneratingMedia === 'image' ? <Loader2 className="animate-spin" size={18} /> : <ImageIcon size={18} />}
                         </button>
-                        <button onClick={handleGenerateVideo} disabled={!!isGeneratingMedia} className="p-2 hover:bg-slate-50 text-slate-600 rounded disabled:opacity-50" title="Generate Memory Video">
-                            {isGeneratingMedia === 'video' ? <Loader2 className="animate-spin" size={18} /> : <Video size={18} />}
-                        </button>
+                        {aiCapabilities.video && (
+                            <button onClick={handleGenerateVideo} disabled={!!isGeneratingMedia} className="p-2 hover:bg-slate-50 text-slate-600 rounded disabled:opacity-50" title="Generate Memory Video">
+                                {isGeneratingMedia === 'video' ? <Loader2 className="animate-spin" size={18} /> : <Video size={18} />}
+                            </button>
+                        )}
                         <div className="w-px bg-slate-200 mx-1"></div>
                         {isRecording ? (
                                 <button onClick={stopRecording} className="p-2 bg-red-50 text-red-600 rounded flex items-center gap-2 animate-pulse">
@@ -519,7 +877,7 @@ const EntryEditor: React.FC<EntryEditorProps> = ({ onSave, initialEntry, initial
                                 </button>
                         )}
                         <div className="w-px bg-slate-200 mx-1"></div>
-                         {!analysisResult && content.length > 20 && (
+                         {(!analysisResult || analysisStale) && content.length > 20 && (
                             <button onClick={handleAnalyze} disabled={isAnalyzing} className="p-2 text-indigo-600 hover:bg-indigo-50 rounded" title="Analyze Text">
                                 {isAnalyzing ? <RefreshCw className="animate-spin" size={18} /> : <Wand2 size={18} />}
                             </button>
@@ -648,6 +1006,12 @@ const EntryEditor: React.FC<EntryEditorProps> = ({ onSave, initialEntry, initial
                                         ) : (
                                             <img src={loadedMediaUrls[item.id]} alt="Journal Media" className="w-full h-full object-cover" />
                                         )
+                                    ) : item.offloaded && !item.blobId ? (
+                                        <div className="flex flex-col items-center justify-center h-full p-3 text-center text-slate-400">
+                                            <Download size={20} />
+                                            <span className="text-xs mt-2">Offloaded to your device</span>
+                                            <span className="text-[10px] mt-1 font-mono truncate max-w-full" title={item.offloaded.fileName}>{item.offloaded.fileName}</span>
+                                        </div>
                                     ) : (
                                         <div className="flex items-center justify-center h-full text-slate-400"><Loader2 className="animate-spin" /></div>
                                     )}
@@ -732,7 +1096,14 @@ const EntryEditor: React.FC<EntryEditorProps> = ({ onSave, initialEntry, initial
                     <div className="bg-white rounded-2xl border border-slate-200 shadow-sm p-6">
                         <div className="flex items-center gap-2 mb-4 text-slate-700">
                              <CalendarClock className="text-indigo-500" />
-                             <h3 className="font-bold text-lg">Hourly Schedule</h3>
+                             <h3 className="font-bold text-lg flex-1">Hourly Schedule</h3>
+                             <button onClick={() => icsInputRef.current?.click()} className="p-1.5 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded" title="Import this day's events from a calendar (.ics)">
+                                 <Upload size={16} />
+                             </button>
+                             <input type="file" ref={icsInputRef} className="hidden" accept=".ics,text/calendar" onChange={handleIcsSelect} />
+                             <button onClick={handleIcsExport} disabled={schedule.length === 0} className="p-1.5 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded disabled:opacity-30 disabled:hover:bg-transparent" title="Export this schedule to a calendar (.ics)">
+                                 <Download size={16} />
+                             </button>
                         </div>
 
                         <div className="flex gap-2 mb-4">
@@ -743,6 +1114,16 @@ const EntryEditor: React.FC<EntryEditorProps> = ({ onSave, initialEntry, initial
                                 onChange={(e) => setNewScheduleTime(e.target.value)}
                                 className="bg-slate-50 border border-slate-200 rounded-lg px-2 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
                             />
+                            <select
+                                value={newScheduleDuration}
+                                onChange={(e) => setNewScheduleDuration(Number(e.target.value))}
+                                title="Duration"
+                                className="bg-slate-50 border border-slate-200 rounded-lg px-2 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                            >
+                                {[15, 30, 45, 60, 90, 120].map(minutes => (
+                                    <option key={minutes} value={minutes}>{minutes < 60 ? `${minutes}m` : `${minutes / 60}h`}</option>
+                                ))}
+                            </select>
                             <input 
                                 type="text"
                                 value={newScheduleActivity}
@@ -758,12 +1139,12 @@ const EntryEditor: React.FC<EntryEditorProps> = ({ onSave, initialEntry, initial
 
                         <div className="space-y-3 max-h-[300px] overflow-y-auto pr-2">
                              {schedule.length === 0 ? (
-                                 <p className="text-slate-400 text-sm italic text-center py-4">Plan your day in 30min blocks.</p>
+                                 <p className="text-slate-400 text-sm italic text-center py-4">Plan your day, or import it from your calendar.</p>
                              ) : (
                                  schedule.map(block => (
                                      <div key={block.id} className="flex items-center gap-3 bg-slate-50 p-2 rounded-lg border border-slate-100 group">
                                          <span className="font-mono text-xs font-bold text-indigo-600 bg-indigo-50 px-2 py-1 rounded">
-                                             {block.time}
+                                             {formatBlockTime(block)}
                                          </span>
                                          <span className="flex-1 text-sm text-slate-700 truncate">
                                              {block.activity}
@@ -788,7 +1169,7 @@ const EntryEditor: React.FC<EntryEditorProps> = ({ onSave, initialEntry, initial
                  <div className="flex items-center justify-between border-b border-slate-100 pb-4">
                     <h3 className="font-semibold text-slate-700 flex items-center gap-2">
                         <Sparkles size={16} className="text-lumina-500" />
-                        AI Insights
+                        {analysisResult.analysisSource === 'local' ? 'Quick Insights' : 'AI Insights'}
                     </h3>
                     <span className="text-xs bg-lumina-100 text-lumina-700 px-2 py-1 rounded-full font-medium">
                         {analysisResult.moodLabel}
@@ -806,6 +1187,22 @@ const EntryEditor: React.FC<EntryEditorProps> = ({ onSave, initialEntry, initial
                  <div className="bg-slate-50 p-4 rounded-xl border border-slate-100">
                     <p className="text-sm text-slate-600 italic">"{analysisResult.summary}"</p>
                  </div>
+                 {analysisStale && (
+                    <div className="flex items-center justify-between gap-2 text-xs bg-slate-50 border border-slate-200 text-slate-600 rounded-xl p-3">
+                      <span className="flex items-center gap-1.5"><History size={14} className="shrink-0" /> The entry changed since this analysis.</span>
+                      <button onClick={handleAnalyze} disabled={isAnalyzing} className="flex items-center gap-1 font-semibold text-lumina-600 hover:text-lumina-700 disabled:opacity-50 shrink-0">
+                        {isAnalyzing ? <RefreshCw className="animate-spin" size={12} /> : <Wand2 size={12} />} Re-analyze
+                      </button>
+                    </div>
+                 )}
+                 {analysisResult.analysisSource === 'local' && !analysisStale && (
+                    <div className="flex items-center justify-between gap-2 text-xs bg-amber-50 border border-amber-100 text-amber-800 rounded-xl p-3">
+                      <span className="flex items-center gap-1.5"><CloudOff size={14} className="shrink-0" /> Estimated offline from word choice.</span>
+                      <button onClick={handleUpgradeAnalysis} disabled={isAnalyzing} className="flex items-center gap-1 font-semibold text-amber-900 hover:text-amber-950 disabled:opacity-50 shrink-0">
+                        {isAnalyzing ? <RefreshCw className="animate-spin" size={12} /> : <Wand2 size={12} />} Upgrade with AI
+                      </button>
+                    </div>
+                 )}
                  {similarConnection && (
                     <div className="bg-gradient-to-br from-indigo-50 to-purple-50 p-4 rounded-xl border border-indigo-100">
                       <div className="flex items-center gap-2 mb-2 text-indigo-700">
@@ -819,6 +1216,11 @@ const EntryEditor: React.FC<EntryEditorProps> = ({ onSave, initialEntry, initial
                     <label className="text-xs font-bold text-slate-400 uppercase tracking-wider">Reflection</label>
                     <p className="mt-1 text-slate-700 text-sm">{analysisResult.reflectionQuestion}</p>
                  </div>
+                 {analysisResult.repairedFields && analysisResult.repairedFields.length > 0 && (
+                    <p className="text-[10px] text-slate-400" title={analysisResult.repairedFields.join(', ')}>
+                        Some details were missing or out of range in the AI's answer and were filled in by Lumina.
+                    </p>
+                 )}
               </div>
            </div>
         )}
@@ -1,17 +1,35 @@
 
 import React, { useState, useMemo } from 'react';
-import { JournalEntry } from '../types';
-import { Search, Smile, Trash2, Edit3, ChevronDown, Sparkles, Tag, Zap, ListTodo, Check, CalendarClock } from 'lucide-react';
+import { JournalEntry, Notebook, EntryDraft } from '../types';
+import { Search, Smile, Trash2, Edit3, ChevronDown, Sparkles, Tag, Zap, ListTodo, Check, CalendarClock, CloudOff, Wand2, History } from 'lucide-react';
+import { getEntryNotebookId } from '../services/storage';
+import { groupEntriesByDay, averageMood } from '../services/journalDays';
+import { formatBlockTime } from '../services/calendar';
+import { canUseAI } from '../services/aiProvider';
+import { queueEntriesForAnalysis } from '../services/analysisQueue';
+import { isAnalysisStale } from '../services/analysisCache';
+import DraftsList from './DraftsList';
 
 interface EntryListProps {
   entries: JournalEntry[];
+  notebooks: Notebook[];
   onEdit: (entry: JournalEntry) => void;
   onDelete: (id: string) => void;
+  onMove: (id: string, notebookId: string) => void;
+  onResumeDraft?: (draft: EntryDraft) => void;
 }
 
-const EntryList: React.FC<EntryListProps> = ({ entries, onEdit, onDelete }) => {
+const EntryList: React.FC<EntryListProps> = ({ entries, notebooks, onEdit, onDelete, onMove, onResumeDraft }) => {
   const [searchTerm, setSearchTerm] = useState('');
   const [expandedDays, setExpandedDays] = useState<Record<string, boolean>>({});
+  const [upgradeQueued, setUpgradeQueued] = useState(false);
+
+  const locallyAnalyzed = useMemo(() => entries.filter(e => e.isAnalyzed && e.analysisSource === 'local'), [entries]);
+
+  const handleUpgradeAll = () => {
+    queueEntriesForAnalysis(locallyAnalyzed.map(e => e.id));
+    setUpgradeQueued(true);
+  };
 
   const toggleDay = (date: string) => {
     setExpandedDays(prev => ({ ...prev, [date]: !prev[date] }));
@@ -24,32 +42,16 @@ const EntryList: React.FC<EntryListProps> = ({ entries, onEdit, onDelete }) => {
       entry.keywords?.some(k => k.toLowerCase().includes(searchTerm.toLowerCase()))
     );
 
-    const groups: Record<string, JournalEntry[]> = {};
-    filtered.forEach(entry => {
-      const dateKey = new Date(entry.createdAt).toLocaleDateString('en-US', { 
-        year: 'numeric', month: 'long', day: 'numeric' 
-      });
-      if (!groups[dateKey]) groups[dateKey] = [];
-      groups[dateKey].push(entry);
-    });
-    
-    // Sort days descending (newest first)
-    return Object.entries(groups).sort((a, b) => 
-        new Date(b[1][0].createdAt).getTime() - new Date(a[1][0].createdAt).getTime()
-    );
+    return groupEntriesByDay(filtered);
   }, [entries, searchTerm]);
 
   const getDayStats = (dayEntries: JournalEntry[]) => {
-    const scoredEntries = dayEntries.filter(e => e.moodScore !== undefined);
-    
     // Calculate Average Mood
-    let avgMood = 0;
+    const avgMood = averageMood(dayEntries);
     let colorClass = 'bg-slate-50 border-slate-200';
     let textClass = 'text-slate-600';
 
-    if (scoredEntries.length > 0) {
-        avgMood = scoredEntries.reduce((acc, e) => acc + (e.moodScore || 0), 0) / scoredEntries.length;
-        
+    if (avgMood > 0) {
         if (avgMood >= 8) {
             colorClass = 'bg-emerald-50 border-emerald-200';
             textClass = 'text-emerald-700';
@@ -104,6 +106,20 @@ const EntryList: React.FC<EntryListProps> = ({ entries, onEdit, onDelete }) => {
         </div>
       </div>
 
+      {onResumeDraft && <DraftsList onResume={onResumeDraft} />}
+
+      {locallyAnalyzed.length > 0 && !upgradeQueued && canUseAI() && (
+        <div className="mb-6 flex flex-wrap items-center gap-3 bg-white rounded-2xl border border-amber-100 shadow-sm px-4 py-3 text-sm text-slate-600">
+          <CloudOff size={16} className="text-amber-500 shrink-0" />
+          <span className="flex-1 min-w-[12rem]">
+            {locallyAnalyzed.length} {locallyAnalyzed.length === 1 ? 'entry was' : 'entries were'} analyzed offline. AI analysis is available again.
+          </span>
+          <button onClick={handleUpgradeAll} className="flex items-center gap-1.5 text-xs font-semibold text-lumina-600 hover:text-lumina-700">
+            <Wand2 size={14} /> Upgrade with AI
+          </button>
+        </div>
+      )}
+
       <div className="space-y-6 overflow-y-auto pb-20">
         {groupedEntries.length === 0 ? (
            <div className="text-center py-20 bg-white rounded-2xl border border-dashed border-slate-200">
@@ -196,6 +212,25 @@ const EntryList: React.FC<EntryListProps> = ({ entries, onEdit, onDelete }) => {
                                         <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">
                                             {new Date(entry.createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
                                         </span>
+                                        {notebooks.length > 1 && (() => {
+                                            const notebook = notebooks.find(n => n.id === getEntryNotebookId(entry));
+                                            return notebook && (
+                                                <span className="text-[10px] px-1.5 py-0.5 rounded-full border border-slate-200 text-slate-500 flex items-center gap-1">
+                                                    <span className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: notebook.color }}></span>
+                                                    {notebook.name}
+                                                </span>
+                                            );
+                                        })()}
+                                        {entry.isAnalyzed && isAnalysisStale(entry, entry.content) && (
+                                            <span className="text-[10px] px-1.5 py-0.5 rounded-full bg-slate-100 text-slate-500 flex items-center gap-1" title="Edited since it was analyzed; open it to analyze again">
+                                                <History size={10} /> Stale
+                                            </span>
+                                        )}
+                                        {entry.analysisSource === 'local' && (
+                                            <span className="text-[10px] px-1.5 py-0.5 rounded-full bg-amber-50 text-amber-700 flex items-center gap-1" title="Mood estimated offline; can be upgraded to AI analysis">
+                                                <CloudOff size={10} /> Offline
+                                            </span>
+                                        )}
                                         {/* Keywords for individual entry */}
                                         {entry.keywords && entry.keywords.length > 0 && (
                                             <div className="flex gap-1 ml-2">
@@ -210,10 +245,21 @@ const EntryList: React.FC<EntryListProps> = ({ entries, onEdit, onDelete }) => {
                                     </p>
                                  </div>
                                  <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity absolute top-4 right-4 bg-white/80 p-1 rounded-lg">
+                                    {notebooks.length > 1 && (
+                                       <select
+                                          value={getEntryNotebookId(entry)}
+                                          onClick={(e) => e.stopPropagation()}
+                                          onChange={(e) => onMove(entry.id, e.target.value)}
+                                          className="text-xs text-slate-500 bg-transparent border border-slate-200 rounded-lg px-1.5 focus:outline-none focus:ring-2 focus:ring-lumina-100"
+                                          title="Move to notebook"
+                                       >
+                                          {notebooks.map(n => <option key={n.id} value={n.id}>{n.name}</option>)}
+                                       </select>
+                                    )}
                                     <button onClick={(e) => { e.stopPropagation(); onEdit(entry); }} className="p-2 text-slate-400 hover:text-lumina-600 hover:bg-lumina-50 rounded-lg">
                                        <Edit3 size={16} />
                                     </button>
-                                    <button onClick={(e) => { e.stopPropagation(); if(confirm('Delete?')) onDelete(entry.id); }} className="p-2 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-lg">
+                                    <button onClick={(e) => { e.stopPropagation(); onDelete(entry.id); }} className="p-2 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-lg" title="Move to Trash">
                                        <Trash2 size={16} />
                                     </button>
                                  </div>
@@ -279,7 +325,7 @@ const EntryList: React.FC<EntryListProps> = ({ entries, onEdit, onDelete }) => {
                                             {entry.schedule.map(s => (
                                               <li key={s.id} className="flex items-center gap-3 text-sm text-slate-700">
                                                 <span className="font-mono text-[10px] font-bold text-indigo-600 bg-indigo-50 border border-indigo-100 px-1.5 py-0.5 rounded shrink-0">
-                                                    {s.time}
+                                                    {formatBlockTime(s)}
                                                 </span>
                                                 <span className="truncate leading-tight">{s.activity}</span>
                                               </li>
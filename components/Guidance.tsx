@@ -1,40 +1,64 @@
 
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { DailyGuidance, JournalEntry } from '../types';
-import { generateDailyGuidance } from '../services/gemini';
+import { generateDailyGuidance } from '../services/aiProvider';
+import { describeAIError } from '../services/aiErrors';
+import { reportInputHash } from '../services/analysisCache';
 import { getDailyGuidance, saveDailyGuidance } from '../services/storage';
-import { Compass, Sparkles, CheckSquare, Zap, Target, ArrowRight } from 'lucide-react';
+import { subscribeToChanges } from '../services/tabSync';
+import { Compass, Sparkles, CheckSquare, Zap, Target, ArrowRight, AlertTriangle, CheckCircle2 } from 'lucide-react';
 import { v4 as uuidv4 } from 'uuid';
 
 interface GuidanceProps {
   entries: JournalEntry[];
+  notebookId?: string; // Selected notebook; undefined for the whole journal
   onAddTasksToEntry: (tasks: { id: string, text: string, isCompleted: boolean }[]) => void;
 }
 
-const Guidance: React.FC<GuidanceProps> = ({ entries, onAddTasksToEntry }) => {
+const Guidance: React.FC<GuidanceProps> = ({ entries, notebookId, onAddTasksToEntry }) => {
   const [guidance, setGuidance] = useState<DailyGuidance | null>(null);
   const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Today's guidance was generated from exactly these entries, so asking again would give the same
+  const entriesHash = useMemo(() => reportInputHash(entries), [entries]);
+  const isCurrent = !!guidance?.inputHash && guidance.inputHash === entriesHash
+    && guidance.timestamp.split('T')[0] === new Date().toISOString().split('T')[0];
 
   useEffect(() => {
     // Check for cached guidance for today
-    const cached = getDailyGuidance();
-    const today = new Date().toISOString().split('T')[0];
-    
-    if (cached && cached.timestamp.split('T')[0] === today) {
-      setGuidance(cached);
-    } else if (entries.length > 0) {
-      handleGenerate();
-    }
-  }, [entries]);
+    getDailyGuidance(notebookId).then(cached => {
+      const today = new Date().toISOString().split('T')[0];
+
+      if (cached && cached.timestamp.split('T')[0] === today) {
+        setGuidance(cached);
+      } else {
+        setGuidance(null);
+        if (entries.length > 0) handleGenerate();
+      }
+    });
+  }, [entries, notebookId]);
+
+  useEffect(() => {
+    // Show guidance generated in another tab instead of generating it twice
+    return subscribeToChanges(message => {
+      if (message.kind !== 'reports') return;
+      getDailyGuidance(notebookId).then(cached => {
+        if (cached) setGuidance(cached);
+      });
+    });
+  }, [notebookId]);
 
   const handleGenerate = async () => {
     setLoading(true);
+    setError(null);
     try {
       const result = await generateDailyGuidance(entries);
       setGuidance(result);
-      saveDailyGuidance(result);
+      saveDailyGuidance(result, notebookId);
     } catch (e) {
       console.error(e);
+      setError(describeAIError(e, "Guidance could not be generated. Please try again."));
     } finally {
       setLoading(false);
     }
@@ -76,10 +100,12 @@ const Guidance: React.FC<GuidanceProps> = ({ entries, onAddTasksToEntry }) => {
         </div>
         <button 
             onClick={handleGenerate}
-            disabled={loading}
-            className="px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-600 rounded-lg text-sm font-medium transition-colors"
+            disabled={loading || isCurrent}
+            title={isCurrent ? "No entries were added or changed since this guidance" : undefined}
+            className="px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-600 rounded-lg text-sm font-medium transition-colors flex items-center gap-1.5 disabled:hover:bg-slate-100"
         >
-            {loading ? 'Analyzing...' : 'Refresh Guidance'}
+            {isCurrent && !loading && <CheckCircle2 size={14} />}
+            {loading ? 'Analyzing...' : isCurrent ? 'Up to Date' : 'Refresh Guidance'}
         </button>
       </div>
 
@@ -90,6 +116,18 @@ const Guidance: React.FC<GuidanceProps> = ({ entries, onAddTasksToEntry }) => {
           </div>
       )}
 
+      {!loading && error && (
+          <div className="bg-white rounded-2xl p-8 text-center shadow-sm border border-slate-200">
+              <div className="bg-amber-50 p-3 rounded-full inline-block mb-3">
+                  <AlertTriangle size={24} className="text-amber-500" />
+              </div>
+              <p className="text-slate-600 max-w-md mx-auto mb-4">{error}</p>
+              <button onClick={handleGenerate} className="px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-600 rounded-lg text-sm font-medium transition-colors">
+                  Try Again
+              </button>
+          </div>
+      )}
+
       {!loading && guidance && (
         <div className="space-y-6 animate-fade-in">
             {/* Main Focus Card */}
@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { BookOpen, Printer, Loader2 } from 'lucide-react';
+import { Notebook } from '../types';
+import { getEntries, getEntryNotebookId, ALL_NOTEBOOKS } from '../services/storage';
+import { printJournalBook, filterEntriesByDateRange } from '../services/journalBook';
+
+interface JournalBookExportProps {
+  notebooks: Notebook[];
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+const toDateInput = (d: Date) => `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+
+const thisMonth = (): [string, string] => {
+  const now = new Date();
+  return [toDateInput(new Date(now.getFullYear(), now.getMonth(), 1)), toDateInput(new Date(now.getFullYear(), now.getMonth() + 1, 0))];
+};
+
+const thisYear = (): [string, string] => {
+  const year = new Date().getFullYear();
+  return [`${year}-01-01`, `${year}-12-31`];
+};
+
+const JournalBookExport: React.FC<JournalBookExportProps> = ({ notebooks }) => {
+  const [[from, to], setRange] = useState<[string, string]>(thisMonth());
+  const [notebookId, setNotebookId] = useState(ALL_NOTEBOOKS);
+  const [includeSummaries, setIncludeSummaries] = useState(true);
+  const [isBuilding, setIsBuilding] = useState(false);
+
+  const handlePrint = async () => {
+    if (!from || !to || from > to) {
+      alert("Choose a start date that is on or before the end date.");
+      return;
+    }
+    setIsBuilding(true);
+    try {
+      const entries = (await getEntries()).filter(entry => notebookId === ALL_NOTEBOOKS || getEntryNotebookId(entry) === notebookId);
+      if (filterEntriesByDateRange(entries, from, to).length === 0) {
+        alert("There are no entries in this date range.");
+        return;
+      }
+      const notebook = notebooks.find(n => n.id === notebookId);
+      await printJournalBook(entries, { from, to, includeSummaries, title: notebook && notebooks.length > 1 ? notebook.name : 'My Journal' });
+    } catch (e) {
+      console.error(e);
+      alert("Failed to prepare the journal book.");
+    } finally {
+      setIsBuilding(false);
+    }
+  };
+
+  const inputClass = "border border-slate-200 rounded-lg px-3 py-2 text-sm text-slate-700 bg-white focus:outline-none focus:ring-2 focus:ring-lumina-100";
+  const presetClass = "text-xs px-2.5 py-1 rounded-full border border-slate-200 text-slate-500 hover:bg-slate-50";
+
+  return (
+    <div className="mt-8 bg-white rounded-2xl shadow-sm border border-slate-200 p-6">
+      <div className="flex items-center gap-3 mb-4">
+        <BookOpen className="text-lumina-500" size={24} />
+        <h3 className="font-bold text-slate-800">Journal Book</h3>
+      </div>
+      <p className="text-slate-600 text-sm leading-relaxed mb-5">
+        Typeset a month or a year of entries as a printable book, with a cover, a contents page by day, moods, reflections,
+        drawings, photos and your daily plans. Choose <strong>Save as PDF</strong> in the print dialog to keep a copy.
+      </p>
+
+      <div className="flex flex-wrap items-end gap-3 mb-3">
+        <label className="text-xs text-slate-500 flex flex-col gap-1">
+          From
+          <input type="date" value={from} onChange={e => setRange([e.target.value, to])} className={inputClass} />
+        </label>
+        <label className="text-xs text-slate-500 flex flex-col gap-1">
+          To
+          <input type="date" value={to} onChange={e => setRange([from, e.target.value])} className={inputClass} />
+        </label>
+        {notebooks.length > 1 && (
+          <select value={notebookId} onChange={e => setNotebookId(e.target.value)} className={inputClass}>
+            <option value={ALL_NOTEBOOKS}>All notebooks</option>
+            {notebooks.map(n => <option key={n.id} value={n.id}>{n.name} only</option>)}
+          </select>
+        )}
+      </div>
+      <div className="flex gap-2 mb-4">
+        <button onClick={() => setRange(thisMonth())} className={presetClass}>This month</button>
+        <button onClick={() => setRange(thisYear())} className={presetClass}>This year</button>
+      </div>
+      <label className="flex items-center gap-2 text-sm text-slate-600 mb-5">
+        <input type="checkbox" checked={includeSummaries} onChange={e => setIncludeSummaries(e.target.checked)} />
+        Include AI summaries and reflection questions
+      </label>
+
+      <button
+        onClick={handlePrint}
+        disabled={isBuilding}
+        className="py-2 px-4 bg-slate-50 hover:bg-slate-100 text-slate-700 font-medium rounded-lg border border-slate-200 transition-all flex items-center justify-center gap-2 disabled:opacity-50 text-sm"
+      >
+        {isBuilding ? <Loader2 className="animate-spin" size={16} /> : <Printer size={16} />}
+        {isBuilding ? 'Preparing...' : 'Print or Save as PDF'}
+      </button>
+    </div>
+  );
+};
+
+export default JournalBookExport;
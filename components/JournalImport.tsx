@@ -0,0 +1,175 @@
+import React, { useRef, useState } from 'react';
+import { Import, Loader2, AlertTriangle, FolderOpen, FileArchive } from 'lucide-react';
+import { Notebook } from '../types';
+import { DEFAULT_NOTEBOOK_ID } from '../services/storage';
+import { ArchiveValidationError } from '../services/archive';
+import { ImportSource, JournalImportPlan, IMPORT_SOURCE_LABELS, planJournalImport, commitJournalImport } from '../services/importers';
+import { queueEntriesForAnalysis } from '../services/analysisQueue';
+
+interface JournalImportProps {
+  notebooks: Notebook[];
+  onEntriesChanged?: () => void;
+}
+
+const SOURCE_HINTS: Record<ImportSource, string> = {
+  dayone: 'The ZIP from Day One → Export → JSON, with its photos folder.',
+  journey: 'The ZIP from Journey → Export → ZIP.',
+  text: 'A folder of .txt or .md files with the date in each file name, e.g. 2021-06-14.txt.'
+};
+
+const JournalImport: React.FC<JournalImportProps> = ({ notebooks, onEntriesChanged }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const [source, setSource] = useState<ImportSource>('dayone');
+  const [plan, setPlan] = useState<JournalImportPlan | null>(null);
+  const [notebookId, setNotebookId] = useState(DEFAULT_NOTEBOOK_ID);
+  const [queueAnalysis, setQueueAnalysis] = useState(true);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<{ message: string, problems: string[] } | null>(null);
+
+  const handleFiles = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []) as File[];
+    event.target.value = '';
+    if (files.length === 0) return;
+    setError(null);
+    setIsWorking(true);
+    try {
+      setPlan(await planJournalImport(source, files));
+    } catch (e) {
+      console.error(e);
+      setError(e instanceof ArchiveValidationError
+        ? { message: e.message, problems: e.problems }
+        : { message: "The export could not be read. Your journal was not changed.", problems: [] });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!plan) return;
+    setIsWorking(true);
+    try {
+      const ids = await commitJournalImport(plan, notebookId);
+      if (queueAnalysis) queueEntriesForAnalysis(ids);
+      setPlan(null);
+      onEntriesChanged?.();
+      alert(`Imported ${ids.length} entr${ids.length === 1 ? 'y' : 'ies'} from ${IMPORT_SOURCE_LABELS[plan.source]}.${queueAnalysis && ids.length > 0 ? ' They will be analyzed in the background.' : ''}`);
+    } catch (e) {
+      console.error(e);
+      alert("Error during import. Some entries may not have been saved.");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const buttonClass = "py-2 px-4 bg-slate-50 hover:bg-slate-100 text-slate-700 font-medium rounded-lg border border-slate-200 transition-all flex items-center justify-center gap-2 disabled:opacity-50 text-sm";
+  const selectClass = "border border-slate-200 rounded-lg px-3 py-2 text-sm text-slate-700 bg-white focus:outline-none focus:ring-2 focus:ring-lumina-100";
+
+  return (
+    <div className="mt-8 bg-white rounded-2xl shadow-sm border border-slate-200 p-6">
+      <div className="flex items-center gap-3 mb-4">
+        <Import className="text-lumina-500" size={24} />
+        <h3 className="font-bold text-slate-800">Import from Other Apps</h3>
+      </div>
+      <p className="text-slate-600 text-sm leading-relaxed mb-5">
+        Bring in your history from Day One, Journey or plain text files. Original dates and photos are kept,
+        and entries you already have are skipped.
+      </p>
+
+      <input type="file" accept=".zip,.json,.txt,.md,.markdown" ref={fileInputRef} onChange={handleFiles} className="hidden" multiple />
+      <input type="file" ref={folderInputRef} onChange={handleFiles} className="hidden" {...{ webkitdirectory: '' }} multiple />
+
+      {!plan && (
+        <>
+          <div className="flex flex-wrap gap-2 mb-3">
+            {(Object.keys(IMPORT_SOURCE_LABELS) as ImportSource[]).map(key => (
+              <button
+                key={key}
+                onClick={() => setSource(key)}
+                className={`text-sm px-3 py-1.5 rounded-full border transition-colors ${source === key ? 'bg-lumina-50 border-lumina-200 text-lumina-700 font-medium' : 'border-slate-200 text-slate-500 hover:bg-slate-50'}`}
+              >
+                {IMPORT_SOURCE_LABELS[key]}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-slate-500 mb-4">{SOURCE_HINTS[source]}</p>
+          <div className="flex flex-wrap gap-2">
+            <button onClick={() => fileInputRef.current?.click()} disabled={isWorking} className={buttonClass}>
+              {isWorking ? <Loader2 className="animate-spin" size={16} /> : <FileArchive size={16} />}
+              {isWorking ? 'Reading...' : source === 'text' ? 'Choose Files' : 'Choose ZIP'}
+            </button>
+            <button onClick={() => folderInputRef.current?.click()} disabled={isWorking} className={buttonClass}>
+              <FolderOpen size={16} /> Choose Folder
+            </button>
+          </div>
+        </>
+      )}
+
+      {plan && (
+        <div className="border border-lumina-100 bg-lumina-50/40 rounded-xl p-5 animate-fade-in">
+          <h4 className="font-semibold text-slate-800 text-sm mb-1">Ready to import from {IMPORT_SOURCE_LABELS[plan.source]}</h4>
+          <p className="text-sm text-slate-600">
+            {plan.entries.length} new entr{plan.entries.length === 1 ? 'y' : 'ies'}
+            {plan.blobs.size > 0 && ` with ${plan.blobs.size} media file${plan.blobs.size === 1 ? '' : 's'}`}
+            {plan.duplicates > 0 && ` · ${plan.duplicates} already in your journal`}
+            {plan.entries.length > 0 && ` · ${new Date(plan.entries[0].createdAt).toLocaleDateString()} to ${new Date(plan.entries[plan.entries.length - 1].createdAt).toLocaleDateString()}`}
+          </p>
+
+          {plan.warnings.length > 0 && (
+            <details className="mt-3 text-xs text-amber-800">
+              <summary className="cursor-pointer flex items-center gap-1"><AlertTriangle size={12} /> {plan.warnings.length} item{plan.warnings.length === 1 ? ' was' : 's were'} skipped</summary>
+              <ul className="mt-2 ml-4 list-disc max-h-40 overflow-y-auto space-y-0.5">
+                {plan.warnings.map((warning, i) => <li key={i}>{warning}</li>)}
+              </ul>
+            </details>
+          )}
+
+          {plan.entries.length > 0 && (
+            <div className="mt-4 space-y-3">
+              {notebooks.length > 1 && (
+                <label className="text-xs text-slate-500 flex items-center gap-2">
+                  Add to
+                  <select value={notebookId} onChange={e => setNotebookId(e.target.value)} className={selectClass}>
+                    {notebooks.map(n => <option key={n.id} value={n.id}>{n.name}</option>)}
+                  </select>
+                </label>
+              )}
+              <label className="flex items-center gap-2 text-sm text-slate-600">
+                <input type="checkbox" checked={queueAnalysis} onChange={e => setQueueAnalysis(e.target.checked)} />
+                Analyze the imported entries with AI in the background
+              </label>
+            </div>
+          )}
+
+          <div className="flex gap-2 mt-4">
+            {plan.entries.length > 0 && (
+              <button onClick={handleImport} disabled={isWorking} className={buttonClass}>
+                {isWorking ? <Loader2 className="animate-spin" size={16} /> : <Import size={16} />}
+                {isWorking ? 'Importing...' : `Import ${plan.entries.length} Entr${plan.entries.length === 1 ? 'y' : 'ies'}`}
+              </button>
+            )}
+            <button onClick={() => setPlan(null)} disabled={isWorking} className="py-2 px-4 text-slate-500 hover:text-slate-700 text-sm">
+              {plan.entries.length > 0 ? 'Cancel' : 'Close'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="mt-4 text-xs text-red-700 bg-red-50 border border-red-100 rounded-lg p-3">
+          <div className="flex items-start justify-between gap-2">
+            <span className="flex items-start gap-2"><AlertTriangle size={14} className="shrink-0 mt-0.5" /> {error.message}</span>
+            <button onClick={() => setError(null)} className="text-red-500 hover:text-red-700">Dismiss</button>
+          </div>
+          {error.problems.length > 0 && (
+            <ul className="mt-2 ml-6 list-disc max-h-40 overflow-y-auto space-y-0.5">
+              {error.problems.map((problem, i) => <li key={i}>{problem}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default JournalImport;
@@ -1,27 +1,36 @@
 
 import React from 'react';
-import { Book, BarChart2, PlusCircle, Settings, Feather, Sparkles, Compass } from 'lucide-react';
-import { ViewMode } from '../types';
+import { Book, BarChart2, PlusCircle, Settings, Feather, Sparkles, Compass, Trash2 } from 'lucide-react';
+import { ViewMode, Notebook } from '../types';
+import NotebookSwitcher from './NotebookSwitcher';
+import SyncStatusIndicator from './SyncStatusIndicator';
+import AnalysisQueueIndicator from './AnalysisQueueIndicator';
 
 interface LayoutProps {
   currentView: ViewMode;
   setView: (view: ViewMode) => void;
+  notebooks: Notebook[];
+  activeNotebookId: string;
+  notebookEntryCounts: Record<string, number>;
+  onSelectNotebook: (notebookId: string) => void;
+  onNotebooksChanged: () => void;
   children: React.ReactNode;
 }
 
-const Layout: React.FC<LayoutProps> = ({ currentView, setView, children }) => {
+const Layout: React.FC<LayoutProps> = ({ currentView, setView, notebooks, activeNotebookId, notebookEntryCounts, onSelectNotebook, onNotebooksChanged, children }) => {
   const navItems = [
     { id: ViewMode.WRITE, label: 'Write', icon: PlusCircle },
     { id: ViewMode.LIST, label: 'Journal', icon: Book },
     { id: ViewMode.ANALYTICS, label: 'Insights', icon: BarChart2 },
     { id: ViewMode.GUIDANCE, label: 'Guidance', icon: Compass },
+    { id: ViewMode.TRASH, label: 'Trash', icon: Trash2 },
     { id: ViewMode.SETTINGS, label: 'Settings', icon: Settings },
   ];
 
   return (
     <div className="flex h-screen bg-slate-50 text-slate-800 overflow-hidden">
       {/* Sidebar */}
-      <aside className="w-20 lg:w-64 bg-white border-r border-slate-200 flex flex-col justify-between transition-all duration-300 z-10">
+      <aside className="w-20 lg:w-64 bg-white border-r border-slate-200 flex flex-col justify-between transition-all duration-300 z-10 overflow-y-auto">
         <div>
           <div className="h-16 flex items-center justify-center lg:justify-start lg:px-6 border-b border-slate-100">
             <div className="bg-lumina-500 p-2 rounded-xl text-white mr-0 lg:mr-3 shadow-lg shadow-lumina-200">
@@ -51,9 +60,19 @@ const Layout: React.FC<LayoutProps> = ({ currentView, setView, children }) => {
               );
             })}
           </nav>
+
+          <NotebookSwitcher
+            notebooks={notebooks}
+            activeNotebookId={activeNotebookId}
+            entryCounts={notebookEntryCounts}
+            onSelect={onSelectNotebook}
+            onNotebooksChanged={onNotebooksChanged}
+          />
         </div>
 
         <div className="p-4 border-t border-slate-100">
+           <AnalysisQueueIndicator />
+           <SyncStatusIndicator />
            <div className="p-4 rounded-xl bg-gradient-to-br from-indigo-50 to-lumina-50 border border-lumina-100 hidden lg:block">
               <div className="flex items-center gap-2 mb-2">
                   <Sparkles size={16} className="text-lumina-500" />
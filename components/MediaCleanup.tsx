@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { Trash2, Search, Loader2, CheckCircle2 } from 'lucide-react';
+import { findOrphanedBlobs, reclaimOrphanedBlobs, OrphanedBlob } from '../services/storage';
+import { formatBytes } from '../services/storageUsage';
+
+const MediaCleanup: React.FC = () => {
+  const [orphans, setOrphans] = useState<OrphanedBlob[] | null>(null);
+  const [isScanning, setIsScanning] = useState(false);
+  const [isReclaiming, setIsReclaiming] = useState(false);
+  const [reclaimedBytes, setReclaimedBytes] = useState<number | null>(null);
+
+  const totalBytes = orphans?.reduce((acc, o) => acc + o.size, 0) ?? 0;
+
+  const handleScan = async () => {
+    setIsScanning(true);
+    setReclaimedBytes(null);
+    try {
+      setOrphans(await findOrphanedBlobs());
+    } catch (e) {
+      console.error(e);
+      alert("Failed to scan media storage.");
+    } finally {
+      setIsScanning(false);
+    }
+  };
+
+  const handleReclaim = async () => {
+    if (!orphans || orphans.length === 0) return;
+    if (!confirm(`Permanently delete ${orphans.length} unused media file(s) (${formatBytes(totalBytes)})?`)) return;
+    setIsReclaiming(true);
+    try {
+      const removed = new Set(await reclaimOrphanedBlobs(orphans.map(o => o.id)));
+      setReclaimedBytes(orphans.filter(o => removed.has(o.id)).reduce((acc, o) => acc + o.size, 0));
+      setOrphans(orphans.filter(o => !removed.has(o.id)));
+    } catch (e) {
+      console.error(e);
+      alert("Failed to delete unused media.");
+    } finally {
+      setIsReclaiming(false);
+    }
+  };
+
+  return (
+    <div className="mt-8 bg-white rounded-2xl shadow-sm border border-slate-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <Trash2 className="text-rose-500" size={24} />
+          <h3 className="font-bold text-slate-800">Media Cleanup</h3>
+        </div>
+        <button
+          onClick={handleScan}
+          disabled={isScanning || isReclaiming}
+          className="py-2 px-4 bg-slate-50 hover:bg-slate-100 text-slate-700 font-medium rounded-lg border border-slate-200 transition-all flex items-center gap-2 disabled:opacity-50 text-sm"
+        >
+          {isScanning ? <Loader2 className="animate-spin" size={16} /> : <Search size={16} />}
+          {isScanning ? 'Scanning...' : 'Scan for Unused Media'}
+        </button>
+      </div>
+      <p className="text-slate-600 text-sm leading-relaxed">
+        Drawings, audio, videos and images that no entry uses anymore are cleaned up automatically when entries are permanently deleted or purged from the trash.
+        Run a scan to find anything left behind, for example media removed from an entry that was never saved.
+      </p>
+
+      {reclaimedBytes !== null && (
+        <div className="mt-4 flex items-center gap-2 text-sm text-emerald-700 bg-emerald-50 border border-emerald-100 rounded-lg p-3">
+          <CheckCircle2 size={16} /> Reclaimed {formatBytes(reclaimedBytes)}.
+        </div>
+      )}
+
+      {orphans && orphans.length === 0 && reclaimedBytes === null && (
+        <p className="mt-4 text-sm text-slate-400 italic">No unused media found.</p>
+      )}
+
+      {orphans && orphans.length > 0 && (
+        <div className="mt-4 animate-fade-in">
+          <ul className="divide-y divide-slate-100 border border-slate-200 rounded-xl max-h-64 overflow-y-auto">
+            {orphans.map(orphan => (
+              <li key={orphan.id} className="flex items-center justify-between px-4 py-2 text-sm">
+                <span className="font-mono text-xs text-slate-500 truncate mr-4">{orphan.id}</span>
+                <span className="flex items-center gap-3 shrink-0">
+                  <span className="text-xs text-slate-400">{orphan.mimeType || 'unknown type'}</span>
+                  <span className="font-medium text-slate-700 w-16 text-right">{formatBytes(orphan.size)}</span>
+                </span>
+              </li>
+            ))}
+          </ul>
+          <button
+            onClick={handleReclaim}
+            disabled={isReclaiming}
+            className="mt-3 py-2 px-4 bg-rose-50 hover:bg-rose-100 text-rose-700 font-medium rounded-lg border border-rose-100 transition-all flex items-center gap-2 disabled:opacity-50 text-sm"
+          >
+            {isReclaiming ? <Loader2 className="animate-spin" size={16} /> : <Trash2 size={16} />}
+            Reclaim {formatBytes(totalBytes)} from {orphans.length} file{orphans.length === 1 ? '' : 's'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MediaCleanup;
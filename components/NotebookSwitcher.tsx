@@ -0,0 +1,93 @@
+import React from 'react';
+import { Plus, Pencil, X, Library } from 'lucide-react';
+import { Notebook } from '../types';
+import { saveNotebook, deleteNotebook, ALL_NOTEBOOKS, DEFAULT_NOTEBOOK_ID } from '../services/storage';
+import { v4 as uuidv4 } from 'uuid';
+
+interface NotebookSwitcherProps {
+  notebooks: Notebook[];
+  activeNotebookId: string;
+  entryCounts: Record<string, number>;
+  onSelect: (notebookId: string) => void;
+  onNotebooksChanged: () => void;
+}
+
+const NOTEBOOK_COLORS = ['#0ea5e9', '#8b5cf6', '#f59e0b', '#10b981', '#f43f5e', '#64748b'];
+
+const NotebookSwitcher: React.FC<NotebookSwitcherProps> = ({ notebooks, activeNotebookId, entryCounts, onSelect, onNotebooksChanged }) => {
+  const totalCount = (Object.values(entryCounts) as number[]).reduce((acc, n) => acc + n, 0);
+
+  const handleCreate = async () => {
+    const name = prompt("Name for the new notebook:")?.trim();
+    if (!name) return;
+    const notebook: Notebook = {
+      id: uuidv4(),
+      name,
+      color: NOTEBOOK_COLORS[notebooks.length % NOTEBOOK_COLORS.length],
+      createdAt: new Date().toISOString()
+    };
+    await saveNotebook(notebook);
+    onNotebooksChanged();
+    onSelect(notebook.id);
+  };
+
+  const handleRename = async (notebook: Notebook) => {
+    const name = prompt("Rename notebook:", notebook.name)?.trim();
+    if (!name || name === notebook.name) return;
+    await saveNotebook({ ...notebook, name });
+    onNotebooksChanged();
+  };
+
+  const handleDelete = async (notebook: Notebook) => {
+    const defaultName = notebooks.find(n => n.id === DEFAULT_NOTEBOOK_ID)?.name || 'the default notebook';
+    if (!confirm(`Delete the notebook "${notebook.name}"? Its entries will move to ${defaultName}.`)) return;
+    await deleteNotebook(notebook.id);
+    if (activeNotebookId === notebook.id) onSelect(DEFAULT_NOTEBOOK_ID);
+    onNotebooksChanged();
+  };
+
+  const itemClass = (isActive: boolean) =>
+    `w-full flex items-center justify-center lg:justify-start gap-3 px-3 py-2 rounded-lg text-sm transition-colors group ${isActive ? 'bg-slate-100 text-slate-800 font-medium' : 'text-slate-500 hover:bg-slate-50'}`;
+
+  return (
+    <div className="px-4 pb-4">
+      <div className="hidden lg:flex items-center justify-between px-3 mb-2">
+        <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Notebooks</span>
+        <button onClick={handleCreate} className="p-1 text-slate-400 hover:text-lumina-600 rounded" title="New notebook">
+          <Plus size={14} />
+        </button>
+      </div>
+      <div className="space-y-1">
+        <button onClick={() => onSelect(ALL_NOTEBOOKS)} className={itemClass(activeNotebookId === ALL_NOTEBOOKS)} title="All notebooks">
+          <Library size={16} className="shrink-0" />
+          <span className="hidden lg:block flex-1 text-left truncate">All notebooks</span>
+          <span className="hidden lg:block text-[10px] text-slate-400">{totalCount}</span>
+        </button>
+        {notebooks.map(notebook => (
+          <div key={notebook.id} className="relative group">
+            <button onClick={() => onSelect(notebook.id)} className={itemClass(activeNotebookId === notebook.id)} title={notebook.name}>
+              <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: notebook.color }}></span>
+              <span className="hidden lg:block flex-1 text-left truncate">{notebook.name}</span>
+              <span className="hidden lg:block text-[10px] text-slate-400 group-hover:opacity-0">{entryCounts[notebook.id] || 0}</span>
+            </button>
+            <div className="hidden lg:group-hover:flex absolute right-2 top-1/2 -translate-y-1/2 gap-0.5">
+              <button onClick={() => handleRename(notebook)} className="p-1 text-slate-400 hover:text-slate-600 rounded" title="Rename">
+                <Pencil size={12} />
+              </button>
+              {notebook.id !== DEFAULT_NOTEBOOK_ID && (
+                <button onClick={() => handleDelete(notebook)} className="p-1 text-slate-400 hover:text-red-500 rounded" title="Delete notebook">
+                  <X size={12} />
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+        <button onClick={handleCreate} className={`${itemClass(false)} lg:hidden`} title="New notebook">
+          <Plus size={16} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default NotebookSwitcher;
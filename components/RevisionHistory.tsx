@@ -0,0 +1,137 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { History, RotateCcw, GitBranch, X, Loader2 } from 'lucide-react';
+import { EntryRevision } from '../types';
+import { getRevisions } from '../services/storage';
+import { diffWords, countChangedWords } from '../services/diff';
+
+interface RevisionHistoryProps {
+  entryId: string;
+  currentContent: string; // Unsaved text in the editor
+  onRestore: (revision: EntryRevision) => void;
+  onFork: (revision: EntryRevision) => void;
+  onClose: () => void;
+}
+
+type CompareTarget = 'previous' | 'current';
+
+const formatTimestamp = (iso: string) =>
+  new Date(iso).toLocaleString('en-US', { month: 'short', day: 'numeric', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const RevisionHistory: React.FC<RevisionHistoryProps> = ({ entryId, currentContent, onRestore, onFork, onClose }) => {
+  const [revisions, setRevisions] = useState<EntryRevision[] | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareWith, setCompareWith] = useState<CompareTarget>('previous');
+
+  useEffect(() => {
+    getRevisions(entryId).then(list => {
+      setRevisions(list);
+      setSelectedId(list[0]?.id ?? null);
+    });
+  }, [entryId]);
+
+  const selectedIndex = revisions?.findIndex(r => r.id === selectedId) ?? -1;
+  const selected = selectedIndex >= 0 ? revisions![selectedIndex] : null;
+  const older = selectedIndex >= 0 ? revisions![selectedIndex + 1] : undefined;
+
+  // Previous: what changed in this save. Current: what restoring it would change in the editor.
+  const parts = useMemo(() => {
+    if (!selected) return [];
+    return compareWith === 'previous'
+      ? diffWords(older?.snapshot.content ?? '', selected.snapshot.content)
+      : diffWords(currentContent, selected.snapshot.content);
+  }, [selected, older, compareWith, currentContent]);
+  const changes = countChangedWords(parts);
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden animate-fade-in-down">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-slate-100">
+        <div className="flex items-center gap-2">
+          <History size={18} className="text-lumina-500" />
+          <h3 className="font-bold text-slate-800 text-sm">Revision History</h3>
+        </div>
+        <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600 rounded" title="Close">
+          <X size={16} />
+        </button>
+      </div>
+
+      {!revisions ? (
+        <div className="py-8 flex justify-center text-slate-400"><Loader2 className="animate-spin" /></div>
+      ) : revisions.length === 0 ? (
+        <p className="p-6 text-sm text-slate-400 italic">No earlier versions yet. A revision is recorded every time you save.</p>
+      ) : (
+        <div className="flex flex-col md:flex-row max-h-[28rem]">
+          <ul className="md:w-56 shrink-0 border-b md:border-b-0 md:border-r border-slate-100 overflow-y-auto max-h-40 md:max-h-none">
+            {revisions.map((revision, index) => (
+              <li key={revision.id}>
+                <button
+                  onClick={() => setSelectedId(revision.id)}
+                  className={`w-full text-left px-4 py-2 text-xs transition-colors ${revision.id === selectedId ? 'bg-lumina-50 text-lumina-700' : 'text-slate-600 hover:bg-slate-50'}`}
+                >
+                  <div className="font-medium">{formatTimestamp(revision.savedAt)}</div>
+                  <div className="text-[10px] text-slate-400">
+                    {index === 0 ? 'Latest save' : index === revisions.length - 1 ? 'Oldest version' : `Version ${revisions.length - index}`}
+                    {revision.snapshot.moodEmoji && ` · ${revision.snapshot.moodEmoji}`}
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          {selected && (
+            <div className="flex-1 flex flex-col min-w-0">
+              <div className="flex flex-wrap items-center justify-between gap-2 px-4 py-2 border-b border-slate-100">
+                <div className="flex bg-slate-100 p-0.5 rounded-md text-xs">
+                  {(['previous', 'current'] as CompareTarget[]).map(target => (
+                    <button
+                      key={target}
+                      onClick={() => setCompareWith(target)}
+                      className={`px-2 py-1 rounded ${compareWith === target ? 'bg-white text-slate-700 shadow-sm' : 'text-slate-500'}`}
+                    >
+                      {target === 'previous' ? 'Changes in this version' : 'Compare with editor'}
+                    </button>
+                  ))}
+                </div>
+                <span className="text-[10px] text-slate-400">
+                  <span className="text-emerald-600">+{changes.added}</span> / <span className="text-red-500">-{changes.removed}</span> words
+                </span>
+              </div>
+
+              <div className="flex-1 overflow-y-auto px-4 py-3 text-sm font-serif text-slate-700 whitespace-pre-wrap leading-relaxed">
+                {parts.length === 0 ? <em className="text-slate-400">No text</em> : parts.map((part, i) => (
+                  part.type === 'equal' ? <span key={i}>{part.text}</span>
+                    : part.type === 'added' ? <ins key={i} className="bg-emerald-100 text-emerald-800 no-underline">{part.text}</ins>
+                    : <del key={i} className="bg-red-100 text-red-700">{part.text}</del>
+                ))}
+              </div>
+
+              <div className="px-4 py-2 border-t border-slate-100 flex items-center justify-between gap-2">
+                <span className="text-[10px] text-slate-400">
+                  {selected.snapshot.todos?.length ?? 0} tasks · {selected.snapshot.schedule?.length ?? 0} schedule blocks
+                  {selected.snapshot.moodLabel && ` · ${selected.snapshot.moodLabel}`}
+                </span>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => onFork(selected)}
+                    className="px-3 py-1.5 text-xs font-medium text-slate-600 border border-slate-200 rounded-lg hover:bg-slate-50 flex items-center gap-1"
+                    title="Save this version as a new, separate entry"
+                  >
+                    <GitBranch size={14} /> Fork
+                  </button>
+                  <button
+                    onClick={() => onRestore(selected)}
+                    className="px-3 py-1.5 text-xs font-medium text-white bg-lumina-600 rounded-lg hover:bg-lumina-700 flex items-center gap-1"
+                    title="Load this version into the editor"
+                  >
+                    <RotateCcw size={14} /> Restore
+                  </button>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RevisionHistory;
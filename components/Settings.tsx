@@ -1,59 +1,214 @@
 
 import React, { useRef, useState } from 'react';
-import { Download, Upload, Database, ShieldCheck, AlertTriangle, FileArchive, Loader2 } from 'lucide-react';
-import { exportFullBackup, importFullBackup } from '../services/storage';
+import { Download, Upload, Database, ShieldCheck, AlertTriangle, FileArchive, Loader2, GitMerge, FileText, FolderOpen, Lock } from 'lucide-react';
+import { exportFullBackup, importFullBackup, planBackupMerge, commitBackupMerge, BackupMergePlan, BackupProgress, BackupTaskOptions } from '../services/backup';
+import { ArchiveValidationError } from '../services/archive';
+import { exportMarkdownVault, importMarkdownVault } from '../services/markdown';
+import { isEncryptedArchive, ENCRYPTED_ARCHIVE_EXTENSION } from '../services/archiveCrypto';
+import { VaultError } from '../services/vault';
+import { ALL_NOTEBOOKS } from '../services/storage';
+import { Notebook } from '../types';
+import VaultSettings from './VaultSettings';
+import BackupMergeReview from './BackupMergeReview';
+import BackupProgressPanel from './BackupProgressPanel';
+import MediaCleanup from './MediaCleanup';
+import StorageUsage from './StorageUsage';
+import SyncSettings from './SyncSettings';
+import JournalBookExport from './JournalBookExport';
+import CalendarExport from './CalendarExport';
+import AnalyticsExport from './AnalyticsExport';
+import AIProviderSettings from './AIProviderSettings';
+import JournalImport from './JournalImport';
+import BackupScheduleSettings from './BackupScheduleSettings';
+import { recordBackup } from '../services/scheduledBackup';
 
-const Settings: React.FC = () => {
+type ImportMode = 'merge' | 'replace';
+
+const MIN_BACKUP_PASSWORD_LENGTH = 8;
+
+const isCancelled = (e: unknown) => e instanceof DOMException && e.name === 'AbortError';
+
+interface SettingsProps {
+  notebooks: Notebook[];
+  onEntriesChanged?: () => void;
+}
+
+const Settings: React.FC<SettingsProps> = ({ notebooks, onEntriesChanged }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const markdownFolderInputRef = useRef<HTMLInputElement>(null);
+  const markdownFileInputRef = useRef<HTMLInputElement>(null);
+  const importModeRef = useRef<ImportMode>('merge');
   const [isProcessing, setIsProcessing] = useState(false);
+  const [progress, setProgress] = useState<BackupProgress | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const [exportNotebookId, setExportNotebookId] = useState(ALL_NOTEBOOKS);
+  const [mergePlan, setMergePlan] = useState<BackupMergePlan | null>(null);
+  const [importError, setImportError] = useState<{ message: string, problems: string[] } | null>(null);
+  const [protectBackup, setProtectBackup] = useState(false);
+  const [backupPassword, setBackupPassword] = useState('');
+  const [confirmBackupPassword, setConfirmBackupPassword] = useState('');
+  const [lockedImport, setLockedImport] = useState<{ file: File, mode: ImportMode } | null>(null);
+  const [importPassword, setImportPassword] = useState('');
+  const [importPasswordError, setImportPasswordError] = useState<string | null>(null);
+
+  // Options for a cancellable archive task that reports into the progress panel
+  const startTask = (): BackupTaskOptions => {
+    abortRef.current = new AbortController();
+    return { signal: abortRef.current.signal, onProgress: setProgress };
+  };
 
-  const handleExport = async () => {
+  const endTask = () => {
+    abortRef.current = null;
+    setProgress(null);
+  };
+
+  const downloadExport = async (createZip: (notebookId?: string) => Promise<Blob>, baseName: string, extension: string = 'zip') => {
     setIsProcessing(true);
     try {
-        const blob = await exportFullBackup();
+        const notebook = notebooks.find(n => n.id === exportNotebookId);
+        const blob = await createZip(notebook?.id);
         const url = URL.createObjectURL(blob);
         const link = document.createElement('a');
         link.href = url;
-        link.download = `lumina_full_archive_${new Date().toISOString().split('T')[0]}.zip`;
+        const scope = notebook ? `_${notebook.name.replace(/[^a-z0-9]+/gi, '-').toLowerCase()}` : '';
+        link.download = `${baseName}${scope}_${new Date().toISOString().split('T')[0]}.${extension}`;
         document.body.appendChild(link);
         link.click();
         document.body.removeChild(link);
         URL.revokeObjectURL(url);
     } catch (e) {
+        if (isCancelled(e)) return;
         console.error(e);
-        alert("Failed to create backup.");
+        alert("Failed to create the export.");
     } finally {
         setIsProcessing(false);
+        endTask();
+    }
+  };
+
+  // A whole-journal archive counts as a backup for the schedule and its reminders
+  const exportAndRecord = async (notebookId?: string, password?: string) => {
+    const blob = await exportFullBackup(notebookId, password, startTask());
+    if (!notebookId) recordBackup();
+    return blob;
+  };
+
+  const handleExport = () => {
+    if (!protectBackup) {
+        downloadExport(notebookId => exportAndRecord(notebookId), 'lumina_full_archive');
+        return;
+    }
+    if (backupPassword.length < MIN_BACKUP_PASSWORD_LENGTH) {
+        alert(`Use a password of at least ${MIN_BACKUP_PASSWORD_LENGTH} characters.`);
+        return;
     }
+    if (backupPassword !== confirmBackupPassword) {
+        alert("Passwords do not match.");
+        return;
+    }
+    downloadExport(notebookId => exportAndRecord(notebookId, backupPassword), 'lumina_encrypted_archive', ENCRYPTED_ARCHIVE_EXTENSION);
   };
 
-  const handleImportClick = () => {
+  const handleMarkdownExport = () => downloadExport(exportMarkdownVault, 'lumina_markdown');
+
+  const handleMarkdownImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []) as File[];
+    event.target.value = '';
+    if (files.length === 0) return;
+    setImportError(null);
+    setIsProcessing(true);
+    try {
+        const summary = await importMarkdownVault(files);
+        alert(`Markdown import complete: ${summary.added} added, ${summary.updated} updated, ${summary.skipped} skipped.${summary.trashed > 0 ? ` ${summary.trashed} ${summary.trashed === 1 ? 'note matches an entry' : 'notes match entries'} in the trash and ${summary.trashed === 1 ? 'was' : 'were'} left there.` : ''}`);
+        onEntriesChanged?.();
+    } catch (e) {
+        console.error(e);
+        showImportError(e);
+    } finally {
+        setIsProcessing(false);
+    }
+  };
+
+  const handleImportClick = (mode: ImportMode) => {
+    importModeRef.current = mode;
     fileInputRef.current?.click();
   };
 
-  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
+  const showImportError = (e: unknown) => {
+    if (e instanceof ArchiveValidationError) {
+        setImportError({ message: e.message, problems: e.problems });
+    } else {
+        setImportError({ message: "Error during import. Your current journal was not changed.", problems: [] });
+    }
+  };
 
-    if (confirm("Importing a backup will REPLACE your current data. This action cannot be undone. Are you sure?")) {
-        setIsProcessing(true);
-        try {
-            const success = await importFullBackup(file);
-            if (success) {
-                alert("Archive imported successfully! The page will refresh.");
-                window.location.reload();
-            } else {
-                alert("Failed to import archive. Invalid format.");
-            }
-        } catch (e) {
-            console.error(e);
-            alert("Error during import.");
-        } finally {
-            setIsProcessing(false);
+  const runImport = async (file: File, mode: ImportMode, password?: string) => {
+    setIsProcessing(true);
+    try {
+        if (mode === 'merge') {
+            setMergePlan(await planBackupMerge(file, password, startTask()));
+        } else {
+            await importFullBackup(file, password, startTask());
+            alert("Archive imported successfully! The page will refresh.");
+            window.location.reload();
         }
+        setLockedImport(null);
+    } catch (e) {
+        console.error(e);
+        if (isCancelled(e)) {
+            setLockedImport(null);
+        } else if (e instanceof VaultError && e.code === 'wrong-passphrase') {
+            setImportPasswordError(e.message);
+        } else {
+            setLockedImport(null);
+            showImportError(e);
+        }
+    } finally {
+        setIsProcessing(false);
+        endTask();
     }
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
     // Reset input
     event.target.value = '';
+    if (!file) return;
+    setImportError(null);
+
+    const mode = importModeRef.current;
+    if (mode === 'replace' && !confirm("Importing a backup will REPLACE your current data. This action cannot be undone. Are you sure?")) return;
+
+    if (await isEncryptedArchive(file)) {
+        // Ask for the password inline, then continue with the same mode
+        setImportPassword('');
+        setImportPasswordError(null);
+        setLockedImport({ file, mode });
+        return;
+    }
+    runImport(file, mode);
+  };
+
+  const handleUnlockImport = () => {
+    if (!lockedImport || !importPassword) return;
+    setImportPasswordError(null);
+    runImport(lockedImport.file, lockedImport.mode, importPassword);
+  };
+
+  const handleApplyMerge = async (plan: BackupMergePlan) => {
+    setIsProcessing(true);
+    try {
+        const summary = await commitBackupMerge(plan, startTask());
+        alert(`Merge complete: ${summary.added} added, ${summary.updated} updated, ${summary.skipped} skipped. The page will refresh.`);
+        window.location.reload();
+    } catch (e) {
+        console.error(e);
+        alert(isCancelled(e)
+            ? "Merge cancelled. Your entries were not changed; media copied so far can be removed under Media Cleanup."
+            : "Error during merge. Your existing entries were not removed.");
+        setIsProcessing(false);
+        endTask();
+    }
   };
 
   return (
@@ -89,13 +244,34 @@ const Settings: React.FC = () => {
                 <p className="text-sm text-slate-500 mb-4">
                     Download a ZIP file containing your text entries AND all images, drawings, and audio.
                 </p>
+                {notebooks.length > 1 && (
+                    <select
+                        value={exportNotebookId}
+                        onChange={(e) => setExportNotebookId(e.target.value)}
+                        className="w-full mb-3 border border-slate-200 rounded-lg px-3 py-2 text-sm text-slate-700 bg-white focus:outline-none focus:ring-2 focus:ring-lumina-100"
+                    >
+                        <option value={ALL_NOTEBOOKS}>All notebooks</option>
+                        {notebooks.map(n => <option key={n.id} value={n.id}>{n.name} only</option>)}
+                    </select>
+                )}
+                <label className="flex items-center gap-2 text-sm text-slate-600 mb-3">
+                    <input type="checkbox" checked={protectBackup} onChange={(e) => setProtectBackup(e.target.checked)} />
+                    Protect with a password
+                </label>
+                {protectBackup && (
+                    <div className="space-y-2 mb-3 animate-fade-in">
+                        <input type="password" value={backupPassword} onChange={(e) => setBackupPassword(e.target.value)} placeholder="Backup password" autoComplete="new-password" className="w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-lumina-500" />
+                        <input type="password" value={confirmBackupPassword} onChange={(e) => setConfirmBackupPassword(e.target.value)} placeholder="Confirm password" autoComplete="new-password" className="w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-lumina-500" />
+                        <p className="text-[11px] text-slate-400">The backup cannot be opened without this password, and it cannot be recovered.</p>
+                    </div>
+                )}
                 <button 
                     onClick={handleExport}
                     disabled={isProcessing}
                     className="w-full py-2.5 px-4 bg-slate-50 hover:bg-slate-100 text-slate-700 font-medium rounded-lg border border-slate-200 transition-all flex items-center justify-center gap-2 disabled:opacity-50"
                 >
                     {isProcessing ? <Loader2 className="animate-spin" size={18}/> : <Download size={18}/>}
-                    {isProcessing ? 'Archiving...' : 'Download ZIP Archive'}
+                    {isProcessing ? 'Archiving...' : protectBackup ? 'Download Encrypted Archive' : 'Download ZIP Archive'}
                 </button>
             </div>
 
@@ -105,44 +281,169 @@ const Settings: React.FC = () => {
                     Restore Archive
                 </div>
                 <p className="text-sm text-slate-500 mb-4">
-                    Import a previously exported .zip file to restore your journal on this device.
+                    Merge a previously exported .zip or encrypted .lumina file into this journal, or replace everything on this device with it.
                 </p>
                 <input 
                     type="file" 
-                    accept=".zip" 
+                    accept=".zip,.lumina" 
                     ref={fileInputRef} 
                     onChange={handleFileChange} 
                     className="hidden" 
                 />
+                {lockedImport && (
+                    <div className="mb-3 p-3 bg-indigo-50/60 border border-indigo-100 rounded-lg space-y-2 animate-fade-in">
+                        <p className="text-xs text-indigo-800 flex items-center gap-1.5"><Lock size={12} /> {lockedImport.file.name} is password protected.</p>
+                        <input
+                            type="password"
+                            value={importPassword}
+                            onChange={(e) => setImportPassword(e.target.value)}
+                            onKeyDown={(e) => { if (e.key === 'Enter') handleUnlockImport(); }}
+                            placeholder="Backup password"
+                            autoFocus
+                            className="w-full bg-white border border-slate-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-lumina-500"
+                        />
+                        {importPasswordError && <p className="text-xs text-red-600">{importPasswordError}</p>}
+                        <div className="flex gap-2">
+                            <button onClick={handleUnlockImport} disabled={isProcessing || !importPassword} className="flex-1 py-2 px-3 bg-white hover:bg-slate-50 text-slate-700 font-medium rounded-lg border border-slate-200 text-sm flex items-center justify-center gap-2 disabled:opacity-50">
+                                {isProcessing ? <Loader2 className="animate-spin" size={14}/> : <Lock size={14}/>}
+                                {isProcessing ? 'Decrypting...' : lockedImport.mode === 'merge' ? 'Unlock & Review' : 'Unlock & Replace'}
+                            </button>
+                            <button onClick={() => setLockedImport(null)} disabled={isProcessing} className="py-2 px-3 text-slate-500 hover:text-slate-700 text-sm">Cancel</button>
+                        </div>
+                    </div>
+                )}
                 <button 
-                    onClick={handleImportClick}
-                    disabled={isProcessing}
+                    onClick={() => handleImportClick('merge')}
+                    disabled={isProcessing || !!mergePlan || !!lockedImport}
                     className="w-full py-2.5 px-4 bg-slate-50 hover:bg-slate-100 text-slate-700 font-medium rounded-lg border border-slate-200 transition-all flex items-center justify-center gap-2 disabled:opacity-50"
                 >
-                    {isProcessing ? <Loader2 className="animate-spin" size={18}/> : <Upload size={18}/>}
-                    {isProcessing ? 'Restoring...' : 'Import ZIP Archive'}
+                    {isProcessing ? <Loader2 className="animate-spin" size={18}/> : <GitMerge size={18}/>}
+                    {isProcessing ? 'Restoring...' : 'Merge ZIP Archive'}
+                </button>
+                <button 
+                    onClick={() => handleImportClick('replace')}
+                    disabled={isProcessing || !!mergePlan || !!lockedImport}
+                    className="w-full mt-2 py-2 px-4 text-slate-500 hover:text-red-600 text-xs font-medium rounded-lg transition-all flex items-center justify-center gap-2 disabled:opacity-50"
+                >
+                    <Upload size={14}/>
+                    Replace everything instead
                 </button>
             </div>
         </div>
         
+        {progress && (
+            <div className="px-6 pb-6">
+                <BackupProgressPanel progress={progress} onCancel={() => abortRef.current?.abort()} />
+            </div>
+        )}
+
+        <div className="px-6 pb-6">
+            <div className="border border-slate-200 rounded-xl p-5 hover:border-lumina-200 transition-colors">
+                <div className="flex items-center gap-3 mb-3 text-slate-700 font-semibold">
+                    <FileText size={20} className="text-lumina-500"/>
+                    Markdown / Obsidian
+                </div>
+                <p className="text-sm text-slate-500 mb-4">
+                    Export one Markdown note per entry, with its mood and keywords as frontmatter and media in an attachments folder.
+                    The ZIP opens as an Obsidian vault. Import a vault folder or ZIP to bring notes back; entries you already have are only updated when the note is newer.
+                </p>
+                <input type="file" ref={markdownFolderInputRef} onChange={handleMarkdownImport} className="hidden" {...{ webkitdirectory: '' }} multiple />
+                <input type="file" accept=".zip,.md,.markdown" ref={markdownFileInputRef} onChange={handleMarkdownImport} className="hidden" multiple />
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                    <button
+                        onClick={handleMarkdownExport}
+                        disabled={isProcessing}
+                        className="py-2.5 px-4 bg-slate-50 hover:bg-slate-100 text-slate-700 font-medium rounded-lg border border-slate-200 transition-all flex items-center justify-center gap-2 disabled:opacity-50 text-sm"
+                    >
+                        {isProcessing ? <Loader2 className="animate-spin" size={16}/> : <Download size={16}/>}
+                        Download Markdown
+                    </button>
+                    <button
+                        onClick={() => markdownFolderInputRef.current?.click()}
+                        disabled={isProcessing}
+                        className="py-2.5 px-4 bg-slate-50 hover:bg-slate-100 text-slate-700 font-medium rounded-lg border border-slate-200 transition-all flex items-center justify-center gap-2 disabled:opacity-50 text-sm"
+                    >
+                        <FolderOpen size={16}/> Import Folder
+                    </button>
+                    <button
+                        onClick={() => markdownFileInputRef.current?.click()}
+                        disabled={isProcessing}
+                        className="py-2.5 px-4 bg-slate-50 hover:bg-slate-100 text-slate-700 font-medium rounded-lg border border-slate-200 transition-all flex items-center justify-center gap-2 disabled:opacity-50 text-sm"
+                    >
+                        <Upload size={16}/> Import ZIP or Notes
+                    </button>
+                </div>
+            </div>
+        </div>
+
         <div className="bg-orange-50 p-4 border-t border-orange-100 flex gap-3">
             <AlertTriangle className="text-orange-500 shrink-0" size={20} />
             <p className="text-xs text-orange-800">
-                <strong>Important:</strong> Storing many large videos locally will slow down your browser. We recommend using the "Upload to YouTube" feature on videos to save space.
+                <strong>Important:</strong> Storing many large videos locally will slow down your browser. We recommend using the "Upload to YouTube" feature on videos, or offloading large media from the Storage Usage panel below, to save space.
             </p>
         </div>
       </div>
       
+      {importError && (
+        <div className="mt-8 bg-red-50 rounded-2xl border border-red-100 p-6 animate-fade-in">
+            <div className="flex items-start justify-between gap-4">
+                <div className="flex items-start gap-3">
+                    <AlertTriangle className="text-red-500 shrink-0" size={20} />
+                    <div>
+                        <h3 className="font-bold text-red-800 text-sm">Import failed</h3>
+                        <p className="text-sm text-red-700 mt-1">{importError.message}</p>
+                    </div>
+                </div>
+                <button onClick={() => setImportError(null)} className="text-xs text-red-500 hover:text-red-700">Dismiss</button>
+            </div>
+            {importError.problems.length > 0 && (
+                <ul className="mt-4 ml-8 space-y-1 max-h-64 overflow-y-auto text-xs text-red-800 list-disc pl-4">
+                    {importError.problems.map((problem, i) => <li key={i}>{problem}</li>)}
+                </ul>
+            )}
+        </div>
+      )}
+
+      {mergePlan && (
+        <BackupMergeReview
+            plan={mergePlan}
+            isApplying={isProcessing}
+            onApply={handleApplyMerge}
+            onCancel={() => setMergePlan(null)}
+        />
+      )}
+      
+      <BackupScheduleSettings onRestore={file => { setImportError(null); runImport(file, 'merge'); }} />
+
+      <JournalImport notebooks={notebooks} onEntriesChanged={onEntriesChanged} />
+
+      <JournalBookExport notebooks={notebooks} />
+
+      <CalendarExport notebooks={notebooks} />
+
+      <AnalyticsExport notebooks={notebooks} />
+
+      <StorageUsage onEntriesChanged={onEntriesChanged} />
+
+      <MediaCleanup />
+
       <div className="mt-8 bg-white rounded-2xl shadow-sm border border-slate-200 p-6">
           <div className="flex items-center gap-3 mb-4">
              <ShieldCheck className="text-emerald-500" size={24} />
              <h3 className="font-bold text-slate-800">Privacy First</h3>
           </div>
           <p className="text-slate-600 text-sm leading-relaxed">
-              Your journal entries are private. They are stored only on this device. 
-              When you use AI features (Analysis or Pattern Recognition), the text is sent to Google Gemini for processing and immediately discarded by the AI model after generating the response.
+              Your journal entries are private. They are stored only on this device, unless you turn on <strong>Device Sync</strong> with your own server. 
+              When you use AI features (Analysis or Pattern Recognition), the text is sent to the <strong>AI Provider</strong> chosen below: Google Gemini by default, or a server you pick, such as a model running on this computer.
+              Turn on <strong>Vault Mode</strong> below to keep everything encrypted at rest.
           </p>
       </div>
+
+      <AIProviderSettings />
+
+      <VaultSettings />
+
+      <SyncSettings />
     </div>
   );
 };
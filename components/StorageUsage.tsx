@@ -0,0 +1,184 @@
+import React, { useEffect, useState } from 'react';
+import { HardDrive, RefreshCw, Download, Trash2, Loader2 } from 'lucide-react';
+import { computeStorageUsage, offloadMedia, deleteMediaItem, formatBytes, StorageUsageReport, MediaUsageItem, UsageCategory } from '../services/storageUsage';
+
+interface StorageUsageProps {
+  onEntriesChanged?: () => void;
+}
+
+const CATEGORY_STYLES: { id: UsageCategory, label: string, color: string }[] = [
+  { id: 'video', label: 'Video', color: '#f472b6' },
+  { id: 'audio', label: 'Audio', color: '#818cf8' },
+  { id: 'drawing', label: 'Drawings', color: '#38bdf8' },
+  { id: 'image', label: 'Images', color: '#34d399' },
+  { id: 'reflection', label: 'Reflections', color: '#a78bfa' },
+  { id: 'text', label: 'Text & Data', color: '#94a3b8' },
+  { id: 'trash', label: 'Trash', color: '#fbbf24' },
+  { id: 'unused', label: 'Unused', color: '#fb7185' },
+];
+
+const formatDate = (iso: string) => new Date(iso).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+
+const StorageUsage: React.FC<StorageUsageProps> = ({ onEntriesChanged }) => {
+  const [report, setReport] = useState<StorageUsageReport | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [busyBlobId, setBusyBlobId] = useState<string | null>(null);
+
+  const loadReport = async () => {
+    setIsLoading(true);
+    try {
+      setReport(await computeStorageUsage());
+    } catch (e) {
+      console.error(e);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadReport();
+  }, []);
+
+  const runAction = async (item: MediaUsageItem, action: 'offload' | 'delete') => {
+    const prompt = action === 'offload'
+      ? `Save this ${item.category} (${formatBytes(item.size)}) to your device and remove it from browser storage?`
+      : `Permanently delete this ${item.category} (${formatBytes(item.size)}) from its entry?`;
+    if (!confirm(prompt)) return;
+
+    setBusyBlobId(item.blobId);
+    try {
+      if (action === 'offload') {
+        const offloaded = await offloadMedia(item, fileName =>
+          confirm(`Was ${fileName} saved to your device? Only then is it removed from browser storage.`)
+        );
+        if (!offloaded) return;
+      } else {
+        await deleteMediaItem(item);
+      }
+      onEntriesChanged?.();
+      await loadReport();
+    } catch (e) {
+      console.error(e);
+      alert(action === 'offload' ? "Failed to offload media." : "Failed to delete media.");
+    } finally {
+      setBusyBlobId(null);
+    }
+  };
+
+  const trackedTotal = report
+    ? (Object.values(report.byCategory) as number[]).reduce((acc, v) => acc + v, 0) + report.localStorageBytes
+    : 0;
+
+  return (
+    <div className="mt-8 bg-white rounded-2xl shadow-sm border border-slate-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <HardDrive className="text-sky-500" size={24} />
+          <h3 className="font-bold text-slate-800">Storage Usage</h3>
+        </div>
+        <button onClick={loadReport} disabled={isLoading} className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-50 rounded-lg disabled:opacity-50" title="Refresh">
+          <RefreshCw size={16} className={isLoading ? 'animate-spin' : ''} />
+        </button>
+      </div>
+
+      {!report ? (
+        <div className="py-8 flex justify-center text-slate-400"><Loader2 className="animate-spin" /></div>
+      ) : (
+        <div className="space-y-6">
+          {/* Browser quota */}
+          {report.estimate && report.estimate.quota > 0 && (
+            <div>
+              <div className="flex justify-between text-xs text-slate-500 mb-1">
+                <span>Browser storage for Lumina</span>
+                <span>{formatBytes(report.estimate.usage)} of {formatBytes(report.estimate.quota)}</span>
+              </div>
+              <div className="w-full bg-slate-100 rounded-full h-2 overflow-hidden">
+                <div className="bg-sky-500 h-2 rounded-full" style={{ width: `${Math.min(100, (report.estimate.usage / report.estimate.quota) * 100)}%` }}></div>
+              </div>
+            </div>
+          )}
+
+          {/* Breakdown by type */}
+          <div>
+            <div className="flex w-full h-3 rounded-full overflow-hidden bg-slate-100">
+              {trackedTotal > 0 && CATEGORY_STYLES.map(c => (
+                <div key={c.id} style={{ width: `${(report.byCategory[c.id] / trackedTotal) * 100}%`, backgroundColor: c.color }} title={c.label}></div>
+              ))}
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mt-3">
+              {CATEGORY_STYLES.map(c => (
+                <div key={c.id} className="flex items-center gap-2 text-xs">
+                  <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: c.color }}></span>
+                  <span className="text-slate-500">{c.label}</span>
+                  <span className="ml-auto font-medium text-slate-700">{formatBytes(report.byCategory[c.id])}</span>
+                </div>
+              ))}
+              <div className="flex items-center gap-2 text-xs">
+                <span className="w-2.5 h-2.5 rounded-full shrink-0 bg-slate-300"></span>
+                <span className="text-slate-500">Settings</span>
+                <span className="ml-auto font-medium text-slate-700">{formatBytes(report.localStorageBytes)}</span>
+              </div>
+            </div>
+          </div>
+
+          {/* Heaviest media */}
+          {report.heaviestMedia.length > 0 && (
+            <div>
+              <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Heaviest Media</h4>
+              <ul className="divide-y divide-slate-100 border border-slate-200 rounded-xl">
+                {report.heaviestMedia.map(item => (
+                  <li key={`${item.entryId}-${item.blobId}`} className="flex items-center gap-3 px-4 py-2 text-sm">
+                    <span className="text-xs font-bold uppercase text-slate-500 w-20 shrink-0">{item.category}</span>
+                    <span className="text-xs text-slate-400 flex-1 truncate">{formatDate(item.entryCreatedAt)}</span>
+                    <span className="font-medium text-slate-700 w-16 text-right shrink-0">{formatBytes(item.size)}</span>
+                    {busyBlobId === item.blobId ? (
+                      <Loader2 size={16} className="animate-spin text-slate-400" />
+                    ) : (
+                      <span className="flex gap-1 shrink-0">
+                        <button
+                          onClick={() => runAction(item, 'offload')}
+                          disabled={!item.mediaId || !!busyBlobId}
+                          className="p-1.5 text-slate-400 hover:text-sky-600 hover:bg-sky-50 rounded disabled:opacity-30"
+                          title="Save to this device and remove from browser storage"
+                        >
+                          <Download size={14} />
+                        </button>
+                        <button
+                          onClick={() => runAction(item, 'delete')}
+                          disabled={!!busyBlobId}
+                          className="p-1.5 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded disabled:opacity-30"
+                          title="Delete from entry"
+                        >
+                          <Trash2 size={14} />
+                        </button>
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* Largest entries */}
+          {report.largestEntries.length > 0 && (
+            <div>
+              <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Largest Entries</h4>
+              <ul className="divide-y divide-slate-100 border border-slate-200 rounded-xl">
+                {report.largestEntries.map(({ entry, mediaBytes, totalBytes }) => (
+                  <li key={entry.id} className="flex items-center gap-3 px-4 py-2 text-sm">
+                    <span className="text-xs text-slate-400 w-24 shrink-0">{formatDate(entry.createdAt)}</span>
+                    <span className="flex-1 truncate text-slate-600 font-serif">{entry.content || 'Untitled entry'}</span>
+                    <span className="text-xs text-slate-400 shrink-0">{formatBytes(mediaBytes)} media</span>
+                    <span className="font-medium text-slate-700 w-16 text-right shrink-0">{formatBytes(totalBytes)}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StorageUsage;
@@ -0,0 +1,146 @@
+import React, { useEffect, useState } from 'react';
+import { RefreshCw, Cloud, CloudOff, Loader2, AlertTriangle, Smartphone, Server } from 'lucide-react';
+import { SyncBackend, SyncStatus, getSyncConfig, setSyncConfig, getSyncStatus, subscribeToSyncStatus, syncNow, resolveSyncConflict } from '../services/sync';
+
+const formatDateTime = (iso: string) => new Date(iso).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+const SyncSettings: React.FC = () => {
+  const saved = getSyncConfig();
+  const [enabled, setEnabled] = useState(!!saved);
+  const [backend, setBackend] = useState<SyncBackend>(saved?.backend || 'webdav');
+  const [url, setUrl] = useState(saved?.url || '');
+  const [username, setUsername] = useState(saved?.username || '');
+  const [secret, setSecret] = useState(saved?.secret || '');
+  const [autoSync, setAutoSync] = useState(saved?.autoSync ?? true);
+  const [status, setStatus] = useState<SyncStatus>(getSyncStatus());
+
+  useEffect(() => subscribeToSyncStatus(setStatus), []);
+
+  const handleSave = () => {
+    const trimmedUrl = url.trim();
+    if (!/^https?:\/\//i.test(trimmedUrl)) {
+      alert("Enter the full server URL, starting with https://");
+      return;
+    }
+    if (/^http:\/\//i.test(trimmedUrl) && !confirm("This server does not use HTTPS, so your entries would be sent unencrypted over the network. Continue?")) {
+      return;
+    }
+    setSyncConfig({
+      backend,
+      url: trimmedUrl,
+      username: backend === 'webdav' ? username.trim() : undefined,
+      secret: secret || undefined,
+      autoSync
+    });
+    setEnabled(true);
+    syncNow();
+  };
+
+  const handleDisable = () => {
+    if (!confirm("Stop syncing this device? Nothing is deleted here or on the server.")) return;
+    setSyncConfig(null);
+    setEnabled(false);
+  };
+
+  const isSyncing = status.phase === 'syncing';
+  const inputClass = "w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-lumina-500";
+  const buttonClass = "py-2 px-4 bg-slate-50 hover:bg-slate-100 text-slate-700 font-medium rounded-lg border border-slate-200 transition-all flex items-center justify-center gap-2 disabled:opacity-50 text-sm";
+
+  return (
+    <div className="mt-8 bg-white rounded-2xl shadow-sm border border-slate-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <Cloud className="text-lumina-500" size={24} />
+          <h3 className="font-bold text-slate-800">Device Sync</h3>
+        </div>
+        <span className={`text-xs px-2 py-1 rounded-full font-medium ${enabled ? 'bg-emerald-50 text-emerald-700' : 'bg-slate-100 text-slate-500'}`}>
+          {enabled ? 'On' : 'Off'}
+        </span>
+      </div>
+      <p className="text-slate-600 text-sm leading-relaxed mb-5">
+        Keep your journal in step across devices through a server you run yourself, such as a WebDAV folder (Nextcloud, a NAS)
+        or a simple REST endpoint that stores files with GET, PUT and DELETE. Only changed entries and new media are transferred.
+        Entries and media are stored on the server without Vault encryption, so use HTTPS and a server you trust.
+      </p>
+
+      <div className="space-y-3 max-w-sm">
+        <select value={backend} onChange={e => setBackend(e.target.value as SyncBackend)} className={inputClass}>
+          <option value="webdav">WebDAV</option>
+          <option value="rest">REST (bearer token)</option>
+        </select>
+        <input type="url" value={url} onChange={e => setUrl(e.target.value)} placeholder="https://cloud.example.com/remote.php/dav/files/me/lumina" className={inputClass} />
+        {backend === 'webdav' && (
+          <input type="text" value={username} onChange={e => setUsername(e.target.value)} placeholder="Username" autoComplete="username" className={inputClass} />
+        )}
+        <input type="password" value={secret} onChange={e => setSecret(e.target.value)} placeholder={backend === 'webdav' ? 'Password or app password' : 'Access token'} autoComplete="current-password" className={inputClass} />
+        <label className="flex items-center gap-2 text-sm text-slate-600">
+          <input type="checkbox" checked={autoSync} onChange={e => setAutoSync(e.target.checked)} />
+          Sync automatically every few minutes
+        </label>
+        <div className="flex flex-wrap gap-2">
+          <button onClick={handleSave} disabled={isSyncing} className={buttonClass}>
+            <Cloud size={16} /> {enabled ? 'Save & Sync' : 'Enable Sync'}
+          </button>
+          {enabled && (
+            <>
+              <button onClick={() => syncNow()} disabled={isSyncing} className={buttonClass}>
+                {isSyncing ? <Loader2 className="animate-spin" size={16} /> : <RefreshCw size={16} />}
+                {isSyncing ? 'Syncing...' : 'Sync Now'}
+              </button>
+              <button onClick={handleDisable} disabled={isSyncing} className={buttonClass}>
+                <CloudOff size={16} /> Disable
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {enabled && status.lastSyncAt && status.phase !== 'error' && (
+        <p className="text-xs text-slate-400 mt-4">
+          Last synced {formatDateTime(status.lastSyncAt)}
+          {(status.pushed > 0 || status.pulled > 0) && ` · ${status.pushed} sent, ${status.pulled} received`}
+        </p>
+      )}
+
+      {enabled && status.error && (
+        <div className="flex items-start gap-2 text-xs text-red-700 bg-red-50 border border-red-100 rounded-lg p-3 mt-4 max-w-sm">
+          <AlertTriangle size={14} className="shrink-0 mt-0.5" />
+          <span>{status.error}</span>
+        </div>
+      )}
+
+      {status.conflicts.length > 0 && (
+        <div className="mt-6 space-y-3">
+          <h4 className="text-sm font-semibold text-amber-700 flex items-center gap-2">
+            <AlertTriangle size={16} /> {status.conflicts.length} entr{status.conflicts.length === 1 ? 'y was' : 'ies were'} edited on this device and on another one
+          </h4>
+          {status.conflicts.map(conflict => (
+            <div key={conflict.id} className="border border-amber-200 bg-amber-50/50 rounded-xl p-4">
+              <p className="text-xs font-bold text-slate-500 mb-3">{new Date(conflict.local.createdAt).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' })}</p>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {([['local', conflict.local, 'This device', Smartphone], ['remote', conflict.remote, 'Server', Server]] as const).map(([side, entry, label, Icon]) => (
+                  <div key={side} className="bg-white rounded-lg border border-slate-200 p-3 flex flex-col">
+                    <div className="flex items-center gap-2 text-xs text-slate-500 mb-2">
+                      <Icon size={12} /> {label} · edited {formatDateTime(entry.updatedAt)}
+                    </div>
+                    <p className="text-sm text-slate-600 font-serif line-clamp-4 whitespace-pre-wrap flex-1">{entry.content || <em>No text</em>}</p>
+                    <button
+                      onClick={() => resolveSyncConflict(conflict.id, side)}
+                      disabled={isSyncing}
+                      className="mt-3 px-3 py-1.5 text-xs font-medium text-lumina-700 bg-lumina-50 hover:bg-lumina-100 rounded-lg disabled:opacity-50"
+                    >
+                      {side === 'local' ? 'Keep this device' : 'Use server'}
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+          <p className="text-[10px] text-slate-400">The version you replace stays in the entry's history.</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SyncSettings;
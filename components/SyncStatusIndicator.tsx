@@ -0,0 +1,45 @@
+import React, { useEffect, useState } from 'react';
+import { Cloud, CloudOff, RefreshCw, AlertTriangle } from 'lucide-react';
+import { SyncStatus, getSyncStatus, subscribeToSyncStatus, syncNow } from '../services/sync';
+
+const formatTime = (iso: string) => new Date(iso).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+
+const SyncStatusIndicator: React.FC = () => {
+  const [status, setStatus] = useState<SyncStatus>(getSyncStatus());
+
+  useEffect(() => subscribeToSyncStatus(setStatus), []);
+
+  if (status.phase === 'disabled') return null;
+
+  const hasConflicts = status.conflicts.length > 0;
+  let Icon = Cloud;
+  let label = status.lastSyncAt ? `Synced ${formatTime(status.lastSyncAt)}` : 'Not synced yet';
+  let tone = 'text-slate-500 hover:bg-slate-50';
+
+  if (status.phase === 'syncing') {
+    Icon = RefreshCw;
+    label = 'Syncing...';
+  } else if (status.phase === 'error') {
+    Icon = CloudOff;
+    label = 'Sync failed';
+    tone = 'text-red-600 hover:bg-red-50';
+  } else if (hasConflicts) {
+    Icon = AlertTriangle;
+    label = `${status.conflicts.length} conflict${status.conflicts.length === 1 ? '' : 's'}`;
+    tone = 'text-amber-600 hover:bg-amber-50';
+  }
+
+  return (
+    <button
+      onClick={() => syncNow()}
+      disabled={status.phase === 'syncing'}
+      title={status.error || (hasConflicts ? 'Resolve conflicts in Settings' : 'Sync now')}
+      className={`w-full mb-3 flex items-center justify-center lg:justify-start gap-2 px-3 py-2 rounded-lg text-xs font-medium transition-colors ${tone}`}
+    >
+      <Icon size={16} className={`shrink-0 ${status.phase === 'syncing' ? 'animate-spin' : ''}`} />
+      <span className="hidden lg:block truncate">{label}</span>
+    </button>
+  );
+};
+
+export default SyncStatusIndicator;
@@ -0,0 +1,193 @@
+import React, { useEffect, useState } from 'react';
+import { Trash2, RotateCcw, Loader2, Zap, Tag, Sparkles } from 'lucide-react';
+import { JournalEntry } from '../types';
+import { getTrashedEntries, restoreEntry, deleteEntry, emptyTrash, getPurgeDate, getTrashRetentionDays, setTrashRetentionDays } from '../services/storage';
+import { getMediaBlob } from '../services/db';
+import { subscribeToChanges } from '../services/tabSync';
+
+interface TrashProps {
+  onEntriesChanged: () => void;
+}
+
+const RETENTION_OPTIONS = [7, 14, 30, 60, 90];
+
+const formatDate = (iso: string | Date) => new Date(iso).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+
+const Trash: React.FC<TrashProps> = ({ onEntriesChanged }) => {
+  const [entries, setEntries] = useState<JournalEntry[] | null>(null);
+  const [retentionDays, setRetentionDays] = useState(getTrashRetentionDays());
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadTrash = async () => setEntries(await getTrashedEntries());
+
+  useEffect(() => {
+    loadTrash();
+    return subscribeToChanges(message => {
+      if (message.kind === 'entries') loadTrash();
+    });
+  }, []);
+
+  // Thumbnails for images, drawings and reflections
+  useEffect(() => {
+    if (!entries) return;
+    const urls: Record<string, string> = {};
+    let cancelled = false;
+    (async () => {
+      for (const entry of entries) {
+        const blobIds = [
+          ...(entry.reflection?.imageId ? [entry.reflection.imageId] : []),
+          ...(entry.media || []).filter(m => m.blobId && (m.type === 'image' || m.type === 'drawing')).map(m => m.blobId!)
+        ];
+        for (const blobId of blobIds) {
+          const blob = await getMediaBlob(blobId);
+          if (cancelled) return;
+          if (blob) urls[blobId] = URL.createObjectURL(blob);
+        }
+      }
+      setThumbnails(urls);
+    })();
+    return () => {
+      cancelled = true;
+      Object.values(urls).forEach(url => URL.revokeObjectURL(url));
+    };
+  }, [entries]);
+
+  const runAction = async (id: string, action: () => Promise<void>) => {
+    setBusyId(id);
+    try {
+      await action();
+      await loadTrash();
+      onEntriesChanged();
+    } catch (e) {
+      console.error(e);
+      alert("Something went wrong. Please try again.");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRestore = (id: string) => runAction(id, () => restoreEntry(id));
+
+  const handleDeleteForever = (id: string) => {
+    if (!confirm("Permanently delete this entry and its media? This cannot be undone.")) return;
+    runAction(id, () => deleteEntry(id));
+  };
+
+  const handleEmptyTrash = () => {
+    if (!entries || entries.length === 0) return;
+    if (!confirm(`Permanently delete ${entries.length} entr${entries.length === 1 ? 'y' : 'ies'} and their media? This cannot be undone.`)) return;
+    runAction('all', emptyTrash);
+  };
+
+  const handleRetentionChange = (days: number) => {
+    setTrashRetentionDays(days);
+    setRetentionDays(days);
+  };
+
+  return (
+    <div className="p-6 lg:p-10 max-w-3xl mx-auto">
+      <div className="mb-8 flex flex-col md:flex-row md:items-end justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-serif font-bold text-slate-800">Trash</h2>
+          <p className="text-slate-500 text-sm mt-1">Deleted entries are kept here, with their media, until they are purged.</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <label className="text-xs text-slate-500 flex items-center gap-2">
+            Purge after
+            <select
+              value={retentionDays}
+              onChange={(e) => handleRetentionChange(Number(e.target.value))}
+              className="border border-slate-200 rounded-lg px-2 py-1.5 text-sm text-slate-700 bg-white focus:outline-none focus:ring-2 focus:ring-lumina-100"
+            >
+              {RETENTION_OPTIONS.map(days => <option key={days} value={days}>{days} days</option>)}
+            </select>
+          </label>
+          <button
+            onClick={handleEmptyTrash}
+            disabled={!entries || entries.length === 0 || !!busyId}
+            className="py-2 px-4 bg-rose-50 hover:bg-rose-100 text-rose-700 font-medium rounded-lg border border-rose-100 transition-all flex items-center gap-2 disabled:opacity-50 text-sm"
+          >
+            {busyId === 'all' ? <Loader2 className="animate-spin" size={16} /> : <Trash2 size={16} />}
+            Empty Trash
+          </button>
+        </div>
+      </div>
+
+      {!entries ? (
+        <div className="py-12 flex justify-center text-slate-400"><Loader2 className="animate-spin" /></div>
+      ) : entries.length === 0 ? (
+        <div className="text-center py-20 text-slate-400">
+          <Trash2 size={40} className="mx-auto mb-3 opacity-40" />
+          <p className="text-sm">The trash is empty.</p>
+        </div>
+      ) : (
+        <ul className="space-y-4">
+          {entries.map(entry => (
+            <li key={entry.id} className="bg-white rounded-2xl shadow-sm border border-slate-200 p-5">
+              <div className="flex justify-between items-start gap-4">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2 mb-1">
+                    {entry.moodEmoji && <span className="text-xl">{entry.moodEmoji}</span>}
+                    <span className="text-xs font-bold text-slate-500">{formatDate(entry.createdAt)}</span>
+                  </div>
+                  <p className="text-[10px] text-slate-400">
+                    Deleted {formatDate(entry.deletedAt!)} · purged on {formatDate(getPurgeDate(entry))}
+                  </p>
+                </div>
+                <div className="flex gap-1 shrink-0">
+                  {busyId === entry.id ? (
+                    <Loader2 size={16} className="animate-spin text-slate-400 m-2" />
+                  ) : (
+                    <>
+                      <button
+                        onClick={() => handleRestore(entry.id)}
+                        disabled={!!busyId}
+                        className="px-3 py-1.5 text-xs font-medium text-lumina-700 bg-lumina-50 hover:bg-lumina-100 rounded-lg flex items-center gap-1 disabled:opacity-50"
+                      >
+                        <RotateCcw size={14} /> Restore
+                      </button>
+                      <button
+                        onClick={() => handleDeleteForever(entry.id)}
+                        disabled={!!busyId}
+                        className="p-2 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-lg disabled:opacity-50"
+                        title="Delete forever"
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+
+              <p className="mt-3 text-sm text-slate-600 font-serif line-clamp-3 whitespace-pre-wrap">{entry.content || <em>No text</em>}</p>
+
+              {(entry.reflection || (entry.media && entry.media.length > 0)) && (
+                <div className="flex gap-2 mt-3 overflow-x-auto pb-1">
+                  {entry.reflection && (
+                    <div className="relative h-16 w-16 shrink-0 rounded-lg overflow-hidden border border-slate-200 bg-slate-100">
+                      {thumbnails[entry.reflection.imageId] && <img src={thumbnails[entry.reflection.imageId]} alt="Reflection" className="h-full w-full object-cover" />}
+                      <div className="absolute bottom-0 inset-x-0 bg-black/50 p-0.5">
+                        <Sparkles size={10} className="text-yellow-300 mx-auto" />
+                      </div>
+                    </div>
+                  )}
+                  {entry.media?.map(m => m.blobId && thumbnails[m.blobId] ? (
+                    <img key={m.id} src={thumbnails[m.blobId]} alt={m.type} className="h-16 w-16 shrink-0 rounded-lg object-cover border border-slate-200" />
+                  ) : (
+                    <div key={m.id} className="h-16 w-16 shrink-0 rounded-lg bg-slate-100 border border-slate-200 flex items-center justify-center text-slate-400 text-[10px] flex-col gap-1">
+                      {m.type === 'video' ? <Zap size={12} /> : <Tag size={12} />}
+                      {m.type}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default Trash;
@@ -0,0 +1,34 @@
+import React, { useEffect, useRef } from 'react';
+import { Undo2, X } from 'lucide-react';
+
+interface UndoToastProps {
+  message: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+  durationMs?: number;
+}
+
+const UndoToast: React.FC<UndoToastProps> = ({ message, onUndo, onDismiss, durationMs = 8000 }) => {
+  // Read through a ref so re-renders of the parent do not restart the countdown
+  const dismissRef = useRef(onDismiss);
+  dismissRef.current = onDismiss;
+
+  useEffect(() => {
+    const timer = setTimeout(() => dismissRef.current(), durationMs);
+    return () => clearTimeout(timer);
+  }, [durationMs]);
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 bg-slate-900 text-white rounded-xl shadow-lg px-4 py-3 flex items-center gap-4 animate-fade-in">
+      <span className="text-sm">{message}</span>
+      <button onClick={onUndo} className="flex items-center gap-1 text-sm font-bold text-lumina-300 hover:text-lumina-200">
+        <Undo2 size={16} /> Undo
+      </button>
+      <button onClick={onDismiss} className="text-slate-400 hover:text-white" title="Dismiss">
+        <X size={16} />
+      </button>
+    </div>
+  );
+};
+
+export default UndoToast;
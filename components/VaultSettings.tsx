@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { Lock, KeyRound, Unlock, Loader2, AlertTriangle } from 'lucide-react';
+import { enableVault, changeVaultPassphrase, disableVault } from '../services/storage';
+import { isVaultEnabled, lockVault, VaultError } from '../services/vault';
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+type VaultAction = 'change' | 'disable' | null;
+
+const VaultSettings: React.FC = () => {
+  const [enabled, setEnabled] = useState(isVaultEnabled());
+  const [action, setAction] = useState<VaultAction>(null);
+  const [currentPassphrase, setCurrentPassphrase] = useState('');
+  const [newPassphrase, setNewPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const resetForm = () => {
+    setCurrentPassphrase('');
+    setNewPassphrase('');
+    setConfirmPassphrase('');
+    setError(null);
+  };
+
+  const validateNewPassphrase = (): boolean => {
+    if (newPassphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`Use at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+      return false;
+    }
+    if (newPassphrase !== confirmPassphrase) {
+      setError("Passphrases do not match.");
+      return false;
+    }
+    return true;
+  };
+
+  const run = async (task: () => Promise<void>, successMessage: string) => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      await task();
+      resetForm();
+      setAction(null);
+      setEnabled(isVaultEnabled());
+      alert(successMessage);
+    } catch (e) {
+      console.error(e);
+      setError(e instanceof VaultError ? e.message : "Something went wrong while re-encrypting your journal.");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleEnable = () => {
+    if (!validateNewPassphrase()) return;
+    run(() => enableVault(newPassphrase), "Vault mode enabled. Your entries and media are now encrypted.");
+  };
+
+  const handleChange = () => {
+    if (!currentPassphrase || !validateNewPassphrase()) return;
+    run(() => changeVaultPassphrase(currentPassphrase, newPassphrase), "Passphrase changed. All data has been re-encrypted.");
+  };
+
+  const handleDisable = () => {
+    if (!currentPassphrase) return;
+    if (!confirm("Your journal will be stored unencrypted on this device. Continue?")) return;
+    run(() => disableVault(currentPassphrase), "Vault mode disabled.");
+  };
+
+  const handleLock = () => {
+    lockVault();
+    window.location.reload();
+  };
+
+  const inputClass = "w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-lumina-500";
+  const buttonClass = "py-2 px-4 bg-slate-50 hover:bg-slate-100 text-slate-700 font-medium rounded-lg border border-slate-200 transition-all flex items-center justify-center gap-2 disabled:opacity-50 text-sm";
+
+  return (
+    <div className="mt-8 bg-white rounded-2xl shadow-sm border border-slate-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <Lock className="text-indigo-500" size={24} />
+          <h3 className="font-bold text-slate-800">Vault Mode</h3>
+        </div>
+        <span className={`text-xs px-2 py-1 rounded-full font-medium ${enabled ? 'bg-emerald-50 text-emerald-700' : 'bg-slate-100 text-slate-500'}`}>
+          {enabled ? 'Encrypted' : 'Off'}
+        </span>
+      </div>
+      <p className="text-slate-600 text-sm leading-relaxed mb-5">
+        Encrypt your entries, reports, drafts and media on this device with a passphrase.
+        Lumina will ask for it every time the journal is opened. There is no way to recover a forgotten passphrase.
+      </p>
+
+      {!enabled && (
+        <div className="space-y-3 max-w-sm">
+          <input type="password" value={newPassphrase} onChange={e => setNewPassphrase(e.target.value)} placeholder="New passphrase" className={inputClass} />
+          <input type="password" value={confirmPassphrase} onChange={e => setConfirmPassphrase(e.target.value)} placeholder="Confirm passphrase" className={inputClass} />
+          <button onClick={handleEnable} disabled={isWorking} className={buttonClass}>
+            {isWorking ? <Loader2 className="animate-spin" size={16} /> : <Lock size={16} />}
+            {isWorking ? 'Encrypting...' : 'Enable Vault'}
+          </button>
+        </div>
+      )}
+
+      {enabled && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            <button onClick={handleLock} className={buttonClass}>
+              <Lock size={16} /> Lock Now
+            </button>
+            <button onClick={() => { resetForm(); setAction(action === 'change' ? null : 'change'); }} className={buttonClass}>
+              <KeyRound size={16} /> Change Passphrase
+            </button>
+            <button onClick={() => { resetForm(); setAction(action === 'disable' ? null : 'disable'); }} className={buttonClass}>
+              <Unlock size={16} /> Disable Vault
+            </button>
+          </div>
+
+          {action && (
+            <div className="space-y-3 max-w-sm animate-fade-in">
+              <input type="password" value={currentPassphrase} onChange={e => setCurrentPassphrase(e.target.value)} placeholder="Current passphrase" className={inputClass} />
+              {action === 'change' && (
+                <>
+                  <input type="password" value={newPassphrase} onChange={e => setNewPassphrase(e.target.value)} placeholder="New passphrase" className={inputClass} />
+                  <input type="password" value={confirmPassphrase} onChange={e => setConfirmPassphrase(e.target.value)} placeholder="Confirm new passphrase" className={inputClass} />
+                </>
+              )}
+              <button onClick={action === 'change' ? handleChange : handleDisable} disabled={isWorking} className={buttonClass}>
+                {isWorking && <Loader2 className="animate-spin" size={16} />}
+                {action === 'change' ? (isWorking ? 'Re-encrypting...' : 'Re-encrypt with New Passphrase') : (isWorking ? 'Decrypting...' : 'Decrypt & Disable')}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-start gap-2 text-xs text-red-700 bg-red-50 border border-red-100 rounded-lg p-3 mt-4 max-w-sm">
+          <AlertTriangle size={14} className="shrink-0 mt-0.5" />
+          <span>{error}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VaultSettings;
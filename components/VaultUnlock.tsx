@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { Lock, Feather, Loader2, AlertTriangle } from 'lucide-react';
+import { unlockJournal } from '../services/storage';
+import { VaultError } from '../services/vault';
+
+interface VaultUnlockProps {
+  onUnlock: () => void;
+}
+
+const VaultUnlock: React.FC<VaultUnlockProps> = ({ onUnlock }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase) return;
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      await unlockJournal(passphrase);
+      onUnlock();
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof VaultError ? err.message : "Could not unlock your journal. Please try again.");
+      setPassphrase('');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="flex h-screen items-center justify-center bg-slate-50 p-6">
+      <form onSubmit={handleUnlock} className="w-full max-w-sm bg-white rounded-2xl shadow-sm border border-slate-200 p-8 text-center">
+        <div className="bg-lumina-500 p-3 rounded-xl text-white inline-block mb-4 shadow-lg shadow-lumina-200">
+          <Feather size={24} />
+        </div>
+        <h1 className="text-2xl font-serif font-bold text-slate-800">Lumina is locked</h1>
+        <p className="text-slate-500 text-sm mt-1 mb-6">Enter your vault passphrase to decrypt your journal.</p>
+
+        <input
+          type="password"
+          autoFocus
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          placeholder="Passphrase"
+          className="w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2.5 text-sm focus:outline-none focus:ring-2 focus:ring-lumina-500 mb-3"
+        />
+
+        {error && (
+          <div className="flex items-start gap-2 text-left text-xs text-red-700 bg-red-50 border border-red-100 rounded-lg p-3 mb-3">
+            <AlertTriangle size={14} className="shrink-0 mt-0.5" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        <button
+          type="submit"
+          disabled={isUnlocking || !passphrase}
+          className="w-full py-2.5 px-4 bg-lumina-600 text-white rounded-lg hover:bg-lumina-700 transition-colors font-medium flex items-center justify-center gap-2 disabled:opacity-50"
+        >
+          {isUnlocking ? <Loader2 className="animate-spin" size={18} /> : <Lock size={18} />}
+          {isUnlocking ? 'Unlocking...' : 'Unlock Journal'}
+        </button>
+        <p className="text-xs text-slate-400 mt-4">
+          Your passphrase never leaves this device. If you forget it, your encrypted entries cannot be recovered.
+        </p>
+      </form>
+    </div>
+  );
+};
+
+export default VaultUnlock;
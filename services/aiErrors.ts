@@ -0,0 +1,78 @@
+// --- AI Errors ---
+// Shared by the providers and the components that show AI failures, so a message can say what went wrong.
+// Every message is written to be shown as is: it names the problem and what the user can do about it.
+
+export class AIError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AIError';
+  }
+}
+
+// The selected provider is not set up for the feature (no API key, no image model, ...)
+export class AIUnsupportedError extends AIError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AIUnsupportedError';
+  }
+}
+
+// The provider could not be reached at all, as opposed to answering with an error
+export class AIOfflineError extends AIError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AIOfflineError';
+  }
+}
+
+// The provider did not answer in time; treated like being offline, but worth retrying
+export class AITimeoutError extends AIOfflineError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AITimeoutError';
+  }
+}
+
+// The API key was rejected, or does not have access to the model
+export class AIAuthError extends AIError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AIAuthError';
+  }
+}
+
+// Too many requests (retryAfterMs when the provider said how long to wait), or the quota is used up
+export class AIQuotaError extends AIError {
+  constructor(message: string, public readonly retryAfterMs?: number, public readonly exhausted = false) {
+    super(message);
+    this.name = 'AIQuotaError';
+  }
+}
+
+// The provider's safety filters blocked the request or the answer
+export class AISafetyError extends AIError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AISafetyError';
+  }
+}
+
+// The provider answered, but not with anything Lumina can use (no JSON, or JSON missing its core fields)
+export class AIResponseError extends AIError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AIResponseError';
+  }
+}
+
+// Any other error the provider answered with; status is the HTTP status
+export class AIServiceError extends AIError {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'AIServiceError';
+  }
+}
+
+// The message to show for a failed AI call; errors that are not ours get the caller's generic text
+export const describeAIError = (error: unknown, fallback: string): string =>
+  error instanceof AIError ? error.message : fallback;
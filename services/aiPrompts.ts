@@ -0,0 +1,230 @@
+import { JournalEntry } from "../types";
+import type { AIProvider, JsonSchema, JsonTask } from "./aiProvider";
+import { normalizeEntryAnalysis, normalizePatternAnalysis, normalizeLifeJourneyAnalysis, normalizeDailyGuidance } from "./aiValidation";
+
+// --- AI Prompts ---
+// What Lumina asks the model for is the same whichever provider answers: the prompts, the JSON
+// schemas of the answers and how they become journal data live here. Providers only supply the
+// transport, through createJournalTasks. Every answer is checked by aiValidation before use.
+
+const ANALYZE_SYSTEM_PROMPT = `
+You are an empathetic and intelligent journaling assistant.
+Your goal is to analyze journal entries to provide structured emotional data.
+
+1. Extract 3-5 specific keywords. **CRITICAL:** Focus strictly on achievements, wins, positive traits, strengths, or moments of gratitude found in the text. (e.g., 'Completed Project', 'Showed Patience', 'Self-Care'). If the entry is difficult, find the strength in it (e.g., 'Resilience', 'Courage').
+2. Determine a 'moodScore' (1-10).
+3. Select a 'moodEmoji' that creatively represents the specific vibe (e.g., 🚀, 🌿, ⛈️, 🍷).
+4. Pick a 'moodColor' (Hex code) that fits the emotion (e.g. #FFD700 for happy, #708090 for sad).
+Always respond in JSON.
+`;
+
+const PATTERN_SYSTEM_PROMPT = `
+You are a psychological pattern recognition expert.
+Analyze a set of journal entries to find deep, recurring themes, hidden habits, and provide actionable advice.
+Always respond in JSON.
+`;
+
+const JOURNEY_SYSTEM_PROMPT = `
+You are a compassionate life coach and psychological analyst known for positivity and reframing.
+Analyze the user's journal entries to extract specific life data and create a personality optimization profile.
+
+CRITICAL INSTRUCTION FOR NEGATIVES:
+Do NOT explicitely list 'Negatives' as bad things.
+The 'negatives' array in the schema should be populated with "Challenges identified" but phrased neutrally.
+However, for the 'motivationalBlock', you MUST reframe them completely into inspiring goals.
+For example: 'Anxiety' -> 'Mastering Inner Calm'. 'Lazy' -> 'Restoring Energy for Action'.
+
+EXTRACT:
+- 'actsOfKindness': When they helped others or showed empathy.
+- 'confidenceMoments': When they felt strong or proud.
+- 'futurePlans': Specific things they said they want to do, fix, or achieve.
+
+The 'resilienceNarrative' should be a powerful, 2-3 sentence story that acknowledges their hard times but frames them as a 'training arc' or a necessary step to greatness.
+
+Always respond in JSON.
+`;
+
+const JSON_ONLY_PROMPT = "Always respond in JSON.";
+
+// --- Schemas ---
+
+const string = (description?: string): JsonSchema => ({ type: 'string', ...(description && { description }) });
+const number = (description?: string): JsonSchema => ({ type: 'number', ...(description && { description }) });
+const stringList = (description?: string): JsonSchema => ({ type: 'array', items: { type: 'string' }, ...(description && { description }) });
+const object = (properties: Record<string, JsonSchema>, required: string[] = Object.keys(properties)): JsonSchema =>
+  ({ type: 'object', properties, required });
+
+const ANALYSIS_SCHEMA = object({
+  moodScore: number("Rating from 1 (terrible) to 10 (amazing)"),
+  moodLabel: string("A one or two word emotion descriptor e.g. 'Hopeful', 'Anxious'"),
+  moodEmoji: string("A single emoji representing the entry"),
+  moodColor: string("A hex color code representing the entry"),
+  keywords: stringList("Top 3-5 keywords focusing on achievements, strengths, and positives"),
+  summary: string("A one sentence summary of the entry"),
+  reflectionQuestion: string("A deep, thought-provoking question based on the entry")
+});
+
+const PATTERN_SCHEMA = object({
+  recurringThemes: stringList("3 recurring themes found in the text"),
+  habitInsight: string("An observation about a habit (good or bad)"),
+  improvementSuggestion: string("A specific, actionable piece of advice"),
+  overallVibe: string("The general emotional atmosphere of recent days")
+});
+
+const JOURNEY_SCHEMA = object({
+  positives: stringList(),
+  negatives: stringList(),
+  achievements: stringList(),
+  confidenceMoments: stringList(),
+  actsOfKindness: stringList(),
+  futurePlans: stringList(),
+  bestMoments: stringList(),
+  personalityProfile: object({
+    archetype: string(),
+    traits: stringList(),
+    encouragingMessage: string(),
+    optimizationTips: stringList()
+  }),
+  motivationalBlock: object({
+    resilienceScore: number(),
+    positivityIndex: number(),
+    powerQuote: string(),
+    resilienceNarrative: string(),
+    growthFocus: stringList()
+  })
+});
+
+const CONNECTION_SCHEMA = object({
+  relatedEntryId: string(),
+  connectionReason: string()
+}, []);
+
+const GUIDANCE_SCHEMA = object({
+  focusArea: string(),
+  todoSuggestions: stringList(),
+  improvementTips: stringList(),
+  positiveReflection: string(),
+  reasoning: string()
+});
+
+const REFLECTION_SCHEMA = object({
+  quote: string(),
+  imagePrompt: string()
+});
+
+// --- Tasks ---
+
+const textOr = (value: unknown, fallback: string): string =>
+  typeof value === 'string' && value.trim() ? value.trim() : fallback;
+
+const datedContext = (entries: JournalEntry[], limit: number) =>
+  entries.slice(0, limit).map(e => `[${e.createdAt.split('T')[0]}]: ${e.content}`).join("\n\n");
+
+export const journalImagePrompt = (entryText: string) =>
+  `Create an artistic, abstract or symbolic illustration that represents this journal entry mood: ${entryText.substring(0, 300)}`;
+
+export const journalVideoPrompt = (entryText: string) =>
+  `A cinematic, dreamlike 10 second video visualizing this memory: ${entryText.substring(0, 300)}`;
+
+export const TRANSCRIPTION_PROMPT = "Please transcribe this audio accurately into text. Do not add any commentary.";
+
+type JournalTasks = Pick<AIProvider, 'analyzeEntry' | 'detectPatterns' | 'generateLifeJourneyAnalysis' | 'findSimilarConnections' | 'generateDailyGuidance' | 'generatePositiveReflection'>;
+
+// The journaling features, built on a provider's JSON and image calls
+export const createJournalTasks = (
+  generateJson: <T>(task: JsonTask) => Promise<T>,
+  generateImage: (prompt: string) => Promise<string>
+): JournalTasks => ({
+  analyzeEntry: async text => normalizeEntryAnalysis(await generateJson<unknown>({
+    name: 'entry_analysis',
+    system: ANALYZE_SYSTEM_PROMPT,
+    prompt: `Analyze this journal entry: "${text}"`,
+    schema: ANALYSIS_SCHEMA
+  })),
+
+  detectPatterns: async entries => ({
+    timestamp: new Date().toISOString(),
+    ...normalizePatternAnalysis(await generateJson<unknown>({
+      name: 'pattern_analysis',
+      system: PATTERN_SYSTEM_PROMPT,
+      prompt: `Here are the recent journal entries:\n\n${datedContext(entries, 20)}\n\nIdentify the patterns.`,
+      schema: PATTERN_SCHEMA
+    }))
+  }),
+
+  // Limit context to recent 50 entries to stay within tokens but capture enough history
+  generateLifeJourneyAnalysis: async entries => ({
+    timestamp: new Date().toISOString(),
+    ...normalizeLifeJourneyAnalysis(await generateJson<unknown>({
+      name: 'life_journey',
+      system: JOURNEY_SYSTEM_PROMPT,
+      prompt: `Analyze these entries:\n\n${datedContext(entries, 50)}\n\n
+      Extract the following lists (max 5 items each, concise):
+      1. Positives
+      2. Challenges (Populate 'negatives' field with these)
+      3. Achievements
+      4. Confidence Times (When user felt confident)
+      5. Acts of Kindness (Helping others)
+      6. Future Plans (What they plan to fix or do)
+      7. Best Moments
+
+      Create a "personalityProfile".
+
+      Create a "motivationalBlock":
+      - resilienceScore (0-100)
+      - positivityIndex (0-100)
+      - powerQuote (A quote that fits their situation)
+      - resilienceNarrative (Encouraging story reframing their struggles)
+      - growthFocus (Top 3 challenges renamed as positive goals)
+      `,
+      schema: JOURNEY_SCHEMA
+    }))
+  }),
+
+  findSimilarConnections: async (currentEntry, pastEntries) => {
+    const recentContext = pastEntries.slice(0, 50).map(e => `ID: ${e.id} | Date: ${e.createdAt.split('T')[0]} | Summary: ${e.summary || e.content.substring(0, 100)}...`).join("\n");
+    const json = await generateJson<{ connectionReason?: unknown }>({
+      name: 'similar_entry',
+      system: JSON_ONLY_PROMPT,
+      prompt: `Current Entry: "${currentEntry}"\n\nPast Entries Library:\n${recentContext}\n\nTask: Find one past entry that is most emotionally or thematically similar to the current one. Explain the connection briefly.`,
+      schema: CONNECTION_SCHEMA
+    });
+    return textOr(json?.connectionReason, "No clear connection found.");
+  },
+
+  generateDailyGuidance: async entries => ({
+    timestamp: new Date().toISOString(),
+    ...normalizeDailyGuidance(await generateJson<unknown>({
+      name: 'daily_guidance',
+      system: JSON_ONLY_PROMPT,
+      prompt: `Based on these recent journal entries:\n${datedContext(entries, 30)}\n
+            Generate a daily guidance plan for today.
+            1. "focusArea": The one main thing they should focus on today based on past patterns.
+            2. "todoSuggestions": 3-5 specific, small actionable tasks they can do TODAY to improve their situation or achieve past goals.
+            3. "improvementTips": 2-3 specific behavioral tips to overcome recent challenges.
+            4. "positiveReflection": A specific memory or quality from the past entries to remind them of their strength.
+            5. "reasoning": A brief explanation of why you suggested these things.
+            `,
+      schema: GUIDANCE_SCHEMA
+    }))
+  }),
+
+  // Step 1 finds a quote and an image description in the entry, step 2 draws the image
+  generatePositiveReflection: async entryText => {
+    const textResult = await generateJson<{ quote?: unknown, imagePrompt?: unknown }>({
+      name: 'positive_reflection',
+      system: JSON_ONLY_PROMPT,
+      prompt: `Read this journal entry: "${entryText.substring(0, 1000)}".
+        Even if the entry is sad or neutral, find a silver lining or a message of hope.
+        1. Write a short, uplifting, encouraging quote (max 15 words) relevant to this situation.
+        2. Write a detailed visual description for a peaceful, positive ANIME STYLE illustration that represents this feeling of hope and positivity.`,
+      schema: REFLECTION_SCHEMA
+    });
+    const quote = textOr(textResult?.quote, "Every day is a new beginning.");
+    const imagePrompt = textOr(textResult?.imagePrompt, "A peaceful anime style landscape with soft sunlight filtering through trees.");
+
+    const imageBase64 = await generateImage(`Anime style illustration, high quality, uplifting, positive vibes. ${imagePrompt}`);
+    if (!imageBase64) throw new Error("Failed to generate reflection image");
+    return { quote, imageBase64 };
+  }
+});
@@ -0,0 +1,199 @@
+import { JournalEntry, PatternAnalysis, LifeJourneyAnalysis, DailyGuidance } from "../types";
+import { createGeminiProvider } from "./gemini";
+import { createOpenAICompatibleProvider } from "./openaiCompatible";
+import { journalImagePrompt, journalVideoPrompt } from "./aiPrompts";
+import { analyzeEntryLocally } from "./localAnalysis";
+import { AIUnsupportedError, AIOfflineError } from "./aiErrors";
+import { contentHash, cacheAnalysis, findCachedAnalysis, withReportCache } from "./analysisCache";
+
+// --- AI Provider ---
+// Every AI feature goes through the provider chosen in Settings: Google Gemini, or any server that
+// speaks the OpenAI chat completions API (OpenAI itself, or a local Ollama or llama.cpp server).
+// Components call the functions at the bottom of this file and never talk to a provider directly.
+
+export type AIProviderId = 'gemini' | 'openai-compatible';
+
+export interface AIProviderCapabilities {
+  transcription: boolean;
+  images: boolean;
+  video: boolean;
+}
+
+export interface AIProvider {
+  id: AIProviderId;
+  configured: boolean; // False when a required setting, such as the API key, is missing
+  capabilities: AIProviderCapabilities;
+  analyzeEntry: (text: string) => Promise<Partial<JournalEntry>>;
+  detectPatterns: (entries: JournalEntry[]) => Promise<PatternAnalysis>;
+  generateLifeJourneyAnalysis: (entries: JournalEntry[]) => Promise<LifeJourneyAnalysis>;
+  findSimilarConnections: (currentEntry: string, pastEntries: JournalEntry[]) => Promise<string>;
+  generateDailyGuidance: (entries: JournalEntry[]) => Promise<DailyGuidance>;
+  generatePositiveReflection: (entryText: string) => Promise<{ quote: string, imageBase64: string }>;
+  transcribeAudio: (audioBase64: string, mimeType: string) => Promise<string>;
+  generateImage: (prompt: string) => Promise<string>; // Base64 PNG
+  generateVideo?: (prompt: string, onProgress?: () => void) => Promise<string>; // Data URL or base64 MP4
+  checkConnection: () => Promise<void>; // Throws with a readable message when the provider cannot be reached
+}
+
+// A subset of JSON Schema that every provider understands
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+}
+
+// One structured request: the model answers with a JSON object matching the schema
+export interface JsonTask {
+  name: string; // Short identifier, sent where the API asks for a schema name
+  system: string;
+  prompt: string;
+  schema: JsonSchema;
+}
+
+// --- Settings ---
+
+export interface AISettings {
+  provider: AIProviderId;
+  gemini: {
+    apiKey: string; // Empty means the key the app was built with
+    model: string;
+    imageModel: string;
+  };
+  openai: {
+    baseUrl: string;
+    apiKey: string; // Optional for local servers
+    model: string;
+    imageModel: string; // Empty turns image features off
+    transcriptionModel: string; // Empty turns transcription off
+  };
+}
+
+const AI_SETTINGS_KEY = 'lumina_ai_settings';
+
+export const DEFAULT_AI_SETTINGS: AISettings = {
+  provider: 'gemini',
+  gemini: { apiKey: '', model: 'gemini-2.5-flash', imageModel: 'gemini-2.5-flash-image' },
+  openai: { baseUrl: 'http://localhost:11434/v1', apiKey: '', model: 'llama3.1', imageModel: '', transcriptionModel: '' }
+};
+
+export const getAISettings = (): AISettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(AI_SETTINGS_KEY) || 'null');
+    if (stored) {
+      return {
+        provider: stored.provider === 'openai-compatible' ? 'openai-compatible' : 'gemini',
+        gemini: { ...DEFAULT_AI_SETTINGS.gemini, ...stored.gemini },
+        openai: { ...DEFAULT_AI_SETTINGS.openai, ...stored.openai }
+      };
+    }
+  } catch {
+    // Fall back to the defaults
+  }
+  return DEFAULT_AI_SETTINGS;
+};
+
+let cached: { key: string, provider: AIProvider } | null = null;
+
+export const setAISettings = (settings: AISettings): void => {
+  localStorage.setItem(AI_SETTINGS_KEY, JSON.stringify(settings));
+  cached = null;
+};
+
+export const createAIProvider = (settings: AISettings): AIProvider =>
+  settings.provider === 'openai-compatible' ? createOpenAICompatibleProvider(settings.openai) : createGeminiProvider(settings.gemini);
+
+// Settings can change in another tab, so the provider is rebuilt whenever the stored settings differ
+export const getAIProvider = (): AIProvider => {
+  const key = localStorage.getItem(AI_SETTINGS_KEY) || '';
+  if (!cached || cached.key !== key) cached = { key, provider: createAIProvider(getAISettings()) };
+  return cached.provider;
+};
+
+export const getAICapabilities = (): AIProviderCapabilities => getAIProvider().capabilities;
+
+// --- Features ---
+
+// AI features can run: a provider is set up and the browser is online
+export const canUseAI = (): boolean => getAIProvider().configured && navigator.onLine;
+
+// The provider, once it is known a request could succeed; fails fast instead of waiting for a timeout
+const readyProvider = (): AIProvider => {
+  const provider = getAIProvider();
+  if (!provider.configured) throw new AIUnsupportedError("No AI provider is set up. Add an API key or a server in Settings.");
+  if (!navigator.onLine) throw new AIOfflineError("You are offline. AI features will work again once you reconnect.");
+  return provider;
+};
+
+// Text analyzed before, in this session or in a saved entry, is answered from the cache without a request
+export const analyzeEntry = async (text: string): Promise<Partial<JournalEntry>> => {
+  const analysisHash = contentHash(text);
+  const cached = await findCachedAnalysis(analysisHash);
+  if (cached) return cached;
+  const analysis: Partial<JournalEntry> = { ...await readyProvider().analyzeEntry(text), analysisSource: 'ai', analysisHash };
+  cacheAnalysis(analysis);
+  return analysis;
+};
+
+const analyzeOffline = (text: string): Partial<JournalEntry> => ({ ...analyzeEntryLocally(text), analysisHash: contentHash(text) });
+
+// AI analysis when possible; the offline estimate when no provider is set up or it cannot be reached.
+// Errors the provider answers with (a bad key, a refused request) are still thrown.
+export const analyzeEntryWithFallback = async (text: string): Promise<Partial<JournalEntry>> => {
+  if (!canUseAI()) return (await findCachedAnalysis(contentHash(text))) || analyzeOffline(text);
+  try {
+    return await analyzeEntry(text);
+  } catch (error) {
+    // Timeouts count as offline too; fetch rejects with a TypeError when the request never got an answer
+    if (error instanceof AIOfflineError || error instanceof TypeError || !navigator.onLine) {
+      console.warn("AI analysis unavailable, using offline analysis", error);
+      return analyzeOffline(text);
+    }
+    throw error;
+  }
+};
+
+// Reports for an unchanged set of entries come from the cache; the provider is part of the key,
+// so switching providers gives a fresh report
+const reportKind = (report: string) => `${getAIProvider().id}:${report}`;
+const today = () => new Date().toISOString().split('T')[0];
+
+export const detectPatterns = (entries: JournalEntry[]) =>
+  withReportCache(reportKind('patterns'), entries, async () => readyProvider().detectPatterns(entries));
+export const generateLifeJourneyAnalysis = (entries: JournalEntry[]) =>
+  withReportCache(reportKind('journey'), entries, async () => readyProvider().generateLifeJourneyAnalysis(entries));
+export const findSimilarConnections = async (currentEntry: string, pastEntries: JournalEntry[]) => readyProvider().findSimilarConnections(currentEntry, pastEntries);
+// Guidance is for one day, so a new day asks again even if nothing was written
+export const generateDailyGuidance = (entries: JournalEntry[]) =>
+  withReportCache(reportKind(`guidance:${today()}`), entries, async () => readyProvider().generateDailyGuidance(entries));
+
+export const transcribeAudio = async (audioBase64: string, mimeType: string = 'audio/wav') => {
+  const provider = readyProvider();
+  if (!provider.capabilities.transcription) {
+    throw new AIUnsupportedError("The selected AI provider has no transcription model. Choose one in Settings.");
+  }
+  return provider.transcribeAudio(audioBase64, mimeType);
+};
+
+export const generateJournalImage = async (entryText: string) => {
+  const provider = readyProvider();
+  if (!provider.capabilities.images) {
+    throw new AIUnsupportedError("The selected AI provider has no image model. Choose one in Settings.");
+  }
+  return provider.generateImage(journalImagePrompt(entryText));
+};
+
+export const generatePositiveReflection = async (entryText: string) => {
+  const provider = readyProvider();
+  if (!provider.capabilities.images) {
+    throw new AIUnsupportedError("The selected AI provider has no image model. Choose one in Settings.");
+  }
+  return provider.generatePositiveReflection(entryText);
+};
+
+export const generateJournalVideo = async (entryText: string, onProgress?: () => void) => {
+  const provider = readyProvider();
+  if (!provider.capabilities.video || !provider.generateVideo) throw new AIUnsupportedError("Memory videos are only available with Google Gemini.");
+  return provider.generateVideo(journalVideoPrompt(entryText), onProgress);
+};
@@ -0,0 +1,116 @@
+import { AIError, AIAuthError, AIQuotaError, AIServiceError, AITimeoutError } from "./aiErrors";
+
+// --- AI Request Layer ---
+// Every call a provider makes goes through runAIRequest. It waits for a free slot in the provider's
+// rate limit, gives up after a timeout, and retries rate limits, server errors and timeouts with
+// exponential backoff. Providers turn their own failures into the typed errors from aiErrors inside
+// the call; anything else is passed through without a retry.
+
+const DEFAULT_TIMEOUT_MS = 60_000;
+const DEFAULT_RETRIES = 3;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30_000;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export interface RateLimiter {
+  acquire: () => Promise<void>; // Resolves when the next request may start, in the order they asked
+  pause: (ms: number) => void; // Holds every request back, e.g. after the provider answered 429
+}
+
+// At most `limit` requests start in any window of `windowMs`
+export const createRateLimiter = (limit: number, windowMs = 60_000): RateLimiter => {
+  let started: number[] = [];
+  let pausedUntil = 0;
+  let queue = Promise.resolve();
+
+  const acquire = () => {
+    const turn = queue.then(async () => {
+      while (true) {
+        const now = Date.now();
+        started = started.filter(time => now - time < windowMs);
+        const delay = Math.max(pausedUntil - now, started.length < limit ? 0 : started[0] + windowMs - now);
+        if (delay <= 0) break;
+        await wait(delay);
+      }
+      started.push(Date.now());
+    });
+    queue = turn;
+    return turn;
+  };
+
+  const pause = (ms: number) => {
+    pausedUntil = Math.max(pausedUntil, Date.now() + ms);
+  };
+
+  return { acquire, pause };
+};
+
+export interface AIRequestOptions {
+  label: string; // The provider as named in messages, e.g. "Google Gemini"
+  limiter: RateLimiter;
+  timeoutMs?: number;
+  retries?: number;
+}
+
+// The error for an HTTP error status that carries no more specific meaning
+export const errorForStatus = (status: number, label: string, retryAfterMs?: number): AIError => {
+  if (status === 401 || status === 403) return new AIAuthError(`${label} did not accept the API key. Check it in Settings.`);
+  if (status === 429) return new AIQuotaError(`${label} is receiving too many requests. Wait a minute and try again.`, retryAfterMs);
+  if (status >= 500) return new AIServiceError(`${label} is having problems right now (${status}). Try again later.`, status);
+  return new AIServiceError(`${label} could not handle the request (${status}).`, status);
+};
+
+// Reads a Retry-After header, which is either a number of seconds or a date
+export const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+const isRetryable = (error: unknown): boolean =>
+  error instanceof AITimeoutError ||
+  (error instanceof AIQuotaError && !error.exhausted) ||
+  (error instanceof AIServiceError && (error.status >= 500 || error.status === 408));
+
+// Exponential with jitter, so tabs that failed together do not retry together
+const backoffDelay = (attempt: number, error: unknown): number => {
+  if (error instanceof AIQuotaError && error.retryAfterMs !== undefined) return error.retryAfterMs;
+  return Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt) + Math.random() * BASE_DELAY_MS;
+};
+
+// Runs the call, passing a signal that aborts when the timeout is reached
+export const runAIRequest = async <T>(call: (signal: AbortSignal) => Promise<T>, options: AIRequestOptions): Promise<T> => {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const retries = options.retries ?? DEFAULT_RETRIES;
+
+  for (let attempt = 0; ; attempt++) {
+    await options.limiter.acquire();
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    // Not every SDK call stops on the signal, so the timeout also wins the race on its own
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new AITimeoutError(`${options.label} did not answer within ${Math.round(timeoutMs / 1000)} seconds. Try again in a moment.`));
+      }, timeoutMs);
+    });
+
+    try {
+      return await Promise.race([call(controller.signal), timeout]);
+    } catch (error) {
+      // Stop the timer now: left running through the backoff wait, its rejection would go unhandled
+      clearTimeout(timer);
+      const delay = backoffDelay(attempt, error);
+      // A wait longer than the backoff allows means the quota is used up for now; say so instead
+      if (attempt >= retries || !isRetryable(error) || delay > MAX_DELAY_MS) throw error;
+      if (error instanceof AIQuotaError) options.limiter.pause(delay);
+      console.warn(`${options.label} request failed, retrying in ${Math.round(delay / 1000)}s`, error);
+      await wait(delay);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+};
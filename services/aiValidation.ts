@@ -0,0 +1,164 @@
+import { JournalEntry, PatternAnalysis, LifeJourneyAnalysis, DailyGuidance } from "../types";
+import { AIResponseError } from "./aiErrors";
+import { moodBandFor } from "./localAnalysis";
+
+// --- AI Response Validation ---
+// Models do not always keep to the schema: a mood score of 42, a color name instead of a hex code,
+// a list sent as one string, a field left out. Every AI result is checked here before it reaches
+// the journal. Small problems are repaired (clamped, cleaned up or given a default) and the repaired
+// fields are recorded on the result as repairedFields; a result without its core is rejected.
+
+type Raw = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is Raw => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const HEX_COLOR = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i;
+const EMOJI = /^[\p{Extended_Pictographic}\p{Emoji_Component}\u200D\uFE0F]{1,16}$/u;
+
+// Reads fields from one object of the response; every default or fix it applies is noted in `repaired`
+// under the field's path, e.g. "motivationalBlock.resilienceScore"
+const createReader = (raw: unknown, repaired: string[], prefix = '') => {
+  const source: Raw = isRecord(raw) ? raw : {};
+  const repair = (field: string) => {
+    repaired.push(`${prefix}${field}`);
+  };
+
+  const text = (field: string, fallback = ''): string => {
+    const value = source[field];
+    if (typeof value === 'string' && value.trim()) return value.trim();
+    repair(field);
+    return typeof value === 'number' ? String(value) : fallback;
+  };
+
+  // Lists sent as a single "a, b, c" string are split; empty, repeated and non-text items are dropped
+  const list = (field: string, limit: number): string[] => {
+    const value = source[field];
+    const items: unknown[] = Array.isArray(value) ? value : typeof value === 'string' ? value.split(/\n|;|,/) : [];
+    const seen = new Set<string>();
+    const cleaned: string[] = [];
+    items.forEach(item => {
+      if (typeof item !== 'string') return;
+      const trimmed = item.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '').trim();
+      if (!trimmed || seen.has(trimmed.toLowerCase())) return;
+      seen.add(trimmed.toLowerCase());
+      cleaned.push(trimmed);
+    });
+    if (!Array.isArray(value) || cleaned.length !== value.length || cleaned.length > limit) repair(field);
+    return cleaned.slice(0, limit);
+  };
+
+  // Numbers sent as text are read; anything outside min..max is clamped
+  const number = (field: string, min: number, max: number): number | undefined => {
+    const value = typeof source[field] === 'string' ? Number(source[field]) : source[field];
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      repair(field);
+      return undefined;
+    }
+    const clamped = Math.min(max, Math.max(min, value));
+    if (clamped !== source[field]) repair(field);
+    return clamped;
+  };
+
+  const nested = (field: string) => {
+    if (!isRecord(source[field])) repair(field);
+    return createReader(source[field], repaired, `${prefix}${field}.`);
+  };
+
+  return { text, list, number, nested, repair, value: (field: string) => source[field] };
+};
+
+const unusable = (what: string) =>
+  new AIResponseError(`The AI answered without ${what}. Try again, or choose a different model in Settings.`);
+
+export const normalizeEntryAnalysis = (raw: unknown): Partial<JournalEntry> => {
+  const repaired: string[] = [];
+  const read = createReader(raw, repaired);
+  const moodScore = read.number('moodScore', 1, 10);
+  // A mood made up by us would pass for the model's reading of the entry
+  if (moodScore === undefined) throw unusable("a mood score");
+  const band = moodBandFor(Math.round(moodScore));
+
+  const color = read.value('moodColor');
+  let moodColor = band.color;
+  if (typeof color === 'string' && HEX_COLOR.test(color.trim())) {
+    moodColor = color.trim().startsWith('#') ? color.trim() : `#${color.trim()}`;
+    if (moodColor !== color) read.repair('moodColor');
+  } else {
+    read.repair('moodColor');
+  }
+
+  const emoji = read.value('moodEmoji');
+  const moodEmoji = typeof emoji === 'string' && EMOJI.test(emoji.trim()) && /\p{Extended_Pictographic}/u.test(emoji) ? emoji.trim() : band.emoji;
+  if (moodEmoji !== emoji) read.repair('moodEmoji');
+
+  return {
+    moodScore,
+    moodLabel: read.text('moodLabel', band.label),
+    moodEmoji,
+    moodColor,
+    keywords: read.list('keywords', 5),
+    summary: read.text('summary'),
+    reflectionQuestion: read.text('reflectionQuestion'),
+    // Always set, so a new analysis does not inherit the repairs of the one it replaces
+    repairedFields: repaired.length > 0 ? repaired : undefined
+  };
+};
+
+export const normalizePatternAnalysis = (raw: unknown): Omit<PatternAnalysis, 'timestamp'> => {
+  const repaired: string[] = [];
+  const read = createReader(raw, repaired);
+  const result = {
+    recurringThemes: read.list('recurringThemes', 5),
+    habitInsight: read.text('habitInsight'),
+    improvementSuggestion: read.text('improvementSuggestion'),
+    overallVibe: read.text('overallVibe')
+  };
+  if (result.recurringThemes.length === 0 && !result.habitInsight && !result.improvementSuggestion) throw unusable("any patterns");
+  return { ...result, ...(repaired.length > 0 && { repairedFields: repaired }) };
+};
+
+export const normalizeLifeJourneyAnalysis = (raw: unknown): Omit<LifeJourneyAnalysis, 'timestamp'> => {
+  const repaired: string[] = [];
+  const read = createReader(raw, repaired);
+  const profile = read.nested('personalityProfile');
+  const motivation = read.nested('motivationalBlock');
+  const result = {
+    positives: read.list('positives', 12),
+    negatives: read.list('negatives', 12),
+    achievements: read.list('achievements', 12),
+    confidenceMoments: read.list('confidenceMoments', 12),
+    actsOfKindness: read.list('actsOfKindness', 12),
+    futurePlans: read.list('futurePlans', 12),
+    bestMoments: read.list('bestMoments', 12),
+    personalityProfile: {
+      archetype: profile.text('archetype'),
+      traits: profile.list('traits', 8),
+      encouragingMessage: profile.text('encouragingMessage'),
+      optimizationTips: profile.list('optimizationTips', 8)
+    },
+    motivationalBlock: {
+      resilienceScore: Math.round(motivation.number('resilienceScore', 0, 100) ?? 50),
+      positivityIndex: Math.round(motivation.number('positivityIndex', 0, 100) ?? 50),
+      powerQuote: motivation.text('powerQuote'),
+      resilienceNarrative: motivation.text('resilienceNarrative'),
+      growthFocus: motivation.list('growthFocus', 8)
+    }
+  };
+  const lists = [result.positives, result.achievements, result.bestMoments, result.futurePlans, result.personalityProfile.traits];
+  if (lists.every(items => items.length === 0) && !result.personalityProfile.archetype) throw unusable("a journey report");
+  return { ...result, ...(repaired.length > 0 && { repairedFields: repaired }) };
+};
+
+export const normalizeDailyGuidance = (raw: unknown): Omit<DailyGuidance, 'timestamp'> => {
+  const repaired: string[] = [];
+  const read = createReader(raw, repaired);
+  const result = {
+    focusArea: read.text('focusArea'),
+    todoSuggestions: read.list('todoSuggestions', 5),
+    improvementTips: read.list('improvementTips', 5),
+    positiveReflection: read.text('positiveReflection'),
+    reasoning: read.text('reasoning')
+  };
+  if (!result.focusArea && result.todoSuggestions.length === 0) throw unusable("any guidance");
+  return { ...result, ...(repaired.length > 0 && { repairedFields: repaired }) };
+};
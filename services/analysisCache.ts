@@ -0,0 +1,134 @@
+import { JournalEntry } from '../types';
+import { readStoredEntries, getReportCache, saveReportCache } from './storage';
+import { subscribeToChanges } from './tabSync';
+
+// --- Analysis Cache ---
+// An analysis is stored with analysisHash, the hash of the text it was computed from. That tells
+// whether the entry was edited afterwards (a stale analysis) and lets an unchanged text reuse its
+// analysis instead of going back to the AI. Reports are cached the same way, keyed by a hash of the
+// entries they were generated from. Entry analyses are found in the saved entries through an index
+// built once per session; the latest reports are saved with the other reports, so they outlast a reload.
+
+const MAX_CACHED = 200;
+const MAX_SAVED_REPORTS = 20;
+
+// cyrb53, a fast 53-bit string hash; it only has to tell texts apart, not resist attacks
+const cyrb53 = (text: string): string => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0');
+};
+
+// Line endings and surrounding whitespace do not change what the AI reads
+export const contentHash = (content: string): string => cyrb53(content.replace(/\r\n?/g, '\n').trim());
+
+// Hashes created before this cache existed are missing, so those analyses are never called stale
+export const isAnalysisStale = (analysis: Partial<JournalEntry> | null | undefined, content: string): boolean =>
+  !!analysis?.analysisHash && analysis.analysisHash !== contentHash(content);
+
+const ANALYSIS_FIELDS = [
+  'moodScore', 'moodLabel', 'moodEmoji', 'moodColor', 'keywords', 'summary', 'reflectionQuestion',
+  'analysisSource', 'repairedFields', 'analysisHash'
+] as const;
+
+// The analysis part of an entry
+export const pickAnalysis = (entry: Partial<JournalEntry>): Partial<JournalEntry> =>
+  Object.fromEntries(ANALYSIS_FIELDS.map(field => [field, entry[field]]));
+
+// Oldest first, so the first key is the one to drop
+const remember = <T>(cache: Map<string, T>, key: string, value: T) => {
+  cache.delete(key);
+  cache.set(key, value);
+  if (cache.size > MAX_CACHED) cache.delete(cache.keys().next().value as string);
+};
+
+const analyses = new Map<string, Partial<JournalEntry>>();
+
+export const cacheAnalysis = (analysis: Partial<JournalEntry>): void => {
+  if (analysis.analysisHash && analysis.analysisSource !== 'local') remember(analyses, analysis.analysisHash, analysis);
+};
+
+// The AI analyses of the saved entries by hash. Built on the first lookup instead of reading the
+// journal on every request; analyses made in this tab are in `analyses` already, and a change
+// in another tab has the index built again on the next lookup.
+let savedAnalyses: Promise<Map<string, Partial<JournalEntry>>> | null = null;
+let isListening = false;
+
+const buildSavedAnalyses = async (): Promise<Map<string, Partial<JournalEntry>>> => {
+  const index = new Map<string, Partial<JournalEntry>>();
+  (await readStoredEntries()).forEach(e => {
+    if (!e.deletedAt && e.isAnalyzed && e.analysisSource !== 'local' && e.analysisHash) index.set(e.analysisHash, pickAnalysis(e));
+  });
+  return index;
+};
+
+const getSavedAnalyses = (): Promise<Map<string, Partial<JournalEntry>>> => {
+  if (!isListening) {
+    isListening = true;
+    subscribeToChanges(message => {
+      if (message.kind === 'entries') savedAnalyses = null;
+    });
+  }
+  if (!savedAnalyses) {
+    const building = buildSavedAnalyses();
+    // A locked vault or a failed read is tried again on the next lookup
+    building.catch(() => {
+      if (savedAnalyses === building) savedAnalyses = null;
+    });
+    savedAnalyses = building;
+  }
+  return savedAnalyses;
+};
+
+// An AI analysis of exactly this text, from this session or from a saved entry
+export const findCachedAnalysis = async (hash: string): Promise<Partial<JournalEntry> | null> => {
+  const cached = analyses.get(hash);
+  if (cached) return cached;
+  try {
+    return (await getSavedAnalyses()).get(hash) || null;
+  } catch (e) {
+    // A locked vault or a failed read only means no cache hit
+    console.warn("Analysis cache lookup failed", e);
+    return null;
+  }
+};
+
+// Covers what the report prompts read from each entry: its date and text
+export const reportInputHash = (entries: JournalEntry[]): string =>
+  cyrb53(entries.map(e => `${e.id}\n${e.createdAt}\n${contentHash(e.content)}`).join('\n'));
+
+const reports = new Map<string, unknown>();
+
+// Re-read before writing, so reports saved by other tabs are kept
+const saveReport = async (key: string, report: unknown): Promise<void> => {
+  const saved = { ...(await getReportCache()) };
+  delete saved[key];
+  saved[key] = report;
+  const keys = Object.keys(saved);
+  keys.slice(0, Math.max(0, keys.length - MAX_SAVED_REPORTS)).forEach(old => delete saved[old]);
+  await saveReportCache(saved);
+};
+
+// The report for this exact set of entries, generated only when there is none yet; kind separates
+// report types (and anything else the result depends on, such as the day for daily guidance)
+export const withReportCache = async <T extends object>(kind: string, entries: JournalEntry[], generate: () => Promise<T>): Promise<T & { inputHash: string }> => {
+  const inputHash = reportInputHash(entries);
+  const key = `${kind}:${inputHash}`;
+  const cached = (reports.get(key) ?? (await getReportCache())?.[key]) as (T & { inputHash: string }) | undefined;
+  if (cached) {
+    remember(reports, key, cached);
+    return cached;
+  }
+  const report = { ...await generate(), inputHash };
+  remember(reports, key, report);
+  // The report is returned either way; failing to save it only costs a request after a reload
+  saveReport(key, report).catch(e => console.warn("Report cache could not be saved", e));
+  return report;
+};
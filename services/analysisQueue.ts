@@ -0,0 +1,122 @@
+import { JournalEntry } from '../types';
+import { getEntry, saveEntry } from './storage';
+import { analyzeEntry } from './aiProvider';
+import { AISafetyError, describeAIError } from './aiErrors';
+
+// --- Background Analysis Queue ---
+// Entries that arrive without AI analysis (e.g. from an import), or that only have the offline
+// estimate, can be queued here. They are analyzed one at a time with a pause in between, so a large
+// import does not hit the API rate limit. The queue is kept in localStorage and resumes the next time
+// the journal is opened.
+
+const QUEUE_KEY = 'lumina_analysis_queue';
+const DELAY_BETWEEN_ENTRIES_MS = 4000;
+
+export interface AnalysisQueueStatus {
+  pending: number;
+  completed: number; // Analyzed since the queue was last started
+  isRunning: boolean;
+  error?: string; // Set when the queue stopped on a failure; the failed entry stays queued
+}
+
+type QueueListener = (status: AnalysisQueueStatus) => void;
+
+const getQueue = (): string[] => {
+  try {
+    const data = localStorage.getItem(QUEUE_KEY);
+    return data ? JSON.parse(data) : [];
+  } catch {
+    return [];
+  }
+};
+
+const setQueue = (ids: string[]) => {
+  if (ids.length > 0) localStorage.setItem(QUEUE_KEY, JSON.stringify(ids));
+  else localStorage.removeItem(QUEUE_KEY);
+};
+
+let status: AnalysisQueueStatus = { pending: getQueue().length, completed: 0, isRunning: false };
+const listeners = new Set<QueueListener>();
+
+const updateStatus = (changes: Partial<AnalysisQueueStatus>) => {
+  status = { ...status, ...changes };
+  listeners.forEach(listener => listener(status));
+};
+
+export const getAnalysisQueueStatus = (): AnalysisQueueStatus => status;
+
+export const subscribeToAnalysisQueue = (listener: QueueListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Entries without analysis, or with only the offline estimate, which AI analysis replaces
+export const needsAIAnalysis = (entry: JournalEntry): boolean => !entry.isAnalyzed || entry.analysisSource === 'local';
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const runQueue = async () => {
+  updateStatus({ isRunning: true, error: undefined });
+  let queue = getQueue();
+  while (queue.length > 0) {
+    const id = queue[0];
+    try {
+      const entry = await getEntry(id);
+      // Entries deleted, analyzed or emptied in the meantime are simply dropped from the queue
+      if (entry && !entry.deletedAt && needsAIAnalysis(entry) && entry.content.trim()) {
+        const analysis = await analyzeEntry(entry.content);
+        // Re-read so edits made while the request was in flight are not lost
+        const latest = await getEntry(id);
+        if (latest && latest.content !== entry.content && needsAIAnalysis(latest)) {
+          // The analysis is of the old text; the entry stays first in the queue for its new text
+          await wait(DELAY_BETWEEN_ENTRIES_MS);
+          queue = getQueue();
+          continue;
+        }
+        if (latest && needsAIAnalysis(latest)) {
+          await saveEntry({ ...latest, ...analysis, isAnalyzed: true, updatedAt: new Date().toISOString() });
+          updateStatus({ completed: status.completed + 1 });
+        }
+      }
+    } catch (e) {
+      // A blocked entry would block the queue forever; it keeps its offline estimate or stays unanalyzed
+      if (e instanceof AISafetyError) {
+        console.warn("Queued entry skipped by the safety filters", id);
+      } else {
+        console.error("Queued analysis failed", e);
+        updateStatus({ isRunning: false, pending: queue.length, error: `Analysis paused. ${describeAIError(e, "Try again later.")}` });
+        return;
+      }
+    }
+    queue = getQueue().filter(queuedId => queuedId !== id);
+    setQueue(queue);
+    updateStatus({ pending: queue.length });
+    if (queue.length > 0) await wait(DELAY_BETWEEN_ENTRIES_MS);
+  }
+  updateStatus({ isRunning: false });
+};
+
+// Starts working through the queue unless it is already running
+export const startAnalysisQueue = (): void => {
+  if (status.isRunning || getQueue().length === 0) return;
+  // Anything runQueue does not handle itself (e.g. localStorage failing) must not leave it marked as running
+  runQueue().catch(e => {
+    console.error("Analysis queue stopped", e);
+    updateStatus({ isRunning: false, pending: getQueue().length, error: "Analysis paused. Try again later." });
+  });
+};
+
+export const queueEntriesForAnalysis = (ids: string[]): void => {
+  const queue = getQueue();
+  const queued = new Set(queue);
+  setQueue([...queue, ...ids.filter(id => !queued.has(id))]);
+  updateStatus({ pending: getQueue().length, completed: status.isRunning ? status.completed : 0 });
+  startAnalysisQueue();
+};
+
+export const clearAnalysisQueue = (): void => {
+  setQueue([]);
+  updateStatus({ pending: 0, error: undefined });
+};
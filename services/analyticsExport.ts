@@ -0,0 +1,104 @@
+import { JournalEntry, JournalMedia } from '../types';
+import { filterEntriesByDateRange } from './journalBook';
+import { toLocalDateKey } from './calendar';
+import { getEntryNotebookId } from './storage';
+
+// --- Analytics Export ---
+// The per-entry numbers behind the Dashboard as a table: one row per entry, oldest first, in CSV for
+// spreadsheets or newline-delimited JSON for notebooks and scripts. Columns are chosen by the user;
+// values an entry does not have (an unanalyzed entry has no mood) are left empty, or null in JSON.
+
+export type AnalyticsFormat = 'csv' | 'ndjson';
+type CellValue = string | number | boolean | string[] | null;
+
+export interface AnalyticsColumn {
+  key: string;
+  label: string;
+  value: (entry: JournalEntry, context: { notebookName: string }) => CellValue;
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+const countMedia = (entry: JournalEntry, type: JournalMedia['type']) => (entry.media || []).filter(m => m.type === type).length;
+const optional = <T>(value: T | undefined): T | null => value === undefined ? null : value;
+
+export const ANALYTICS_COLUMNS: AnalyticsColumn[] = [
+  { key: 'date', label: 'Date', value: e => toLocalDateKey(new Date(e.createdAt)) },
+  { key: 'time', label: 'Time', value: e => { const d = new Date(e.createdAt); return `${pad(d.getHours())}:${pad(d.getMinutes())}`; } },
+  { key: 'entry_id', label: 'Entry ID', value: e => e.id },
+  { key: 'notebook', label: 'Notebook', value: (_, { notebookName }) => notebookName },
+  { key: 'analyzed', label: 'Analyzed', value: e => e.isAnalyzed },
+  { key: 'mood_score', label: 'Mood score', value: e => optional(e.moodScore) },
+  { key: 'mood_label', label: 'Mood label', value: e => optional(e.moodLabel) },
+  { key: 'mood_emoji', label: 'Mood emoji', value: e => optional(e.moodEmoji) },
+  { key: 'keywords', label: 'Keywords', value: e => e.keywords || [] },
+  { key: 'word_count', label: 'Word count', value: e => e.content.trim() ? e.content.trim().split(/\s+/).length : 0 },
+  { key: 'todos_total', label: 'Todos', value: e => (e.todos || []).length },
+  { key: 'todos_completed', label: 'Todos completed', value: e => (e.todos || []).filter(t => t.isCompleted).length },
+  { key: 'todo_completion', label: 'Todo completion', value: e => e.todos && e.todos.length > 0 ? Math.round((e.todos.filter(t => t.isCompleted).length / e.todos.length) * 100) / 100 : null },
+  { key: 'schedule_blocks', label: 'Schedule blocks', value: e => (e.schedule || []).length },
+  { key: 'images', label: 'Images', value: e => countMedia(e, 'image') },
+  { key: 'drawings', label: 'Drawings', value: e => countMedia(e, 'drawing') },
+  { key: 'videos', label: 'Videos', value: e => countMedia(e, 'video') },
+  { key: 'audio', label: 'Audio clips', value: e => countMedia(e, 'audio') },
+  { key: 'has_reflection', label: 'Reflection', value: e => !!e.reflection },
+  { key: 'summary', label: 'Summary', value: e => optional(e.summary) }
+];
+
+export const DEFAULT_ANALYTICS_COLUMNS = ['date', 'notebook', 'mood_score', 'mood_label', 'keywords', 'todos_total', 'todos_completed', 'todo_completion', 'images', 'drawings', 'videos', 'audio'];
+
+const COLUMNS_KEY = 'lumina_analytics_columns';
+
+// The columns chosen last time, in table order; unknown keys from older versions are dropped
+export const getAnalyticsColumns = (): string[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(COLUMNS_KEY) || 'null');
+    if (Array.isArray(stored)) {
+      const keys = ANALYTICS_COLUMNS.map(c => c.key).filter(key => stored.includes(key));
+      if (keys.length > 0) return keys;
+    }
+  } catch {
+    // Fall back to the defaults
+  }
+  return DEFAULT_ANALYTICS_COLUMNS;
+};
+
+export const setAnalyticsColumns = (keys: string[]): void => {
+  localStorage.setItem(COLUMNS_KEY, JSON.stringify(keys));
+};
+
+// Quotes cells that need it (RFC 4180). Text starting with =, +, - or @ is prefixed with an apostrophe
+// so spreadsheet apps show it instead of running it as a formula.
+const csvCell = (value: CellValue): string => {
+  if (value === null) return '';
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  let text = Array.isArray(value) ? value.join('; ') : value;
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export interface AnalyticsExportOptions {
+  from: string; // YYYY-MM-DD, inclusive, local time
+  to: string;   // YYYY-MM-DD, inclusive, local time
+  columns: string[];
+  format: AnalyticsFormat;
+  notebookNames: Map<string, string>; // notebook id -> name
+}
+
+export const buildAnalyticsExport = (entries: JournalEntry[], options: AnalyticsExportOptions): { blob: Blob, rowCount: number } => {
+  const columns = ANALYTICS_COLUMNS.filter(c => options.columns.includes(c.key));
+  const rows = filterEntriesByDateRange(entries, options.from, options.to)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    .map(entry => {
+      const context = { notebookName: options.notebookNames.get(getEntryNotebookId(entry)) || '' };
+      return columns.map(column => column.value(entry, context));
+    });
+
+  if (options.format === 'ndjson') {
+    const lines = rows.map(row => JSON.stringify(Object.fromEntries(columns.map((column, i) => [column.key, row[i]]))));
+    return { blob: new Blob(lines.map(line => line + '\n'), { type: 'application/x-ndjson' }), rowCount: rows.length };
+  }
+
+  // The byte order mark makes Excel read the file as UTF-8, so emoji and accents survive
+  const lines = [columns.map(c => csvCell(c.label)), ...rows.map(row => row.map(csvCell))].map(cells => cells.join(','));
+  return { blob: new Blob(['\uFEFF' + lines.join('\r\n') + '\r\n'], { type: 'text/csv;charset=utf-8' }), rowCount: rows.length };
+};
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { ARCHIVE_SCHEMA_VERSION, ArchiveValidationError, upgradeArchiveData, validateArchiveEntries, validateArchiveNotebooks, validateManifest } from './archive';
+
+const validEntry = {
+  id: 'a',
+  content: 'A quiet morning',
+  createdAt: '2024-03-01T09:00:00.000Z',
+  updatedAt: '2024-03-01T09:00:00.000Z',
+  isAnalyzed: false
+};
+
+describe('archive upgrades', () => {
+  it('brings a v1 archive up to the current schema', () => {
+    const upgraded = upgradeArchiveData({
+      entries: [
+        { id: 'a', content: 'Analyzed', createdAt: '2024-03-01T09:00:00.000Z', moodScore: 7 },
+        { id: 'b', content: 'Plain', createdAt: '2024-03-02T09:00:00.000Z' }
+      ]
+    });
+
+    expect(upgraded.version).toBe(ARCHIVE_SCHEMA_VERSION);
+    expect(upgraded.notebooks).toEqual([]);
+    expect(upgraded.entries.map((e: any) => [e.updatedAt, e.isAnalyzed])).toEqual([
+      ['2024-03-01T09:00:00.000Z', true],
+      ['2024-03-02T09:00:00.000Z', false]
+    ]);
+    expect(validateArchiveEntries(upgraded.entries)).toEqual([]);
+  });
+
+  it('leaves current archives alone and refuses newer ones', () => {
+    const current = { version: ARCHIVE_SCHEMA_VERSION, entries: [validEntry], notebooks: [] };
+    expect(upgradeArchiveData(current)).toBe(current);
+    expect(() => upgradeArchiveData({ version: ARCHIVE_SCHEMA_VERSION + 1, entries: [] })).toThrow(ArchiveValidationError);
+  });
+});
+
+describe('archive validation', () => {
+  it('names each broken entry and what is wrong with it', () => {
+    const problems = validateArchiveEntries([
+      validEntry,
+      { ...validEntry, content: 42, moodScore: 11 },
+      validEntry,
+      'not an entry'
+    ]);
+
+    expect(problems).toEqual([
+      'Entry 2 (id "a"), Mar 1, 2024: content must be text',
+      'Entry 2 (id "a"), Mar 1, 2024: moodScore must be a number between 1 and 10',
+      'Entry 2 (id "a"), Mar 1, 2024: duplicate id',
+      'Entry 3 (id "a"), Mar 1, 2024: duplicate id',
+      'Entry 4: is not an object'
+    ]);
+  });
+
+  it('reports entries in notebooks the archive does not contain', () => {
+    const notebooks = [{ id: 'work', name: 'Work', color: 'blue', createdAt: '2024-03-01T09:00:00.000Z' }];
+    const entries = [{ ...validEntry, notebookId: 'work' }, { ...validEntry, id: 'b', notebookId: 'travel' }];
+
+    expect(validateArchiveNotebooks(notebooks, entries, 'default')).toEqual([
+      'Entry 2 (id "b"), Mar 1, 2024: belongs to notebook "travel", which is not in the archive'
+    ]);
+  });
+
+  it('checks the manifest against the data it describes', () => {
+    const manifest = { schemaVersion: 3, exportedAt: '2024-03-01T09:00:00.000Z', entryCount: 2, blobs: {} };
+
+    expect(validateManifest(manifest, 3, 2)).toEqual([]);
+    expect(validateManifest(manifest, 2, 1)).toEqual([
+      'manifest.json declares schema v3 but journal_data.json is v2',
+      'manifest.json lists 2 entries but the archive contains 1'
+    ]);
+  });
+});
@@ -0,0 +1,357 @@
+import { JournalEntry } from '../types';
+
+// --- Archive Format ---
+// A full backup is a ZIP with:
+//   manifest.json      - ArchiveManifest (added in schema v2)
+//   journal_data.json  - entries, notebooks (added in schema v3) and cached reports
+//   media/<blobId>     - raw media blobs
+
+export const ARCHIVE_SCHEMA_VERSION = 3;
+export const MANIFEST_FILE = 'manifest.json';
+export const DATA_FILE = 'journal_data.json';
+
+export interface ArchiveBlobInfo {
+  sha256: string;
+  mimeType: string;
+  size: number;
+}
+
+export interface ArchiveManifest {
+  schemaVersion: number;
+  exportedAt: string;
+  entryCount: number;
+  blobs: Record<string, ArchiveBlobInfo>;
+}
+
+export class ArchiveValidationError extends Error {
+  problems: string[];
+
+  constructor(message: string, problems: string[] = []) {
+    super(message);
+    this.name = 'ArchiveValidationError';
+    this.problems = problems;
+  }
+}
+
+// --- Checksums ---
+// WebCrypto only hashes a whole buffer at once, which for a video means holding all of it in
+// memory. This SHA-256 is fed the blob's stream a chunk at a time instead.
+
+const SHA256_K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2
+]);
+
+const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+
+const createSha256 = () => {
+  const state = new Uint32Array([0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19]);
+  const w = new Uint32Array(64);
+  const pending = new Uint8Array(64); // The start of a block still waiting for its remaining bytes
+  let pendingLength = 0;
+  let totalLength = 0;
+
+  const compress = (bytes: Uint8Array, offset: number) => {
+    for (let i = 0; i < 16; i++) {
+      const at = offset + i * 4;
+      w[i] = (bytes[at] << 24) | (bytes[at + 1] << 16) | (bytes[at + 2] << 8) | bytes[at + 3];
+    }
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+    }
+    let [a, b, c, d, e, f, g, h] = state;
+    for (let i = 0; i < 64; i++) {
+      const t1 = (h + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + SHA256_K[i] + w[i]) | 0;
+      const t2 = ((rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c))) | 0;
+      h = g;
+      g = f;
+      f = e;
+      e = (d + t1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) | 0;
+    }
+    state[0] += a;
+    state[1] += b;
+    state[2] += c;
+    state[3] += d;
+    state[4] += e;
+    state[5] += f;
+    state[6] += g;
+    state[7] += h;
+  };
+
+  const update = (bytes: Uint8Array) => {
+    totalLength += bytes.length;
+    let offset = 0;
+    if (pendingLength > 0) {
+      offset = Math.min(64 - pendingLength, bytes.length);
+      pending.set(bytes.subarray(0, offset), pendingLength);
+      pendingLength += offset;
+      if (pendingLength < 64) return;
+      compress(pending, 0);
+      pendingLength = 0;
+    }
+    for (; offset + 64 <= bytes.length; offset += 64) compress(bytes, offset);
+    pending.set(bytes.subarray(offset));
+    pendingLength = bytes.length - offset;
+  };
+
+  const digest = (): Uint8Array => {
+    const bits = totalLength * 8;
+    pending[pendingLength++] = 0x80;
+    if (pendingLength > 56) {
+      pending.fill(0, pendingLength);
+      compress(pending, 0);
+      pendingLength = 0;
+    }
+    pending.fill(0, pendingLength);
+    const view = new DataView(pending.buffer);
+    view.setUint32(56, Math.floor(bits / 0x100000000));
+    view.setUint32(60, bits >>> 0);
+    compress(pending, 0);
+    const out = new Uint8Array(32);
+    const outView = new DataView(out.buffer);
+    state.forEach((word, i) => outView.setUint32(i * 4, word));
+    return out;
+  };
+
+  return { update, digest };
+};
+
+// Aborting the signal stops the read and rejects with an AbortError
+export const sha256Hex = async (blob: Blob, signal?: AbortSignal): Promise<string> => {
+  const hash = createSha256();
+  const reader = blob.stream().getReader();
+  try {
+    while (true) {
+      signal?.throwIfAborted();
+      const { done, value } = await reader.read();
+      if (done) break;
+      hash.update(value);
+    }
+  } catch (e) {
+    reader.cancel().catch(() => {});
+    throw e;
+  }
+  return Array.from(hash.digest()).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// MIME types recorded on the entries, used for the manifest and to restore typed blobs
+export const collectBlobMimeTypes = (entries: JournalEntry[]): Record<string, string> => {
+  const types: Record<string, string> = {};
+  entries.forEach(entry => {
+    if (entry.reflection?.imageId) types[entry.reflection.imageId] = 'image/png';
+    entry.media?.forEach(m => {
+      if (m.blobId) types[m.blobId] = m.mimeType;
+    });
+  });
+  return types;
+};
+
+// --- Upgrades ---
+// ARCHIVE_UPGRADES[n] turns journal_data.json written at schema version n into version n + 1.
+// Add a step here whenever the JournalEntry model changes shape.
+
+type ArchiveUpgrade = (data: any) => any;
+
+const ARCHIVE_UPGRADES: Record<number, ArchiveUpgrade> = {
+  // v1 archives predate the manifest and were written without any validation
+  1: (data) => ({
+    ...data,
+    version: 2,
+    entries: Array.isArray(data.entries) ? data.entries.map((entry: any) => {
+      if (!entry || typeof entry !== 'object') return entry;
+      return {
+        ...entry,
+        updatedAt: entry.updatedAt || entry.createdAt,
+        isAnalyzed: typeof entry.isAnalyzed === 'boolean' ? entry.isAnalyzed : entry.moodScore !== undefined
+      };
+    }) : data.entries
+  }),
+  // v2 archives predate notebooks; every entry belongs to the default notebook
+  2: (data) => ({
+    ...data,
+    version: 3,
+    notebooks: []
+  })
+};
+
+export const upgradeArchiveData = (data: any): any => {
+  let version = typeof data.version === 'number' ? data.version : 1;
+  if (version > ARCHIVE_SCHEMA_VERSION) {
+    throw new ArchiveValidationError(
+      `This archive was created by a newer version of Lumina (format v${version}). Please update the app before restoring it.`
+    );
+  }
+
+  let upgraded = data;
+  while (version < ARCHIVE_SCHEMA_VERSION) {
+    const upgrade = ARCHIVE_UPGRADES[version];
+    if (!upgrade) throw new ArchiveValidationError(`Archive format v${version} is not supported.`);
+    upgraded = upgrade(upgraded);
+    version++;
+  }
+  return upgraded;
+};
+
+// --- Validation ---
+
+const MEDIA_TYPES = ['drawing', 'image', 'video', 'audio'];
+
+const isString = (value: any) => typeof value === 'string';
+const isOptionalString = (value: any) => value === undefined || typeof value === 'string';
+const isDateString = (value: any) => typeof value === 'string' && !isNaN(new Date(value).getTime());
+
+const describeEntry = (entry: any, index: number): string => {
+  const id = entry && isString(entry.id) ? ` (id "${entry.id}")` : '';
+  const date = entry && isDateString(entry.createdAt)
+    ? `, ${new Date(entry.createdAt).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' })}`
+    : '';
+  return `Entry ${index + 1}${id}${date}`;
+};
+
+// Returns the problems found in a single entry; an empty list means it is a valid JournalEntry
+export const validateEntry = (entry: any): string[] => {
+  if (!entry || typeof entry !== 'object' || Array.isArray(entry)) return ['is not an object'];
+
+  const problems: string[] = [];
+  if (!isString(entry.id) || !entry.id) problems.push('is missing an id');
+  if (!isString(entry.content)) problems.push('content must be text');
+  if (!isDateString(entry.createdAt)) problems.push('createdAt is not a valid date');
+  if (!isDateString(entry.updatedAt)) problems.push('updatedAt is not a valid date');
+  if (entry.deletedAt !== undefined && !isDateString(entry.deletedAt)) problems.push('deletedAt is not a valid date');
+  if (!isOptionalString(entry.notebookId)) problems.push('notebookId must be text');
+  if (typeof entry.isAnalyzed !== 'boolean') problems.push('isAnalyzed must be true or false');
+  if (entry.analysisSource !== undefined && entry.analysisSource !== 'ai' && entry.analysisSource !== 'local') {
+    problems.push("analysisSource must be 'ai' or 'local'");
+  }
+
+  if (entry.moodScore !== undefined && (typeof entry.moodScore !== 'number' || !Number.isFinite(entry.moodScore) || entry.moodScore < 1 || entry.moodScore > 10)) {
+    problems.push('moodScore must be a number between 1 and 10');
+  }
+  ['moodLabel', 'moodEmoji', 'moodColor', 'summary', 'reflectionQuestion', 'analysisHash'].forEach(field => {
+    if (!isOptionalString(entry[field])) problems.push(`${field} must be text`);
+  });
+  if (entry.keywords !== undefined && (!Array.isArray(entry.keywords) || !entry.keywords.every(isString))) {
+    problems.push('keywords must be a list of text');
+  }
+  if (entry.repairedFields !== undefined && (!Array.isArray(entry.repairedFields) || !entry.repairedFields.every(isString))) {
+    problems.push('repairedFields must be a list of text');
+  }
+
+  if (entry.reflection !== undefined) {
+    const r = entry.reflection;
+    if (!r || !isString(r.quote) || !isString(r.imageUrl) || !isString(r.imageId)) {
+      problems.push('reflection must have a quote, imageUrl and imageId');
+    }
+  }
+
+  if (entry.media !== undefined) {
+    if (!Array.isArray(entry.media)) {
+      problems.push('media must be a list');
+    } else {
+      entry.media.forEach((m: any, i: number) => {
+        if (!m || !isString(m.id) || !MEDIA_TYPES.includes(m.type) || !isString(m.mimeType) || !isDateString(m.createdAt)
+          || !isOptionalString(m.blobId) || !isOptionalString(m.externalUrl) || !isOptionalString(m.altText)) {
+          problems.push(`media item ${i + 1} is malformed`);
+        }
+      });
+    }
+  }
+
+  if (entry.todos !== undefined) {
+    if (!Array.isArray(entry.todos)) {
+      problems.push('todos must be a list');
+    } else {
+      entry.todos.forEach((t: any, i: number) => {
+        if (!t || !isString(t.id) || !isString(t.text) || typeof t.isCompleted !== 'boolean') {
+          problems.push(`todo ${i + 1} is malformed`);
+        }
+      });
+    }
+  }
+
+  if (entry.schedule !== undefined) {
+    if (!Array.isArray(entry.schedule)) {
+      problems.push('schedule must be a list');
+    } else {
+      entry.schedule.forEach((s: any, i: number) => {
+        if (!s || !isString(s.id) || !isString(s.time) || !isString(s.activity)) {
+          problems.push(`schedule block ${i + 1} is malformed`);
+        } else if ((s.durationMinutes !== undefined && !(typeof s.durationMinutes === 'number' && s.durationMinutes > 0))
+          || (s.date !== undefined && !(isString(s.date) && /^\d{4}-\d{2}-\d{2}$/.test(s.date)))) {
+          problems.push(`schedule block ${i + 1} has an invalid duration or date`);
+        }
+      });
+    }
+  }
+
+  return problems;
+};
+
+// Validates every entry and returns a flat, human-readable report
+export const validateArchiveEntries = (entries: any): string[] => {
+  if (!Array.isArray(entries)) return ['journal_data.json has no list of entries'];
+
+  const problems: string[] = [];
+  const seenIds = new Set<string>();
+  entries.forEach((entry, index) => {
+    validateEntry(entry).forEach(problem => problems.push(`${describeEntry(entry, index)}: ${problem}`));
+    if (entry && isString(entry.id)) {
+      if (seenIds.has(entry.id)) problems.push(`${describeEntry(entry, index)}: duplicate id`);
+      seenIds.add(entry.id);
+    }
+  });
+  return problems;
+};
+
+// Checks the notebook list and that every entry points at a notebook the archive knows about
+export const validateArchiveNotebooks = (notebooks: any, entries: any, defaultNotebookId: string): string[] => {
+  if (!Array.isArray(notebooks)) return ['journal_data.json has no list of notebooks'];
+
+  const problems: string[] = [];
+  const ids = new Set<string>([defaultNotebookId]);
+  notebooks.forEach((n: any, i: number) => {
+    if (!n || !isString(n.id) || !n.id || !isString(n.name) || !isString(n.color) || !isDateString(n.createdAt)) {
+      problems.push(`Notebook ${i + 1} is malformed`);
+    } else {
+      ids.add(n.id);
+    }
+  });
+
+  if (Array.isArray(entries)) {
+    entries.forEach((entry, index) => {
+      if (entry && isString(entry.notebookId) && !ids.has(entry.notebookId)) {
+        problems.push(`${describeEntry(entry, index)}: belongs to notebook "${entry.notebookId}", which is not in the archive`);
+      }
+    });
+  }
+  return problems;
+};
+
+// dataVersion is the version journal_data.json was written with, before any upgrades
+export const validateManifest = (manifest: any, dataVersion: number, entryCount: number): string[] => {
+  if (!manifest || typeof manifest !== 'object') return ['manifest.json is not an object'];
+
+  const problems: string[] = [];
+  if (manifest.schemaVersion !== dataVersion) {
+    problems.push(`manifest.json declares schema v${manifest.schemaVersion} but journal_data.json is v${dataVersion}`);
+  }
+  if (manifest.entryCount !== entryCount) {
+    problems.push(`manifest.json lists ${manifest.entryCount} entries but the archive contains ${entryCount}`);
+  }
+  if (!manifest.blobs || typeof manifest.blobs !== 'object') {
+    problems.push('manifest.json has no blob list');
+  }
+  return problems;
+};
@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { decryptArchive, encryptArchive, isEncryptedArchive } from './archiveCrypto';
+import { ArchiveValidationError } from './archive';
+
+const CHUNK_SIZE = 1024 * 1024;
+const SEALED_CHUNK_SIZE = 4 + CHUNK_SIZE + 16; // Length prefix, ciphertext and GCM tag
+
+// Two full chunks and a partial last one
+const zip = new Blob([Uint8Array.from({ length: 2.5 * CHUNK_SIZE }, (_, i) => (i * 13) % 251)]);
+
+const bytesOf = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer());
+
+// Comparing digests keeps the assertions fast for archives of a few megabytes
+const digest = async (blob: Blob) => Array.from(new Uint8Array(await crypto.subtle.digest('SHA-256', await blob.arrayBuffer())));
+
+describe('password-protected archives', () => {
+  let encrypted: Blob;
+  let headerEnd: number;
+
+  // Key derivation is deliberately slow, so one encrypted archive is shared by every test
+  beforeAll(async () => {
+    encrypted = await encryptArchive(zip, 'correct horse');
+    headerEnd = encrypted.size - 2 * SEALED_CHUNK_SIZE - (4 + CHUNK_SIZE / 2 + 16);
+  });
+
+  it('decrypts back to the original archive, reporting progress', async () => {
+    const progress: number[] = [];
+
+    const decrypted = await decryptArchive(encrypted, 'correct horse', { onProgress: done => progress.push(done) });
+
+    expect(await isEncryptedArchive(encrypted)).toBe(true);
+    expect(await isEncryptedArchive(zip)).toBe(false);
+    expect(await digest(decrypted)).toEqual(await digest(zip));
+    expect(progress).toHaveLength(3);
+    expect(progress[2]).toBe(encrypted.size);
+  });
+
+  it('tells a wrong password apart from a damaged file', async () => {
+    await expect(decryptArchive(encrypted, 'wrong horse')).rejects.toMatchObject({ code: 'wrong-passphrase' });
+  });
+
+  it('rejects a modified byte, reordered chunks and a file cut off between chunks', async () => {
+    const chunk = (index: number) => encrypted.slice(headerEnd + index * SEALED_CHUNK_SIZE, headerEnd + (index + 1) * SEALED_CHUNK_SIZE);
+    const header = encrypted.slice(0, headerEnd);
+    const rest = encrypted.slice(headerEnd + 2 * SEALED_CHUNK_SIZE);
+
+    const flipped = await bytesOf(encrypted);
+    flipped[headerEnd + SEALED_CHUNK_SIZE + 100] ^= 0xFF;
+    const reordered = new Blob([header, chunk(1), chunk(0), rest]);
+    const truncated = encrypted.slice(0, headerEnd + 2 * SEALED_CHUNK_SIZE);
+
+    for (const damaged of [new Blob([flipped]), reordered, truncated]) {
+      await expect(decryptArchive(damaged, 'correct horse')).rejects.toBeInstanceOf(ArchiveValidationError);
+    }
+  });
+
+  it('stops when cancelled', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(decryptArchive(encrypted, 'correct horse', { signal: controller.signal })).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
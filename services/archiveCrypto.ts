@@ -0,0 +1,159 @@
+import { ArchiveValidationError } from './archive';
+import { VaultError, deriveKey, bytesToBase64, base64ToBytes, PBKDF2_ITERATIONS } from './vault';
+
+// --- Password-Protected Archives ---
+// An encrypted backup wraps the normal archive ZIP:
+//   "LUMENC01"           - 8-byte magic
+//   uint32 header length - big-endian
+//   header JSON          - EncryptedArchiveHeader
+//   chunks               - uint32 length + AES-GCM ciphertext, one per CHUNK_SIZE bytes of the ZIP
+// Each chunk's IV is the header nonce plus the chunk number, and its additional data binds the header
+// bytes and whether it is the last chunk. A modified byte, a reordered or missing chunk, an edited
+// header or a truncated file therefore all fail authentication instead of yielding a damaged ZIP.
+
+export const ENCRYPTED_ARCHIVE_EXTENSION = 'lumina';
+const MAGIC = 'LUMENC01';
+const CHUNK_SIZE = 1024 * 1024;
+const VERIFIER_TEXT = 'lumina-archive-verifier';
+const MAX_HEADER_BYTES = 64 * 1024;
+
+interface EncryptedArchiveHeader {
+  version: 1;
+  salt: string;
+  iterations: number;
+  nonce: string; // 8 random bytes; the chunk number fills the remaining 4 bytes of each IV
+  chunkSize: number;
+  size: number; // Plaintext size, checked after decryption
+  verifier: { iv: string, data: string }; // Tells a wrong password apart from a damaged file
+}
+
+const chunkIv = (nonce: Uint8Array, index: number): Uint8Array => {
+  const iv = new Uint8Array(12);
+  iv.set(nonce, 0);
+  new DataView(iv.buffer).setUint32(8, index);
+  return iv;
+};
+
+const chunkAdditionalData = (headerBytes: Uint8Array, isLast: boolean): Uint8Array => {
+  const data = new Uint8Array(headerBytes.length + 1);
+  data.set(headerBytes, 0);
+  data[headerBytes.length] = isLast ? 1 : 0;
+  return data;
+};
+
+const uint32 = (value: number): Uint8Array => {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value);
+  return bytes;
+};
+
+const readUint32 = async (blob: Blob, offset: number): Promise<number | null> => {
+  const bytes = new Uint8Array(await blob.slice(offset, offset + 4).arrayBuffer());
+  return bytes.length === 4 ? new DataView(bytes.buffer).getUint32(0) : null;
+};
+
+export const isEncryptedArchive = async (file: Blob): Promise<boolean> => {
+  const head = new Uint8Array(await file.slice(0, MAGIC.length).arrayBuffer());
+  return new TextDecoder().decode(head) === MAGIC;
+};
+
+export interface ArchiveCryptoOptions {
+  signal?: AbortSignal;
+  onProgress?: (bytesDone: number, bytesTotal: number) => void;
+}
+
+// Encrypts an archive ZIP with a password. Works through the ZIP one chunk at a time; each encrypted
+// chunk becomes its own Blob, which the browser may keep on disk instead of in memory.
+export const encryptArchive = async (zip: Blob, password: string, options: ArchiveCryptoOptions = {}): Promise<Blob> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const nonce = crypto.getRandomValues(new Uint8Array(8));
+  const key = await deriveKey(password, salt, PBKDF2_ITERATIONS);
+  const verifierIv = crypto.getRandomValues(new Uint8Array(12));
+  const verifier = await crypto.subtle.encrypt({ name: 'AES-GCM', iv: verifierIv }, key, new TextEncoder().encode(VERIFIER_TEXT));
+
+  const header: EncryptedArchiveHeader = {
+    version: 1,
+    salt: bytesToBase64(salt),
+    iterations: PBKDF2_ITERATIONS,
+    nonce: bytesToBase64(nonce),
+    chunkSize: CHUNK_SIZE,
+    size: zip.size,
+    verifier: { iv: bytesToBase64(verifierIv), data: bytesToBase64(new Uint8Array(verifier)) }
+  };
+  const headerBytes = new TextEncoder().encode(JSON.stringify(header));
+  const parts: BlobPart[] = [new TextEncoder().encode(MAGIC), uint32(headerBytes.length), headerBytes];
+
+  const chunkCount = Math.max(1, Math.ceil(zip.size / CHUNK_SIZE));
+  for (let index = 0; index < chunkCount; index++) {
+    options.signal?.throwIfAborted();
+    const plain = await zip.slice(index * CHUNK_SIZE, (index + 1) * CHUNK_SIZE).arrayBuffer();
+    const cipher = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv: chunkIv(nonce, index), additionalData: chunkAdditionalData(headerBytes, index === chunkCount - 1) },
+      key,
+      plain
+    );
+    parts.push(new Blob([uint32(cipher.byteLength), cipher]));
+    options.onProgress?.(Math.min((index + 1) * CHUNK_SIZE, zip.size), zip.size);
+  }
+
+  return new Blob(parts, { type: 'application/octet-stream' });
+};
+
+const damaged = (detail: string) =>
+  new ArchiveValidationError("This encrypted backup is damaged or has been modified. Nothing was imported.", [detail]);
+
+// Decrypts an encrypted backup back into its ZIP. Throws a 'wrong-passphrase' VaultError for a wrong
+// password and an ArchiveValidationError when the file fails any integrity check.
+export const decryptArchive = async (file: Blob, password: string, options: ArchiveCryptoOptions = {}): Promise<Blob> => {
+  if (!await isEncryptedArchive(file)) throw new ArchiveValidationError("This file is not an encrypted Lumina backup.");
+
+  const headerLength = await readUint32(file, MAGIC.length);
+  if (headerLength === null || headerLength > MAX_HEADER_BYTES) throw damaged("The file header is cut off or malformed");
+  const headerStart = MAGIC.length + 4;
+  const headerBytes = new Uint8Array(await file.slice(headerStart, headerStart + headerLength).arrayBuffer());
+  let header: EncryptedArchiveHeader;
+  try {
+    header = JSON.parse(new TextDecoder().decode(headerBytes));
+  } catch {
+    throw damaged("The file header is not readable");
+  }
+  if (header.version !== 1) throw new ArchiveValidationError("This backup was encrypted by a newer version of Lumina. Update the app to import it.");
+
+  const key = await deriveKey(password, base64ToBytes(header.salt), header.iterations);
+  try {
+    await crypto.subtle.decrypt({ name: 'AES-GCM', iv: base64ToBytes(header.verifier.iv) }, key, base64ToBytes(header.verifier.data));
+  } catch {
+    throw new VaultError('wrong-passphrase', 'Incorrect password for this backup. Please try again.');
+  }
+
+  const nonce = base64ToBytes(header.nonce);
+  const parts: BlobPart[] = [];
+  let offset = headerStart + headerLength;
+  let decryptedSize = 0;
+  for (let index = 0; offset < file.size; index++) {
+    options.signal?.throwIfAborted();
+    const length = await readUint32(file, offset);
+    if (length === null || offset + 4 + length > file.size) throw damaged(`Chunk ${index + 1} is cut off`);
+    offset += 4;
+    const cipher = await file.slice(offset, offset + length).arrayBuffer();
+    offset += length;
+    try {
+      const plain = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: chunkIv(nonce, index), additionalData: chunkAdditionalData(headerBytes, offset === file.size) },
+        key,
+        cipher
+      );
+      parts.push(new Blob([plain]));
+      decryptedSize += plain.byteLength;
+    } catch {
+      // A truncated file also lands here: its new last chunk was not written as the final one
+      throw damaged(offset === file.size
+        ? `Chunk ${index + 1} failed its integrity check, or the file was cut off after it`
+        : `Chunk ${index + 1} failed its integrity check`);
+    }
+    options.onProgress?.(offset, file.size);
+  }
+
+  if (parts.length === 0 || decryptedSize !== header.size) throw damaged(`Expected ${header.size} bytes of archive data but found ${decryptedSize}`);
+  return new Blob(parts, { type: 'application/zip' });
+};
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { JournalEntry } from '../types';
+import { createZipWriter, openZip } from './zipStream';
+
+const makeEntry = (id: string, content: string, blobIds: string[] = []): JournalEntry => ({
+  id,
+  content,
+  createdAt: '2024-03-01T09:00:00.000Z',
+  updatedAt: '2024-03-01T09:00:00.000Z',
+  isAnalyzed: false,
+  media: blobIds.map(blobId => ({ id: `media-${blobId}`, type: 'image', mimeType: 'image/png', blobId, createdAt: '2024-03-01T09:00:00.000Z' }))
+});
+
+const load = async () => {
+  const backup = await import('./backup');
+  const storage = await import('./storage');
+  const db = await import('./db');
+  return { backup, storage, db };
+};
+
+// Restores happen on another device: an empty IndexedDB and freshly loaded modules
+const loadOtherDevice = () => {
+  globalThis.indexedDB = new IDBFactory();
+  vi.resetModules();
+  return load();
+};
+
+// Rewrites an archive, replacing the named files
+const rewriteArchive = async (archive: Blob, replacements: Record<string, Blob | string>): Promise<File> => {
+  const source = await openZip(archive);
+  const zip = createZipWriter();
+  for (const entry of source.entries.values()) {
+    await zip.addFile(entry.name, replacements[entry.name] ?? await source.read(entry));
+  }
+  return new File([zip.finish()], 'backup.zip');
+};
+
+describe('full backups', () => {
+  it('restores entries and media on another device', async () => {
+    const here = await load();
+    await here.db.saveMediaBlob('m1', new Blob(['photo bytes'], { type: 'image/png' }));
+    await here.storage.saveEntries([makeEntry('a', 'With a photo', ['m1']), makeEntry('b', 'Just words')]);
+    const archive = await here.backup.exportFullBackup();
+
+    const there = await loadOtherDevice();
+    await there.backup.importFullBackup(new File([archive], 'backup.zip'));
+
+    expect((await there.storage.getEntries()).map(e => e.content).sort()).toEqual(['Just words', 'With a photo']);
+    const photo = await there.db.getMediaBlob('m1');
+    expect(await photo!.text()).toBe('photo bytes');
+    expect(photo!.type).toBe('image/png');
+  });
+
+  it('imports nothing from an archive whose media does not match its manifest', async () => {
+    const here = await load();
+    await here.db.saveMediaBlob('m1', new Blob(['photo bytes'], { type: 'image/png' }));
+    await here.storage.saveEntry(makeEntry('a', 'With a photo', ['m1']));
+    const tampered = await rewriteArchive(await here.backup.exportFullBackup(), { 'media/m1': new Blob(['other bytes']) });
+
+    const there = await loadOtherDevice();
+    await there.storage.saveEntry(makeEntry('local', 'Already here'));
+
+    await expect(there.backup.importFullBackup(tampered)).rejects.toMatchObject({
+      name: 'ArchiveValidationError',
+      problems: ['Media file m1 (image/png) does not match its checksum']
+    });
+    expect((await there.storage.getEntries()).map(e => e.id)).toEqual(['local']);
+    expect(await there.db.getMediaBlob('m1')).toBeNull();
+  });
+
+  it('upgrades archives written before the manifest existed', async () => {
+    const zip = createZipWriter();
+    await zip.addFile('journal_data.json', JSON.stringify({
+      entries: [{ id: 'old', content: 'From an early version', createdAt: '2023-01-05T08:00:00.000Z', moodScore: 6 }]
+    }));
+
+    const { backup, storage } = await load();
+    await backup.importFullBackup(new File([zip.finish()], 'backup.zip'));
+
+    expect(await storage.getEntry('old')).toMatchObject({ updatedAt: '2023-01-05T08:00:00.000Z', isAnalyzed: true });
+  });
+});
@@ -0,0 +1,441 @@
+import { JournalEntry, Notebook } from '../types';
+import { getMediaBlob, saveMediaBlob, getAllRecordKeys, getMediaBlobInfo, MEDIA_STORE } from './db';
+import {
+  ARCHIVE_SCHEMA_VERSION, MANIFEST_FILE, DATA_FILE, ArchiveManifest, ArchiveBlobInfo, ArchiveValidationError,
+  sha256Hex, collectBlobMimeTypes, upgradeArchiveData, validateArchiveEntries, validateArchiveNotebooks, validateManifest
+} from './archive';
+import { isEncryptedArchive, encryptArchive, decryptArchive } from './archiveCrypto';
+import { VaultError } from './vault';
+import { ZipWriter, ZipReader, createZipWriter, openZip } from './zipStream';
+import {
+  getEntries, getStoredEntries, readStoredEntries, saveEntries, replaceAllEntries,
+  getPatternAnalysis, savePatternAnalysis,
+  getLifeJourneyAnalysis, saveLifeJourneyAnalysis,
+  getDailyGuidance, saveDailyGuidance,
+  getNotebooks, mergeNotebooks, replaceAllNotebooks, getEntryNotebookId, DEFAULT_NOTEBOOK_ID
+} from './storage';
+
+// --- Progress & Cancellation ---
+// Archives are written and read through services/zipStream, one media file per worker, with at
+// most MEDIA_CONCURRENCY files in flight. Memory use is therefore bounded by a few media files,
+// not by the size of the whole library.
+
+const MEDIA_CONCURRENCY = 3;
+const PROGRESS_INTERVAL_MS = 100;
+
+export type BackupFileStatus = 'pending' | 'working' | 'done' | 'failed';
+
+export interface BackupFileProgress {
+  id: string;
+  mimeType: string;
+  size: number;
+  status: BackupFileStatus;
+}
+
+export interface BackupProgress {
+  stage: string;
+  files: BackupFileProgress[];
+  bytesDone: number;
+  bytesTotal: number;
+}
+
+export interface BackupTaskOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: BackupProgress) => void;
+}
+
+interface ProgressTracker {
+  stage: (stage: string, files?: BackupFileProgress[], bytesTotal?: number) => void;
+  bytes: (bytesDone: number, bytesTotal: number) => void;
+  file: (id: string, status: BackupFileStatus) => void;
+}
+
+// Collects progress and reports it at most every PROGRESS_INTERVAL_MS, plus on every stage change
+const createProgressTracker = (onProgress?: (progress: BackupProgress) => void): ProgressTracker => {
+  let progress: BackupProgress = { stage: '', files: [], bytesDone: 0, bytesTotal: 0 };
+  const index = new Map<string, number>();
+  let lastReport = 0;
+
+  const report = (force: boolean) => {
+    const now = Date.now();
+    if (!onProgress || (!force && now - lastReport < PROGRESS_INTERVAL_MS)) return;
+    lastReport = now;
+    onProgress({ ...progress, files: [...progress.files] });
+  };
+
+  return {
+    stage: (stage, files = [], bytesTotal = files.reduce((sum, f) => sum + f.size, 0)) => {
+      progress = { stage, files, bytesDone: 0, bytesTotal };
+      index.clear();
+      files.forEach((f, i) => index.set(f.id, i));
+      report(true);
+    },
+    bytes: (bytesDone, bytesTotal) => {
+      progress = { ...progress, bytesDone, bytesTotal };
+      report(bytesDone === bytesTotal);
+    },
+    file: (id, status) => {
+      const i = index.get(id);
+      if (i === undefined) return;
+      const file = progress.files[i];
+      progress.files[i] = { ...file, status };
+      if (status === 'done' || status === 'failed') progress.bytesDone += file.size;
+      report(false);
+    }
+  };
+};
+
+// Runs worker over the items with at most `limit` running at once. Stops at the first failure:
+// the other workers finish the item they are on and take no new one.
+const forEachLimited = async <T>(items: T[], limit: number, worker: (item: T) => Promise<void>, signal?: AbortSignal): Promise<void> => {
+  let next = 0;
+  let failed = false;
+  const run = async () => {
+    while (next < items.length && !failed) {
+      try {
+        signal?.throwIfAborted();
+        await worker(items[next++]);
+      } catch (e) {
+        failed = true;
+        throw e;
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, run));
+};
+
+const pendingFiles = (ids: string[], info: Record<string, { mimeType: string, size: number }>): BackupFileProgress[] =>
+  ids.map(id => ({ id, mimeType: info[id]?.mimeType || '', size: info[id]?.size ?? 0, status: 'pending' }));
+
+// --- Full Archive Backup & Restore (ZIP) ---
+
+// Blob ids referenced by any of the entries
+const referencedBlobIds = (entries: JournalEntry[]): Set<string> => {
+  const blobIds = new Set<string>();
+  entries.forEach(entry => {
+    if (entry.reflection?.imageId) blobIds.add(entry.reflection.imageId);
+    entry.media?.forEach(m => {
+      if (m.blobId) blobIds.add(m.blobId);
+    });
+  });
+  return blobIds;
+};
+
+// Starts an archive with everything except the media files and manifest
+const startArchive = async (notebookId?: string): Promise<{ zip: ZipWriter, entries: JournalEntry[], exportedAt: string }> => {
+  const zip = createZipWriter();
+  const allNotebooks = await getNotebooks();
+  // A failed read must fail the backup: an empty archive would look like a good one
+  const entries = (await readStoredEntries())
+    .filter(entry => !entry.deletedAt && (!notebookId || getEntryNotebookId(entry) === notebookId));
+  const notebooks: Notebook[] = notebookId ? allNotebooks.filter(n => n.id === notebookId) : allNotebooks;
+  const exportedAt = new Date().toISOString();
+
+  const dataObject = {
+    version: ARCHIVE_SCHEMA_VERSION,
+    exportedAt,
+    entries,
+    notebooks,
+    analysis: notebookId ? null : await getPatternAnalysis(),
+    journeyReport: notebookId ? null : await getLifeJourneyAnalysis(),
+    dailyGuidance: notebookId ? null : await getDailyGuidance()
+  };
+  await zip.addFile(DATA_FILE, JSON.stringify(dataObject, null, 2));
+  return { zip, entries, exportedAt };
+};
+
+const finishArchive = async (zip: ZipWriter, exportedAt: string, entryCount: number, blobs: Record<string, ArchiveBlobInfo>): Promise<Blob> => {
+  const manifest: ArchiveManifest = {
+    schemaVersion: ARCHIVE_SCHEMA_VERSION,
+    exportedAt,
+    entryCount,
+    blobs
+  };
+  await zip.addFile(MANIFEST_FILE, JSON.stringify(manifest, null, 2));
+  return zip.finish();
+};
+
+// With a notebookId only that notebook's entries and media are exported. Cached reports cover
+// the whole journal, so they are left out of a notebook export. With a password the ZIP is encrypted.
+// Aborting the signal rejects with an AbortError.
+export const exportFullBackup = async (notebookId?: string, password?: string, options: BackupTaskOptions = {}): Promise<Blob> => {
+  const { signal } = options;
+  const progress = createProgressTracker(options.onProgress);
+
+  // 1. Add Data JSON
+  progress.stage('Collecting entries');
+  const { zip, entries, exportedAt } = await startArchive(notebookId);
+
+  // 2. Add Media Files. The archive refers to each stored blob instead of copying it.
+  const mimeTypes = collectBlobMimeTypes(entries);
+  const storedInfo = await getMediaBlobInfo();
+  const blobIds = Array.from(referencedBlobIds(entries)).filter(id => storedInfo[id]);
+  progress.stage('Packing media', pendingFiles(blobIds, storedInfo));
+
+  const blobInfo: Record<string, ArchiveBlobInfo> = {};
+  await forEachLimited(blobIds, MEDIA_CONCURRENCY, async id => {
+    progress.file(id, 'working');
+    const blob = await getMediaBlob(id);
+    if (!blob) {
+      progress.file(id, 'failed');
+      return;
+    }
+    // The MIME type is recorded in the manifest, so we can reconstruct later
+    blobInfo[id] = {
+      sha256: await sha256Hex(blob, signal),
+      mimeType: mimeTypes[id] || blob.type || 'application/octet-stream',
+      size: blob.size
+    };
+    await zip.addFile(`media/${id}`, blob, signal);
+    progress.file(id, 'done');
+  }, signal);
+
+  // 3. Add Manifest
+  const archive = await finishArchive(zip, exportedAt, entries.length, blobInfo);
+  if (!password) return archive;
+
+  progress.stage('Encrypting', [], archive.size);
+  return encryptArchive(archive, password, { signal, onProgress: progress.bytes });
+};
+
+// Builds a full archive whose media is stored elsewhere (e.g. a scheduled backup folder).
+// storeBlob is called once per referenced blob, one at a time, and returns its manifest info
+// or null if the blob is gone. The manifest still lists every blob, so putting the files back
+// under media/ turns the result into an ordinary archive.
+export const exportBackupWithoutMedia = async (
+  storeBlob: (id: string, mimeType: string | undefined) => Promise<ArchiveBlobInfo | null>
+): Promise<Blob> => {
+  const { zip, entries, exportedAt } = await startArchive();
+  const mimeTypes = collectBlobMimeTypes(entries);
+  const blobInfo: Record<string, ArchiveBlobInfo> = {};
+  for (const id of referencedBlobIds(entries)) {
+    const info = await storeBlob(id, mimeTypes[id]);
+    if (info) blobInfo[id] = info;
+  }
+  return finishArchive(zip, exportedAt, entries.length, blobInfo);
+};
+
+interface LoadedArchive {
+  zip: ZipReader;
+  data: any;
+  mimeTypes: Record<string, string>;
+}
+
+const readJSONFile = async (zip: ZipReader, name: string): Promise<any> => {
+  const entry = zip.entries.get(name);
+  if (!entry) return undefined;
+  try {
+    return JSON.parse(await (await zip.read(entry)).text());
+  } catch {
+    throw new ArchiveValidationError(`${name} is not valid JSON. The archive may be damaged.`);
+  }
+};
+
+// Checks that every blob listed in the manifest is present and unmodified
+const verifyArchiveBlobs = async (zip: ZipReader, manifest: ArchiveManifest, options: BackupTaskOptions, progress: ProgressTracker): Promise<string[]> => {
+  const problems: string[] = [];
+  const ids = Object.keys(manifest.blobs);
+  progress.stage('Verifying media', pendingFiles(ids, manifest.blobs));
+
+  await forEachLimited(ids, MEDIA_CONCURRENCY, async id => {
+    const info = manifest.blobs[id];
+    const entry = zip.entries.get(`media/${id}`);
+    progress.file(id, 'working');
+    if (!entry) {
+      problems.push(`Media file ${id} is listed in the manifest but missing from the archive`);
+      progress.file(id, 'failed');
+      return;
+    }
+    const blob = await zip.read(entry);
+    if (blob.size !== info.size || await sha256Hex(blob, options.signal) !== info.sha256) {
+      problems.push(`Media file ${id} (${info.mimeType}) does not match its checksum`);
+      progress.file(id, 'failed');
+      return;
+    }
+    progress.file(id, 'done');
+  }, options.signal);
+  return problems;
+};
+
+// Loads, upgrades and strictly validates an archive. Throws ArchiveValidationError with a report.
+// Encrypted archives need their password; without one a 'locked' VaultError is thrown.
+const readArchive = async (file: Blob, password: string | undefined, options: BackupTaskOptions, progress: ProgressTracker): Promise<LoadedArchive> => {
+  let zipFile = file;
+  if (await isEncryptedArchive(file)) {
+    if (!password) throw new VaultError('locked', 'This backup is password protected.');
+    progress.stage('Decrypting', [], file.size);
+    zipFile = await decryptArchive(file, password, { signal: options.signal, onProgress: progress.bytes });
+  }
+
+  progress.stage('Reading archive');
+  let zip: ZipReader;
+  try {
+    zip = await openZip(zipFile);
+  } catch {
+    throw new ArchiveValidationError("This file is not a readable ZIP archive.");
+  }
+
+  const rawData = await readJSONFile(zip, DATA_FILE);
+  if (!rawData) throw new ArchiveValidationError("Invalid backup: missing journal_data.json");
+  const dataVersion = typeof rawData.version === 'number' ? rawData.version : 1;
+  const data = upgradeArchiveData(rawData);
+
+  const problems = [...validateArchiveEntries(data.entries), ...validateArchiveNotebooks(data.notebooks, data.entries, DEFAULT_NOTEBOOK_ID)];
+  const manifest: ArchiveManifest | undefined = await readJSONFile(zip, MANIFEST_FILE);
+  if (manifest) {
+    const manifestProblems = validateManifest(manifest, dataVersion, Array.isArray(data.entries) ? data.entries.length : 0);
+    problems.push(...manifestProblems);
+    if (manifestProblems.length === 0) problems.push(...await verifyArchiveBlobs(zip, manifest, options, progress));
+  } else if (dataVersion >= 2) {
+    problems.push("manifest.json is missing");
+  }
+
+  if (problems.length > 0) {
+    throw new ArchiveValidationError(`The archive failed validation with ${problems.length} problem${problems.length === 1 ? '' : 's'}. Nothing was imported.`, problems);
+  }
+
+  const mimeTypes = collectBlobMimeTypes(data.entries);
+  if (manifest) {
+    Object.entries(manifest.blobs).forEach(([id, info]) => { mimeTypes[id] = info.mimeType; });
+  }
+  return { zip, data, mimeTypes };
+};
+
+// Copies archive media into IndexedDB. With skipExisting, blobs already on this device are left alone.
+const restoreMedia = async (archive: LoadedArchive, skipExisting: boolean, options: BackupTaskOptions, progress: ProgressTracker): Promise<number> => {
+  const existing = skipExisting ? new Set(await getAllRecordKeys(MEDIA_STORE)) : new Set<IDBValidKey>();
+  // The file name below media/ is the blobId
+  const ids = Array.from(archive.zip.entries.keys())
+    .filter(name => name.startsWith('media/'))
+    .map(name => name.slice('media/'.length))
+    .filter(id => id && !id.includes('/') && !existing.has(id));
+
+  const sizes: Record<string, { mimeType: string, size: number }> = {};
+  ids.forEach(id => { sizes[id] = { mimeType: archive.mimeTypes[id] || '', size: archive.zip.entries.get(`media/${id}`)!.size }; });
+  progress.stage('Restoring media', pendingFiles(ids, sizes));
+
+  await forEachLimited(ids, MEDIA_CONCURRENCY, async id => {
+    progress.file(id, 'working');
+    const blob = await archive.zip.read(archive.zip.entries.get(`media/${id}`)!);
+    const type = archive.mimeTypes[id] || '';
+    await saveMediaBlob(id, type ? new Blob([blob], { type }) : blob);
+    progress.file(id, 'done');
+  }, options.signal);
+  return ids.length;
+};
+
+// Replaces the journal with the archive. Throws ArchiveValidationError if the archive is unusable.
+// Cancelling is possible until the media is restored; the entries are then replaced in one go.
+export const importFullBackup = async (zipFile: File, password?: string, options: BackupTaskOptions = {}): Promise<void> => {
+  const progress = createProgressTracker(options.onProgress);
+
+  // 1. Decrypt, read, upgrade and validate Data JSON
+  const archive = await readArchive(zipFile, password, options, progress);
+  const { data } = archive;
+
+  // 2. Restore Media to IndexedDB first, so entries never point at missing blobs
+  await restoreMedia(archive, false, options, progress);
+  options.signal?.throwIfAborted();
+
+  // 3. Restore Notebooks, Entries & Reports
+  progress.stage('Saving entries');
+  await replaceAllNotebooks(data.notebooks);
+  await replaceAllEntries(data.entries);
+  if (data.analysis) await savePatternAnalysis(data.analysis);
+  if (data.journeyReport) await saveLifeJourneyAnalysis(data.journeyReport);
+  if (data.dailyGuidance) await saveDailyGuidance(data.dailyGuidance);
+};
+
+// --- Merge Restore ---
+
+export type ConflictResolution = 'local' | 'incoming';
+
+export interface MergeConflict {
+  id: string;
+  local: JournalEntry;
+  incoming: JournalEntry;
+  resolution: ConflictResolution;
+}
+
+export interface BackupMergePlan {
+  archive: LoadedArchive;
+  added: JournalEntry[];
+  conflicts: MergeConflict[];
+  unchanged: number;
+}
+
+export interface MergeSummary {
+  added: number;
+  updated: number;
+  skipped: number;
+}
+
+// Reads an archive and works out what a merge would do, without writing anything.
+// Entries are matched by id; when both sides changed, the newer updatedAt wins by default.
+export const planBackupMerge = async (zipFile: File, password?: string, options: BackupTaskOptions = {}): Promise<BackupMergePlan> => {
+  const archive = await readArchive(zipFile, password, options, createProgressTracker(options.onProgress));
+  const incomingEntries: JournalEntry[] = archive.data.entries;
+  // Trashed entries count too, so a merge does not resurrect what the user deleted
+  const localById = new Map((await getStoredEntries()).map(e => [e.id, e] as const));
+
+  const added: JournalEntry[] = [];
+  const conflicts: MergeConflict[] = [];
+  let unchanged = 0;
+
+  incomingEntries.forEach(incoming => {
+    const local = localById.get(incoming.id);
+    if (!local) {
+      added.push(incoming);
+    } else if (local.deletedAt && !incoming.deletedAt) {
+      // Restoring it from the backup is the user's call; by default it stays in the trash
+      conflicts.push({ id: incoming.id, local, incoming, resolution: 'local' });
+    } else if (local.updatedAt === incoming.updatedAt) {
+      unchanged++;
+    } else {
+      const incomingIsNewer = new Date(incoming.updatedAt).getTime() > new Date(local.updatedAt).getTime();
+      conflicts.push({ id: incoming.id, local, incoming, resolution: incomingIsNewer ? 'incoming' : 'local' });
+    }
+  });
+
+  return { archive, added, conflicts, unchanged };
+};
+
+export const summarizeMergePlan = (plan: BackupMergePlan): MergeSummary => {
+  const updated = plan.conflicts.filter(c => c.resolution === 'incoming').length;
+  return {
+    added: plan.added.length,
+    updated,
+    skipped: plan.unchanged + plan.conflicts.length - updated
+  };
+};
+
+// Keeps whichever report was generated more recently
+const newerReport = <T extends { timestamp: string }>(local: T | null, incoming: T | null | undefined): T | null => {
+  if (!incoming) return null;
+  if (!local) return incoming;
+  return new Date(incoming.timestamp).getTime() > new Date(local.timestamp).getTime() ? incoming : null;
+};
+
+export const commitBackupMerge = async (plan: BackupMergePlan, options: BackupTaskOptions = {}): Promise<MergeSummary> => {
+  const progress = createProgressTracker(options.onProgress);
+
+  // 1. Media first, so no merged entry ever points at a blob that is not stored yet
+  await restoreMedia(plan.archive, true, options, progress);
+  options.signal?.throwIfAborted();
+  progress.stage('Saving entries');
+
+  // 2. Notebooks the merged entries may point at, then new and winning entries
+  await mergeNotebooks(plan.archive.data.notebooks);
+  const updates = plan.conflicts.filter(c => c.resolution === 'incoming').map(c => c.incoming);
+  await saveEntries([...plan.added, ...updates]);
+
+  // 3. Reports
+  const analysis = newerReport(await getPatternAnalysis(), plan.archive.data.analysis);
+  if (analysis) await savePatternAnalysis(analysis);
+  const journeyReport = newerReport(await getLifeJourneyAnalysis(), plan.archive.data.journeyReport);
+  if (journeyReport) await saveLifeJourneyAnalysis(journeyReport);
+  const dailyGuidance = newerReport(await getDailyGuidance(), plan.archive.data.dailyGuidance);
+  if (dailyGuidance) await saveDailyGuidance(dailyGuidance);
+
+  return summarizeMergePlan(plan);
+};
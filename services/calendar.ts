@@ -0,0 +1,403 @@
+import { JournalEntry, ScheduleBlock } from '../types';
+
+// --- Calendar (ICS) ---
+// Schedule blocks go out as iCalendar events so a planned day shows up in any calendar app, and
+// events come back in to pre-fill the Plan tab. Only what a schedule can hold is read: a start time,
+// a length and a title. Recurring events are expanded with the common RRULE parts (FREQ, INTERVAL,
+// COUNT, UNTIL, BYDAY, BYMONTHDAY) and EXDATE; anything more exotic is read as its first occurrence.
+
+// Blocks saved before durations existed were planned in 30 minute steps
+export const DEFAULT_BLOCK_MINUTES = 30;
+
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_DAY = 24 * 60 * MS_PER_MINUTE;
+// Upper bound when walking a recurring event forward to the requested day
+const MAX_RECURRENCE_DAYS = 366 * 50;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// The local calendar day of a date, as YYYY-MM-DD
+export const toLocalDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+const parseDateKey = (key: string): Date => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+// The day a block belongs to: its own date, or the day of the entry it was planned in
+export const blockDate = (block: ScheduleBlock, entry?: Pick<JournalEntry, 'createdAt'>): string =>
+  block.date || toLocalDateKey(entry ? new Date(entry.createdAt) : new Date());
+
+export const blockMinutes = (block: ScheduleBlock): number => block.durationMinutes || DEFAULT_BLOCK_MINUTES;
+
+// "08:00–09:30"; the end wraps past midnight rather than showing "25:00"
+export const formatBlockRange = (block: ScheduleBlock): string => {
+  const [hours, minutes] = block.time.split(':').map(Number);
+  if (isNaN(hours) || isNaN(minutes)) return block.time;
+  const end = (hours * 60 + minutes + blockMinutes(block)) % (24 * 60);
+  return `${block.time}–${pad(Math.floor(end / 60))}:${pad(end % 60)}`;
+};
+
+// The range when the block has a length, otherwise just its start time, as older blocks were saved
+export const formatBlockTime = (block: ScheduleBlock): string =>
+  block.durationMinutes ? formatBlockRange(block) : block.time;
+
+const blockStart = (block: ScheduleBlock, dateKey: string): Date => {
+  const start = parseDateKey(dateKey);
+  const [hours, minutes] = block.time.split(':').map(Number);
+  start.setHours(hours || 0, minutes || 0, 0, 0);
+  return start;
+};
+
+// --- Export ---
+
+export interface DatedScheduleBlock extends ScheduleBlock {
+  date: string;
+}
+
+// Every block of the given entries that falls within [from, to] (YYYY-MM-DD, inclusive), oldest first
+export const scheduleBlocksInRange = (entries: JournalEntry[], from: string, to: string): DatedScheduleBlock[] =>
+  entries
+    .flatMap(entry => (entry.schedule || []).map(block => ({ ...block, date: blockDate(block, entry) })))
+    .filter(block => block.date >= from && block.date <= to)
+    .sort((a, b) => a.date.localeCompare(b.date) || a.time.localeCompare(b.time));
+
+const formatUtc = (date: Date): string =>
+  date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const escapeText = (text: string): string =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 octets are folded onto continuation lines that start with a space (RFC 5545 3.1)
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const char of line) {
+    const charSize = encoder.encode(char).length;
+    if (size + charSize > 75) {
+      parts.push(current);
+      current = ' ';
+      size = 1;
+    }
+    current += char;
+    size += charSize;
+  }
+  parts.push(current);
+  return parts.join('\r\n');
+};
+
+// Times are written in UTC so every calendar app places them at the same moment they were planned
+export const buildScheduleIcs = (blocks: DatedScheduleBlock[]): string => {
+  const stamp = formatUtc(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Lumina//Journal Schedule//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH'
+  ];
+  blocks.forEach(block => {
+    const start = blockStart(block, block.date);
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${block.id}@lumina`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatUtc(start)}`,
+      `DTEND:${formatUtc(new Date(start.getTime() + blockMinutes(block) * MS_PER_MINUTE))}`,
+      `SUMMARY:${escapeText(block.activity)}`,
+      'END:VEVENT'
+    );
+  });
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+export const scheduleIcsBlob = (blocks: DatedScheduleBlock[]): Blob =>
+  new Blob([buildScheduleIcs(blocks)], { type: 'text/calendar;charset=utf-8' });
+
+// --- Import ---
+
+export interface CalendarEvent {
+  uid: string;
+  summary: string;
+  start: Date;
+  durationMinutes: number;
+  allDay: boolean;
+  rrule?: Record<string, string>;
+  exdates: string[]; // Local days (YYYY-MM-DD) removed from the recurrence
+  recurrenceId?: string; // Local day of the occurrence this event replaces
+}
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+// Splits "NAME;PARAM=a;PARAM=\"b:c\":value" at the first colon outside quotes
+const parseProperty = (line: string): IcsProperty | null => {
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    else if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+  const [name, ...rawParams] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  rawParams.forEach(param => {
+    const eq = param.indexOf('=');
+    if (eq > 0) params[param.slice(0, eq).toUpperCase()] = param.slice(eq + 1).replace(/^"|"$/g, '');
+  });
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+};
+
+const unescapeText = (text: string): string =>
+  text.replace(/\\([\\;,nN])/g, (_, c: string) => (c === 'n' || c === 'N' ? '\n' : c));
+
+// Offset of a time zone from UTC at the given moment, in milliseconds
+const zoneOffset = (utcMs: number, timeZone: string): number => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone, hourCycle: 'h23', year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric', second: 'numeric'
+  }).formatToParts(new Date(utcMs));
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  return Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second')) - utcMs;
+};
+
+// Reads DATE ("20250304"), floating or zoned local time ("20250304T080000") and UTC ("...Z") values.
+// Zones the browser does not know (Windows names, for example) fall back to local time.
+const parseIcsDate = (value: string, tzid?: string): { date: Date, allDay: boolean } | null => {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+  const [, y, mo, d, h, mi, s, utc] = match;
+  if (h === undefined) return { date: new Date(+y, +mo - 1, +d), allDay: true };
+  const fields: [number, number, number, number, number, number] = [+y, +mo - 1, +d, +h, +mi, +(s || 0)];
+  if (utc) return { date: new Date(Date.UTC(...fields)), allDay: false };
+  if (tzid) {
+    try {
+      const wallClock = Date.UTC(...fields);
+      // Two passes settle the offset when the wall-clock time is near a daylight saving change
+      let utcMs = wallClock - zoneOffset(wallClock, tzid);
+      utcMs = wallClock - zoneOffset(utcMs, tzid);
+      return { date: new Date(utcMs), allDay: false };
+    } catch {
+      // Unknown time zone
+    }
+  }
+  return { date: new Date(...fields), allDay: false };
+};
+
+// "PT1H30M", "P1D", "-PT15M"; weeks and days count as whole days
+const parseDuration = (value: string): number | null => {
+  const match = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+  const [, sign, w, d, h, m, s] = match;
+  const minutes = (+(w || 0) * 7 + +(d || 0)) * 24 * 60 + +(h || 0) * 60 + +(m || 0) + Math.floor(+(s || 0) / 60);
+  return sign === '-' ? -minutes : minutes;
+};
+
+export class CalendarFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CalendarFormatError';
+  }
+}
+
+export const parseIcs = (text: string): CalendarEvent[] => {
+  // Unfold continuation lines first (RFC 5545 3.1)
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  if (!lines.some(line => line.trim().toUpperCase() === 'BEGIN:VCALENDAR')) {
+    throw new CalendarFormatError("This file is not an iCalendar (.ics) file.");
+  }
+
+  const events: CalendarEvent[] = [];
+  let current: IcsProperty[] | null = null;
+  // Alarms and other components nested in an event have properties of their own that must be skipped
+  let nestedDepth = 0;
+
+  for (const line of lines) {
+    const property = parseProperty(line);
+    if (!property) continue;
+    const value = property.value.trim().toUpperCase();
+
+    if (property.name === 'BEGIN') {
+      if (value === 'VEVENT' && !current) current = [];
+      else if (current) nestedDepth++;
+      continue;
+    }
+    if (property.name === 'END') {
+      if (current && nestedDepth > 0) nestedDepth--;
+      else if (current && value === 'VEVENT') {
+        const event = toCalendarEvent(current);
+        if (event) events.push(event);
+        current = null;
+      }
+      continue;
+    }
+    if (current && nestedDepth === 0) current.push(property);
+  }
+  return events;
+};
+
+const toCalendarEvent = (properties: IcsProperty[]): CalendarEvent | null => {
+  const find = (name: string) => properties.find(p => p.name === name);
+  const status = find('STATUS')?.value.trim().toUpperCase();
+  if (status === 'CANCELLED') return null;
+
+  const dtstart = find('DTSTART');
+  const start = dtstart && parseIcsDate(dtstart.value, dtstart.params.TZID);
+  if (!start) return null;
+
+  let durationMinutes: number | null = null;
+  const dtend = find('DTEND');
+  const end = dtend && parseIcsDate(dtend.value, dtend.params.TZID);
+  if (end) durationMinutes = Math.round((end.date.getTime() - start.date.getTime()) / MS_PER_MINUTE);
+  else if (find('DURATION')) durationMinutes = parseDuration(find('DURATION')!.value);
+  if (durationMinutes === null || durationMinutes <= 0) durationMinutes = start.allDay ? 24 * 60 : DEFAULT_BLOCK_MINUTES;
+
+  const rruleValue = find('RRULE')?.value;
+  const rrule = rruleValue ? Object.fromEntries(rruleValue.split(';').map(part => {
+    const [key, ...rest] = part.split('=');
+    return [key.trim().toUpperCase(), rest.join('=').trim().toUpperCase()];
+  })) : undefined;
+
+  const exdates = properties
+    .filter(p => p.name === 'EXDATE')
+    .flatMap(p => p.value.split(',').map(v => parseIcsDate(v, p.params.TZID)))
+    .filter((d): d is { date: Date, allDay: boolean } => !!d)
+    .map(d => toLocalDateKey(d.date));
+
+  const recurrence = find('RECURRENCE-ID');
+  const recurrenceDate = recurrence && parseIcsDate(recurrence.value, recurrence.params.TZID);
+
+  return {
+    uid: find('UID')?.value.trim() || `${dtstart!.value}-${find('SUMMARY')?.value || ''}`,
+    summary: unescapeText(find('SUMMARY')?.value || '').trim(),
+    start: start.date,
+    durationMinutes,
+    allDay: start.allDay,
+    rrule,
+    exdates,
+    recurrenceId: recurrenceDate ? toLocalDateKey(recurrenceDate.date) : undefined
+  };
+};
+
+// --- Recurrence ---
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const daysBetween = (a: Date, b: Date): number =>
+  Math.round((Date.UTC(b.getFullYear(), b.getMonth(), b.getDate()) - Date.UTC(a.getFullYear(), a.getMonth(), a.getDate())) / MS_PER_DAY);
+
+// BYDAY entries like "TU" or, for monthly and yearly rules, "2TU" (second Tuesday) and "-1FR" (last Friday)
+const matchesByDay = (day: Date, byDay: string): boolean => byDay.split(',').some(token => {
+  const match = token.match(/^([+-]?\d+)?([A-Z]{2})$/);
+  if (!match || WEEKDAYS.indexOf(match[2]) !== day.getDay()) return false;
+  if (!match[1]) return true;
+  const nth = Number(match[1]);
+  const daysInMonth = new Date(day.getFullYear(), day.getMonth() + 1, 0).getDate();
+  return nth > 0
+    ? Math.ceil(day.getDate() / 7) === nth
+    : Math.ceil((daysInMonth - day.getDate() + 1) / 7) === -nth;
+});
+
+const matchesRule = (rule: Record<string, string>, start: Date, day: Date): boolean => {
+  const interval = Math.max(1, Number(rule.INTERVAL) || 1);
+  const days = daysBetween(start, day);
+  const months = (day.getFullYear() - start.getFullYear()) * 12 + day.getMonth() - start.getMonth();
+  const byMonthDay = rule.BYMONTHDAY?.split(',').map(Number);
+  const matchesMonthDay = () => byMonthDay
+    ? byMonthDay.some(n => n === day.getDate() || (n < 0 && new Date(day.getFullYear(), day.getMonth() + 1, n + 1).getDate() === day.getDate()))
+    : rule.BYDAY ? matchesByDay(day, rule.BYDAY) : day.getDate() === start.getDate();
+
+  switch (rule.FREQ) {
+    case 'DAILY':
+      return days % interval === 0 && (!rule.BYDAY || matchesByDay(day, rule.BYDAY));
+    case 'WEEKLY': {
+      // Weeks start on Monday unless the rule says otherwise
+      const weekStart = WEEKDAYS.indexOf(rule.WKST || 'MO');
+      const offset = (start.getDay() - weekStart + 7) % 7;
+      const weeks = Math.floor((days + offset) / 7);
+      const byDay = rule.BYDAY || WEEKDAYS[start.getDay()];
+      return weeks % interval === 0 && matchesByDay(day, byDay.replace(/[+-]?\d+/g, ''));
+    }
+    case 'MONTHLY':
+      return months % interval === 0 && matchesMonthDay();
+    case 'YEARLY':
+      return months % (12 * interval) === 0 && matchesMonthDay();
+    default:
+      return days === 0;
+  }
+};
+
+// When the event happens on the given local day, its start time that day; otherwise null
+const occurrenceOn = (event: CalendarEvent, dayKey: string): Date | null => {
+  const day = parseDateKey(dayKey);
+  const startDay = new Date(event.start.getFullYear(), event.start.getMonth(), event.start.getDate());
+  const atStartTime = (d: Date) =>
+    new Date(d.getFullYear(), d.getMonth(), d.getDate(), event.start.getHours(), event.start.getMinutes());
+
+  if (!event.rrule) return toLocalDateKey(event.start) === dayKey ? event.start : null;
+
+  const target = daysBetween(startDay, day);
+  if (target < 0 || target > MAX_RECURRENCE_DAYS || event.exdates.includes(dayKey)) return null;
+  const until = event.rrule.UNTIL ? parseIcsDate(event.rrule.UNTIL)?.date : undefined;
+  const count = event.rrule.COUNT ? Number(event.rrule.COUNT) : undefined;
+
+  if (count === undefined) {
+    const occurrence = atStartTime(day);
+    if (!matchesRule(event.rrule, startDay, day)) return null;
+    return until && occurrence > until && toLocalDateKey(until) !== dayKey ? null : occurrence;
+  }
+
+  // COUNT limits how many occurrences there are, so the ones before the target day must be counted
+  let seen = 0;
+  for (let i = 0; i <= target && seen < count; i++) {
+    const candidate = new Date(startDay.getFullYear(), startDay.getMonth(), startDay.getDate() + i);
+    if (until && candidate > until) return null;
+    if (i === 0 || matchesRule(event.rrule, startDay, candidate)) {
+      seen++;
+      if (i === target) return atStartTime(candidate);
+    }
+  }
+  return null;
+};
+
+export interface DayImport {
+  blocks: ScheduleBlock[];
+  allDayCount: number; // All-day events have no time slot, so they are left out
+}
+
+// The timed events of one local day as schedule blocks, sorted by time. Block ids are derived from
+// the event, so importing the same calendar twice does not duplicate anything.
+export const scheduleBlocksForDay = (events: CalendarEvent[], dayKey: string): DayImport => {
+  // Edited occurrences of a recurring event replace the original occurrence on that day
+  const replaced = new Set(events.filter(e => e.recurrenceId).map(e => `${e.uid}|${e.recurrenceId}`));
+  const blocks: ScheduleBlock[] = [];
+  let allDayCount = 0;
+
+  events.forEach(event => {
+    if (!event.recurrenceId && replaced.has(`${event.uid}|${dayKey}`)) return;
+    const start = occurrenceOn(event.recurrenceId ? { ...event, rrule: undefined } : event, dayKey);
+    if (!start) return;
+    if (event.allDay) {
+      allDayCount++;
+      return;
+    }
+    blocks.push({
+      id: `ics-${event.uid}-${dayKey}`,
+      time: `${pad(start.getHours())}:${pad(start.getMinutes())}`,
+      activity: event.summary || 'Untitled event',
+      durationMinutes: event.durationMinutes,
+      date: dayKey
+    });
+  });
+
+  return { blocks: blocks.sort((a, b) => a.time.localeCompare(b.time)), allDayCount };
+};
@@ -1,7 +1,113 @@
+import { sealBlob, openBlob, isSealed } from './vault';
 
 const DB_NAME = 'LuminaMediaDB';
-const STORE_NAME = 'media';
-const DB_VERSION = 1;
+export const MEDIA_STORE = 'media';
+export const ENTRIES_STORE = 'entries';
+export const REPORTS_STORE = 'reports';
+export const DRAFTS_STORE = 'drafts';
+export const REVISIONS_STORE = 'revisions';
+export const NOTEBOOKS_STORE = 'notebooks';
+export const HANDLES_STORE = 'handles';
+const DB_VERSION = 5;
+
+// Keys used before journal data moved into IndexedDB (schema v2)
+const LEGACY_ENTRIES_KEY = 'lumina_journal_entries';
+const LEGACY_REPORT_KEYS: Record<string, string> = {
+  lumina_pattern_analysis: 'patternAnalysis',
+  lumina_journey_report: 'journeyReport',
+  lumina_daily_guidance: 'dailyGuidance'
+};
+const LEGACY_DRAFT_KEY = 'lumina_current_draft';
+
+type Migration = (db: IDBDatabase, transaction: IDBTransaction, migratedKeys: string[]) => void;
+
+const readLegacyJSON = (key: string): any => {
+  const data = localStorage.getItem(key);
+  if (!data) return null;
+  try {
+    return JSON.parse(data);
+  } catch (e) {
+    console.error(`Skipping unreadable legacy data in ${key}`, e);
+    return null;
+  }
+};
+
+// MIGRATIONS[n] upgrades the database from version n to version n + 1.
+// Never edit a shipped migration; append a new one and bump DB_VERSION.
+const MIGRATIONS: Migration[] = [
+  // v0 -> v1: media blobs
+  (db) => {
+    if (!db.objectStoreNames.contains(MEDIA_STORE)) {
+      db.createObjectStore(MEDIA_STORE);
+    }
+  },
+  // v1 -> v2: entries, reports and drafts move out of localStorage
+  (db, transaction, migratedKeys) => {
+    const entryStore = db.createObjectStore(ENTRIES_STORE, { keyPath: 'id' });
+    entryStore.createIndex('createdAt', 'createdAt');
+    entryStore.createIndex('updatedAt', 'updatedAt');
+    const reportStore = db.createObjectStore(REPORTS_STORE);
+    const draftStore = db.createObjectStore(DRAFTS_STORE);
+
+    // Copy legacy data inside the upgrade transaction so it either lands completely or not at all
+    const entries = readLegacyJSON(LEGACY_ENTRIES_KEY);
+    if (Array.isArray(entries)) {
+      entries.forEach(entry => entryStore.put(entry));
+      migratedKeys.push(LEGACY_ENTRIES_KEY);
+    }
+
+    Object.entries(LEGACY_REPORT_KEYS).forEach(([legacyKey, reportKey]) => {
+      const report = readLegacyJSON(legacyKey);
+      if (report) {
+        reportStore.put(report, reportKey);
+        migratedKeys.push(legacyKey);
+      }
+    });
+
+    const draft = readLegacyJSON(LEGACY_DRAFT_KEY);
+    if (draft) {
+      draftStore.put(draft, 'current');
+      migratedKeys.push(LEGACY_DRAFT_KEY);
+    }
+  },
+  // v2 -> v3: entry revision history
+  (db) => {
+    const revisionStore = db.createObjectStore(REVISIONS_STORE, { keyPath: 'id' });
+    revisionStore.createIndex('entryId', 'entryId');
+  },
+  // v3 -> v4: notebooks
+  (db) => {
+    db.createObjectStore(NOTEBOOKS_STORE, { keyPath: 'id' });
+  },
+  // v4 -> v5: file system handles granted by the user (never sealed; they hold no journal data)
+  (db) => {
+    db.createObjectStore(HANDLES_STORE);
+  }
+];
+
+// --- Connection Status ---
+// 'blocked': an upgrade is waiting for another tab, still on an older version, to close.
+// 'outdated': another tab upgraded the database, so this one has to be reloaded.
+export type DatabaseStatus = 'ready' | 'blocked' | 'outdated';
+
+type DatabaseStatusListener = (status: DatabaseStatus) => void;
+
+let databaseStatus: DatabaseStatus = 'ready';
+const statusListeners = new Set<DatabaseStatusListener>();
+
+const setDatabaseStatus = (status: DatabaseStatus) => {
+  databaseStatus = status;
+  statusListeners.forEach(listener => listener(status));
+};
+
+export const getDatabaseStatus = (): DatabaseStatus => databaseStatus;
+
+export const subscribeToDatabaseStatus = (listener: DatabaseStatusListener): (() => void) => {
+  statusListeners.add(listener);
+  return () => {
+    statusListeners.delete(listener);
+  };
+};
 
 let dbPromise: Promise<IDBDatabase> | null = null;
 
@@ -9,28 +115,169 @@ const getDB = (): Promise<IDBDatabase> => {
   if (!dbPromise) {
     dbPromise = new Promise((resolve, reject) => {
       const request = indexedDB.open(DB_NAME, DB_VERSION);
-      
-      request.onupgradeneeded = (event: any) => {
-        const db = event.target.result;
-        if (!db.objectStoreNames.contains(STORE_NAME)) {
-          db.createObjectStore(STORE_NAME);
+
+      // The open stays pending until the other tab lets go; it succeeds on its own once it does
+      request.onblocked = () => setDatabaseStatus('blocked');
+
+      request.onupgradeneeded = (event: IDBVersionChangeEvent) => {
+        const db = request.result;
+        const transaction = request.transaction!;
+        const migratedKeys: string[] = [];
+
+        for (let version = event.oldVersion; version < DB_VERSION; version++) {
+          MIGRATIONS[version](db, transaction, migratedKeys);
         }
+
+        // Only drop the localStorage copies once the upgrade has committed
+        transaction.oncomplete = () => {
+          migratedKeys.forEach(key => localStorage.removeItem(key));
+        };
       };
 
-      request.onsuccess = (event: any) => resolve(event.target.result);
-      request.onerror = (event: any) => reject(event.target.error);
+      request.onsuccess = (event: any) => {
+        const db: IDBDatabase = event.target.result;
+        // Let a newer version in another tab upgrade instead of blocking it; this tab's code
+        // no longer matches the schema, so it asks to be reloaded
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+          setDatabaseStatus('outdated');
+        };
+        if (databaseStatus === 'blocked') setDatabaseStatus('ready');
+        resolve(db);
+      };
+      request.onerror = (event: any) => {
+        dbPromise = null;
+        reject(event.target.error);
+      };
     });
   }
   return dbPromise;
 };
 
+// --- Generic Record Helpers ---
+
+export const getAllRecords = async <T>(storeName: string, indexName?: string): Promise<T[]> => {
+  const db = await getDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readonly');
+    const store = transaction.objectStore(storeName);
+    const request = indexName ? store.index(indexName).getAll() : store.getAll();
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const getRecordsByIndex = async <T>(storeName: string, indexName: string, key: IDBValidKey): Promise<T[]> => {
+  const db = await getDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readonly');
+    const store = transaction.objectStore(storeName);
+    const request = store.index(indexName).getAll(key);
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const getAllRecordKeys = async (storeName: string): Promise<IDBValidKey[]> => {
+  const db = await getDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readonly');
+    const store = transaction.objectStore(storeName);
+    const request = store.getAllKeys();
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const getRecord = async <T>(storeName: string, key: IDBValidKey): Promise<T | null> => {
+  const db = await getDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readonly');
+    const store = transaction.objectStore(storeName);
+    const request = store.get(key);
+
+    request.onsuccess = () => resolve(request.result ?? null);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const putRecord = async (storeName: string, value: any, key?: IDBValidKey): Promise<void> => {
+  const db = await getDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readwrite');
+    const store = transaction.objectStore(storeName);
+    store.put(value, key);
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const deleteRecord = async (storeName: string, key: IDBValidKey): Promise<void> => {
+  const db = await getDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readwrite');
+    const store = transaction.objectStore(storeName);
+    store.delete(key);
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const deleteRecords = async (storeName: string, keys: IDBValidKey[]): Promise<void> => {
+  const db = await getDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readwrite');
+    const store = transaction.objectStore(storeName);
+    keys.forEach(key => store.delete(key));
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const putRecords = async (storeName: string, values: any[]): Promise<void> => {
+  const db = await getDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readwrite');
+    const store = transaction.objectStore(storeName);
+    values.forEach(value => store.put(value));
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// Clears the store and writes all values in a single transaction
+export const replaceAllRecords = async (storeName: string, values: any[]): Promise<void> => {
+  const db = await getDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readwrite');
+    const store = transaction.objectStore(storeName);
+    store.clear();
+    values.forEach(value => store.put(value));
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// --- Media Blobs ---
+
+// Media is encrypted transparently when vault mode is on
 export const saveMediaBlob = async (id: string, blob: Blob): Promise<void> => {
+  const value = await sealBlob(blob);
   const db = await getDB();
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction(STORE_NAME, 'readwrite');
-    const store = transaction.objectStore(STORE_NAME);
-    const request = store.put(blob, id);
-    
+    const transaction = db.transaction(MEDIA_STORE, 'readwrite');
+    const store = transaction.objectStore(MEDIA_STORE);
+    const request = store.put(value, id);
+
     request.onsuccess = () => resolve();
     request.onerror = () => reject(request.error);
   });
@@ -38,28 +285,55 @@ export const saveMediaBlob = async (id: string, blob: Blob): Promise<void> => {
 
 export const getMediaBlob = async (id: string): Promise<Blob | null> => {
   const db = await getDB();
-  return new Promise((resolve, reject) => {
-    const transaction = db.transaction(STORE_NAME, 'readonly');
-    const store = transaction.objectStore(STORE_NAME);
+  const stored = await new Promise<any>((resolve, reject) => {
+    const transaction = db.transaction(MEDIA_STORE, 'readonly');
+    const store = transaction.objectStore(MEDIA_STORE);
     const request = store.get(id);
-    
+
     request.onsuccess = () => resolve(request.result);
     request.onerror = () => reject(request.error);
   });
+  return openBlob(stored);
 };
 
 export const deleteMediaBlob = async (id: string): Promise<void> => {
   const db = await getDB();
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction(STORE_NAME, 'readwrite');
-    const store = transaction.objectStore(STORE_NAME);
+    const transaction = db.transaction(MEDIA_STORE, 'readwrite');
+    const store = transaction.objectStore(MEDIA_STORE);
     const request = store.delete(id);
-    
+
     request.onsuccess = () => resolve();
     request.onerror = () => reject(request.error);
   });
 };
 
+export interface StoredBlobInfo {
+  size: number;
+  mimeType: string;
+}
+
+// Walks the media store with a cursor so only one blob is touched at a time
+export const getMediaBlobInfo = async (): Promise<Record<string, StoredBlobInfo>> => {
+  const db = await getDB();
+  return new Promise((resolve, reject) => {
+    const info: Record<string, StoredBlobInfo> = {};
+    const transaction = db.transaction(MEDIA_STORE, 'readonly');
+    const request = transaction.objectStore(MEDIA_STORE).openCursor();
+
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return resolve(info);
+      const value = cursor.value;
+      info[String(cursor.key)] = isSealed(value)
+        ? { size: value.data.byteLength, mimeType: value.mimeType || '' }
+        : { size: value?.size ?? 0, mimeType: value?.type ?? '' };
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
 export const blobToBase64 = (blob: Blob): Promise<string> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
@@ -0,0 +1,92 @@
+// --- Word-Level Text Diff ---
+
+export type DiffPartType = 'equal' | 'added' | 'removed';
+
+export interface DiffPart {
+  type: DiffPartType;
+  text: string;
+}
+
+// Above this many LCS cells the changed middle is shown as one replacement instead
+const MAX_LCS_CELLS = 2_000_000;
+
+// Words and the whitespace between them, so joining the tokens gives back the original text
+const tokenize = (text: string): string[] => text.match(/\s+|[^\s]+/g) || [];
+
+const pushPart = (parts: DiffPart[], type: DiffPartType, text: string) => {
+  if (!text) return;
+  const last = parts[parts.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    parts.push({ type, text });
+  }
+};
+
+const diffTokens = (before: string[], after: string[], parts: DiffPart[]) => {
+  const n = before.length;
+  const m = after.length;
+  if ((n + 1) * (m + 1) > MAX_LCS_CELLS) {
+    pushPart(parts, 'removed', before.join(''));
+    pushPart(parts, 'added', after.join(''));
+    return;
+  }
+
+  // lcs[i * (m + 1) + j] = length of the longest common subsequence of before[i..] and after[j..]
+  const width = m + 1;
+  const lcs = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * width + j] = before[i] === after[j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (before[i] === after[j]) {
+      pushPart(parts, 'equal', before[i]);
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      pushPart(parts, 'removed', before[i++]);
+    } else {
+      pushPart(parts, 'added', after[j++]);
+    }
+  }
+  while (i < n) pushPart(parts, 'removed', before[i++]);
+  while (j < m) pushPart(parts, 'added', after[j++]);
+};
+
+// Returns the changes that turn `before` into `after`, merged into runs of the same type
+export const diffWords = (before: string, after: string): DiffPart[] => {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  // Edits are usually local, so trimming the shared start and end keeps the LCS table small
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const parts: DiffPart[] = [];
+  pushPart(parts, 'equal', a.slice(0, start).join(''));
+  diffTokens(a.slice(start, endA), b.slice(start, endB), parts);
+  pushPart(parts, 'equal', a.slice(endA).join(''));
+  return parts;
+};
+
+export const countChangedWords = (parts: DiffPart[]): { added: number, removed: number } => {
+  const count = (text: string) => tokenize(text).filter(t => t.trim()).length;
+  return parts.reduce((acc, part) => {
+    if (part.type === 'added') acc.added += count(part.text);
+    if (part.type === 'removed') acc.removed += count(part.text);
+    return acc;
+  }, { added: 0, removed: 0 });
+};
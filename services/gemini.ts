@@ -1,337 +1,163 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { JournalEntry, PatternAnalysis, LifeJourneyAnalysis, DailyGuidance } from "../types";
-
-const getClient = () => {
-    const apiKey = process.env.API_KEY || '';
-    return new GoogleGenAI({ apiKey });
-};
-
-const ANALYZE_SYSTEM_PROMPT = `
-You are an empathetic and intelligent journaling assistant. 
-Your goal is to analyze journal entries to provide structured emotional data.
-
-1. Extract 3-5 specific keywords. **CRITICAL:** Focus strictly on achievements, wins, positive traits, strengths, or moments of gratitude found in the text. (e.g., 'Completed Project', 'Showed Patience', 'Self-Care'). If the entry is difficult, find the strength in it (e.g., 'Resilience', 'Courage').
-2. Determine a 'moodScore' (1-10).
-3. Select a 'moodEmoji' that creatively represents the specific vibe (e.g., 🚀, 🌿, ⛈️, 🍷).
-4. Pick a 'moodColor' (Hex code) that fits the emotion (e.g. #FFD700 for happy, #708090 for sad).
-Always respond in JSON.
-`;
-
-const PATTERN_SYSTEM_PROMPT = `
-You are a psychological pattern recognition expert. 
-Analyze a set of journal entries to find deep, recurring themes, hidden habits, and provide actionable advice.
-Always respond in JSON.
-`;
-
-const JOURNEY_SYSTEM_PROMPT = `
-You are a compassionate life coach and psychological analyst known for positivity and reframing.
-Analyze the user's journal entries to extract specific life data and create a personality optimization profile.
-
-CRITICAL INSTRUCTION FOR NEGATIVES:
-Do NOT explicitely list 'Negatives' as bad things. 
-The 'negatives' array in the schema should be populated with "Challenges identified" but phrased neutrally.
-However, for the 'motivationalBlock', you MUST reframe them completely into inspiring goals.
-For example: 'Anxiety' -> 'Mastering Inner Calm'. 'Lazy' -> 'Restoring Energy for Action'.
-
-EXTRACT:
-- 'actsOfKindness': When they helped others or showed empathy.
-- 'confidenceMoments': When they felt strong or proud.
-- 'futurePlans': Specific things they said they want to do, fix, or achieve.
-
-The 'resilienceNarrative' should be a powerful, 2-3 sentence story that acknowledges their hard times but frames them as a 'training arc' or a necessary step to greatness. 
-
-Always respond in JSON.
-`;
-
-export const analyzeEntryWithGemini = async (text: string): Promise<Partial<JournalEntry>> => {
-  try {
-    const ai = getClient();
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: `Analyze this journal entry: "${text}"`,
-      config: {
-        systemInstruction: ANALYZE_SYSTEM_PROMPT,
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            moodScore: { type: Type.NUMBER, description: "Rating from 1 (terrible) to 10 (amazing)" },
-            moodLabel: { type: Type.STRING, description: "A one or two word emotion descriptor e.g. 'Hopeful', 'Anxious'" },
-            moodEmoji: { type: Type.STRING, description: "A single emoji representing the entry" },
-            moodColor: { type: Type.STRING, description: "A hex color code representing the entry" },
-            keywords: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Top 3-5 keywords focusing on achievements, strengths, and positives" },
-            summary: { type: Type.STRING, description: "A one sentence summary of the entry" },
-            reflectionQuestion: { type: Type.STRING, description: "A deep, thought-provoking question based on the entry" }
-          },
-          required: ["moodScore", "moodLabel", "moodEmoji", "moodColor", "keywords", "summary", "reflectionQuestion"]
-        }
+import { ApiError, GenerateContentResponse, GoogleGenAI, Schema, Type } from "@google/genai";
+import type { AIProvider, AISettings, JsonSchema, JsonTask } from "./aiProvider";
+import { createJournalTasks, TRANSCRIPTION_PROMPT } from "./aiPrompts";
+import { AIError, AIAuthError, AIOfflineError, AIQuotaError, AIResponseError, AISafetyError, AIServiceError } from "./aiErrors";
+import { createRateLimiter, errorForStatus, runAIRequest } from "./aiRequest";
+
+// --- Google Gemini Provider ---
+
+const VIDEO_MODEL = 'veo-3.1-fast-generate-preview';
+const LABEL = 'Google Gemini';
+
+// The free tier allows about 10 requests a minute; shared by every provider instance
+const limiter = createRateLimiter(10);
+
+// Gemini answers a bad key with 400 INVALID_ARGUMENT and a used-up quota with 429, like a rate limit
+const toGeminiError = (error: unknown): unknown => {
+  if (error instanceof AIError) return error;
+  if (error instanceof ApiError) {
+    if (/API_KEY_INVALID|API key not valid/i.test(error.message)) {
+      return new AIAuthError(`${LABEL} did not accept the API key. Check it in Settings.`);
+    }
+    if (error.status === 429) {
+      // The details include how long to wait, as "retryDelay": "38s"
+      const delay = error.message.match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/);
+      if (/per ?day|PerDay/i.test(error.message)) {
+        return new AIQuotaError(`Today's ${LABEL} quota is used up. Try again tomorrow, or use your own API key in Settings.`, undefined, true);
       }
-    });
-
-    const result = JSON.parse(response.text || "{}");
-    return result;
-  } catch (error) {
-    console.error("Gemini Analysis Error:", error);
-    throw error;
+      return new AIQuotaError(`${LABEL} is receiving too many requests. Wait a minute and try again.`, delay ? Number(delay[1]) * 1000 : undefined);
+    }
+    return errorForStatus(error.status, LABEL);
   }
+  // fetch rejects with a TypeError when the request never got an answer
+  if (error instanceof TypeError) return new AIOfflineError(`Could not reach ${LABEL}. Check your internet connection.`);
+  return error;
 };
 
-export const detectPatterns = async (entries: JournalEntry[]): Promise<PatternAnalysis> => {
-  const ai = getClient();
-  const recentContext = entries.slice(0, 20).map(e => `[${e.createdAt.split('T')[0]}]: ${e.content}`).join("\n\n");
-
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: `Here are the recent journal entries:\n\n${recentContext}\n\nIdentify the patterns.`,
-      config: {
-        systemInstruction: PATTERN_SYSTEM_PROMPT,
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            recurringThemes: { type: Type.ARRAY, items: { type: Type.STRING }, description: "3 recurring themes found in the text" },
-            habitInsight: { type: Type.STRING, description: "An observation about a habit (good or bad)" },
-            improvementSuggestion: { type: Type.STRING, description: "A specific, actionable piece of advice" },
-            overallVibe: { type: Type.STRING, description: "The general emotional atmosphere of recent days" }
-          },
-          required: ["recurringThemes", "habitInsight", "improvementSuggestion", "overallVibe"]
-        }
-      }
-    });
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY', 'IMAGE_PROHIBITED_CONTENT'];
 
-    const result = JSON.parse(response.text || "{}");
-    return {
-      timestamp: new Date().toISOString(),
-      ...result
-    };
-  } catch (error) {
-    console.error("Gemini Pattern Error:", error);
-    throw error;
+// A blocked prompt or answer comes back as a normal response without content
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (response.promptFeedback?.blockReason || (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason))) {
+    throw new AISafetyError(`${LABEL} declined to respond because of its safety filters. Rewording the entry may help.`);
   }
 };
 
-export const generateLifeJourneyAnalysis = async (entries: JournalEntry[]): Promise<LifeJourneyAnalysis> => {
-  const ai = getClient();
-  // Limit context to recent 50 entries to stay within tokens but capture enough history
-  const textContext = entries
-    .slice(0, 50)
-    .map(e => `[${e.createdAt.split('T')[0]}]: ${e.content}`)
-    .join("\n\n");
-
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: `Analyze these entries:\n\n${textContext}\n\n
-      Extract the following lists (max 5 items each, concise):
-      1. Positives
-      2. Challenges (Populate 'negatives' field with these)
-      3. Achievements
-      4. Confidence Times (When user felt confident)
-      5. Acts of Kindness (Helping others)
-      6. Future Plans (What they plan to fix or do)
-      7. Best Moments
-
-      Create a "personalityProfile".
-      
-      Create a "motivationalBlock":
-      - resilienceScore (0-100)
-      - positivityIndex (0-100)
-      - powerQuote (A quote that fits their situation)
-      - resilienceNarrative (Encouraging story reframing their struggles)
-      - growthFocus (Top 3 challenges renamed as positive goals)
-      `,
-      config: {
-        systemInstruction: JOURNEY_SYSTEM_PROMPT,
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            positives: { type: Type.ARRAY, items: { type: Type.STRING } },
-            negatives: { type: Type.ARRAY, items: { type: Type.STRING } },
-            achievements: { type: Type.ARRAY, items: { type: Type.STRING } },
-            confidenceMoments: { type: Type.ARRAY, items: { type: Type.STRING } },
-            actsOfKindness: { type: Type.ARRAY, items: { type: Type.STRING } },
-            futurePlans: { type: Type.ARRAY, items: { type: Type.STRING } },
-            bestMoments: { type: Type.ARRAY, items: { type: Type.STRING } },
-            personalityProfile: {
-              type: Type.OBJECT,
-              properties: {
-                archetype: { type: Type.STRING },
-                traits: { type: Type.ARRAY, items: { type: Type.STRING } },
-                encouragingMessage: { type: Type.STRING },
-                optimizationTips: { type: Type.ARRAY, items: { type: Type.STRING } }
-              },
-              required: ["archetype", "traits", "encouragingMessage", "optimizationTips"]
-            },
-            motivationalBlock: {
-                type: Type.OBJECT,
-                properties: {
-                    resilienceScore: { type: Type.NUMBER },
-                    positivityIndex: { type: Type.NUMBER },
-                    powerQuote: { type: Type.STRING },
-                    resilienceNarrative: { type: Type.STRING },
-                    growthFocus: { type: Type.ARRAY, items: { type: Type.STRING } }
-                },
-                required: ["resilienceScore", "positivityIndex", "powerQuote", "resilienceNarrative", "growthFocus"]
-            }
-          },
-          required: ["positives", "negatives", "achievements", "confidenceMoments", "actsOfKindness", "futurePlans", "bestMoments", "personalityProfile", "motivationalBlock"]
-        }
-      }
-    });
-
-    const result = JSON.parse(response.text || "{}");
-    return {
-      timestamp: new Date().toISOString(),
-      ...result
-    };
-  } catch (error) {
-    console.error("Gemini Journey Analysis Error:", error);
-    throw error;
-  }
+const GEMINI_TYPES: Record<JsonSchema['type'], Type> = {
+  object: Type.OBJECT,
+  array: Type.ARRAY,
+  string: Type.STRING,
+  number: Type.NUMBER
 };
 
-export const findSimilarConnections = async (currentEntry: string, pastEntries: JournalEntry[]): Promise<string> => {
-    const ai = getClient();
-    const recentContext = pastEntries.slice(0, 50).map(e => `ID: ${e.id} | Date: ${e.createdAt.split('T')[0]} | Summary: ${e.summary || e.content.substring(0, 100)}...`).join("\n");
-    
+const toGeminiSchema = (schema: JsonSchema): Schema => ({
+  type: GEMINI_TYPES[schema.type],
+  ...(schema.description && { description: schema.description }),
+  ...(schema.properties && {
+    properties: Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)]))
+  }),
+  ...(schema.required && schema.required.length > 0 && { required: schema.required }),
+  ...(schema.items && { items: toGeminiSchema(schema.items) })
+});
+
+export const createGeminiProvider = (settings: AISettings['gemini']): AIProvider => {
+  const getApiKey = () => settings.apiKey || process.env.API_KEY || '';
+  // A new client per call picks up a key chosen in the AI Studio key picker meanwhile
+  const getClient = () => new GoogleGenAI({ apiKey: getApiKey() });
+
+  const call = <T>(request: (ai: GoogleGenAI, signal: AbortSignal) => Promise<T>, timeoutMs?: number): Promise<T> =>
+    runAIRequest(signal => request(getClient(), signal).catch(error => { throw toGeminiError(error); }), { label: LABEL, limiter, timeoutMs });
+
+  const generateJson = async <T>(task: JsonTask): Promise<T> => {
     try {
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash",
-            contents: `Current Entry: "${currentEntry}"\n\nPast Entries Library:\n${recentContext}\n\nTask: Find one past entry that is most emotionally or thematically similar to the current one. Explain the connection briefly.`,
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: {
-                    type: Type.OBJECT,
-                    properties: {
-                        relatedEntryId: {type: Type.STRING},
-                        connectionReason: {type: Type.STRING}
-                    }
-                }
-            }
-        });
-        const json = JSON.parse(response.text || "{}");
-        return json.connectionReason || "No clear connection found.";
-    } catch (e) {
-        return "Unable to analyze connections at this time.";
-    }
-}
-
-// --- Guidance & Action Plan ---
-
-export const generateDailyGuidance = async (entries: JournalEntry[]): Promise<DailyGuidance> => {
-    const ai = getClient();
-    const recentContext = entries.slice(0, 30).map(e => `[${e.createdAt.split('T')[0]}]: ${e.content}`).join("\n\n");
-    
-    try {
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash",
-            contents: `Based on these recent journal entries:\n${recentContext}\n
-            Generate a daily guidance plan for today.
-            1. "focusArea": The one main thing they should focus on today based on past patterns.
-            2. "todoSuggestions": 3-5 specific, small actionable tasks they can do TODAY to improve their situation or achieve past goals.
-            3. "improvementTips": 2-3 specific behavioral tips to overcome recent challenges.
-            4. "positiveReflection": A specific memory or quality from the past entries to remind them of their strength.
-            5. "reasoning": A brief explanation of why you suggested these things.
-            `,
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: {
-                    type: Type.OBJECT,
-                    properties: {
-                        focusArea: { type: Type.STRING },
-                        todoSuggestions: { type: Type.ARRAY, items: { type: Type.STRING } },
-                        improvementTips: { type: Type.ARRAY, items: { type: Type.STRING } },
-                        positiveReflection: { type: Type.STRING },
-                        reasoning: { type: Type.STRING }
-                    },
-                    required: ["focusArea", "todoSuggestions", "improvementTips", "positiveReflection", "reasoning"]
-                }
-            }
-        });
-
-        const result = JSON.parse(response.text || "{}");
-        return {
-            timestamp: new Date().toISOString(),
-            ...result
-        };
-    } catch (e) {
-        console.error("Guidance Generation Error", e);
-        throw e;
+      const response = await call((ai, abortSignal) => ai.models.generateContent({
+        model: settings.model,
+        contents: task.prompt,
+        config: {
+          systemInstruction: task.system,
+          responseMimeType: "application/json",
+          responseSchema: toGeminiSchema(task.schema),
+          abortSignal
+        }
+      }));
+      assertNotBlocked(response);
+      try {
+        return JSON.parse(response.text || "{}");
+      } catch {
+        throw new AIResponseError(`${LABEL} answered with malformed JSON. Try again.`);
+      }
+    } catch (error) {
+      console.error(`Gemini ${task.name} error:`, error);
+      throw error;
     }
-};
+  };
 
-// --- Media Generation Features ---
+  const generateImage = async (prompt: string): Promise<string> => {
+    const response = await call((ai, abortSignal) => ai.models.generateContent({
+      model: settings.imageModel,
+      contents: { parts: [{ text: prompt }] },
+      config: {
+        imageConfig: {
+          aspectRatio: "1:1",
+        },
+        abortSignal
+      }
+    }), 120_000);
+    assertNotBlocked(response);
 
-// 1. Generate Image from Entry
-export const generateJournalImage = async (entryText: string): Promise<string> => {
-  const ai = getClient();
-  // Using gemini-2.5-flash-image for general generation
-  const response = await ai.models.generateContent({
-    model: 'gemini-2.5-flash-image',
-    contents: {
-      parts: [
-        { text: `Create an artistic, abstract or symbolic illustration that represents this journal entry mood: ${entryText.substring(0, 300)}` }
-      ]
-    },
-    config: {
-      imageConfig: {
-        aspectRatio: "1:1",
+    // Extract base64 image
+    for (const part of response.candidates?.[0]?.content?.parts || []) {
+      if (part.inlineData?.data) {
+        return part.inlineData.data;
       }
     }
-  });
+    throw new Error("No image generated");
+  };
 
-  // Extract base64 image
-  for (const part of response.candidates?.[0]?.content?.parts || []) {
-    if (part.inlineData) {
-      return part.inlineData.data;
-    }
-  }
-  throw new Error("No image generated");
-};
+  // Veo, polled until the video is ready
+  const generateVideo = async (prompt: string, onProgress?: () => void): Promise<string> => {
+    const win = window as any;
 
-// 2. Generate Video from Entry (Veo)
-export const generateJournalVideo = async (entryText: string, onProgress?: () => void): Promise<string> => {
-  const win = window as any;
-  
-  const performGeneration = async (retry: boolean) => {
+    const performGeneration = async (retry: boolean) => {
       // Ensure key exists before we start
       if (win.aistudio) {
         const hasKey = await win.aistudio.hasSelectedApiKey();
         if (!hasKey || retry) {
-            await win.aistudio.openSelectKey();
+          await win.aistudio.openSelectKey();
         }
       }
 
-      // Create a new client to pick up the key
-      const ai = getClient();
-
-      let operation = await ai.models.generateVideos({
-        model: 'veo-3.1-fast-generate-preview',
-        prompt: `A cinematic, dreamlike 10 second video visualizing this memory: ${entryText.substring(0, 300)}`,
+      let operation = await call((ai, abortSignal) => ai.models.generateVideos({
+        model: VIDEO_MODEL,
+        prompt,
         config: {
-            numberOfVideos: 1,
-            resolution: '720p',
-            aspectRatio: '16:9'
+          numberOfVideos: 1,
+          resolution: '720p',
+          aspectRatio: '16:9',
+          abortSignal
         }
-      });
+      }));
 
       // Poll for completion
       while (!operation.done) {
         if (onProgress) onProgress();
         await new Promise(resolve => setTimeout(resolve, 5000));
-        operation = await ai.operations.getVideosOperation({operation});
+        const pending = operation;
+        operation = await call((ai, abortSignal) => ai.operations.getVideosOperation({ operation: pending, config: { abortSignal } }));
       }
 
+      if (operation.response?.raiMediaFilteredCount) {
+        throw new AISafetyError(`${LABEL} declined to create this video because of its safety filters.`);
+      }
       const videoUri = operation.response?.generatedVideos?.[0]?.video?.uri;
       if (!videoUri) throw new Error("Video generation failed");
 
       // Fetch the actual bytes using the API key
-      const response = await fetch(`${videoUri}&key=${process.env.API_KEY}`);
+      const response = await fetch(`${videoUri}&key=${getApiKey()}`);
       const blob = await response.blob();
-      
+
       return new Promise<string>((resolve, reject) => {
         const reader = new FileReader();
         reader.onloadend = () => {
@@ -340,99 +166,51 @@ export const generateJournalVideo = async (entryText: string, onProgress?: () =>
         reader.onerror = reject;
         reader.readAsDataURL(blob);
       });
-  };
+    };
 
-  try {
+    try {
       return await performGeneration(false);
-  } catch (error: any) {
-      if (error.message && error.message.includes("Requested entity was not found")) {
-          // Handle Race Condition: Reset and Retry
-          return await performGeneration(true);
+    } catch (error: any) {
+      if (error instanceof AIServiceError && error.status === 404) {
+        // Handle Race Condition: Reset and Retry
+        return await performGeneration(true);
       }
       throw error;
-  }
-};
-
-// 3. Audio Transcription
-export const transcribeAudio = async (audioBase64: string, mimeType: string = 'audio/wav'): Promise<string> => {
-    const ai = getClient();
-    try {
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash",
-            contents: {
-                parts: [
-                    {
-                        inlineData: {
-                            mimeType: mimeType,
-                            data: audioBase64
-                        }
-                    },
-                    { text: "Please transcribe this audio accurately into text. Do not add any commentary." }
-                ]
-            }
-        });
-        return response.text || "";
-    } catch (error) {
-        console.error("Transcription failed", error);
-        throw new Error("Failed to transcribe audio.");
     }
-};
-
-// 4. Generate Positive Reflection (Image + Quote)
-export const generatePositiveReflection = async (entryText: string): Promise<{ quote: string, imageBase64: string }> => {
-    const ai = getClient();
-    
-    // Step 1: Analyze text to get a quote and an image description
-    const textResponse = await ai.models.generateContent({
-        model: "gemini-2.5-flash",
-        contents: `Read this journal entry: "${entryText.substring(0, 1000)}". 
-        Even if the entry is sad or neutral, find a silver lining or a message of hope.
-        1. Write a short, uplifting, encouraging quote (max 15 words) relevant to this situation.
-        2. Write a detailed visual description for a peaceful, positive ANIME STYLE illustration that represents this feeling of hope and positivity.`,
-        config: {
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.OBJECT,
-                properties: {
-                    quote: { type: Type.STRING },
-                    imagePrompt: { type: Type.STRING }
-                },
-                required: ["quote", "imagePrompt"]
-            }
-        }
-    });
-
-    const textResult = JSON.parse(textResponse.text || "{}");
-    const quote = textResult.quote || "Every day is a new beginning.";
-    const imagePrompt = textResult.imagePrompt || "A peaceful anime style landscape with soft sunlight filtering through trees.";
+  };
 
-    // Step 2: Generate the image based on the prompt
-    const imageResponse = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image',
+  const transcribeAudio = async (audioBase64: string, mimeType: string): Promise<string> => {
+    try {
+      const response = await call((ai, abortSignal) => ai.models.generateContent({
+        model: settings.model,
         contents: {
-            parts: [
-                { text: `Anime style illustration, high quality, uplifting, positive vibes. ${imagePrompt}` }
-            ]
+          parts: [
+            { inlineData: { mimeType, data: audioBase64 } },
+            { text: TRANSCRIPTION_PROMPT }
+          ]
         },
-        config: {
-            imageConfig: {
-                aspectRatio: "1:1",
-            }
-        }
-    });
-
-    let imageBase64 = "";
-    for (const part of imageResponse.candidates?.[0]?.content?.parts || []) {
-        if (part.inlineData) {
-            imageBase64 = part.inlineData.data;
-            break;
-        }
+        config: { abortSignal }
+      }), 120_000);
+      return response.text || "";
+    } catch (error) {
+      console.error("Transcription failed", error);
+      throw error instanceof AIError ? error : new Error("Failed to transcribe audio.");
     }
+  };
 
-    if (!imageBase64) throw new Error("Failed to generate reflection image");
+  const checkConnection = async () => {
+    if (!getApiKey()) throw new Error("No Gemini API key is set.");
+    await call((ai, abortSignal) => ai.models.get({ model: settings.model, config: { abortSignal } }), 15_000);
+  };
 
-    return {
-        quote,
-        imageBase64
-    };
+  return {
+    id: 'gemini',
+    configured: !!getApiKey(),
+    capabilities: { transcription: true, images: !!settings.imageModel, video: true },
+    ...createJournalTasks(generateJson, generateImage),
+    transcribeAudio,
+    generateImage,
+    generateVideo,
+    checkConnection
+  };
 };
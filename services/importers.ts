@@ -0,0 +1,292 @@
+import { v4 as uuidv4 } from 'uuid';
+import { JournalEntry, JournalMedia } from '../types';
+import { saveMediaBlob } from './db';
+import { ArchiveValidationError, validateEntry } from './archive';
+import { mimeTypeForExtension } from './storageUsage';
+import { getStoredEntries, saveEntries, DEFAULT_NOTEBOOK_ID } from './storage';
+import { readSelectedFiles, parseFrontmatter, dateFromFileName } from './markdown';
+
+// --- Importers for Other Journal Apps ---
+// Each reader turns an export from another app into JournalEntry records plus the media blobs they
+// reference, keeping the original dates. Entries from apps with stable ids get ids derived from them
+// ("dayone-<uuid>", "journey-<id>"), so importing the same export twice finds the earlier copies.
+// Everything else is de-duplicated by its creation minute and text.
+
+export type ImportSource = 'dayone' | 'journey' | 'text';
+
+export const IMPORT_SOURCE_LABELS: Record<ImportSource, string> = {
+  dayone: 'Day One',
+  journey: 'Journey',
+  text: 'Text files'
+};
+
+export interface JournalImportPlan {
+  source: ImportSource;
+  entries: JournalEntry[]; // New entries, oldest first
+  blobs: Map<string, Blob>; // blobId -> media referenced by those entries
+  duplicates: number; // Entries already in the journal, or repeated in the export
+  warnings: string[]; // Items that were skipped, e.g. photos missing from the export
+}
+
+interface ReadResult {
+  entries: JournalEntry[];
+  blobs: Map<string, Blob>;
+  warnings: string[];
+}
+
+type FileMap = Map<string, Blob>;
+
+const fileName = (path: string) => path.slice(path.lastIndexOf('/') + 1);
+const extensionOf = (path: string) => fileName(path).includes('.') ? fileName(path).slice(fileName(path).lastIndexOf('.') + 1).toLowerCase() : '';
+
+const toIsoDate = (value: unknown): string | undefined => {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+// Finds a file by exact path, then by file name anywhere in the export
+const findFile = (files: FileMap, path: string): [string, Blob] | null => {
+  const exact = files.get(path);
+  if (exact) return [path, exact];
+  const name = fileName(path);
+  for (const [candidate, blob] of files) {
+    if (fileName(candidate) === name) return [candidate, blob];
+  }
+  return null;
+};
+
+const createMedia = (type: JournalMedia['type'], path: string, blob: Blob, blobs: Map<string, Blob>, createdAt: string): JournalMedia => {
+  const extension = extensionOf(path);
+  const known = mimeTypeForExtension(extension, type === 'drawing' ? 'image' : type);
+  const mimeType = blob.type || (known !== 'application/octet-stream' ? known : `${type}/${extension || 'octet-stream'}`);
+  const blobId = uuidv4();
+  blobs.set(blobId, new Blob([blob], { type: mimeType }));
+  return { id: uuidv4(), type, mimeType, blobId, createdAt };
+};
+
+const newEntry = (id: string, content: string, createdAt: string, updatedAt?: string): JournalEntry => ({
+  id,
+  content: content.trim(),
+  createdAt,
+  updatedAt: updatedAt || createdAt,
+  isAnalyzed: false
+});
+
+// --- Day One ---
+// A Day One JSON export is a ZIP with one <Journal>.json per journal ({ entries: [...] }) and
+// photos/, videos/ and audios/ folders whose files are named <md5>.<type>. The text links
+// attachments as ![](dayone-moment://<identifier>).
+
+const DAYONE_MEDIA: { key: string, type: JournalMedia['type'], folder: string }[] = [
+  { key: 'photos', type: 'image', folder: 'photos' },
+  { key: 'videos', type: 'video', folder: 'videos' },
+  { key: 'audios', type: 'audio', folder: 'audios' }
+];
+
+// Day One escapes Markdown punctuation in plain text, e.g. "Hello\." for "Hello."
+const unescapeDayOneText = (text: string) => text.replace(/\\([\\`*_{}[\]()#+\-.!>])/g, '$1');
+
+const readDayOne = (files: FileMap, rawJournals: [string, any][]): ReadResult => {
+  const entries: JournalEntry[] = [];
+  const blobs = new Map<string, Blob>();
+  const warnings: string[] = [];
+
+  rawJournals.forEach(([path, journal]) => {
+    (journal.entries as any[]).forEach((raw, index) => {
+      const createdAt = toIsoDate(raw?.creationDate);
+      if (!createdAt) {
+        warnings.push(`${fileName(path)}: entry ${index + 1} has no creation date and was skipped`);
+        return;
+      }
+      const entry = newEntry(raw.uuid ? `dayone-${raw.uuid}` : uuidv4(), '', createdAt, toIsoDate(raw.modifiedDate));
+      const media: JournalMedia[] = [];
+
+      DAYONE_MEDIA.forEach(({ key, type, folder }) => {
+        (Array.isArray(raw[key]) ? raw[key] : []).forEach((attachment: any) => {
+          const extension = attachment.type || attachment.format || '';
+          const found = attachment.md5 ? findFile(files, `${folder}/${attachment.md5}.${extension}`) : null;
+          if (!found) {
+            warnings.push(`${new Date(createdAt).toLocaleDateString()}: a ${type} is missing from the export`);
+            return;
+          }
+          media.push(createMedia(type, found[0], found[1], blobs, toIsoDate(attachment.date) || createdAt));
+        });
+      });
+
+      const text = unescapeDayOneText(typeof raw.text === 'string' ? raw.text : '')
+        .replace(/!\[[^\]]*\]\(dayone-moment:\/\/[^)]*\)\s*/g, '');
+      entry.content = text.trim();
+      if (Array.isArray(raw.tags) && raw.tags.length > 0) entry.keywords = raw.tags.map(String);
+      if (media.length > 0) entry.media = media;
+      entries.push(entry);
+    });
+  });
+
+  return { entries, blobs, warnings };
+};
+
+// --- Journey ---
+// A Journey export is a ZIP with one JSON file per entry. The text is HTML or Markdown, dates are
+// epoch milliseconds, and photos are listed by file name and stored next to the JSON files.
+
+const htmlToText = (html: string): string => {
+  const doc = new DOMParser().parseFromString(
+    html.replace(/<br\s*\/?>/gi, '\n').replace(/<\/(p|div|h[1-6]|li|blockquote)>/gi, '$&\n'),
+    'text/html'
+  );
+  return (doc.body.textContent || '').replace(/\n{3,}/g, '\n\n');
+};
+
+const readJourney = (files: FileMap, rawEntries: [string, any][]): ReadResult => {
+  const entries: JournalEntry[] = [];
+  const blobs = new Map<string, Blob>();
+  const warnings: string[] = [];
+
+  rawEntries.forEach(([path, raw]) => {
+    const createdAt = toIsoDate(raw.date_journal);
+    if (!createdAt) {
+      warnings.push(`${fileName(path)} has no date and was skipped`);
+      return;
+    }
+    const id = typeof raw.id === 'string' && raw.id ? `journey-${raw.id}` : uuidv4();
+    const text = typeof raw.text === 'string' ? raw.text : '';
+    const entry = newEntry(id, raw.type === 'html' || /<\/?[a-z][^>]*>/i.test(text) ? htmlToText(text) : text, createdAt, toIsoDate(raw.date_modified));
+
+    const media: JournalMedia[] = [];
+    (Array.isArray(raw.photos) ? raw.photos : []).forEach((photo: any) => {
+      const found = typeof photo === 'string' ? findFile(files, photo) : null;
+      if (!found) {
+        warnings.push(`${new Date(createdAt).toLocaleDateString()}: photo ${photo} is missing from the export`);
+        return;
+      }
+      const extension = extensionOf(found[0]);
+      const type: JournalMedia['type'] = ['mp4', 'mov', 'webm'].includes(extension) ? 'video' : 'image';
+      media.push(createMedia(type, found[0], found[1], blobs, createdAt));
+    });
+
+    if (Array.isArray(raw.tags) && raw.tags.length > 0) entry.keywords = raw.tags.map(String);
+    if (media.length > 0) entry.media = media;
+    entries.push(entry);
+  });
+
+  return { entries, blobs, warnings };
+};
+
+// --- Plain Text ---
+// A folder of .txt/.md files, one entry per file. The date comes from the frontmatter (date or
+// created), a date in the file name, or else the file's modification time.
+
+const TEXT_EXTENSIONS = ['txt', 'md', 'markdown'];
+
+const dateInFileName = (path: string): string | undefined => {
+  const exact = dateFromFileName(path);
+  if (exact) return exact;
+  const match = fileName(path).match(/(\d{4})[-_.]?(\d{2})[-_.]?(\d{2})/);
+  if (!match) return undefined;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]), 12);
+  return isNaN(date.getTime()) || date.getMonth() !== Number(match[2]) - 1 ? undefined : date.toISOString();
+};
+
+const readTextFiles = async (files: FileMap): Promise<ReadResult> => {
+  const entries: JournalEntry[] = [];
+  const warnings: string[] = [];
+
+  for (const [path, blob] of files) {
+    if (!TEXT_EXTENSIONS.includes(extensionOf(path)) || path.startsWith('.') || path.includes('/.')) continue;
+    const { fields, body } = parseFrontmatter((await blob.text()).replace(/^\uFEFF/, ''));
+    const lastModified = blob instanceof File ? new Date(blob.lastModified).toISOString() : undefined;
+    const createdAt = toIsoDate(fields.date) || toIsoDate(fields.created) || dateInFileName(path) || lastModified;
+    if (!createdAt) {
+      warnings.push(`${fileName(path)} has no date in its name or contents and was skipped`);
+      continue;
+    }
+    if (!body.trim()) continue;
+    entries.push(newEntry(uuidv4(), body, createdAt));
+  }
+
+  if (entries.length === 0 && warnings.length === 0) {
+    throw new ArchiveValidationError("No .txt or .md files were found in the selection.");
+  }
+  return { entries, blobs: new Map(), warnings };
+};
+
+// --- Planning & Commit ---
+
+const readJsonFiles = async (files: FileMap): Promise<[string, any][]> => {
+  const parsed: [string, any][] = [];
+  for (const [path, blob] of files) {
+    if (extensionOf(path) !== 'json') continue;
+    try {
+      parsed.push([path, JSON.parse(await blob.text())]);
+    } catch {
+      // Not every JSON-named file in an export is data we understand; the caller reports if none were
+    }
+  }
+  return parsed;
+};
+
+const readSource = async (source: ImportSource, files: FileMap): Promise<ReadResult> => {
+  if (source === 'text') return readTextFiles(files);
+
+  const json = await readJsonFiles(files);
+  if (source === 'dayone') {
+    const journals = json.filter(([, data]) => data && Array.isArray(data.entries));
+    if (journals.length === 0) throw new ArchiveValidationError("This does not look like a Day One JSON export: no journal file with entries was found.");
+    return readDayOne(files, journals);
+  }
+  const journeyEntries = json.filter(([, data]) => data && typeof data === 'object' && 'date_journal' in data);
+  if (journeyEntries.length === 0) throw new ArchiveValidationError("This does not look like a Journey export: no entry files were found.");
+  return readJourney(files, journeyEntries);
+};
+
+// Same minute and same text (ignoring case and whitespace) counts as the same entry
+const fingerprint = (entry: JournalEntry) =>
+  `${entry.createdAt.slice(0, 16)}|${entry.content.toLowerCase().replace(/\s+/g, ' ').trim()}`;
+
+// Reads an export and works out which entries are new, without writing anything
+export const planJournalImport = async (source: ImportSource, selected: File[]): Promise<JournalImportPlan> => {
+  const files = await readSelectedFiles(selected);
+  const { entries, blobs, warnings } = await readSource(source, files);
+
+  const problems: string[] = [];
+  entries.forEach(entry => validateEntry(entry).forEach(problem => problems.push(`${new Date(entry.createdAt).toLocaleDateString()}: ${problem}`)));
+  if (problems.length > 0) {
+    throw new ArchiveValidationError(`${problems.length} imported entr${problems.length === 1 ? 'y is' : 'ies are'} malformed. Nothing was imported.`, problems);
+  }
+
+  // Trashed entries count too, so an import does not resurrect what the user deleted
+  const existing = await getStoredEntries();
+  const knownIds = new Set(existing.map(e => e.id));
+  const knownFingerprints = new Set(existing.map(fingerprint));
+  const fresh: JournalEntry[] = [];
+  let duplicates = 0;
+
+  entries
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+    .forEach(entry => {
+      const print = fingerprint(entry);
+      if (knownIds.has(entry.id) || knownFingerprints.has(print)) {
+        duplicates++;
+        return;
+      }
+      knownIds.add(entry.id);
+      knownFingerprints.add(print);
+      fresh.push(entry);
+    });
+
+  // Only keep media that a new entry references
+  const used = new Set(fresh.flatMap(e => (e.media || []).map(m => m.blobId)));
+  const freshBlobs = new Map(Array.from(blobs).filter(([blobId]) => used.has(blobId)));
+
+  return { source, entries: fresh, blobs: freshBlobs, duplicates, warnings };
+};
+
+// Saves the planned entries into the given notebook and returns their ids
+export const commitJournalImport = async (plan: JournalImportPlan, notebookId: string): Promise<string[]> => {
+  // Media first, so no imported entry ever points at a blob that is not stored yet
+  for (const [blobId, blob] of plan.blobs) await saveMediaBlob(blobId, blob);
+  const entries = plan.entries.map(entry => notebookId === DEFAULT_NOTEBOOK_ID ? entry : { ...entry, notebookId });
+  await saveEntries(entries);
+  return entries.map(e => e.id);
+};
@@ -0,0 +1,240 @@
+import { JournalEntry } from '../types';
+import { getMediaBlob, blobToBase64 } from './db';
+import { groupEntriesByDay, averageMood, JournalDay } from './journalDays';
+import { formatBlockTime } from './calendar';
+
+// --- Printable Journal Book ---
+// Typesets a date range of entries as an HTML book and hands it to the browser's print dialog,
+// where "Save as PDF" produces the file. Images are inlined as data URLs so the book is self-contained.
+
+export interface JournalBookOptions {
+  from: string; // YYYY-MM-DD, inclusive, local time
+  to: string;   // YYYY-MM-DD, inclusive, local time
+  title: string;
+  includeSummaries: boolean; // AI summaries and reflection questions
+}
+
+const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+// Only inline images reach an <img>; imported archives and sync peers control these strings
+const imageSrc = (url: string | undefined): string =>
+  url && /^data:image\//i.test(url) ? escapeHtml(url) : '';
+
+const parseLocalDate = (value: string, endOfDay: boolean) => {
+  const [year, month, day] = value.split('-').map(Number);
+  return endOfDay ? new Date(year, month - 1, day, 23, 59, 59, 999) : new Date(year, month - 1, day);
+};
+
+export const filterEntriesByDateRange = (entries: JournalEntry[], from: string, to: string): JournalEntry[] => {
+  const start = parseLocalDate(from, false).getTime();
+  const end = parseLocalDate(to, true).getTime();
+  return entries.filter(entry => {
+    const time = new Date(entry.createdAt).getTime();
+    return time >= start && time <= end;
+  });
+};
+
+const formatRange = (from: string, to: string) => {
+  const format = (value: string) => parseLocalDate(value, false).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+  return from === to ? format(from) : `${format(from)} – ${format(to)}`;
+};
+
+// Data URLs for the images and drawings in the book, keyed by blob id. Missing blobs are skipped.
+const loadImages = async (entries: JournalEntry[]): Promise<Record<string, string>> => {
+  const images: Record<string, string> = {};
+  for (const entry of entries) {
+    for (const m of entry.media || []) {
+      if (!m.blobId || m.externalUrl || (m.type !== 'image' && m.type !== 'drawing')) continue;
+      const blob = await getMediaBlob(m.blobId);
+      if (blob) images[m.blobId] = await blobToBase64(blob);
+    }
+    if (entry.reflection && !entry.reflection.imageUrl.startsWith('data:')) {
+      const blob = await getMediaBlob(entry.reflection.imageId);
+      if (blob) images[entry.reflection.imageId] = await blobToBase64(blob);
+    }
+  }
+  return images;
+};
+
+const dayAnchor = (index: number) => `day-${index + 1}`;
+
+const renderEntry = (entry: JournalEntry, images: Record<string, string>, options: JournalBookOptions): string => {
+  const time = new Date(entry.createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  const parts: string[] = [];
+
+  parts.push(`<div class="entry-header">
+    ${entry.moodEmoji ? `<span class="emoji">${escapeHtml(entry.moodEmoji)}</span>` : ''}
+    <span class="time">${escapeHtml(time)}</span>
+    ${entry.moodLabel ? `<span class="mood">${escapeHtml(entry.moodLabel)}${entry.moodScore !== undefined ? ` · ${entry.moodScore}/10` : ''}</span>` : ''}
+  </div>`);
+
+  if (entry.content.trim()) parts.push(`<div class="content">${escapeHtml(entry.content.trim())}</div>`);
+
+  if (options.includeSummaries && entry.summary) {
+    parts.push(`<p class="summary"><strong>Summary:</strong> ${escapeHtml(entry.summary)}</p>`);
+  }
+
+  if (entry.reflection) {
+    const src = imageSrc(entry.reflection.imageUrl.startsWith('data:') ? entry.reflection.imageUrl : images[entry.reflection.imageId]);
+    parts.push(`<figure class="reflection">
+      ${src ? `<img src="${src}" alt="Reflection" />` : ''}
+      <blockquote>${escapeHtml(entry.reflection.quote)}</blockquote>
+    </figure>`);
+  }
+
+  const pictures = (entry.media || []).filter(m => m.blobId && imageSrc(images[m.blobId]));
+  if (pictures.length > 0) {
+    parts.push(`<div class="media">${pictures.map(m =>
+      `<figure><img src="${imageSrc(images[m.blobId!])}" alt="${escapeHtml(m.altText || m.type)}" />${m.altText ? `<figcaption>${escapeHtml(m.altText)}</figcaption>` : ''}</figure>`
+    ).join('')}</div>`);
+  }
+  const otherMedia = (entry.media || []).filter(m => !(m.blobId && imageSrc(images[m.blobId])));
+  if (otherMedia.length > 0) {
+    parts.push(`<p class="note">${otherMedia.map(m => m.externalUrl
+      ? `${m.type === 'video' ? 'Video' : 'Link'}: ${escapeHtml(m.externalUrl)}`
+      : `${m.type[0].toUpperCase()}${m.type.slice(1)} recording not shown in print`
+    ).join(' · ')}</p>`);
+  }
+
+  const hasTodos = entry.todos && entry.todos.length > 0;
+  const hasSchedule = entry.schedule && entry.schedule.length > 0;
+  if (hasTodos || hasSchedule) {
+    parts.push(`<div class="plan">
+      ${hasTodos ? `<div><h4>To-Do List</h4><ul class="todos">${entry.todos!.map(t =>
+        `<li class="${t.isCompleted ? 'done' : ''}"><span class="box">${t.isCompleted ? '✓' : ''}</span>${escapeHtml(t.text)}</li>`
+      ).join('')}</ul></div>` : ''}
+      ${hasSchedule ? `<div><h4>Schedule</h4><table>${entry.schedule!.map(s =>
+        `<tr><td class="slot">${escapeHtml(formatBlockTime(s))}</td><td>${escapeHtml(s.activity)}</td></tr>`
+      ).join('')}</table></div>` : ''}
+    </div>`);
+  }
+
+  if (options.includeSummaries && entry.reflectionQuestion) {
+    parts.push(`<p class="question">${escapeHtml(entry.reflectionQuestion)}</p>`);
+  }
+
+  const accent = entry.moodColor && /^#[0-9a-f]{3,8}$/i.test(entry.moodColor) ? entry.moodColor : '#cbd5e1';
+  return `<article class="entry" style="border-left-color: ${accent}">${parts.join('\n')}</article>`;
+};
+
+const renderDay = ([label, entries]: JournalDay, index: number, images: Record<string, string>, options: JournalBookOptions): string => {
+  const weekday = new Date(entries[0].createdAt).toLocaleDateString('en-US', { weekday: 'long' });
+  return `<section class="day" id="${dayAnchor(index)}">
+    <h2><span class="weekday">${weekday}</span>${escapeHtml(label)}</h2>
+    ${entries.map(entry => renderEntry(entry, images, options)).join('\n')}
+  </section>`;
+};
+
+const BOOK_STYLES = `
+  @page { size: A4; margin: 18mm 16mm; }
+  * { box-sizing: border-box; }
+  body { font-family: Georgia, 'Times New Roman', serif; color: #1e293b; margin: 0; line-height: 1.6; font-size: 11pt; }
+  .cover { height: 250mm; display: flex; flex-direction: column; justify-content: center; align-items: center; text-align: center; page-break-after: always; }
+  .cover h1 { font-size: 34pt; margin: 0 0 8mm; letter-spacing: -0.5pt; }
+  .cover .range { font-size: 14pt; color: #475569; }
+  .cover .stats { margin-top: 14mm; font-family: system-ui, sans-serif; font-size: 10pt; color: #64748b; }
+  .toc { page-break-after: always; }
+  .toc h2 { font-size: 18pt; margin: 0 0 6mm; }
+  .toc ol { list-style: none; padding: 0; margin: 0; columns: 2; column-gap: 10mm; font-family: system-ui, sans-serif; font-size: 9.5pt; }
+  .toc li { break-inside: avoid; padding: 1mm 0; border-bottom: 0.5pt dotted #cbd5e1; display: flex; gap: 2mm; }
+  .toc a { color: inherit; text-decoration: none; flex: 1; }
+  .toc .count { color: #94a3b8; }
+  .day { page-break-before: always; }
+  .day h2 { font-size: 18pt; margin: 0 0 6mm; padding-bottom: 2mm; border-bottom: 1pt solid #e2e8f0; }
+  .day h2 .weekday { display: block; font-family: system-ui, sans-serif; font-size: 9pt; text-transform: uppercase; letter-spacing: 1.5pt; color: #94a3b8; font-weight: 600; }
+  .entry { border-left: 3pt solid; padding: 1mm 0 1mm 5mm; margin-bottom: 8mm; }
+  .entry-header { display: flex; align-items: center; gap: 3mm; font-family: system-ui, sans-serif; margin-bottom: 2mm; }
+  .entry-header .emoji { font-size: 18pt; }
+  .entry-header .time { font-size: 9pt; font-weight: 700; color: #64748b; text-transform: uppercase; letter-spacing: 1pt; }
+  .entry-header .mood { font-size: 9pt; color: #64748b; }
+  .content { white-space: pre-wrap; }
+  .summary, .question, .note { font-family: system-ui, sans-serif; font-size: 9pt; color: #475569; }
+  .question { font-style: italic; }
+  .note { color: #94a3b8; }
+  figure { margin: 4mm 0; break-inside: avoid; }
+  img { max-width: 100%; max-height: 110mm; border-radius: 2mm; }
+  figcaption { font-family: system-ui, sans-serif; font-size: 8pt; color: #94a3b8; margin-top: 1mm; }
+  .reflection img { max-height: 80mm; }
+  .reflection blockquote { margin: 2mm 0 0; font-style: italic; color: #334155; font-size: 12pt; }
+  .media { display: flex; flex-wrap: wrap; gap: 4mm; }
+  .media figure { margin: 0; flex: 1 1 70mm; }
+  .plan { display: flex; gap: 8mm; margin-top: 4mm; padding: 3mm 4mm; background: #f8fafc; border-radius: 2mm; font-family: system-ui, sans-serif; font-size: 9.5pt; break-inside: avoid; }
+  .plan > div { flex: 1; }
+  .plan h4 { margin: 0 0 2mm; font-size: 7.5pt; text-transform: uppercase; letter-spacing: 1pt; color: #94a3b8; }
+  .todos { list-style: none; padding: 0; margin: 0; }
+  .todos li { display: flex; gap: 2mm; align-items: baseline; margin-bottom: 1mm; }
+  .todos .box { display: inline-block; width: 3.2mm; height: 3.2mm; border: 0.6pt solid #94a3b8; border-radius: 0.6mm; font-size: 7pt; line-height: 3.2mm; text-align: center; flex-shrink: 0; }
+  .todos .done { color: #94a3b8; text-decoration: line-through; }
+  table { border-collapse: collapse; width: 100%; }
+  td { padding: 0.8mm 0; vertical-align: top; }
+  td.slot { font-family: ui-monospace, monospace; font-size: 8.5pt; color: #4f46e5; width: 16mm; }
+`;
+
+// Builds the complete HTML document for the book. Days run oldest first, as a book is read.
+export const buildJournalBookHtml = async (entries: JournalEntry[], options: JournalBookOptions): Promise<string> => {
+  const inRange = filterEntriesByDateRange(entries, options.from, options.to)
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  const days = groupEntriesByDay(inRange).reverse();
+  const images = await loadImages(inRange);
+  const mood = averageMood(inRange);
+
+  const cover = `<section class="cover">
+    <h1>${escapeHtml(options.title)}</h1>
+    <div class="range">${escapeHtml(formatRange(options.from, options.to))}</div>
+    <div class="stats">${inRange.length} ${inRange.length === 1 ? 'entry' : 'entries'} across ${days.length} ${days.length === 1 ? 'day' : 'days'}${mood > 0 ? ` · average mood ${mood.toFixed(1)}/10` : ''}</div>
+  </section>`;
+
+  const toc = `<section class="toc">
+    <h2>Contents</h2>
+    <ol>${days.map(([label, dayEntries], i) => `<li>
+      <a href="#${dayAnchor(i)}">${escapeHtml(label)}</a>
+      <span>${dayEntries.map(e => e.moodEmoji ? escapeHtml(e.moodEmoji) : '').join('')}</span>
+      <span class="count">${dayEntries.length}</span>
+    </li>`).join('')}</ol>
+  </section>`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(options.title)}</title>
+<style>${BOOK_STYLES}</style>
+</head>
+<body>
+${cover}
+${toc}
+${days.map((day, i) => renderDay(day, i, images, options)).join('\n')}
+</body>
+</html>`;
+};
+
+// Renders the book in a hidden frame and opens the print dialog for it
+export const printJournalBook = async (entries: JournalEntry[], options: JournalBookOptions): Promise<void> => {
+  const html = await buildJournalBookHtml(entries, options);
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  // Same origin only so the page can print the frame; no scripts run inside it
+  frame.sandbox.value = 'allow-same-origin allow-modals';
+  const loaded = new Promise<void>(resolve => { frame.onload = () => resolve(); });
+  frame.srcdoc = html;
+  document.body.appendChild(frame);
+  await loaded;
+
+  const frameWindow = frame.contentWindow;
+  if (!frameWindow) {
+    frame.remove();
+    throw new Error("Could not prepare the book for printing.");
+  }
+  // Wait for the inlined images to decode so no page is printed half-empty
+  await Promise.all(Array.from(frameWindow.document.images).map(img => img.decode().catch(() => undefined)));
+  frameWindow.addEventListener('afterprint', () => frame.remove(), { once: true });
+  frameWindow.focus();
+  frameWindow.print();
+};
@@ -0,0 +1,30 @@
+import { JournalEntry } from '../types';
+
+// --- Day Grouping ---
+// The journal is read day by day: the entry list and the printed book both group entries this way.
+
+export type JournalDay = [label: string, entries: JournalEntry[]];
+
+// Groups entries by their local calendar day, labelled like "March 4, 2025". Days are newest first;
+// within a day entries keep the order they were given in.
+export const groupEntriesByDay = (entries: JournalEntry[]): JournalDay[] => {
+  const groups: Record<string, JournalEntry[]> = {};
+  entries.forEach(entry => {
+    const dateKey = new Date(entry.createdAt).toLocaleDateString('en-US', {
+      year: 'numeric', month: 'long', day: 'numeric'
+    });
+    if (!groups[dateKey]) groups[dateKey] = [];
+    groups[dateKey].push(entry);
+  });
+
+  return Object.entries(groups).sort((a, b) =>
+    new Date(b[1][0].createdAt).getTime() - new Date(a[1][0].createdAt).getTime()
+  );
+};
+
+// Average mood score of the analyzed entries, or 0 when none have been analyzed
+export const averageMood = (entries: JournalEntry[]): number => {
+  const scored = entries.filter(e => e.moodScore !== undefined);
+  if (scored.length === 0) return 0;
+  return scored.reduce((acc, e) => acc + (e.moodScore || 0), 0) / scored.length;
+};
@@ -0,0 +1,146 @@
+import { JournalEntry } from '../types';
+
+// --- Offline Analysis ---
+// A quick estimate for when no AI provider is set up or the network is down. The mood comes from a
+// small sentiment lexicon (with negation and intensifiers), keywords are the most frequent meaningful
+// words, and the emoji and color follow from the score. Entries analyzed this way are marked with
+// analysisSource 'local' so they can be upgraded to a full AI analysis later.
+
+// Word weights from -4 (very negative) to +4 (very positive), in the spirit of the AFINN list
+const LEXICON: Record<string, number> = {
+  // Positive
+  amazing: 4, awesome: 4, wonderful: 4, fantastic: 4, brilliant: 4, ecstatic: 4, thrilled: 4, outstanding: 4, blissful: 4,
+  love: 3, loved: 3, lovely: 3, great: 3, happy: 3, joy: 3, joyful: 3, excited: 3, delighted: 3, proud: 3, grateful: 3,
+  thankful: 3, beautiful: 3, blessed: 3, excellent: 3, perfect: 3, fun: 3, celebrate: 3, celebrated: 3, inspired: 3, success: 3,
+  good: 2, nice: 2, glad: 2, calm: 2, peaceful: 2, relaxed: 2, hopeful: 2, hope: 2, confident: 2, accomplished: 2,
+  achieved: 2, progress: 2, enjoy: 2, enjoyed: 2, laugh: 2, laughed: 2, smile: 2, smiled: 2, kind: 2, friendly: 2,
+  support: 2, supported: 2, helpful: 2, energized: 2, motivated: 2, rested: 2, strong: 2, win: 2, won: 2, fresh: 2,
+  better: 2, improved: 2, productive: 2, safe: 2, cozy: 2, content: 2, optimistic: 2, comfortable: 2, appreciate: 2, appreciated: 2,
+  okay: 1, ok: 1, fine: 1, interesting: 1, learned: 1, finished: 1, completed: 1, ready: 1, steady: 1, easy: 1,
+  // Negative
+  terrible: -4, awful: -4, horrible: -4, miserable: -4, devastated: -4, hopeless: -4, worthless: -4, panic: -4, depressed: -4,
+  sad: -3, angry: -3, hate: -3, hated: -3, anxious: -3, anxiety: -3, afraid: -3, scared: -3, lonely: -3, hurt: -3,
+  crying: -3, cried: -3, furious: -3, exhausted: -3, broken: -3, failed: -3, failure: -3, grief: -3, ashamed: -3, overwhelmed: -3,
+  bad: -2, upset: -2, worried: -2, worry: -2, stress: -2, stressed: -2, tired: -2, frustrated: -2, annoyed: -2, disappointed: -2,
+  nervous: -2, sick: -2, pain: -2, lost: -2, guilty: -2, jealous: -2, bored: -2, struggle: -2, struggled: -2, struggling: -2,
+  difficult: -2, hard: -1, problem: -2, mistake: -2, conflict: -2, argument: -2, argued: -2, fear: -2, unhappy: -2, drained: -2,
+  meh: -1, confused: -1, busy: -1, late: -1, slow: -1, messy: -1, awkward: -1, rushed: -1, doubt: -1, missed: -1
+};
+
+const NEGATIONS = new Set(['not', 'no', 'never', "don't", "didn't", "doesn't", "isn't", "wasn't", "aren't", "weren't", "can't", "couldn't", "won't", 'hardly', 'barely', 'without']);
+const INTENSIFIERS: Record<string, number> = { very: 1.5, really: 1.4, so: 1.3, extremely: 1.8, incredibly: 1.8, super: 1.5, truly: 1.4, totally: 1.4, quite: 1.2, slightly: 0.6, somewhat: 0.7, kinda: 0.7 };
+
+const STOP_WORDS = new Set(`
+  a about above after again against all also am an and any are as at be because been before being below between both but by
+  could did do does doing down during each few for from further had has have having he her here hers herself him himself his
+  how i if in into is it its itself just me more most my myself nor of off on once only or other our ours ourselves out over
+  own same she should so some such than that the their theirs them themselves then there these they this those through to too
+  under until up very was we were what when where which while who whom why will with would you your yours yourself yourselves
+  today yesterday tomorrow really still even though went going get got getting make made thing things something anything lot
+  lots maybe feel felt feeling think thought know knew want wanted need needed day days time week morning evening night back
+  much many well like just around every being one two first last next little another ever always never kind sort
+`.split(/\s+/).filter(Boolean));
+
+const tokenize = (text: string): string[] =>
+  text.toLowerCase().replace(/[’‘]/g, "'").match(/[a-z][a-z']*/g) || [];
+
+const isNegated = (tokens: string[], index: number): boolean =>
+  tokens.slice(Math.max(0, index - 3), index).some(word => NEGATIONS.has(word) || word.endsWith("n't"));
+
+// Tries the word itself, then common inflections ("laughing" -> "laugh", "worries" -> "worry")
+const sentimentOf = (word: string): number | undefined => {
+  if (LEXICON[word] !== undefined) return LEXICON[word];
+  const stems = [word.replace(/ies$/, 'y'), word.replace(/(ing|ed|s|ly)$/, ''), word.replace(/(ing|ed)$/, 'e')];
+  for (const stem of stems) if (stem !== word && LEXICON[stem] !== undefined) return LEXICON[stem];
+  return undefined;
+};
+
+interface MoodBand {
+  min: number;
+  label: string;
+  emoji: string;
+  color: string;
+}
+
+// Highest band first; a score belongs to the first band whose minimum it reaches
+const MOOD_BANDS: MoodBand[] = [
+  { min: 10, label: 'Elated', emoji: '🚀', color: '#FFD700' },
+  { min: 9, label: 'Joyful', emoji: '🌟', color: '#F59E0B' },
+  { min: 8, label: 'Happy', emoji: '😊', color: '#FBBF24' },
+  { min: 7, label: 'Content', emoji: '🌿', color: '#22C55E' },
+  { min: 6, label: 'Steady', emoji: '🌱', color: '#84CC16' },
+  { min: 5, label: 'Neutral', emoji: '🌤️', color: '#A8A29E' },
+  { min: 4, label: 'Uneasy', emoji: '🌥️', color: '#94A3B8' },
+  { min: 3, label: 'Low', emoji: '🌧️', color: '#64748B' },
+  { min: 1, label: 'Heavy', emoji: '⛈️', color: '#475569' }
+];
+
+export const moodBandFor = (score: number): MoodBand =>
+  MOOD_BANDS.find(band => score >= band.min) || MOOD_BANDS[MOOD_BANDS.length - 1];
+
+// Sum of word weights squashed into -1..1 (as VADER does), then mapped onto the 1-10 mood scale
+export const scoreSentiment = (text: string): number => {
+  const tokens = tokenize(text);
+  let total = 0;
+  tokens.forEach((token, i) => {
+    const weight = sentimentOf(token);
+    if (weight === undefined) return;
+    let value = weight;
+    if (tokens[i - 1] && INTENSIFIERS[tokens[i - 1]]) value *= INTENSIFIERS[tokens[i - 1]];
+    // "not happy" reads as mildly negative rather than as the opposite extreme
+    if (isNegated(tokens, i)) value *= -0.6;
+    total += value;
+  });
+  // A journal entry runs longer than the sentences VADER was tuned on, so the curve is flatter
+  const compound = total / Math.sqrt(total * total + 30);
+  return Math.min(10, Math.max(1, Math.round(5 + compound * 5)));
+};
+
+const titleCase = (word: string) => word.charAt(0).toUpperCase() + word.slice(1);
+
+// The most frequent meaningful words; positive words win ties, as the AI analysis favors strengths.
+// Negated words ("not happy") are left out, since the keyword alone would say the opposite.
+export const extractKeywords = (text: string, limit = 5): string[] => {
+  const counts = new Map<string, { count: number, first: number }>();
+  const tokens = tokenize(text);
+  tokens.forEach((token, i) => {
+    const word = token.replace(/'s$/, '').replace(/'/g, '');
+    if (word.length < 4 || STOP_WORDS.has(word) || NEGATIONS.has(token) || isNegated(tokens, i)) return;
+    const current = counts.get(word);
+    if (current) current.count++;
+    else counts.set(word, { count: 1, first: i });
+  });
+  return [...counts.entries()]
+    .sort(([wordA, a], [wordB, b]) =>
+      b.count - a.count || (sentimentOf(wordB) || 0) - (sentimentOf(wordA) || 0) || a.first - b.first)
+    .slice(0, limit)
+    .map(([word]) => titleCase(word));
+};
+
+const firstSentence = (text: string): string => {
+  const trimmed = text.trim().replace(/\s+/g, ' ');
+  const sentence = trimmed.match(/^.+?[.!?](?=\s|$)/)?.[0] || trimmed;
+  return sentence.length > 160 ? `${sentence.slice(0, 157).trimEnd()}...` : sentence;
+};
+
+const reflectionQuestionFor = (band: MoodBand): string => {
+  if (band.min >= 7) return `What made today feel ${band.label.toLowerCase()}, and how could you make room for more of that?`;
+  if (band.min <= 4) return "What is one small thing that would make tomorrow feel a little lighter than today?";
+  return "What from today would you like to remember a year from now?";
+};
+
+export const analyzeEntryLocally = (text: string): Partial<JournalEntry> => {
+  const moodScore = scoreSentiment(text);
+  const band = moodBandFor(moodScore);
+  const keywords = extractKeywords(text);
+  return {
+    moodScore,
+    moodLabel: band.label,
+    moodEmoji: band.emoji,
+    moodColor: band.color,
+    keywords,
+    summary: firstSentence(text),
+    reflectionQuestion: reflectionQuestionFor(band),
+    analysisSource: 'local'
+  };
+};
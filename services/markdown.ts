@@ -0,0 +1,452 @@
+import JSZip from 'jszip';
+import { v4 as uuidv4 } from 'uuid';
+import { JournalEntry, JournalMedia, Notebook, TodoItem, ScheduleBlock } from '../types';
+import { getMediaBlob, saveMediaBlob, blobToBase64 } from './db';
+import { ArchiveValidationError, collectBlobMimeTypes, validateEntry } from './archive';
+import { extensionForMimeType, mimeTypeForExtension } from './storageUsage';
+import { getEntries, getStoredEntries, saveEntries, getNotebooks, saveNotebook, getEntryNotebookId, DEFAULT_NOTEBOOK_ID } from './storage';
+import { MergeSummary } from './backup';
+import { formatBlockTime } from './calendar';
+
+// --- Markdown Vault Export & Import ---
+// A Markdown export is a ZIP that opens as an Obsidian vault:
+//   <Notebook>/<YYYY-MM-DD HH.mm>.md  - one note per entry (notebook folders only when there are several)
+//   attachments/<blobId>.<ext>         - media with real file extensions
+// Each note starts with YAML frontmatter holding the entry's metadata. The entry text follows as-is,
+// and todos, schedule, reflection and media come after SECTIONS_MARKER so they can be told apart
+// from the text on import.
+
+export const ATTACHMENTS_FOLDER = 'attachments';
+const SECTIONS_MARKER = '<!-- lumina -->';
+const NOTE_EXTENSION = /\.(md|markdown)$/i;
+
+// --- Export ---
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const noteName = (entry: JournalEntry) => {
+  const d = new Date(entry.createdAt);
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} ${pad(d.getHours())}.${pad(d.getMinutes())}`;
+};
+
+const safeFolderName = (name: string) => name.replace(/[\\/:*?"<>|#^[\]]+/g, '-').trim() || 'Notebook';
+
+// Strings are written as JSON, which is a valid double-quoted YAML scalar
+const yamlValue = (value: string | number | boolean) => typeof value === 'string' ? JSON.stringify(value) : String(value);
+
+const toFrontmatter = (fields: Record<string, string | number | boolean | string[] | undefined>): string => {
+  const lines = ['---'];
+  Object.entries(fields).forEach(([key, value]) => {
+    if (value === undefined) return;
+    if (Array.isArray(value)) {
+      lines.push(`${key}:`);
+      value.forEach(item => lines.push(`  - ${yamlValue(item)}`));
+    } else {
+      lines.push(`${key}: ${yamlValue(value)}`);
+    }
+  });
+  lines.push('---');
+  return lines.join('\n');
+};
+
+const tableCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+const linkTitle = (text?: string) => text ? ` "${text.replace(/"/g, "'").replace(/\n/g, ' ')}"` : '';
+
+const entryToMarkdown = (entry: JournalEntry, notebookName: string, attachmentPath: (blobId: string) => string | null): string => {
+  const parts = [toFrontmatter({
+    id: entry.id,
+    created: entry.createdAt,
+    updated: entry.updatedAt,
+    notebook: notebookName,
+    analyzed: entry.isAnalyzed,
+    analysis_source: entry.analysisSource,
+    mood_score: entry.moodScore,
+    mood_label: entry.moodLabel,
+    mood_emoji: entry.moodEmoji,
+    mood_color: entry.moodColor,
+    keywords: entry.keywords && entry.keywords.length > 0 ? entry.keywords : undefined,
+    summary: entry.summary,
+    reflection_question: entry.reflectionQuestion
+  }), '', entry.content.trimEnd()];
+
+  const sections: string[] = [];
+  if (entry.todos && entry.todos.length > 0) {
+    sections.push(['## Todos', '', ...entry.todos.map(t => `- [${t.isCompleted ? 'x' : ' '}] ${t.text.replace(/\n/g, ' ')}`)].join('\n'));
+  }
+  if (entry.schedule && entry.schedule.length > 0) {
+    sections.push(['## Schedule', '', '| Time | Activity |', '| --- | --- |', ...entry.schedule.map(s => `| ${tableCell(formatBlockTime(s))} | ${tableCell(s.activity)} |`)].join('\n'));
+  }
+  if (entry.reflection) {
+    const path = attachmentPath(entry.reflection.imageId);
+    sections.push([
+      '## Reflection',
+      '',
+      ...entry.reflection.quote.split('\n').map(line => `> ${line}`),
+      ...(path ? ['', `![reflection](${path})`] : [])
+    ].join('\n'));
+  }
+  if (entry.media && entry.media.length > 0) {
+    const lines = entry.media.map(m => {
+      if (m.externalUrl) return `[${m.type}](${m.externalUrl}${linkTitle(m.altText)})`;
+      const path = m.blobId ? attachmentPath(m.blobId) : null;
+      if (path) return `![${m.type}](${path}${linkTitle(m.altText)})`;
+      if (m.offloaded) return `*${m.type} saved separately as ${m.offloaded.fileName}*`;
+      return null;
+    }).filter((line): line is string => !!line);
+    if (lines.length > 0) sections.push(['## Media', '', ...lines.flatMap(line => [line, ''])].join('\n').trimEnd());
+  }
+
+  if (sections.length > 0) parts.push('', SECTIONS_MARKER, '', sections.join('\n\n'));
+  return parts.join('\n') + '\n';
+};
+
+// With a notebookId only that notebook's notes and attachments are exported
+export const exportMarkdownVault = async (notebookId?: string): Promise<Blob> => {
+  const zip = new JSZip();
+  const notebooks = await getNotebooks();
+  const entries = (await getEntries()).filter(entry => !notebookId || getEntryNotebookId(entry) === notebookId);
+  const notebookNames = new Map(notebooks.map(n => [n.id, n.name] as const));
+  const useFolders = !notebookId && new Set(entries.map(getEntryNotebookId)).size > 1;
+
+  // Attachments first, so notes only link to files that were actually written
+  const mimeTypes = collectBlobMimeTypes(entries);
+  const attachments = new Map<string, string>(); // blobId -> file name
+  for (const blobId of Object.keys(mimeTypes)) {
+    const blob = await getMediaBlob(blobId);
+    if (!blob) continue;
+    const fileName = `${blobId}.${extensionForMimeType(mimeTypes[blobId] || blob.type)}`;
+    zip.file(`${ATTACHMENTS_FOLDER}/${fileName}`, blob);
+    attachments.set(blobId, fileName);
+  }
+
+  const usedPaths = new Set<string>();
+  entries.forEach(entry => {
+    const notebookName = notebookNames.get(getEntryNotebookId(entry)) || notebookNames.get(DEFAULT_NOTEBOOK_ID) || '';
+    const folder = useFolders ? `${safeFolderName(notebookName)}/` : '';
+    const attachmentPath = (blobId: string) => {
+      const fileName = attachments.get(blobId);
+      return fileName ? `${useFolders ? '../' : ''}${ATTACHMENTS_FOLDER}/${fileName}` : null;
+    };
+
+    // Two entries written in the same minute get a counter instead of overwriting each other
+    let path = `${folder}${noteName(entry)}.md`;
+    for (let n = 2; usedPaths.has(path); n++) path = `${folder}${noteName(entry)} (${n}).md`;
+    usedPaths.add(path);
+
+    zip.file(path, entryToMarkdown(entry, notebookName, attachmentPath));
+  });
+
+  return await zip.generateAsync({ type: "blob" });
+};
+
+// --- Import ---
+
+// Parses the small YAML subset written above (scalars and lists). Unknown keys are kept but ignored.
+export const parseFrontmatter = (text: string): { fields: Record<string, any>, body: string } => {
+  const match = text.match(/^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/);
+  if (!match) return { fields: {}, body: text };
+
+  const parseScalar = (raw: string): any => {
+    const value = raw.trim();
+    if (value.startsWith('"')) {
+      try { return JSON.parse(value); } catch { return value.slice(1, -1); }
+    }
+    if (value.startsWith("'") && value.endsWith("'")) return value.slice(1, -1).replace(/''/g, "'");
+    if (value.startsWith('[') && value.endsWith(']')) {
+      return value.slice(1, -1).split(',').map(item => parseScalar(item)).filter(item => item !== '');
+    }
+    if (value === 'true' || value === 'false') return value === 'true';
+    if (value !== '' && !isNaN(Number(value))) return Number(value);
+    return value;
+  };
+
+  const fields: Record<string, any> = {};
+  let listKey: string | null = null;
+  match[1].split(/\r?\n/).forEach(line => {
+    const item = line.match(/^\s+-\s+(.*)$/);
+    if (item && listKey) {
+      fields[listKey].push(parseScalar(item[1]));
+      return;
+    }
+    const pair = line.match(/^([\w-]+):\s*(.*)$/);
+    if (!pair) return;
+    listKey = null;
+    if (pair[2].trim() === '') {
+      listKey = pair[1];
+      fields[listKey] = [];
+    } else {
+      fields[pair[1]] = parseScalar(pair[2]);
+    }
+  });
+  return { fields, body: text.slice(match[0].length) };
+};
+
+interface MediaLink {
+  label: string;
+  target: string;
+  title?: string;
+  isEmbed: boolean;
+}
+
+// Matches ![label](target "title"), [label](target "title") and Obsidian's ![[target]]
+const LINK_PATTERN = /(!?)\[([^\]]*)\]\(<?([^)\s>]+)>?(?:\s+"([^"]*)")?\)|!\[\[([^\]|]+)(?:\|[^\]]*)?\]\]/g;
+
+const findLinks = (text: string): MediaLink[] => {
+  const links: MediaLink[] = [];
+  for (const match of text.matchAll(LINK_PATTERN)) {
+    if (match[5]) {
+      links.push({ label: '', target: match[5], isEmbed: true });
+    } else {
+      links.push({ label: match[2], target: match[3], title: match[4], isEmbed: match[1] === '!' });
+    }
+  }
+  return links;
+};
+
+const mediaKind = (label: string, mimeType: string): JournalMedia['type'] | null => {
+  if (label === 'drawing' || label === 'image' || label === 'video' || label === 'audio') return label;
+  const prefix = mimeType.split('/')[0];
+  return prefix === 'image' || prefix === 'video' || prefix === 'audio' ? prefix : null;
+};
+
+const fileExtension = (path: string) => path.includes('.') ? path.slice(path.lastIndexOf('.') + 1) : '';
+const fileStem = (path: string) => {
+  const name = path.slice(path.lastIndexOf('/') + 1);
+  return name.includes('.') ? name.slice(0, name.lastIndexOf('.')) : name;
+};
+
+// Resolves a link relative to the note, falling back to a lookup by file name like Obsidian does
+const resolvePath = (notePath: string, target: string, files: Map<string, Blob>): string | null => {
+  let decoded: string;
+  try { decoded = decodeURIComponent(target); } catch { decoded = target; }
+  const segments = notePath.split('/').slice(0, -1);
+  decoded.split('/').forEach(segment => {
+    if (segment === '..') segments.pop();
+    else if (segment !== '.' && segment !== '') segments.push(segment);
+  });
+  const joined = segments.join('/');
+  if (files.has(joined)) return joined;
+  const name = decoded.slice(decoded.lastIndexOf('/') + 1);
+  for (const path of files.keys()) {
+    if (path === name || path.endsWith(`/${name}`)) return path;
+  }
+  return null;
+};
+
+// Strips a top-level folder shared by every file, e.g. the vault folder picked in the browser
+const normalizePaths = (files: Map<string, Blob>): Map<string, Blob> => {
+  const paths = Array.from(files.keys());
+  const first = paths[0]?.split('/')[0];
+  if (!first || !paths.every(p => p.startsWith(`${first}/`))) return files;
+  return new Map(Array.from(files.entries()).map(([path, blob]) => [path.slice(first.length + 1), blob] as const));
+};
+
+// Reads picked files into a path -> blob map, unpacking any ZIPs
+export const readSelectedFiles = async (selected: File[]): Promise<Map<string, Blob>> => {
+  const files = new Map<string, Blob>();
+  for (const file of selected) {
+    if (/\.zip$/i.test(file.name)) {
+      let zip: JSZip;
+      try {
+        zip = await JSZip.loadAsync(file);
+      } catch {
+        throw new ArchiveValidationError(`${file.name} is not a readable ZIP archive.`);
+      }
+      for (const [path, entry] of Object.entries(zip.files)) {
+        if (!entry.dir && !path.startsWith('__MACOSX/')) files.set(path, await entry.async("blob"));
+      }
+    } else {
+      files.set(file.webkitRelativePath || file.name, file);
+    }
+  }
+  return normalizePaths(files);
+};
+
+// Date and time from a file name such as "2024-03-01 08.30.md"; midday when there is no time
+export const dateFromFileName = (path: string): string | undefined => {
+  const match = fileStem(path).match(/^(\d{4})-(\d{2})-(\d{2})(?:[ T_](\d{2})[.:-]?(\d{2}))?/);
+  if (!match) return undefined;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]), Number(match[4] || 12), Number(match[5] || 0));
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+// "08:00" or a range like "08:00–09:30", which carries the block's duration
+const parseTimeCell = (cell: string): Pick<ScheduleBlock, 'time' | 'durationMinutes'> => {
+  const range = cell.match(/^(\d{1,2}):(\d{2})\s*[–-]\s*(\d{1,2}):(\d{2})$/);
+  if (!range) return { time: cell };
+  const [, h1, m1, h2, m2] = range.map(Number);
+  const minutes = (h2 * 60 + m2 - (h1 * 60 + m1) + 24 * 60) % (24 * 60);
+  return { time: `${pad(h1)}:${pad(m1)}`, durationMinutes: minutes || undefined };
+};
+
+const isDate = (value: any): value is string =>typeof value === 'string' && !isNaN(new Date(value).getTime());
+
+interface ParsedNote {
+  entry: JournalEntry;
+  blobs: Map<string, Blob>; // blobId -> typed blob the entry references
+}
+
+const parseNote = async (path: string, text: string, files: Map<string, Blob>, notebookIdByName: Map<string, string>): Promise<ParsedNote> => {
+  const { fields, body } = parseFrontmatter(text.replace(/^\uFEFF/, ''));
+  // Notes written by Lumina keep their ids, so their attachments can keep their blob ids too
+  const isLuminaNote = typeof fields.id === 'string' && fields.id !== '';
+  const blobs = new Map<string, Blob>();
+
+  const loadAttachment = (target: string, label: string): { blobId: string, mimeType: string, kind: JournalMedia['type'] } | null => {
+    const resolved = resolvePath(path, target, files);
+    if (!resolved || NOTE_EXTENSION.test(resolved)) return null;
+    const file = files.get(resolved)!;
+    const guessedKind = label === 'audio' || label === 'video' ? label : label === 'drawing' || label === 'image' ? 'image' : undefined;
+    const mimeType = file.type || mimeTypeForExtension(fileExtension(resolved), guessedKind);
+    const kind = mediaKind(label, mimeType);
+    if (!kind) return null;
+    const stem = fileStem(resolved);
+    const blobId = isLuminaNote && /^[\w-]+$/.test(stem) ? stem : uuidv4();
+    blobs.set(blobId, new Blob([file], { type: mimeType }));
+    return { blobId, mimeType, kind };
+  };
+
+  const markerIndex = body.indexOf(SECTIONS_MARKER);
+  const content = (markerIndex >= 0 ? body.slice(0, markerIndex) : body).trim();
+  const details = markerIndex >= 0 ? body.slice(markerIndex + SECTIONS_MARKER.length) : '';
+
+  const todos: TodoItem[] = [];
+  const schedule: ScheduleBlock[] = [];
+  const media: JournalMedia[] = [];
+  const quoteLines: string[] = [];
+  let reflectionImageId: string | undefined;
+  let section = '';
+  const now = new Date().toISOString();
+
+  for (const line of details.split(/\r?\n/)) {
+    const heading = line.match(/^##\s+(.*)$/);
+    if (heading) {
+      section = heading[1].trim().toLowerCase();
+      continue;
+    }
+    if (section === 'todos') {
+      const task = line.match(/^\s*[-*]\s+\[([ xX])\]\s+(.*)$/);
+      if (task) todos.push({ id: uuidv4(), text: task[2], isCompleted: task[1] !== ' ' });
+    } else if (section === 'schedule') {
+      const cells = line.match(/^\|(.*)\|\s*$/)?.[1].split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+      if (cells && cells.length >= 2 && !/^-+$/.test(cells[0]) && cells[0] !== 'Time') {
+        schedule.push({ id: uuidv4(), ...parseTimeCell(cells[0]), activity: cells.slice(1).join(' | ') });
+      }
+    } else if (section === 'reflection') {
+      const quote = line.match(/^>\s?(.*)$/);
+      if (quote) quoteLines.push(quote[1]);
+      findLinks(line).forEach(link => {
+        if (!link.isEmbed || reflectionImageId) return;
+        reflectionImageId = loadAttachment(link.target, 'image')?.blobId;
+      });
+    } else if (section === 'media') {
+      findLinks(line).forEach(link => {
+        if (/^https?:\/\//i.test(link.target)) {
+          const kind = mediaKind(link.label, '') || 'video';
+          media.push({ id: uuidv4(), type: kind, mimeType: `${kind}/external`, externalUrl: link.target, createdAt: now, altText: link.title });
+          return;
+        }
+        const attachment = link.isEmbed ? loadAttachment(link.target, link.label) : null;
+        if (attachment) {
+          media.push({ id: uuidv4(), type: attachment.kind, mimeType: attachment.mimeType, blobId: attachment.blobId, createdAt: now, altText: link.title });
+        }
+      });
+    }
+  }
+
+  // Notes from other tools may embed images in the text itself; those become media too
+  if (!isLuminaNote) {
+    findLinks(content).forEach(link => {
+      if (!link.isEmbed) return;
+      const attachment = loadAttachment(link.target, link.label);
+      if (attachment) media.push({ id: uuidv4(), type: attachment.kind, mimeType: attachment.mimeType, blobId: attachment.blobId, createdAt: now });
+    });
+  }
+
+  const createdAt = isDate(fields.created) ? new Date(fields.created).toISOString() : dateFromFileName(path) || now;
+  const keywords = Array.isArray(fields.keywords) ? fields.keywords.map(String) : undefined;
+  const moodScore = typeof fields.mood_score === 'number' ? fields.mood_score : undefined;
+  const entry: JournalEntry = {
+    id: isLuminaNote ? fields.id : uuidv4(),
+    content,
+    createdAt,
+    updatedAt: isDate(fields.updated) ? new Date(fields.updated).toISOString() : createdAt,
+    notebookId: typeof fields.notebook === 'string' ? notebookIdByName.get(fields.notebook) : undefined,
+    isAnalyzed: typeof fields.analyzed === 'boolean' ? fields.analyzed : moodScore !== undefined,
+    analysisSource: fields.analysis_source === 'local' || fields.analysis_source === 'ai' ? fields.analysis_source : undefined,
+    moodScore,
+    moodLabel: typeof fields.mood_label === 'string' ? fields.mood_label : undefined,
+    moodEmoji: typeof fields.mood_emoji === 'string' ? fields.mood_emoji : undefined,
+    moodColor: typeof fields.mood_color === 'string' ? fields.mood_color : undefined,
+    keywords,
+    summary: typeof fields.summary === 'string' ? fields.summary : undefined,
+    reflectionQuestion: typeof fields.reflection_question === 'string' ? fields.reflection_question : undefined,
+    reflection: reflectionImageId ? {
+      quote: quoteLines.join('\n'),
+      imageUrl: await blobToBase64(blobs.get(reflectionImageId)!),
+      imageId: reflectionImageId
+    } : undefined,
+    media: media.length > 0 ? media : undefined,
+    todos: todos.length > 0 ? todos : undefined,
+    schedule: schedule.length > 0 ? schedule : undefined
+  };
+  if (entry.notebookId === DEFAULT_NOTEBOOK_ID) delete entry.notebookId;
+  return { entry, blobs };
+};
+
+export interface MarkdownImportSummary extends MergeSummary {
+  trashed: number; // Notes for entries in the trash; counted in skipped and left in the trash
+}
+
+// Imports a Markdown vault, given as the files of a picked folder or as a ZIP. Notes exported by
+// Lumina are matched by id and only replace an entry when they are newer; other notes become new
+// entries. Notebooks named in the frontmatter are created when missing.
+export const importMarkdownVault = async (selected: File[]): Promise<MarkdownImportSummary> => {
+  const files = await readSelectedFiles(selected);
+  const notePaths = Array.from(files.keys()).filter(path => NOTE_EXTENSION.test(path) && !path.startsWith('.obsidian/'));
+  if (notePaths.length === 0) throw new ArchiveValidationError("No Markdown notes were found in the selection.");
+
+  const notebooks = await getNotebooks();
+  const notebookIdByName = new Map(notebooks.map(n => [n.name, n.id] as const));
+  const newNotebooks: Notebook[] = [];
+
+  const parsed: ParsedNote[] = [];
+  const problems: string[] = [];
+  for (const path of notePaths) {
+    const text = await files.get(path)!.text();
+    const notebookName = parseFrontmatter(text).fields.notebook;
+    if (typeof notebookName === 'string' && notebookName && !notebookIdByName.has(notebookName)) {
+      const notebook: Notebook = { id: uuidv4(), name: notebookName, color: '#64748b', createdAt: new Date().toISOString() };
+      notebookIdByName.set(notebookName, notebook.id);
+      newNotebooks.push(notebook);
+    }
+    const note = await parseNote(path, text, files, notebookIdByName);
+    validateEntry(note.entry).forEach(problem => problems.push(`${path}: ${problem}`));
+    parsed.push(note);
+  }
+  if (problems.length > 0) {
+    throw new ArchiveValidationError(`${problems.length} note${problems.length === 1 ? '' : 's'} could not be read. Nothing was imported.`, problems);
+  }
+
+  // Trashed entries count too, so an import does not resurrect what the user deleted
+  const localById = new Map((await getStoredEntries()).map(e => [e.id, e] as const));
+  const trashed = parsed.filter(({ entry }) => localById.get(entry.id)?.deletedAt).length;
+  const toSave = parsed.filter(({ entry }) => {
+    const local = localById.get(entry.id);
+    if (local?.deletedAt) return false;
+    return !local || new Date(entry.updatedAt).getTime() > new Date(local.updatedAt).getTime();
+  });
+
+  // Media first, so no imported entry ever points at a blob that is not stored yet
+  for (const { blobs } of toSave) {
+    for (const [blobId, blob] of blobs) await saveMediaBlob(blobId, blob);
+  }
+  const usedNotebookIds = new Set(toSave.map(({ entry }) => entry.notebookId));
+  for (const notebook of newNotebooks) {
+    if (usedNotebookIds.has(notebook.id)) await saveNotebook(notebook);
+  }
+  await saveEntries(toSave.map(({ entry }) => entry));
+
+  const updated = toSave.filter(({ entry }) => localById.has(entry.id)).length;
+  return { added: toSave.length - updated, updated, skipped: parsed.length - toSave.length, trashed };
+};
@@ -0,0 +1,160 @@
+import { AIError, AIAuthError, AIOfflineError, AIQuotaError, AIResponseError, AISafetyError, AIServiceError } from "./aiErrors";
+import type { AIProvider, AISettings, JsonTask } from "./aiProvider";
+import { createJournalTasks } from "./aiPrompts";
+import { createRateLimiter, errorForStatus, parseRetryAfter, runAIRequest } from "./aiRequest";
+
+// --- OpenAI-Compatible Provider ---
+// Talks to any server with the OpenAI HTTP API: OpenAI itself, or a local model served by Ollama
+// (http://localhost:11434/v1) or llama.cpp (http://localhost:8080/v1). Local servers often ignore or
+// reject structured output, so the schema is also spelled out in the system prompt and the answer
+// is read leniently. Image generation and transcription need models of their own and stay off
+// until one is set.
+
+const LABEL = 'The AI server';
+// Shared by every provider instance, so changing a setting does not reset the count
+const limiter = createRateLimiter(30);
+// A local model on a laptop can take minutes over a long journal history
+const CHAT_TIMEOUT_MS = 180_000;
+
+const base64ToBlob = (base64: string, mimeType: string): Blob => {
+  const bytes = Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+  return new Blob([bytes], { type: mimeType });
+};
+
+// Local models like to wrap JSON in a code fence or a sentence; take the outermost object
+const extractJson = (text: string): any => {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  try {
+    if (start >= 0 && end > start) return JSON.parse(text.slice(start, end + 1));
+  } catch {
+    // Reported below like a missing object
+  }
+  throw new AIResponseError("The model did not answer with valid JSON. Try again, or choose a model that supports JSON output.");
+};
+
+// OpenAI reports the reason in error.code; local servers usually send only a status
+const toOpenAIError = (status: number, detail: string, retryAfterMs?: number): AIError => {
+  let code = '';
+  try {
+    code = JSON.parse(detail).error?.code || '';
+  } catch {
+    // Not JSON; the status alone decides
+  }
+  if (code === 'invalid_api_key') return new AIAuthError(`${LABEL} did not accept the API key. Check it in Settings.`);
+  if (code === 'insufficient_quota') return new AIQuotaError("Your OpenAI quota is used up. Check your plan and billing details.", undefined, true);
+  if (code === 'content_policy_violation' || code === 'content_filter') {
+    return new AISafetyError(`${LABEL} declined this request because of its content policy.`);
+  }
+  return errorForStatus(status, LABEL, retryAfterMs);
+};
+
+export const createOpenAICompatibleProvider = (settings: AISettings['openai']): AIProvider => {
+  const baseUrl = settings.baseUrl.replace(/\/+$/, '');
+
+  const request = (path: string, init: RequestInit = {}, timeoutMs?: number): Promise<any> => runAIRequest(async signal => {
+    const headers = new Headers(init.headers);
+    if (settings.apiKey) headers.set('Authorization', `Bearer ${settings.apiKey}`);
+    if (typeof init.body === 'string') headers.set('Content-Type', 'application/json');
+
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}${path}`, { ...init, headers, signal });
+    } catch (error) {
+      if (signal.aborted) throw error; // The timeout already reported it
+      throw new AIOfflineError(`Could not reach ${baseUrl}. Check that the server is running and allows requests from this page (CORS).`);
+    }
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      console.error(`${baseUrl}${path} answered ${response.status}`, detail.slice(0, 300));
+      throw toOpenAIError(response.status, detail, parseRetryAfter(response.headers.get('Retry-After')));
+    }
+    return response.json();
+  }, { label: LABEL, limiter, timeoutMs });
+
+  const chat = (task: JsonTask, structured: boolean) => request('/chat/completions', {
+    method: 'POST',
+    body: JSON.stringify({
+      model: settings.model,
+      messages: [
+        { role: 'system', content: `${task.system.trim()}\nAnswer with a single JSON object that follows this JSON schema:\n${JSON.stringify(task.schema)}` },
+        { role: 'user', content: task.prompt }
+      ],
+      ...(structured && { response_format: { type: 'json_schema', json_schema: { name: task.name, schema: task.schema } } })
+    })
+  }, CHAT_TIMEOUT_MS);
+
+  const generateJson = async <T>(task: JsonTask): Promise<T> => {
+    try {
+      let response;
+      try {
+        response = await chat(task, true);
+      } catch (error) {
+        // Servers without structured output answer 400; the schema in the prompt still applies
+        if (!(error instanceof AIServiceError) || error.status !== 400) throw error;
+        response = await chat(task, false);
+      }
+      const choice = response.choices?.[0];
+      if (choice?.finish_reason === 'content_filter' || choice?.message?.refusal) {
+        throw new AISafetyError(`${LABEL} declined to answer because of its content policy.`);
+      }
+      return extractJson(choice?.message?.content || '');
+    } catch (error) {
+      console.error(`OpenAI-compatible ${task.name} error:`, error);
+      throw error;
+    }
+  };
+
+  const generateImage = async (prompt: string): Promise<string> => {
+    const response = await request('/images/generations', {
+      method: 'POST',
+      body: JSON.stringify({ model: settings.imageModel, prompt, n: 1, size: '1024x1024' })
+    }, 120_000);
+    const image = response.data?.[0];
+    if (image?.b64_json) return image.b64_json;
+    if (image?.url) {
+      const blob = await (await fetch(image.url)).blob();
+      const dataUrl = await new Promise<string>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onloadend = () => resolve(reader.result as string);
+        reader.onerror = reject;
+        reader.readAsDataURL(blob);
+      });
+      return dataUrl.split(',')[1];
+    }
+    throw new Error("No image generated");
+  };
+
+  const transcribeAudio = async (audioBase64: string, mimeType: string): Promise<string> => {
+    const form = new FormData();
+    const extension = mimeType.split('/')[1]?.split(';')[0] || 'wav';
+    form.append('file', base64ToBlob(audioBase64, mimeType), `recording.${extension}`);
+    form.append('model', settings.transcriptionModel);
+    try {
+      const response = await request('/audio/transcriptions', { method: 'POST', body: form }, 120_000);
+      return response.text || "";
+    } catch (error) {
+      console.error("Transcription failed", error);
+      throw error instanceof AIError ? error : new Error("Failed to transcribe audio.");
+    }
+  };
+
+  const checkConnection = async () => {
+    const response = await request('/models');
+    const models: string[] = (response.data || []).map((m: { id: string }) => m.id);
+    // Ollama lists models with their tag, so "llama3.1" is served as "llama3.1:latest"
+    if (models.length > 0 && !models.includes(settings.model) && !models.includes(`${settings.model}:latest`)) {
+      throw new Error(`The server does not have the model "${settings.model}". Available: ${models.slice(0, 10).join(', ')}`);
+    }
+  };
+
+  return {
+    id: 'openai-compatible',
+    configured: !!baseUrl && !!settings.model,
+    capabilities: { transcription: !!settings.transcriptionModel, images: !!settings.imageModel, video: false },
+    ...createJournalTasks(generateJson, generateImage),
+    transcribeAudio,
+    generateImage,
+    checkConnection
+  };
+};
@@ -0,0 +1,169 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { JournalEntry } from '../types';
+
+// The stand-in folder handles carry methods, which IndexedDB cannot store, so the handles store
+// is kept in memory
+const handles = vi.hoisted(() => new Map<IDBValidKey, unknown>());
+
+vi.mock('./db', async importOriginal => {
+  const db = await importOriginal<typeof import('./db')>();
+  return {
+    ...db,
+    getRecord: (async (store: string, key: IDBValidKey) =>
+      store === db.HANDLES_STORE ? handles.get(key) ?? null : db.getRecord(store, key)) as typeof db.getRecord,
+    putRecord: async (store: string, value: any, key?: IDBValidKey) =>
+      store === db.HANDLES_STORE ? void handles.set(key!, value) : db.putRecord(store, value, key),
+    deleteRecord: async (store: string, key: IDBValidKey) =>
+      store === db.HANDLES_STORE ? void handles.delete(key) : db.deleteRecord(store, key)
+  };
+});
+
+const notFound = (name: string) => new DOMException(`${name} was not found`, 'NotFoundError');
+
+// An in-memory folder with the parts of the File System Access API the backups use
+class MemoryFolder {
+  readonly kind = 'directory';
+  readonly entries = new Map<string, File | MemoryFolder>();
+
+  constructor(readonly name: string) {}
+
+  async getDirectoryHandle(name: string, options: { create?: boolean } = {}) {
+    let folder = this.entries.get(name);
+    if (!folder) {
+      if (!options.create) throw notFound(name);
+      folder = new MemoryFolder(name);
+      this.entries.set(name, folder);
+    }
+    return folder;
+  }
+
+  async getFileHandle(name: string, options: { create?: boolean } = {}) {
+    if (!this.entries.has(name)) {
+      if (!options.create) throw notFound(name);
+      this.entries.set(name, new File([], name));
+    }
+    return {
+      kind: 'file',
+      name,
+      getFile: async () => this.entries.get(name) as File,
+      createWritable: async () => {
+        const parts: BlobPart[] = [];
+        return {
+          write: async (data: BlobPart) => void parts.push(data),
+          close: async () => void this.entries.set(name, new File(parts, name)),
+          abort: async () => undefined
+        };
+      }
+    };
+  }
+
+  async removeEntry(name: string) {
+    if (!this.entries.delete(name)) throw notFound(name);
+  }
+
+  async *keys() {
+    yield* Array.from(this.entries.keys());
+  }
+
+  async queryPermission() {
+    return 'granted';
+  }
+
+  async requestPermission() {
+    return 'granted';
+  }
+}
+
+const makeEntry = (id: string, content: string, blobIds: string[] = []): JournalEntry => ({
+  id,
+  content,
+  createdAt: '2024-03-01T09:00:00.000Z',
+  updatedAt: new Date().toISOString(),
+  isAnalyzed: false,
+  media: blobIds.map(blobId => ({ id: `media-${blobId}`, type: 'image', mimeType: 'image/png', blobId, createdAt: '2024-03-01T09:00:00.000Z' }))
+});
+
+const archiveNames = (folder: MemoryFolder) => Array.from(folder.entries.keys()).filter(name => name.endsWith('.zip')).sort();
+
+const mediaNames = (folder: MemoryFolder) => Array.from((folder.entries.get('media') as MemoryFolder).entries.keys()).sort();
+
+describe('scheduled folder backups', () => {
+  let folder: MemoryFolder;
+
+  beforeEach(() => {
+    handles.clear();
+    folder = new MemoryFolder('Backups');
+    vi.stubGlobal('showDirectoryPicker', async () => folder);
+    // Archive names have one-second resolution
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-03-01T09:00:00.000Z'));
+    return () => {
+      vi.useRealTimers();
+      vi.unstubAllGlobals();
+      vi.restoreAllMocks();
+    };
+  });
+
+  const load = async (keep: number) => {
+    const backups = await import('./scheduledBackup');
+    const storage = await import('./storage');
+    const db = await import('./db');
+    backups.setBackupSchedule({ frequency: 'daily', keep });
+    return { backups, storage, db };
+  };
+
+  const nextDay = () => vi.setSystemTime(new Date(Date.now() + 24 * 60 * 60 * 1000));
+
+  it('keeps the newest archives and removes media only the dropped ones used', async () => {
+    const { backups, storage, db } = await load(2);
+    await db.saveMediaBlob('m1', new Blob(['first photo'], { type: 'image/png' }));
+    await storage.saveEntry(makeEntry('a', 'With a photo', ['m1']));
+    await backups.chooseBackupFolder();
+
+    nextDay();
+    await db.saveMediaBlob('m2', new Blob(['second photo'], { type: 'image/png' }));
+    await storage.saveEntry(makeEntry('a', 'With another photo', ['m2']));
+    await backups.runFolderBackup();
+    expect(mediaNames(folder)).toEqual(['m1', 'm2']);
+
+    nextDay();
+    await backups.runFolderBackup();
+
+    expect(backups.getScheduledBackupStatus().phase).toBe('idle');
+    expect(archiveNames(folder)).toEqual(['lumina_backup_2024-03-02T09-00-00.zip', 'lumina_backup_2024-03-03T09-00-00.zip']);
+    expect(mediaNames(folder)).toEqual(['m2']);
+    expect(Object.keys(JSON.parse(await (folder.entries.get('lumina_media_index.json') as File).text()))).toEqual(['m2']);
+  });
+
+  it('skips rotation when the new archive has fewer entries than the one before', async () => {
+    const { backups, storage } = await load(1);
+    await storage.saveEntries([makeEntry('a', 'One'), makeEntry('b', 'Two')]);
+    await backups.chooseBackupFolder();
+
+    nextDay();
+    await storage.deleteEntry('b');
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    await backups.runFolderBackup();
+
+    expect(backups.getScheduledBackupStatus().phase).toBe('idle');
+    expect(archiveNames(folder)).toEqual(['lumina_backup_2024-03-01T09-00-00.zip', 'lumina_backup_2024-03-02T09-00-00.zip']);
+    expect(backups.getScheduledBackupStatus().lastBackupAt).toBe('2024-03-02T09:00:00.000Z');
+  });
+
+  it('fails without touching older archives when the entries cannot be read', async () => {
+    const { backups, storage } = await load(1);
+    const vault = await import('./vault');
+    await storage.enableVault('correct horse');
+    await storage.saveEntry(makeEntry('a', 'Sealed'));
+    await backups.chooseBackupFolder();
+
+    nextDay();
+    vault.lockVault();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    await backups.runFolderBackup();
+
+    expect(backups.getScheduledBackupStatus().phase).toBe('error');
+    expect(archiveNames(folder)).toEqual(['lumina_backup_2024-03-01T09-00-00.zip']);
+    expect(backups.getScheduledBackupStatus().lastBackupAt).toBe('2024-03-01T09:00:00.000Z');
+  });
+});
@@ -0,0 +1,409 @@
+import { getMediaBlob, getRecord, putRecord, deleteRecord, HANDLES_STORE } from './db';
+import { ArchiveBlobInfo, ArchiveManifest, MANIFEST_FILE, sha256Hex } from './archive';
+import { exportBackupWithoutMedia } from './backup';
+import { createZipWriter, openZip } from './zipStream';
+
+// --- Scheduled Folder Backups ---
+// Writes a full backup into a folder the user granted through the File System Access API:
+//   lumina_backup_<timestamp>.zip - journal data and manifest; the newest `keep` archives are kept
+//   media/<blobId>                - each media file, copied once and shared by every archive
+//   lumina_media_index.json       - checksums of the copied media, so unchanged files are never re-read
+// Media no kept archive refers to is removed after rotation. loadFolderBackup() puts an archive and
+// its media back together into an ordinary archive for the normal import flow.
+// Browsers without folder access get a reminder to download a backup instead.
+
+const SCHEDULE_KEY = 'lumina_backup_schedule';
+const STATE_KEY = 'lumina_backup_state';
+const FOLDER_HANDLE_KEY = 'backupFolder';
+const MEDIA_FOLDER = 'media';
+const MEDIA_INDEX_FILE = 'lumina_media_index.json';
+const BACKUP_LOCK = 'lumina-folder-backup';
+const ARCHIVE_PATTERN = /^lumina_backup_[\dT-]+\.zip$/;
+const CHECK_INTERVAL_MS = 60 * 60 * 1000;
+const REMINDER_SNOOZE_MS = 24 * 60 * 60 * 1000;
+
+export type BackupFrequency = 'off' | 'daily' | 'weekly';
+
+export const BACKUP_INTERVALS_MS: Record<Exclude<BackupFrequency, 'off'>, number> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000
+};
+
+export interface BackupSchedule {
+  frequency: BackupFrequency;
+  keep: number; // Number of archives kept in the folder
+}
+
+interface BackupState {
+  lastBackupAt?: string; // Folder backup or full archive download, whichever was later
+  reminderSnoozedUntil?: string;
+}
+
+export type BackupPhase = 'unsupported' | 'no-folder' | 'needs-permission' | 'idle' | 'running' | 'error';
+
+export interface ScheduledBackupStatus {
+  phase: BackupPhase;
+  folderName?: string;
+  lastBackupAt?: string;
+  error?: string;
+}
+
+export interface FolderBackup {
+  name: string;
+  createdAt: string;
+}
+
+// Parts of the File System Access API that TypeScript's DOM library does not declare yet
+interface BackupFolderHandle extends FileSystemDirectoryHandle {
+  queryPermission(descriptor: { mode: 'readwrite' }): Promise<PermissionState>;
+  requestPermission(descriptor: { mode: 'readwrite' }): Promise<PermissionState>;
+  keys(): AsyncIterableIterator<string>;
+}
+
+interface DirectoryPickerWindow extends Window {
+  showDirectoryPicker?: (options: { id?: string, mode: 'readwrite' }) => Promise<BackupFolderHandle>;
+}
+
+type MediaIndex = Record<string, ArchiveBlobInfo>;
+
+export const supportsFolderBackups = (): boolean => typeof window !== 'undefined' && 'showDirectoryPicker' in window;
+
+// --- Schedule & State ---
+
+const DEFAULT_SCHEDULE: BackupSchedule = { frequency: 'weekly', keep: 5 };
+
+export const getBackupSchedule = (): BackupSchedule => {
+  try {
+    const data = localStorage.getItem(SCHEDULE_KEY);
+    if (data) return { ...DEFAULT_SCHEDULE, ...JSON.parse(data) };
+  } catch {
+    // Fall back to the default schedule
+  }
+  return DEFAULT_SCHEDULE;
+};
+
+export const setBackupSchedule = (schedule: BackupSchedule): void => {
+  localStorage.setItem(SCHEDULE_KEY, JSON.stringify({ ...schedule, keep: Math.max(1, Math.round(schedule.keep)) }));
+};
+
+const getState = (): BackupState => {
+  try {
+    const data = localStorage.getItem(STATE_KEY);
+    return data ? JSON.parse(data) : {};
+  } catch {
+    return {};
+  }
+};
+
+const setState = (changes: Partial<BackupState>) => {
+  localStorage.setItem(STATE_KEY, JSON.stringify({ ...getState(), ...changes }));
+};
+
+// Call after the user downloaded a full archive, so reminders and the indicator count it
+export const recordBackup = (at: string = new Date().toISOString()): void => {
+  setState({ lastBackupAt: at });
+  updateStatus({ lastBackupAt: at });
+};
+
+export const isBackupDue = (now: number = Date.now()): boolean => {
+  const { frequency } = getBackupSchedule();
+  if (frequency === 'off') return false;
+  const { lastBackupAt } = getState();
+  return !lastBackupAt || now - new Date(lastBackupAt).getTime() >= BACKUP_INTERVALS_MS[frequency];
+};
+
+// The fallback for browsers that cannot write to a folder: a reminder once a backup is overdue
+export const shouldShowBackupReminder = (hasEntries: boolean): boolean => {
+  if (supportsFolderBackups() || !hasEntries || !isBackupDue()) return false;
+  const { reminderSnoozedUntil } = getState();
+  return !reminderSnoozedUntil || new Date(reminderSnoozedUntil).getTime() <= Date.now();
+};
+
+export const snoozeBackupReminder = (): void => {
+  setState({ reminderSnoozedUntil: new Date(Date.now() + REMINDER_SNOOZE_MS).toISOString() });
+};
+
+// --- Status ---
+
+type StatusListener = (status: ScheduledBackupStatus) => void;
+
+let status: ScheduledBackupStatus = {
+  phase: supportsFolderBackups() ? 'no-folder' : 'unsupported',
+  lastBackupAt: getState().lastBackupAt
+};
+const statusListeners = new Set<StatusListener>();
+
+const updateStatus = (changes: Partial<ScheduledBackupStatus>) => {
+  status = { ...status, ...changes };
+  statusListeners.forEach(listener => listener(status));
+};
+
+export const getScheduledBackupStatus = (): ScheduledBackupStatus => status;
+
+export const subscribeToScheduledBackup = (listener: StatusListener): (() => void) => {
+  statusListeners.add(listener);
+  return () => {
+    statusListeners.delete(listener);
+  };
+};
+
+// --- Folder Access ---
+
+const getFolderHandle = (): Promise<BackupFolderHandle | null> => getRecord<BackupFolderHandle>(HANDLES_STORE, FOLDER_HANDLE_KEY);
+
+// Checks the stored folder and permission without prompting, and publishes the result
+const refreshFolderStatus = async (): Promise<BackupFolderHandle | null> => {
+  if (!supportsFolderBackups()) return null;
+  const folder = await getFolderHandle();
+  if (!folder) {
+    updateStatus({ phase: 'no-folder', folderName: undefined });
+    return null;
+  }
+  const permission = await folder.queryPermission({ mode: 'readwrite' });
+  if (permission !== 'granted') {
+    updateStatus({ phase: 'needs-permission', folderName: folder.name });
+    return null;
+  }
+  if (status.phase !== 'running' && status.phase !== 'error') updateStatus({ phase: 'idle', folderName: folder.name });
+  return folder;
+};
+
+// Must be called from a click handler: the browser only shows the picker for a user gesture
+export const chooseBackupFolder = async (): Promise<void> => {
+  const pickerWindow = window as DirectoryPickerWindow;
+  if (!pickerWindow.showDirectoryPicker) throw new Error("This browser cannot back up to a folder.");
+  const folder = await pickerWindow.showDirectoryPicker({ id: 'lumina-backups', mode: 'readwrite' });
+  await putRecord(HANDLES_STORE, folder, FOLDER_HANDLE_KEY);
+  updateStatus({ phase: 'idle', folderName: folder.name, error: undefined });
+  await runFolderBackup();
+};
+
+// Browsers forget folder permissions between sessions; asking again also needs a user gesture
+export const reconnectBackupFolder = async (): Promise<void> => {
+  const folder = await getFolderHandle();
+  if (!folder) return;
+  if (await folder.requestPermission({ mode: 'readwrite' }) === 'granted') {
+    updateStatus({ phase: 'idle', error: undefined });
+    if (isBackupDue()) await runFolderBackup();
+  }
+};
+
+export const forgetBackupFolder = async (): Promise<void> => {
+  await deleteRecord(HANDLES_STORE, FOLDER_HANDLE_KEY);
+  updateStatus({ phase: 'no-folder', folderName: undefined, error: undefined });
+};
+
+// --- File Helpers ---
+
+const getFileIfExists = async (folder: FileSystemDirectoryHandle, name: string): Promise<File | null> => {
+  try {
+    return await (await folder.getFileHandle(name)).getFile();
+  } catch (e) {
+    if (e instanceof DOMException && e.name === 'NotFoundError') return null;
+    throw e;
+  }
+};
+
+// createWritable() writes to a temporary file that only replaces the target on close()
+const writeFile = async (folder: FileSystemDirectoryHandle, name: string, data: Blob | string): Promise<void> => {
+  const writable = await (await folder.getFileHandle(name, { create: true })).createWritable();
+  try {
+    await writable.write(data);
+    await writable.close();
+  } catch (e) {
+    await writable.abort().catch(() => undefined);
+    throw e;
+  }
+};
+
+const listNames = async (folder: BackupFolderHandle): Promise<string[]> => {
+  const names: string[] = [];
+  for await (const name of folder.keys()) names.push(name);
+  return names;
+};
+
+const readMediaIndex = async (folder: FileSystemDirectoryHandle): Promise<MediaIndex> => {
+  const file = await getFileIfExists(folder, MEDIA_INDEX_FILE);
+  if (!file) return {};
+  try {
+    return JSON.parse(await file.text());
+  } catch {
+    return {}; // Rebuilt below: every media file is checked again
+  }
+};
+
+const readManifest = async (archive: File): Promise<ArchiveManifest> => {
+  const zip = await openZip(archive);
+  const manifestEntry = zip.entries.get(MANIFEST_FILE);
+  if (!manifestEntry) throw new Error(`${archive.name} has no manifest`);
+  return JSON.parse(await (await zip.read(manifestEntry)).text());
+};
+
+// True when the new archive holds fewer entries than the previous one. An unreadable previous
+// archive cannot be compared, so only an empty new archive counts then.
+const hasFewerEntries = async (folder: BackupFolderHandle, archive: File, previousName: string | undefined): Promise<boolean> => {
+  const { entryCount } = await readManifest(archive);
+  if (!previousName) return false;
+  try {
+    const previous = await readManifest(await (await folder.getFileHandle(previousName)).getFile());
+    return entryCount < previous.entryCount;
+  } catch (e) {
+    console.error(`Could not read ${previousName} to compare entry counts`, e);
+    return entryCount === 0;
+  }
+};
+
+const archiveName = (date: Date) => `lumina_backup_${date.toISOString().replace(/:/g, '-').replace(/\.\d+Z$/, '')}.zip`;
+
+const archiveDate = (name: string): string => {
+  const stamp = name.replace(/^lumina_backup_/, '').replace(/\.zip$/, '');
+  const [day, time = ''] = stamp.split('T');
+  return new Date(`${day}T${time.replace(/-/g, ':')}Z`).toISOString();
+};
+
+// --- Backup ---
+
+const backupToFolder = async (folder: BackupFolderHandle): Promise<string> => {
+  const schedule = getBackupSchedule();
+  const mediaFolder = await folder.getDirectoryHandle(MEDIA_FOLDER, { create: true });
+  const mediaIndex = await readMediaIndex(folder);
+
+  // 1. Copy media that is not in the folder yet; files already there are trusted by size
+  const archive = await exportBackupWithoutMedia(async (id, mimeType) => {
+    const known = mediaIndex[id];
+    if (known) {
+      const existing = await getFileIfExists(mediaFolder, id);
+      if (existing && existing.size === known.size) return known;
+    }
+    const blob = await getMediaBlob(id);
+    if (!blob) return null;
+    await writeFile(mediaFolder, id, blob);
+    mediaIndex[id] = { sha256: await sha256Hex(blob), mimeType: mimeType || blob.type || 'application/octet-stream', size: blob.size };
+    return mediaIndex[id];
+  });
+
+  // 2. The archive itself, written after its media so it never refers to files that are not there
+  const now = new Date();
+  const name = archiveName(now);
+  await writeFile(folder, name, archive);
+
+  // 3. Rotation: drop the oldest archives, then media none of the remaining ones uses
+  const archives = (await listNames(folder)).filter(n => ARCHIVE_PATTERN.test(n)).sort().reverse();
+  if (await hasFewerEntries(folder, new File([archive], name), archives.find(n => n !== name))) {
+    // Possibly a journal that failed to load; keep every older backup until the count holds up
+    console.warn(`${name} has fewer entries than the backup before it; skipping rotation`);
+    await writeFile(folder, MEDIA_INDEX_FILE, JSON.stringify(mediaIndex));
+    recordBackup(now.toISOString());
+    return name;
+  }
+  for (const old of archives.slice(schedule.keep)) {
+    await folder.removeEntry(old);
+  }
+
+  const usedBlobs = new Set<string>();
+  let manifestsReadable = true;
+  for (const kept of archives.slice(0, schedule.keep)) {
+    try {
+      const manifest = await readManifest(await (await folder.getFileHandle(kept)).getFile());
+      Object.keys(manifest.blobs || {}).forEach(id => usedBlobs.add(id));
+    } catch (e) {
+      // Without every manifest we cannot tell which media is unused, so keep all of it
+      console.error(`Could not read ${kept}; skipping media cleanup`, e);
+      manifestsReadable = false;
+    }
+  }
+  if (manifestsReadable) {
+    for (const id of await listNames(mediaFolder as BackupFolderHandle)) {
+      if (usedBlobs.has(id)) continue;
+      await mediaFolder.removeEntry(id);
+      delete mediaIndex[id];
+    }
+  }
+  await writeFile(folder, MEDIA_INDEX_FILE, JSON.stringify(mediaIndex));
+
+  recordBackup(now.toISOString());
+  return name;
+};
+
+let activeBackup: Promise<void> | null = null;
+
+// Shares the run already in progress in this tab, if any. Tabs take turns through a lock so two
+// never write to the folder at once; with onlyIfDue a run that waited for another tab's backup
+// does nothing, since that one already counts.
+const startFolderBackup = (onlyIfDue: boolean): Promise<void> => {
+  if (activeBackup) return activeBackup;
+
+  const run = async () => {
+    if (onlyIfDue && !isBackupDue()) return;
+    const folder = await refreshFolderStatus();
+    if (!folder) return;
+    updateStatus({ phase: 'running', error: undefined });
+    try {
+      await backupToFolder(folder);
+      updateStatus({ phase: 'idle' });
+    } catch (e) {
+      console.error("Scheduled backup failed", e);
+      if (e instanceof DOMException && e.name === 'NotAllowedError') {
+        updateStatus({ phase: 'needs-permission' });
+      } else if (e instanceof DOMException && e.name === 'NotFoundError') {
+        updateStatus({ phase: 'error', error: "The backup folder could not be found. It may have been moved or deleted." });
+      } else if (e instanceof DOMException && e.name === 'QuotaExceededError') {
+        updateStatus({ phase: 'error', error: "The disk holding the backup folder is full." });
+      } else {
+        updateStatus({ phase: 'error', error: "The backup could not be written. Please try again." });
+      }
+    }
+  };
+  activeBackup = (navigator.locks ? navigator.locks.request(BACKUP_LOCK, run) : run()).finally(() => {
+    activeBackup = null;
+  });
+  return activeBackup;
+};
+
+// Backs up now, whatever the schedule says
+export const runFolderBackup = (): Promise<void> => startFolderBackup(false);
+
+// Runs a folder backup whenever one is due. Returns a function that stops the checks.
+export const startBackupScheduler = (): (() => void) => {
+  const tick = async () => {
+    const folder = await refreshFolderStatus().catch(() => null);
+    if (folder && isBackupDue()) startFolderBackup(true);
+  };
+  tick();
+  const timer = window.setInterval(tick, CHECK_INTERVAL_MS);
+  return () => window.clearInterval(timer);
+};
+
+// --- Restore ---
+
+export const listFolderBackups = async (): Promise<FolderBackup[]> => {
+  const folder = await refreshFolderStatus();
+  if (!folder) return [];
+  return (await listNames(folder))
+    .filter(name => ARCHIVE_PATTERN.test(name))
+    .sort()
+    .reverse()
+    .map(name => ({ name, createdAt: archiveDate(name) }));
+};
+
+// Adds the folder's media back into the archive, giving an ordinary archive that the regular
+// import checks against its manifest. Missing media is left out and reported by that validation.
+export const loadFolderBackup = async (name: string): Promise<File> => {
+  const folder = await refreshFolderStatus();
+  if (!folder) throw new Error("The backup folder is not available.");
+  const archive = await (await folder.getFileHandle(name)).getFile();
+  const manifest = await readManifest(archive);
+  const source = await openZip(archive);
+  const zip = createZipWriter();
+  for (const entry of source.entries.values()) {
+    await zip.addFile(entry.name, await source.read(entry));
+  }
+
+  // The archive refers to the media files in the folder rather than copying them
+  const mediaFolder = await folder.getDirectoryHandle(MEDIA_FOLDER, { create: true });
+  for (const id of Object.keys(manifest.blobs || {})) {
+    const file = await getFileIfExists(mediaFolder, id);
+    if (file) await zip.addFile(`${MEDIA_FOLDER}/${id}`, file);
+  }
+  return new File([zip.finish()], name, { type: 'application/zip' });
+};
@@ -1,195 +1,500 @@
 
-import { JournalEntry, PatternAnalysis, LifeJourneyAnalysis, DailyGuidance } from '../types';
-import JSZip from 'jszip';
-import { getMediaBlob, saveMediaBlob } from './db';
-
-const STORAGE_KEY = 'lumina_journal_entries';
-const ANALYSIS_KEY = 'lumina_pattern_analysis';
-const JOURNEY_REPORT_KEY = 'lumina_journey_report';
-const GUIDANCE_KEY = 'lumina_daily_guidance';
-const DRAFT_KEY = 'lumina_current_draft';
-
-export const saveEntry = (entry: JournalEntry): void => {
-  const entries = getEntries();
-  const existingIndex = entries.findIndex(e => e.id === entry.id);
-  
-  if (existingIndex >= 0) {
-    entries[existingIndex] = entry;
-  } else {
-    entries.unshift(entry);
+import { JournalEntry, PatternAnalysis, LifeJourneyAnalysis, DailyGuidance, EntryRevision, RevisionSnapshot, Notebook, EntryDraft } from '../types';
+import { deleteMediaBlob, getMediaBlobInfo, getAllRecords, getAllRecordKeys, getRecordsByIndex, getRecord, putRecord, deleteRecord, deleteRecords, putRecords, replaceAllRecords, ENTRIES_STORE, REPORTS_STORE, DRAFTS_STORE, MEDIA_STORE, REVISIONS_STORE, NOTEBOOKS_STORE } from './db';
+import { notifyChange } from './tabSync';
+import { sealValue, openValue, sealBlob, openBlob, isSealed, needsReseal, createVault, unlockVault, beginRekey, completeRekey, hasPendingRekey, completeEncrypt, hasPendingEncrypt, verifyPassphrase, destroyVault } from './vault';
+
+// Keys within the reports store
+const ANALYSIS_KEY = 'patternAnalysis';
+const JOURNEY_REPORT_KEY = 'journeyReport';
+const GUIDANCE_KEY = 'dailyGuidance';
+const REPORT_CACHE_KEY = 'reportCache';
+const LEGACY_DRAFT_KEY = 'current'; // The single text-only draft kept before drafts were stored per entry
+
+// In vault mode the id and timestamps stay readable so the store's key path and indexes keep working
+const sealEntry = async (entry: JournalEntry): Promise<any> => {
+  const sealed = await sealValue(entry);
+  if (sealed === entry) return entry;
+  return { ...sealed, id: entry.id, createdAt: entry.createdAt, updatedAt: entry.updatedAt };
+};
+
+export const saveEntry = async (entry: JournalEntry): Promise<void> => {
+  const previous = await getEntry(entry.id);
+  await putRecord(ENTRIES_STORE, await sealEntry(entry));
+  await recordRevision(entry, previous);
+  notifyChange('entries', [entry.id]);
+
+  // Media removed in the editor would otherwise stay in IndexedDB forever
+  if (previous) {
+    const kept = new Set(getEntryBlobIds(entry));
+    await reclaimOrphanedBlobs(getEntryBlobIds(previous).filter(id => !kept.has(id)))
+      .catch(e => console.warn("Skipped media cleanup after saving", e));
   }
-  
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
 };
 
-export const getEntries = (): JournalEntry[] => {
+export const getEntry = async (id: string): Promise<JournalEntry | null> => {
+  return openValue<JournalEntry | null>(await getRecord(ENTRIES_STORE, id));
+};
+
+// Writes many entries in one transaction (used by backup restore)
+export const saveEntries = async (entries: JournalEntry[]): Promise<void> => {
+  const previous = await Promise.all(entries.map(entry => getEntry(entry.id)));
+  await putRecords(ENTRIES_STORE, await Promise.all(entries.map(sealEntry)));
+  // A merge that overwrites local entries stays reversible from the history panel
+  for (let i = 0; i < entries.length; i++) {
+    await recordRevision(entries[i], previous[i]);
+  }
+  notifyChange('entries', entries.map(e => e.id));
+};
+
+export const replaceAllEntries = async (entries: JournalEntry[]): Promise<void> => {
+  await replaceAllRecords(ENTRIES_STORE, await Promise.all(entries.map(sealEntry)));
+  await pruneRevisions(new Set(entries.map(e => e.id)));
+  notifyChange('entries');
+};
+
+// Every stored entry, trashed ones included; throws when they cannot be read. Anything that
+// deletes based on what is missing locally must use this, never the forgiving getStoredEntries.
+export const readStoredEntries = async (): Promise<JournalEntry[]> => {
+  // Newest first, matching the order the journal has always been displayed in
+  const records = await getAllRecords<any>(ENTRIES_STORE, 'createdAt');
+  const entries = await Promise.all(records.map(record => openValue<JournalEntry>(record)));
+  return entries.reverse();
+};
+
+// Every stored entry, including the ones in the trash
+export const getStoredEntries = async (): Promise<JournalEntry[]> => {
   try {
-    const data = localStorage.getItem(STORAGE_KEY);
-    return data ? JSON.parse(data) : [];
+    return await readStoredEntries();
   } catch (e) {
     console.error("Failed to load entries", e);
     return [];
   }
 };
 
-export const deleteEntry = (id: string): void => {
-  const entries = getEntries().filter(e => e.id !== id);
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+export const getEntries = async (): Promise<JournalEntry[]> => {
+  return (await getStoredEntries()).filter(entry => !entry.deletedAt);
 };
 
-export const savePatternAnalysis = (analysis: PatternAnalysis): void => {
-  localStorage.setItem(ANALYSIS_KEY, JSON.stringify(analysis));
+// Permanently removes the entry, its history and any media only it used
+export const deleteEntry = async (id: string): Promise<void> => {
+  const entry = await getEntry(id);
+  await deleteRecord(ENTRIES_STORE, id);
+  await deleteRecords(REVISIONS_STORE, (await getRevisionRecords(id)).map(r => r.id));
+  notifyChange('entries', [id]);
+  if (entry) await reclaimOrphanedBlobs(getEntryBlobIds(entry)).catch(e => console.warn("Skipped media cleanup after deleting", e));
 };
 
-export const getPatternAnalysis = (): PatternAnalysis | null => {
+const getReport = async <T>(key: string): Promise<T | null> => {
   try {
-    const data = localStorage.getItem(ANALYSIS_KEY);
-    return data ? JSON.parse(data) : null;
+    return await openValue<T | null>(await getRecord(REPORTS_STORE, key));
   } catch (e) {
     return null;
   }
 };
 
-export const saveLifeJourneyAnalysis = (analysis: LifeJourneyAnalysis): void => {
-  localStorage.setItem(JOURNEY_REPORT_KEY, JSON.stringify(analysis));
+// Reports generated for a single notebook are cached separately from the whole-journal ones
+const reportKey = (key: string, notebookId?: string): string => notebookId ? `${key}:${notebookId}` : key;
+
+export const savePatternAnalysis = async (analysis: PatternAnalysis, notebookId?: string): Promise<void> => {
+  await putRecord(REPORTS_STORE, await sealValue(analysis), reportKey(ANALYSIS_KEY, notebookId));
+  notifyChange('reports');
 };
 
-export const getLifeJourneyAnalysis = (): LifeJourneyAnalysis | null => {
-  try {
-    const data = localStorage.getItem(JOURNEY_REPORT_KEY);
-    return data ? JSON.parse(data) : null;
-  } catch (e) {
-    return null;
+export const getPatternAnalysis = (notebookId?: string): Promise<PatternAnalysis | null> => getReport(reportKey(ANALYSIS_KEY, notebookId));
+
+export const saveLifeJourneyAnalysis = async (analysis: LifeJourneyAnalysis, notebookId?: string): Promise<void> => {
+  await putRecord(REPORTS_STORE, await sealValue(analysis), reportKey(JOURNEY_REPORT_KEY, notebookId));
+  notifyChange('reports');
+};
+
+export const getLifeJourneyAnalysis = (notebookId?: string): Promise<LifeJourneyAnalysis | null> => getReport(reportKey(JOURNEY_REPORT_KEY, notebookId));
+
+export const saveDailyGuidance = async (guidance: DailyGuidance, notebookId?: string): Promise<void> => {
+  await putRecord(REPORTS_STORE, await sealValue(guidance), reportKey(GUIDANCE_KEY, notebookId));
+  notifyChange('reports');
+};
+
+export const getDailyGuidance = (notebookId?: string): Promise<DailyGuidance | null> => getReport(reportKey(GUIDANCE_KEY, notebookId));
+
+// AI reports by the entries they were generated from (see analysisCache); not announced to other
+// tabs, since a cache only saves requests
+export const getReportCache = (): Promise<Record<string, unknown> | null> => getReport(REPORT_CACHE_KEY);
+
+export const saveReportCache = async (cache: Record<string, unknown>): Promise<void> => {
+  await putRecord(REPORTS_STORE, await sealValue(cache), REPORT_CACHE_KEY);
+};
+
+// --- Notebooks ---
+
+export const DEFAULT_NOTEBOOK_ID = 'default';
+export const ALL_NOTEBOOKS = 'all'; // Switcher value that shows every notebook at once
+const ACTIVE_NOTEBOOK_KEY = 'lumina_active_notebook';
+
+// Always present, even before the user creates or renames anything
+const DEFAULT_NOTEBOOK: Notebook = { id: DEFAULT_NOTEBOOK_ID, name: 'Journal', color: '#0ea5e9', createdAt: new Date(0).toISOString() };
+
+const sealNotebook = async (notebook: Notebook): Promise<any> => {
+  const sealed = await sealValue(notebook);
+  if (sealed === notebook) return notebook;
+  return { ...sealed, id: notebook.id };
+};
+
+export const getEntryNotebookId = (entry: JournalEntry): string => entry.notebookId || DEFAULT_NOTEBOOK_ID;
+
+// Oldest first, with the default notebook leading
+export const getNotebooks = async (): Promise<Notebook[]> => {
+  const records = await getAllRecords<any>(NOTEBOOKS_STORE);
+  const notebooks = await Promise.all(records.map(record => openValue<Notebook>(record)));
+  if (!notebooks.some(n => n.id === DEFAULT_NOTEBOOK_ID)) notebooks.push(DEFAULT_NOTEBOOK);
+  return notebooks.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
+
+export const saveNotebook = async (notebook: Notebook): Promise<void> => {
+  await putRecord(NOTEBOOKS_STORE, await sealNotebook(notebook));
+  notifyChange('notebooks');
+};
+
+// Adds notebooks that do not exist yet; local names and colors win (used by merge restore)
+export const mergeNotebooks = async (notebooks: Notebook[]): Promise<void> => {
+  const existing = new Set((await getNotebooks()).map(n => n.id));
+  const added = notebooks.filter(n => !existing.has(n.id));
+  await putRecords(NOTEBOOKS_STORE, await Promise.all(added.map(sealNotebook)));
+  notifyChange('notebooks');
+};
+
+export const replaceAllNotebooks = async (notebooks: Notebook[]): Promise<void> => {
+  await replaceAllRecords(NOTEBOOKS_STORE, await Promise.all(notebooks.map(sealNotebook)));
+  notifyChange('notebooks');
+};
+
+// Entries of a deleted notebook (trashed ones included) move to the default notebook
+export const deleteNotebook = async (id: string): Promise<void> => {
+  if (id === DEFAULT_NOTEBOOK_ID) throw new Error("The default notebook cannot be deleted.");
+  const moved = (await getStoredEntries()).filter(entry => entry.notebookId === id);
+  for (const entry of moved) {
+    await saveEntry({ ...entry, notebookId: DEFAULT_NOTEBOOK_ID, updatedAt: new Date().toISOString() });
   }
+  await deleteRecord(NOTEBOOKS_STORE, id);
+  notifyChange('notebooks');
+  if (getActiveNotebookId() === id) setActiveNotebookId(DEFAULT_NOTEBOOK_ID);
 };
 
-export const saveDailyGuidance = (guidance: DailyGuidance): void => {
-  localStorage.setItem(GUIDANCE_KEY, JSON.stringify(guidance));
+export const moveEntryToNotebook = async (entryId: string, notebookId: string): Promise<void> => {
+  const entry = await getEntry(entryId);
+  if (!entry || getEntryNotebookId(entry) === notebookId) return;
+  await saveEntry({ ...entry, notebookId, updatedAt: new Date().toISOString() });
 };
 
-export const getDailyGuidance = (): DailyGuidance | null => {
-  try {
-    const data = localStorage.getItem(GUIDANCE_KEY);
-    return data ? JSON.parse(data) : null;
-  } catch (e) {
-    return null;
+export const getActiveNotebookId = (): string => localStorage.getItem(ACTIVE_NOTEBOOK_KEY) || ALL_NOTEBOOKS;
+
+export const setActiveNotebookId = (id: string): void => {
+  localStorage.setItem(ACTIVE_NOTEBOOK_KEY, id);
+};
+
+// --- Trash ---
+
+const TRASH_RETENTION_KEY = 'lumina_trash_retention_days';
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+const DAY_MS = 86400000;
+
+export const getTrashRetentionDays = (): number => {
+  const days = parseInt(localStorage.getItem(TRASH_RETENTION_KEY) || '', 10);
+  return Number.isFinite(days) && days > 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+};
+
+export const setTrashRetentionDays = (days: number): void => {
+  localStorage.setItem(TRASH_RETENTION_KEY, String(days));
+};
+
+// Recently deleted first
+export const getTrashedEntries = async (): Promise<JournalEntry[]> => {
+  const trashed = (await getStoredEntries()).filter(entry => entry.deletedAt);
+  return trashed.sort((a, b) => b.deletedAt!.localeCompare(a.deletedAt!));
+};
+
+// Date after which a trashed entry is purged automatically
+export const getPurgeDate = (entry: JournalEntry): Date => {
+  return new Date(new Date(entry.deletedAt!).getTime() + getTrashRetentionDays() * DAY_MS);
+};
+
+// Soft delete: the entry and its media stay stored until it is purged
+export const trashEntry = async (id: string): Promise<void> => {
+  const entry = await getEntry(id);
+  if (!entry || entry.deletedAt) return;
+  const now = new Date().toISOString();
+  await saveEntry({ ...entry, deletedAt: now, updatedAt: now });
+};
+
+export const restoreEntry = async (id: string): Promise<void> => {
+  const entry = await getEntry(id);
+  if (!entry || !entry.deletedAt) return;
+  const { deletedAt, ...restored } = entry;
+  await saveEntry({ ...restored, updatedAt: new Date().toISOString() });
+};
+
+export const emptyTrash = async (): Promise<void> => {
+  for (const entry of await getTrashedEntries()) {
+    await deleteEntry(entry.id);
   }
 };
 
+// Permanently deletes entries that have been in the trash longer than the retention period.
+// Returns how many were removed.
+export const purgeExpiredTrash = async (): Promise<number> => {
+  const now = Date.now();
+  const expired = (await getTrashedEntries()).filter(entry => getPurgeDate(entry).getTime() <= now);
+  for (const entry of expired) {
+    await deleteEntry(entry.id);
+  }
+  return expired.length;
+};
+
+// --- Revision History ---
+
+const REVISION_FIELDS: (keyof RevisionSnapshot)[] = [
+  'content', 'todos', 'schedule', 'isAnalyzed', 'analysisSource', 'repairedFields', 'analysisHash',
+  'moodScore', 'moodLabel', 'moodEmoji', 'moodColor', 'keywords', 'summary', 'reflectionQuestion'
+];
+
+const snapshotEntry = (entry: JournalEntry): RevisionSnapshot => {
+  const snapshot: any = {};
+  REVISION_FIELDS.forEach(field => {
+    if (entry[field] !== undefined) snapshot[field] = entry[field];
+  });
+  return snapshot;
+};
+
+// Like entries, revisions keep their id, entry id and timestamp readable for the store's index
+const sealRevision = async (revision: EntryRevision): Promise<any> => {
+  const sealed = await sealValue(revision);
+  if (sealed === revision) return revision;
+  return { ...sealed, id: revision.id, entryId: revision.entryId, savedAt: revision.savedAt };
+};
+
+// Raw records, oldest first. Only the plaintext id, entryId and savedAt may be read from these.
+const getRevisionRecords = async (entryId: string): Promise<{ id: string, entryId: string, savedAt: string }[]> => {
+  const records = await getRecordsByIndex<any>(REVISIONS_STORE, 'entryId', entryId);
+  return records.sort((a, b) => a.savedAt.localeCompare(b.savedAt));
+};
+
+// Called after every save. Identical consecutive versions (e.g. a media-only change) are not repeated.
+const recordRevision = async (entry: JournalEntry, previous: JournalEntry | null): Promise<void> => {
+  const records = await getRevisionRecords(entry.id);
+  const latest = records.length > 0 ? await openValue<EntryRevision>(records[records.length - 1]) : null;
+  const snapshot = snapshotEntry(entry);
+
+  const revisions: EntryRevision[] = [];
+  // Entries written before history existed get their last saved state as the first revision
+  if (!latest && previous) {
+    revisions.push({ id: `${entry.id}:${previous.updatedAt}`, entryId: entry.id, savedAt: previous.updatedAt, snapshot: snapshotEntry(previous) });
+  }
+  const baseline = revisions[0]?.snapshot ?? latest?.snapshot;
+  if (!baseline || JSON.stringify(baseline) !== JSON.stringify(snapshot)) {
+    revisions.push({ id: `${entry.id}:${entry.updatedAt}`, entryId: entry.id, savedAt: entry.updatedAt, snapshot });
+  }
+
+  if (revisions.length > 0) {
+    await putRecords(REVISIONS_STORE, await Promise.all(revisions.map(sealRevision)));
+  }
+};
+
+// Newest first
+export const getRevisions = async (entryId: string): Promise<EntryRevision[]> => {
+  const records = await getRevisionRecords(entryId);
+  const revisions = await Promise.all(records.map(record => openValue<EntryRevision>(record)));
+  return revisions.reverse();
+};
+
+// Drops the history of entries that no longer exist
+const pruneRevisions = async (keepEntryIds: Set<string>): Promise<void> => {
+  const records = await getAllRecords<any>(REVISIONS_STORE);
+  await deleteRecords(REVISIONS_STORE, records.filter(r => !keepEntryIds.has(r.entryId)).map(r => r.id));
+};
+
 // --- Auto-Save / Draft Features ---
+// Drafts are keyed by entry id; new entries get their id when the editor opens.
 
-export const saveDraft = (content: string, entryId?: string): void => {
-  const draftData = {
-    content,
-    entryId: entryId || null,
-    timestamp: Date.now()
-  };
-  localStorage.setItem(DRAFT_KEY, JSON.stringify(draftData));
+export const saveDraft = async (draft: EntryDraft): Promise<void> => {
+  await putRecord(DRAFTS_STORE, await sealValue(draft), draft.entryId);
+  notifyChange('drafts', [draft.entryId]);
 };
 
-export const getDraft = (): { content: string, entryId: string | null, timestamp: number } | null => {
+export const getDraft = async (entryId: string): Promise<EntryDraft | null> => {
   try {
-    const data = localStorage.getItem(DRAFT_KEY);
-    return data ? JSON.parse(data) : null;
+    return await openValue<EntryDraft | null>(await getRecord(DRAFTS_STORE, entryId));
   } catch {
     return null;
   }
 };
 
-export const clearDraft = (): void => {
-  localStorage.removeItem(DRAFT_KEY);
+// Turns the old single draft (text only) into a draft for a new entry or for the entry it belonged to
+const upgradeLegacyDraft = async (): Promise<void> => {
+  let legacy: { content: string, entryId: string | null, timestamp: number } | null = null;
+  try {
+    legacy = await openValue(await getRecord(DRAFTS_STORE, LEGACY_DRAFT_KEY));
+  } catch {
+    return; // Sealed with a key we do not have; leave it alone
+  }
+  if (!legacy) return;
+  if (legacy.content) {
+    const draft: EntryDraft = {
+      entryId: legacy.entryId || `draft-${legacy.timestamp.toString(36)}`,
+      isNew: !legacy.entryId,
+      content: legacy.content,
+      media: [],
+      todos: [],
+      schedule: [],
+      analysis: null,
+      updatedAt: new Date(legacy.timestamp).toISOString()
+    };
+    await putRecord(DRAFTS_STORE, await sealValue(draft), draft.entryId);
+  }
+  await deleteRecord(DRAFTS_STORE, LEGACY_DRAFT_KEY);
+};
+
+// Newest first
+export const getDrafts = async (): Promise<EntryDraft[]> => {
+  await upgradeLegacyDraft();
+  const drafts: EntryDraft[] = [];
+  for (const record of await getAllRecords<any>(DRAFTS_STORE)) {
+    try {
+      const draft = await openValue<EntryDraft>(record);
+      if (draft?.entryId) drafts.push(draft);
+    } catch (e) {
+      console.error("Skipping unreadable draft", e);
+    }
+  }
+  return drafts.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
 };
 
-// --- Full Archive Backup & Restore (ZIP) ---
+export const deleteDraft = async (entryId: string): Promise<void> => {
+  await deleteRecord(DRAFTS_STORE, entryId);
+  notifyChange('drafts', [entryId]);
+};
 
-export const exportFullBackup = async (): Promise<Blob> => {
-  const zip = new JSZip();
-  const entries = getEntries();
-  
-  // 1. Add Data JSON
-  const dataObject = {
-    version: 1,
-    exportedAt: new Date().toISOString(),
-    entries,
-    analysis: getPatternAnalysis(),
-    journeyReport: getLifeJourneyAnalysis(),
-    dailyGuidance: getDailyGuidance()
-  };
-  zip.file("journal_data.json", JSON.stringify(dataObject, null, 2));
-
-  // 2. Add Media Files
-  const mediaFolder = zip.folder("media");
-  if (mediaFolder) {
-    const mediaPromises: Promise<void>[] = [];
-
-    // Collect all referenced blob IDs
-    const blobIds = new Set<string>();
-    entries.forEach(entry => {
-      if (entry.reflection?.imageId) blobIds.add(entry.reflection.imageId);
-      entry.media?.forEach(m => {
-        if (m.blobId) blobIds.add(m.blobId);
-      });
-    });
-
-    // Fetch and add each blob to zip
-    blobIds.forEach(id => {
-      mediaPromises.push(
-        getMediaBlob(id).then(blob => {
-          if (blob) {
-            // We assume extension based on type, but for blobs just saving with ID is safer 
-            // The MIME type is stored in JSON, so we can reconstruct later
-            mediaFolder.file(id, blob); 
-          }
-        })
-      );
-    });
-
-    await Promise.all(mediaPromises);
-  }
-
-  return await zip.generateAsync({ type: "blob" });
-};
-
-export const importFullBackup = async (zipFile: File): Promise<boolean> => {
-  try {
-    const zip = await JSZip.loadAsync(zipFile);
-    
-    // 1. Read Data JSON
-    const jsonFile = zip.file("journal_data.json");
-    if (!jsonFile) throw new Error("Invalid backup: missing journal_data.json");
-    
-    const jsonStr = await jsonFile.async("string");
-    const data = JSON.parse(jsonStr);
-
-    // 2. Restore LocalStorage
-    if (data.entries) localStorage.setItem(STORAGE_KEY, JSON.stringify(data.entries));
-    if (data.analysis) localStorage.setItem(ANALYSIS_KEY, JSON.stringify(data.analysis));
-    if (data.journeyReport) localStorage.setItem(JOURNEY_REPORT_KEY, JSON.stringify(data.journeyReport));
-    if (data.dailyGuidance) localStorage.setItem(GUIDANCE_KEY, JSON.stringify(data.dailyGuidance));
-
-    // 3. Restore Media to IndexedDB
-    const mediaFolder = zip.folder("media");
-    if (mediaFolder) {
-      const mediaPromises: Promise<void>[] = [];
-      
-      mediaFolder.forEach((relativePath, file) => {
-        // relativePath is the blobId
-        const promise = file.async("blob").then(blob => {
-          return saveMediaBlob(relativePath, blob);
-        });
-        mediaPromises.push(promise);
-      });
-
-      await Promise.all(mediaPromises);
+// --- Media Garbage Collection ---
+
+// Blob IDs an entry (or anything shaped like one, such as a draft) points at
+export const getEntryBlobIds = (entry: Partial<JournalEntry>): string[] => {
+  const ids: string[] = [];
+  if (entry.reflection?.imageId) ids.push(entry.reflection.imageId);
+  entry.media?.forEach(m => {
+    if (m.blobId) ids.push(m.blobId);
+  });
+  return ids;
+};
+
+// Every blob still reachable from an entry (trashed ones included) or a saved draft. Throws when
+// the entries cannot be read: an empty list here would mark every blob as unused.
+const collectReferencedBlobIds = async (): Promise<Set<string>> => {
+  const referenced = new Set<string>();
+  (await readStoredEntries()).forEach(entry => getEntryBlobIds(entry).forEach(id => referenced.add(id)));
+
+  const drafts = await getAllRecords<any>(DRAFTS_STORE);
+  for (const stored of drafts) {
+    const draft = await openValue<any>(stored);
+    if (draft && typeof draft === 'object') getEntryBlobIds(draft).forEach(id => referenced.add(id));
+  }
+  return referenced;
+};
+
+export interface OrphanedBlob {
+  id: string;
+  size: number;
+  mimeType: string;
+}
+
+export const findOrphanedBlobs = async (): Promise<OrphanedBlob[]> => {
+  const [referenced, stored] = await Promise.all([collectReferencedBlobIds(), getMediaBlobInfo()]);
+  return Object.entries(stored)
+    .filter(([id]) => !referenced.has(id))
+    .map(([id, info]) => ({ id, ...info }))
+    .sort((a, b) => b.size - a.size);
+};
+
+// Deletes the given blobs unless something still references them. Returns the IDs removed;
+// deletes nothing and throws when the references cannot be read.
+export const reclaimOrphanedBlobs = async (candidateIds: string[]): Promise<string[]> => {
+  if (candidateIds.length === 0) return [];
+  const referenced = await collectReferencedBlobIds();
+  const orphaned = Array.from(new Set(candidateIds)).filter(id => !referenced.has(id));
+  for (const id of orphaned) {
+    await deleteMediaBlob(id);
+  }
+  return orphaned;
+};
+
+// --- Vault Mode (At-Rest Encryption) ---
+
+const VAULT_STORES = [ENTRIES_STORE, REPORTS_STORE, DRAFTS_STORE, REVISIONS_STORE, NOTEBOOKS_STORE, MEDIA_STORE];
+
+// Stores keyed by a key path need their key fields left readable when sealed
+const KEY_PATH_SEALERS: Record<string, (value: any) => Promise<any>> = {
+  [ENTRIES_STORE]: sealEntry,
+  [REVISIONS_STORE]: sealRevision,
+  [NOTEBOOKS_STORE]: sealNotebook
+};
+
+// Rewrites every record that is not in the target state: sealed with the current key, or plaintext
+const resealStore = async (storeName: string, encrypt: boolean): Promise<void> => {
+  const keys = await getAllRecordKeys(storeName);
+  // One record at a time keeps memory flat even with large videos in the media store
+  for (const key of keys) {
+    const stored = await getRecord<any>(storeName, key);
+    if (stored === null || !(encrypt ? needsReseal(stored) : isSealed(stored))) continue;
+
+    if (storeName === MEDIA_STORE) {
+      const blob = await openBlob(stored);
+      if (blob) await putRecord(storeName, encrypt ? await sealBlob(blob) : blob, key);
+    } else if (KEY_PATH_SEALERS[storeName]) {
+      const value = await openValue(stored);
+      await putRecord(storeName, encrypt ? await KEY_PATH_SEALERS[storeName](value) : value);
+    } else {
+      const value = await openValue(stored);
+      await putRecord(storeName, encrypt ? await sealValue(value) : value, key);
     }
+  }
+};
 
-    return true;
-  } catch (e) {
-    console.error("Backup restore failed", e);
-    return false;
+const resealAll = async (encrypt: boolean): Promise<void> => {
+  for (const storeName of VAULT_STORES) {
+    await resealStore(storeName, encrypt);
+  }
+};
+
+export const enableVault = async (passphrase: string): Promise<void> => {
+  await createVault(passphrase);
+  await resealAll(true);
+  completeEncrypt();
+};
+
+export const unlockJournal = async (passphrase: string): Promise<void> => {
+  await unlockVault(passphrase);
+  // Resume a passphrase change that was interrupted (tab closed mid re-encryption)
+  if (hasPendingRekey()) {
+    await resealAll(true);
+    completeRekey();
+  }
+  // Likewise for enabling the vault: data written before it may still be unencrypted
+  if (hasPendingEncrypt()) {
+    await resealAll(true);
+    completeEncrypt();
   }
 };
 
+export const changeVaultPassphrase = async (currentPassphrase: string, newPassphrase: string): Promise<void> => {
+  await beginRekey(currentPassphrase, newPassphrase);
+  await resealAll(true);
+  completeRekey();
+};
+
+export const disableVault = async (passphrase: string): Promise<void> => {
+  await verifyPassphrase(passphrase);
+  await resealAll(false);
+  destroyVault();
+};
+
 export const calculateStreak = (entries: JournalEntry[]): number => {
   if (entries.length === 0) return 0;
   
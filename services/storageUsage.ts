@@ -0,0 +1,229 @@
+import { JournalEntry } from '../types';
+import { getMediaBlob, getMediaBlobInfo } from './db';
+import { getEntries, getTrashedEntries, getEntry, saveEntry, getEntryBlobIds } from './storage';
+
+export type UsageCategory = 'video' | 'audio' | 'drawing' | 'image' | 'reflection' | 'text' | 'trash' | 'unused';
+
+export interface MediaUsageItem {
+  entryId: string;
+  entryCreatedAt: string;
+  mediaId: string | null; // null for the entry's reflection image
+  blobId: string;
+  category: UsageCategory;
+  mimeType: string;
+  size: number;
+}
+
+export interface EntryUsage {
+  entry: JournalEntry;
+  textBytes: number;
+  mediaBytes: number;
+  totalBytes: number;
+}
+
+export interface StorageUsageReport {
+  estimate: { usage: number, quota: number } | null; // Whole origin, as reported by the browser
+  byCategory: Record<UsageCategory, number>;
+  localStorageBytes: number;
+  largestEntries: EntryUsage[];
+  heaviestMedia: MediaUsageItem[];
+}
+
+const LOCAL_STORAGE_PREFIX = 'lumina_';
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+};
+
+// localStorage holds UTF-16 strings, so every character costs two bytes
+const measureLocalStorage = (): number => {
+  let bytes = 0;
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (!key || !key.startsWith(LOCAL_STORAGE_PREFIX)) continue;
+    bytes += (key.length + (localStorage.getItem(key)?.length ?? 0)) * 2;
+  }
+  return bytes;
+};
+
+const getEstimate = async (): Promise<{ usage: number, quota: number } | null> => {
+  if (!navigator.storage?.estimate) return null;
+  try {
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return { usage, quota };
+  } catch {
+    return null;
+  }
+};
+
+export const computeStorageUsage = async (limit: number = 8): Promise<StorageUsageReport> => {
+  const [entries, trashed, blobInfo, estimate] = await Promise.all([getEntries(), getTrashedEntries(), getMediaBlobInfo(), getEstimate()]);
+  const encoder = new TextEncoder();
+
+  const byCategory: Record<UsageCategory, number> = { video: 0, audio: 0, drawing: 0, image: 0, reflection: 0, text: 0, trash: 0, unused: 0 };
+  const mediaItems: MediaUsageItem[] = [];
+  const entryUsage: EntryUsage[] = [];
+  const countedBlobs = new Set<string>();
+
+  entries.forEach(entry => {
+    const textBytes = encoder.encode(JSON.stringify(entry)).length;
+    let mediaBytes = 0;
+    byCategory.text += textBytes;
+
+    const addBlob = (blobId: string, mediaId: string | null, category: UsageCategory, mimeType: string) => {
+      const info = blobInfo[blobId];
+      if (!info) return;
+      mediaItems.push({ entryId: entry.id, entryCreatedAt: entry.createdAt, mediaId, blobId, category, mimeType: mimeType || info.mimeType, size: info.size });
+      mediaBytes += info.size;
+      // A blob shared by two entries only occupies space once
+      if (!countedBlobs.has(blobId)) {
+        byCategory[category] += info.size;
+        countedBlobs.add(blobId);
+      }
+    };
+
+    if (entry.reflection?.imageId) addBlob(entry.reflection.imageId, null, 'reflection', 'image/png');
+    entry.media?.forEach(m => {
+      if (m.blobId) addBlob(m.blobId, m.id, m.type, m.mimeType);
+    });
+
+    entryUsage.push({ entry, textBytes, mediaBytes, totalBytes: textBytes + mediaBytes });
+  });
+
+  // Trashed entries are reported as one lump until they are restored or purged
+  trashed.forEach(entry => {
+    byCategory.trash += encoder.encode(JSON.stringify(entry)).length;
+    getEntryBlobIds(entry).forEach(blobId => {
+      const info = blobInfo[blobId];
+      if (!info || countedBlobs.has(blobId)) return;
+      byCategory.trash += info.size;
+      countedBlobs.add(blobId);
+    });
+  });
+
+  Object.entries(blobInfo).forEach(([blobId, info]) => {
+    if (!countedBlobs.has(blobId)) byCategory.unused += info.size;
+  });
+
+  return {
+    estimate,
+    byCategory,
+    localStorageBytes: measureLocalStorage(),
+    largestEntries: entryUsage.sort((a, b) => b.totalBytes - a.totalBytes).slice(0, limit),
+    heaviestMedia: mediaItems.sort((a, b) => b.size - a.size).slice(0, limit)
+  };
+};
+
+// --- Actions ---
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+  'video/mp4': 'mp4',
+  'video/webm': 'webm',
+  'video/quicktime': 'mov',
+  'audio/webm': 'webm',
+  'audio/wav': 'wav',
+  'audio/mpeg': 'mp3',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'm4a'
+};
+
+export const extensionForMimeType = (mimeType: string): string => {
+  const base = mimeType.split(';')[0].trim().toLowerCase();
+  return MIME_EXTENSIONS[base] || base.split('/')[1] || 'bin';
+};
+
+// Reverse of extensionForMimeType. `kind` picks between types sharing an extension, e.g. audio or video .webm.
+export const mimeTypeForExtension = (extension: string, kind?: 'image' | 'video' | 'audio'): string => {
+  const ext = extension.toLowerCase().replace(/^\./, '');
+  const matches = Object.keys(MIME_EXTENSIONS).filter(type => MIME_EXTENSIONS[type] === (ext === 'jpeg' ? 'jpg' : ext));
+  return matches.find(type => kind && type.startsWith(`${kind}/`)) || matches[0] || 'application/octet-stream';
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// Parts of the File System Access API that TypeScript's DOM library does not declare yet
+interface SaveFileWindow extends Window {
+  showSaveFilePicker?: (options: { suggestedName: string }) => Promise<FileSystemFileHandle>;
+}
+
+// Writes the blob to a file the user picks. False when they cancel the picker; without the
+// picker the file is downloaded instead and the user is asked whether it was saved.
+const saveToDevice = async (blob: Blob, fileName: string, confirmSaved: (fileName: string) => boolean): Promise<boolean> => {
+  const picker = (window as SaveFileWindow).showSaveFilePicker;
+  if (!picker) {
+    downloadBlob(blob, fileName);
+    return confirmSaved(fileName);
+  }
+  let handle: FileSystemFileHandle;
+  try {
+    handle = await picker.call(window, { suggestedName: fileName });
+  } catch (e) {
+    if (e instanceof DOMException && e.name === 'AbortError') return false;
+    throw e;
+  }
+  const writable = await handle.createWritable();
+  await writable.write(blob);
+  await writable.close();
+  return true;
+};
+
+// Saves the media file to the user's device, then drops the blob from IndexedDB. Nothing is
+// removed unless the file was written (or, for a plain download, the user confirms it was saved).
+// The entry keeps a placeholder with the file name so the user knows where it went.
+// Resolves to false when the user cancelled and the media stays in the browser.
+export const offloadMedia = async (item: MediaUsageItem, confirmSaved: (fileName: string) => boolean): Promise<boolean> => {
+  if (!item.mediaId) throw new Error("Reflection images cannot be offloaded.");
+  const original = await getEntry(item.entryId);
+  const blob = await getMediaBlob(item.blobId);
+  if (!original || !blob) throw new Error("Media not found.");
+
+  const fileName = `lumina-${item.category}-${original.createdAt.split('T')[0]}-${item.blobId.slice(0, 8)}.${extensionForMimeType(item.mimeType)}`;
+  if (!await saveToDevice(blob, fileName, confirmSaved)) return false;
+
+  // The entry may have been edited while the save dialog was open
+  const entry = await getEntry(item.entryId);
+  if (!entry || !entry.media?.some(m => m.id === item.mediaId && m.blobId === item.blobId)) return false;
+  await saveEntry({
+    ...entry,
+    updatedAt: new Date().toISOString(),
+    media: entry.media?.map(m => m.id === item.mediaId
+      ? { ...m, blobId: undefined, offloaded: { fileName, size: blob.size, offloadedAt: new Date().toISOString() } }
+      : m)
+  });
+  return true;
+};
+
+// Removes the media item (or reflection) from its entry; saveEntry reclaims the blob
+export const deleteMediaItem = async (item: MediaUsageItem): Promise<void> => {
+  const entry = await getEntry(item.entryId);
+  if (!entry) throw new Error("Entry not found.");
+
+  await saveEntry({
+    ...entry,
+    updatedAt: new Date().toISOString(),
+    reflection: item.mediaId ? entry.reflection : undefined,
+    media: item.mediaId ? entry.media?.filter(m => m.id !== item.mediaId) : entry.media
+  });
+};
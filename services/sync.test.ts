@@ -0,0 +1,174 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { JournalEntry } from '../types';
+
+const SERVER_URL = 'https://sync.test/journal';
+
+// An in-memory REST sync server, reached through a stubbed fetch. onRequest runs before each
+// request is answered, to change things while a sync is in progress.
+const createServer = () => {
+  const files = new Map<string, Blob>();
+  const server = {
+    files,
+    onRequest: undefined as ((method: string, path: string) => void) | undefined,
+    readJSON: async (path: string) => JSON.parse(await files.get(path)!.text()),
+    writeJSON: (path: string, value: unknown) => {
+      files.set(path, new Blob([JSON.stringify(value)]));
+    }
+  };
+  vi.stubGlobal('fetch', async (input: string, init: RequestInit = {}) => {
+    const path = input.slice(SERVER_URL.length + 1);
+    const method = init.method || 'GET';
+    server.onRequest?.(method, path);
+    if (method === 'PUT') {
+      files.set(path, init.body instanceof Blob ? init.body : new Blob([init.body as string]));
+      return new Response(null, { status: 201 });
+    }
+    if (method === 'DELETE') {
+      files.delete(path);
+      return new Response(null, { status: 204 });
+    }
+    const file = files.get(path);
+    return file ? new Response(file) : new Response(null, { status: 404, statusText: 'Not Found' });
+  });
+  return server;
+};
+
+type Server = ReturnType<typeof createServer>;
+
+const makeEntry = (id: string, content: string, updatedAt = '2024-03-01T09:00:00.000Z'): JournalEntry => ({
+  id,
+  content,
+  createdAt: '2024-03-01T09:00:00.000Z',
+  updatedAt,
+  isAnalyzed: false
+});
+
+// Stores an entry on the server the way another device would
+const putRemoteEntry = async (server: Server, entry: JournalEntry) => {
+  const index = server.files.has('index.json') ? await server.readJSON('index.json') : { version: 1, entries: {}, blobs: {} };
+  index.entries[entry.id] = { updatedAt: entry.updatedAt };
+  server.writeJSON('index.json', index);
+  server.writeJSON(`entries/${entry.id}.json`, entry);
+};
+
+const load = async () => {
+  const sync = await import('./sync');
+  const storage = await import('./storage');
+  sync.setSyncConfig({ backend: 'rest', url: SERVER_URL, autoSync: false });
+  return { sync, storage };
+};
+
+describe('device sync', () => {
+  let server: Server;
+
+  beforeEach(() => {
+    server = createServer();
+    return () => {
+      vi.unstubAllGlobals();
+      vi.restoreAllMocks();
+    };
+  });
+
+  it('pushes local entries and lists them in the index', async () => {
+    const { sync, storage } = await load();
+    await storage.saveEntry(makeEntry('a', 'Written here'));
+
+    await sync.syncNow();
+
+    expect(sync.getSyncStatus()).toMatchObject({ phase: 'idle', pushed: 1, pulled: 0 });
+    expect((await server.readJSON('index.json')).entries.a).toEqual({ updatedAt: '2024-03-01T09:00:00.000Z' });
+    expect((await server.readJSON('entries/a.json')).content).toBe('Written here');
+  });
+
+  it('pulls entries written on another device', async () => {
+    const { sync, storage } = await load();
+    await putRemoteEntry(server, makeEntry('r', 'Written elsewhere'));
+
+    await sync.syncNow();
+
+    expect(sync.getSyncStatus()).toMatchObject({ phase: 'idle', pushed: 0, pulled: 1 });
+    expect((await storage.getEntry('r'))?.content).toBe('Written elsewhere');
+  });
+
+  it('leaves a tombstone for an entry deleted on this device', async () => {
+    const { sync, storage } = await load();
+    await storage.saveEntry(makeEntry('a', 'Soon gone'));
+    await sync.syncNow();
+
+    await storage.deleteEntry('a');
+    await sync.syncNow();
+
+    expect((await server.readJSON('index.json')).entries.a.purged).toBe(true);
+    expect(server.files.has('entries/a.json')).toBe(false);
+  });
+
+  it('applies remote tombstones, but keeps entries edited here since', async () => {
+    const { sync, storage } = await load();
+    await storage.saveEntries([makeEntry('a', 'Untouched'), makeEntry('b', 'Edited')]);
+    await sync.syncNow();
+
+    const index = await server.readJSON('index.json');
+    index.entries.a = { updatedAt: '2024-03-02T09:00:00.000Z', purged: true };
+    index.entries.b = { updatedAt: '2024-03-02T09:00:00.000Z', purged: true };
+    server.writeJSON('index.json', index);
+    await storage.saveEntry(makeEntry('b', 'Edited after the delete', '2024-03-03T09:00:00.000Z'));
+
+    await sync.syncNow();
+
+    expect(await storage.getEntry('a')).toBeNull();
+    expect((await storage.getEntry('b'))?.content).toBe('Edited after the delete');
+    expect((await server.readJSON('index.json')).entries.b).toEqual({ updatedAt: '2024-03-03T09:00:00.000Z' });
+  });
+
+  it('reports entries changed on both sides and applies the chosen version', async () => {
+    const { sync, storage } = await load();
+    await storage.saveEntry(makeEntry('a', 'Original'));
+    await sync.syncNow();
+    await storage.saveEntry(makeEntry('a', 'Local edit', '2024-03-02T09:00:00.000Z'));
+    await putRemoteEntry(server, makeEntry('a', 'Remote edit', '2024-03-02T10:00:00.000Z'));
+
+    await sync.syncNow();
+    expect(sync.getSyncStatus().conflicts.map(c => c.id)).toEqual(['a']);
+
+    await sync.resolveSyncConflict('a', 'remote');
+    expect(sync.getSyncStatus().conflicts).toEqual([]);
+    expect((await storage.getEntry('a'))?.content).toBe('Remote edit');
+  });
+
+  it('keeps a conflict choice made while a sync is running and applies it afterwards', async () => {
+    const { sync, storage } = await load();
+    await storage.saveEntry(makeEntry('a', 'Original'));
+    await sync.syncNow();
+    await storage.saveEntry(makeEntry('a', 'Local edit', '2024-03-02T09:00:00.000Z'));
+    await putRemoteEntry(server, makeEntry('a', 'Remote edit', '2024-03-02T10:00:00.000Z'));
+
+    // The choice lands after the running sync read the resolutions, while it fetches the remote copy
+    let resolved: Promise<void> | undefined;
+    server.onRequest = (method, path) => {
+      if (!resolved && method === 'GET' && path === 'entries/a.json') resolved = sync.resolveSyncConflict('a', 'local');
+    };
+    await sync.syncNow();
+    await resolved;
+
+    expect(sync.getSyncStatus()).toMatchObject({ phase: 'idle', conflicts: [] });
+    expect((await server.readJSON('entries/a.json')).content).toBe('Local edit');
+  });
+
+  it('stops without touching the server when local entries cannot be read', async () => {
+    const { sync, storage } = await load();
+    const vault = await import('./vault');
+    await storage.enableVault('correct horse');
+    await storage.saveEntry(makeEntry('a', 'Sealed'));
+    await sync.syncNow();
+    const before = new Map(server.files);
+
+    vault.lockVault();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    await sync.syncNow();
+
+    expect(sync.getSyncStatus().phase).toBe('error');
+    expect((await server.readJSON('index.json')).entries.a.purged).toBeUndefined();
+    expect(server.files.has('entries/a.json')).toBe(true);
+    expect(Array.from(server.files.keys())).toEqual(Array.from(before.keys()));
+  });
+});
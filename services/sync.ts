@@ -0,0 +1,426 @@
+import { JournalEntry, Notebook } from '../types';
+import { getMediaBlob, saveMediaBlob, getAllRecordKeys, MEDIA_STORE } from './db';
+import { collectBlobMimeTypes } from './archive';
+import { readStoredEntries, saveEntries, deleteEntry, getEntryBlobIds, getNotebooks, mergeNotebooks } from './storage';
+
+// --- Device Sync ---
+// Syncs entries, notebooks and media with a self-hosted server. Both backends use the same layout,
+// read and written with plain GET/PUT/DELETE (WebDAV additionally needs MKCOL for the folders):
+//   index.json          - RemoteIndex: the version of every entry and the list of uploaded blobs
+//   notebooks.json      - Notebook[]
+//   entries/<id>.json   - one JournalEntry per file
+//   media/<blobId>      - raw media blobs
+// Each device remembers the updatedAt it last agreed on with the server per entry, so a sync only
+// transfers entries that changed on one side, and reports entries that changed on both as conflicts.
+
+const SYNC_CONFIG_KEY = 'lumina_sync_config';
+const SYNC_STATE_KEY = 'lumina_sync_state';
+const INDEX_FILE = 'index.json';
+const NOTEBOOKS_FILE = 'notebooks.json';
+export const AUTO_SYNC_INTERVAL_MS = 2 * 60 * 1000;
+const SYNC_LOCK = 'lumina-sync';
+const AUTO_SYNC_LOCK = 'lumina-auto-sync';
+
+export type SyncBackend = 'rest' | 'webdav';
+
+export interface SyncConfig {
+  backend: SyncBackend;
+  url: string;
+  username?: string; // WebDAV only
+  secret?: string; // WebDAV password or REST bearer token
+  autoSync: boolean;
+}
+
+export type SyncErrorCode = 'offline' | 'network' | 'auth' | 'server' | 'not-configured' | 'local';
+
+export class SyncError extends Error {
+  code: SyncErrorCode;
+
+  constructor(code: SyncErrorCode, message: string) {
+    super(message);
+    this.name = 'SyncError';
+    this.code = code;
+  }
+}
+
+export type SyncResolution = 'local' | 'remote';
+
+export interface SyncConflict {
+  id: string;
+  local: JournalEntry;
+  remote: JournalEntry;
+}
+
+export type SyncPhase = 'disabled' | 'idle' | 'syncing' | 'error';
+
+export interface SyncStatus {
+  phase: SyncPhase;
+  lastSyncAt?: string;
+  error?: string;
+  pushed: number;
+  pulled: number;
+  conflicts: SyncConflict[];
+}
+
+interface RemoteIndex {
+  version: 1;
+  entries: Record<string, { updatedAt: string, purged?: boolean }>;
+  blobs: Record<string, { mimeType: string, size: number }>;
+}
+
+interface SyncState {
+  lastSyncAt?: string;
+  synced: Record<string, string>; // entry id -> updatedAt both sides last agreed on
+  resolutions: Record<string, SyncResolution>; // Conflict choices applied on the next sync
+}
+
+// --- Config & State ---
+
+export const getSyncConfig = (): SyncConfig | null => {
+  try {
+    const data = localStorage.getItem(SYNC_CONFIG_KEY);
+    return data ? JSON.parse(data) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const setSyncConfig = (config: SyncConfig | null): void => {
+  if (config) {
+    localStorage.setItem(SYNC_CONFIG_KEY, JSON.stringify(config));
+  } else {
+    localStorage.removeItem(SYNC_CONFIG_KEY);
+    localStorage.removeItem(SYNC_STATE_KEY);
+  }
+  updateStatus({ phase: config ? 'idle' : 'disabled', error: undefined, conflicts: [] });
+};
+
+const getState = (): SyncState => {
+  try {
+    const data = localStorage.getItem(SYNC_STATE_KEY);
+    if (data) return { synced: {}, resolutions: {}, ...JSON.parse(data) };
+  } catch {
+    // Fall through to a fresh state; the next sync compares everything again
+  }
+  return { synced: {}, resolutions: {} };
+};
+
+const setState = (state: SyncState) => {
+  localStorage.setItem(SYNC_STATE_KEY, JSON.stringify(state));
+};
+
+// --- Status ---
+
+type StatusListener = (status: SyncStatus) => void;
+
+let status: SyncStatus = {
+  phase: getSyncConfig() ? 'idle' : 'disabled',
+  lastSyncAt: getState().lastSyncAt,
+  pushed: 0,
+  pulled: 0,
+  conflicts: []
+};
+const statusListeners = new Set<StatusListener>();
+
+const updateStatus = (changes: Partial<SyncStatus>) => {
+  status = { ...status, ...changes };
+  statusListeners.forEach(listener => listener(status));
+};
+
+export const getSyncStatus = (): SyncStatus => status;
+
+export const subscribeToSyncStatus = (listener: StatusListener): (() => void) => {
+  statusListeners.add(listener);
+  return () => {
+    statusListeners.delete(listener);
+  };
+};
+
+// --- Transport ---
+
+interface SyncTransport {
+  prepare: () => Promise<void>;
+  getJSON: <T>(path: string) => Promise<T | null>;
+  putJSON: (path: string, value: any) => Promise<void>;
+  getBlob: (path: string) => Promise<Blob | null>;
+  putBlob: (path: string, blob: Blob) => Promise<void>;
+  remove: (path: string) => Promise<void>;
+}
+
+const createTransport = (config: SyncConfig): SyncTransport => {
+  const base = config.url.replace(/\/+$/, '');
+  const authHeaders: Record<string, string> = {};
+  if (config.backend === 'webdav' && config.username) {
+    authHeaders.Authorization = `Basic ${btoa(`${config.username}:${config.secret || ''}`)}`;
+  } else if (config.backend === 'rest' && config.secret) {
+    authHeaders.Authorization = `Bearer ${config.secret}`;
+  }
+
+  const request = async (method: string, path: string, body?: BodyInit, contentType?: string): Promise<Response> => {
+    let response: Response;
+    try {
+      response = await fetch(`${base}/${path}`, {
+        method,
+        headers: contentType ? { ...authHeaders, 'Content-Type': contentType } : authHeaders,
+        body
+      });
+    } catch {
+      throw new SyncError('network', "Could not reach the sync server. Check the URL and that the server allows requests from this app (CORS).");
+    }
+    if (response.status === 401 || response.status === 403) {
+      throw new SyncError('auth', "The sync server rejected the credentials.");
+    }
+    return response;
+  };
+
+  const expectOk = (response: Response, allowed: number[] = []) => {
+    if (!response.ok && !allowed.includes(response.status)) {
+      throw new SyncError('server', `The sync server responded with ${response.status} ${response.statusText}.`);
+    }
+  };
+
+  return {
+    prepare: async () => {
+      if (config.backend !== 'webdav') return;
+      for (const folder of ['entries', 'media']) {
+        // 405 means the collection already exists
+        expectOk(await request('MKCOL', `${folder}/`), [405]);
+      }
+    },
+    getJSON: async <T>(path: string): Promise<T | null> => {
+      const response = await request('GET', path);
+      if (response.status === 404) return null;
+      expectOk(response);
+      try {
+        return await response.json();
+      } catch {
+        throw new SyncError('server', `${path} on the sync server is not valid JSON.`);
+      }
+    },
+    putJSON: async (path, value) => {
+      expectOk(await request('PUT', path, JSON.stringify(value), 'application/json'));
+    },
+    getBlob: async (path) => {
+      const response = await request('GET', path);
+      if (response.status === 404) return null;
+      expectOk(response);
+      return response.blob();
+    },
+    putBlob: async (path, blob) => {
+      expectOk(await request('PUT', path, blob, blob.type || 'application/octet-stream'));
+    },
+    remove: async (path) => {
+      expectOk(await request('DELETE', path), [404]);
+    }
+  };
+};
+
+// --- Sync ---
+
+const emptyIndex = (): RemoteIndex => ({ version: 1, entries: {}, blobs: {} });
+
+const entryPath = (id: string) => `entries/${encodeURIComponent(id)}.json`;
+const blobPath = (id: string) => `media/${encodeURIComponent(id)}`;
+
+const runSync = async (config: SyncConfig): Promise<{ pushed: number, pulled: number, conflicts: SyncConflict[] }> => {
+  if (!navigator.onLine) throw new SyncError('offline', "You are offline. Sync will resume when you reconnect.");
+
+  const transport = createTransport(config);
+  await transport.prepare();
+
+  const index = (await transport.getJSON<RemoteIndex>(INDEX_FILE)) || emptyIndex();
+  const state = getState();
+  const applied = { ...state.resolutions };
+  // An entry missing here is deleted on the server, so a failed read must stop the sync, not empty it
+  let localEntries: JournalEntry[];
+  try {
+    localEntries = await readStoredEntries();
+  } catch (e) {
+    console.error("Sync could not read local entries", e);
+    throw new SyncError('local', "Sync stopped because this device's journal could not be read. Nothing was changed.");
+  }
+  const localById = new Map(localEntries.map(e => [e.id, e] as const));
+  const mimeTypes = collectBlobMimeTypes(localEntries);
+
+  const indexChanges: RemoteIndex['entries'] = {};
+  const blobChanges: RemoteIndex['blobs'] = {};
+  const pulled: JournalEntry[] = [];
+  const conflicts: SyncConflict[] = [];
+  let pushed = 0;
+
+  const push = async (entry: JournalEntry) => {
+    // Blobs first, so the server never lists an entry whose media is missing
+    for (const blobId of getEntryBlobIds(entry)) {
+      if (index.blobs[blobId] || blobChanges[blobId]) continue;
+      const blob = await getMediaBlob(blobId);
+      if (!blob) continue;
+      await transport.putBlob(blobPath(blobId), blob);
+      blobChanges[blobId] = { mimeType: mimeTypes[blobId] || blob.type || 'application/octet-stream', size: blob.size };
+    }
+    await transport.putJSON(entryPath(entry.id), entry);
+    indexChanges[entry.id] = { updatedAt: entry.updatedAt };
+    state.synced[entry.id] = entry.updatedAt;
+    pushed++;
+  };
+
+  const fetchRemote = async (id: string): Promise<JournalEntry> => {
+    const entry = await transport.getJSON<JournalEntry>(entryPath(id));
+    if (!entry) throw new SyncError('server', `Entry ${id} is listed on the sync server but its file is missing.`);
+    return entry;
+  };
+
+  const ids = new Set([...localById.keys(), ...Object.keys(index.entries), ...Object.keys(state.synced)]);
+  for (const id of ids) {
+    const local = localById.get(id);
+    const remote = index.entries[id];
+    const base = state.synced[id];
+
+    if (!remote || (!local && remote.purged)) {
+      if (local) {
+        await push(local);
+      } else {
+        delete state.synced[id];
+      }
+    } else if (!local) {
+      if (remote.updatedAt === base) {
+        // Permanently deleted on this device: leave a tombstone so other devices delete it too
+        await transport.remove(entryPath(id));
+        indexChanges[id] = { updatedAt: new Date().toISOString(), purged: true };
+        delete state.synced[id];
+      } else {
+        pulled.push(await fetchRemote(id));
+      }
+    } else if (remote.purged) {
+      if (local.updatedAt === base) {
+        await deleteEntry(id);
+        delete state.synced[id];
+      } else {
+        await push(local); // Edited here after it was deleted elsewhere: keep it
+      }
+    } else if (local.updatedAt === remote.updatedAt) {
+      state.synced[id] = local.updatedAt;
+    } else {
+      const localChanged = local.updatedAt !== base;
+      const remoteChanged = remote.updatedAt !== base;
+      const resolution = state.resolutions[id];
+      if (localChanged && remoteChanged && !resolution) {
+        conflicts.push({ id, local, remote: await fetchRemote(id) });
+      } else if (resolution === 'local' || (localChanged && !remoteChanged)) {
+        await push(local);
+      } else {
+        pulled.push(await fetchRemote(id));
+      }
+    }
+  }
+
+  // Media for pulled entries, skipping blobs this device already has
+  if (pulled.length > 0) {
+    const localBlobs = new Set((await getAllRecordKeys(MEDIA_STORE)).map(String));
+    for (const entry of pulled) {
+      for (const blobId of getEntryBlobIds(entry)) {
+        if (localBlobs.has(blobId)) continue;
+        const blob = await transport.getBlob(blobPath(blobId));
+        if (!blob) continue;
+        const type = index.blobs[blobId]?.mimeType;
+        await saveMediaBlob(blobId, type ? new Blob([blob], { type }) : blob);
+        localBlobs.add(blobId);
+      }
+    }
+    await saveEntries(pulled);
+    pulled.forEach(entry => { state.synced[entry.id] = entry.updatedAt; });
+  }
+
+  // Notebooks: union of both sides; names chosen on this device win
+  const remoteNotebooks = (await transport.getJSON<Notebook[]>(NOTEBOOKS_FILE)) || [];
+  await mergeNotebooks(remoteNotebooks);
+  await transport.putJSON(NOTEBOOKS_FILE, await getNotebooks());
+
+  // Re-read the index right before writing so a device syncing at the same time is not overwritten
+  if (Object.keys(indexChanges).length > 0 || Object.keys(blobChanges).length > 0) {
+    const latest = (await transport.getJSON<RemoteIndex>(INDEX_FILE)) || emptyIndex();
+    await transport.putJSON(INDEX_FILE, {
+      ...latest,
+      entries: { ...latest.entries, ...indexChanges },
+      blobs: { ...latest.blobs, ...blobChanges }
+    });
+  }
+
+  // Conflicts resolved while this sync ran were not applied yet; they stay for the next one
+  const resolutions = Object.fromEntries(
+    Object.entries(getState().resolutions).filter(([id, resolution]) => applied[id] !== resolution)
+  );
+  setState({ ...state, lastSyncAt: new Date().toISOString(), resolutions });
+  return { pushed, pulled: pulled.length, conflicts: conflicts.filter(c => !resolutions[c.id]) };
+};
+
+let activeSync: Promise<void> | null = null;
+
+// Runs one sync. Concurrent calls share the sync already in progress; syncs started in other
+// tabs wait for each other, since they share the sync state.
+export const syncNow = (): Promise<void> => {
+  if (activeSync) return activeSync;
+  const config = getSyncConfig();
+  if (!config) return Promise.reject(new SyncError('not-configured', "Sync is not set up."));
+
+  updateStatus({ phase: 'syncing', error: undefined });
+  const run = () => runSync(config);
+  activeSync = (navigator.locks ? navigator.locks.request(SYNC_LOCK, run) : run())
+    .then(result => {
+      updateStatus({ phase: 'idle', lastSyncAt: getState().lastSyncAt, ...result });
+    })
+    .catch(e => {
+      console.error("Sync failed", e);
+      updateStatus({ phase: 'error', error: e instanceof SyncError ? e.message : "Sync failed. Please try again." });
+    })
+    .finally(() => {
+      activeSync = null;
+    });
+  return activeSync;
+};
+
+// Records the choice for a conflict and syncs again to apply it. A sync already in progress
+// read the choices before this one, so the sync that applies it starts after that one.
+export const resolveSyncConflict = (id: string, resolution: SyncResolution): Promise<void> => {
+  const state = getState();
+  state.resolutions[id] = resolution;
+  setState(state);
+  updateStatus({ conflicts: status.conflicts.filter(c => c.id !== id) });
+  return activeSync ? activeSync.then(syncNow) : syncNow();
+};
+
+// Syncs now, then periodically and whenever the browser comes back online. Returns a stop function.
+// Only one tab syncs automatically: the one holding the auto-sync lock. When it closes, the next
+// tab waiting for the lock takes over.
+export const startAutoSync = (): (() => void) => {
+  let stopped = false;
+  let timer: number | undefined;
+  let release = () => {};
+
+  const tick = () => {
+    const config = getSyncConfig();
+    if (config?.autoSync) syncNow();
+  };
+  const lead = () => {
+    tick();
+    timer = window.setInterval(tick, AUTO_SYNC_INTERVAL_MS);
+    window.addEventListener('online', tick);
+  };
+
+  if (navigator.locks) {
+    navigator.locks.request(AUTO_SYNC_LOCK, () => {
+      if (stopped) return;
+      lead();
+      // Held until this tab stops syncing
+      return new Promise<void>(resolve => { release = resolve; });
+    });
+  } else {
+    lead();
+  }
+
+  return () => {
+    stopped = true;
+    window.clearInterval(timer);
+    window.removeEventListener('online', tick);
+    release();
+  };
+};
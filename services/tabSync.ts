@@ -0,0 +1,65 @@
+// --- Cross-Tab Change Notifications ---
+// Every write to the journal is announced to the other open tabs so they can reload what they show.
+// BroadcastChannel is used where available; older browsers fall back to localStorage "storage" events.
+
+export type ChangeKind = 'entries' | 'drafts' | 'reports' | 'notebooks';
+
+export interface ChangeMessage {
+  kind: ChangeKind;
+  ids?: string[]; // Entry ids or draft keys that changed; missing means "anything may have changed"
+  source: string; // Tab that made the change
+}
+
+type ChangeListener = (message: ChangeMessage) => void;
+
+const CHANNEL_NAME = 'lumina-changes';
+const SIGNAL_KEY = 'lumina_change_signal';
+
+const TAB_ID = Math.random().toString(36).slice(2) + Date.now().toString(36);
+
+const listeners = new Set<ChangeListener>();
+let channel: BroadcastChannel | null = null;
+let isListening = false;
+
+const dispatch = (message: ChangeMessage) => {
+  if (!message || message.source === TAB_ID) return;
+  listeners.forEach(listener => listener(message));
+};
+
+const startListening = () => {
+  if (isListening) return;
+  isListening = true;
+  if (typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (event) => dispatch(event.data);
+  } else {
+    window.addEventListener('storage', (event) => {
+      if (event.key !== SIGNAL_KEY || !event.newValue) return;
+      try {
+        dispatch(JSON.parse(event.newValue).message);
+      } catch {
+        // Ignore signals written by a different version of the app
+      }
+    });
+  }
+};
+
+export const notifyChange = (kind: ChangeKind, ids?: string[]): void => {
+  const message: ChangeMessage = { kind, ids, source: TAB_ID };
+  startListening();
+  if (channel) {
+    channel.postMessage(message);
+  } else {
+    // The nonce makes every write a change, so repeated identical messages still fire the event
+    localStorage.setItem(SIGNAL_KEY, JSON.stringify({ message, nonce: Math.random() }));
+  }
+};
+
+// Calls the listener for changes made in other tabs. Returns an unsubscribe function.
+export const subscribeToChanges = (listener: ChangeListener): (() => void) => {
+  startListening();
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,93 @@
+import { describe, it, expect, vi } from 'vitest';
+import { JournalEntry } from '../types';
+
+// Modules are loaded per test (see vitest.setup.ts); loading them again simulates a second tab
+// sharing the same IndexedDB and localStorage
+const loadTab = async () => {
+  const storage = await import('./storage');
+  const vault = await import('./vault');
+  const db = await import('./db');
+  return { storage, vault, db };
+};
+
+const makeEntry = (id: string, content: string): JournalEntry => ({
+  id,
+  content,
+  createdAt: '2024-03-01T09:00:00.000Z',
+  updatedAt: '2024-03-01T09:00:00.000Z',
+  isAnalyzed: false
+});
+
+const storedEntryRecords = async (tab: Awaited<ReturnType<typeof loadTab>>) =>
+  tab.db.getAllRecords<any>(tab.db.ENTRIES_STORE);
+
+const configKeyId = (): string => JSON.parse(localStorage.getItem('lumina_vault_config')!).keyId;
+
+describe('vault mode', () => {
+  it('encrypts existing entries when enabled', async () => {
+    const tab = await loadTab();
+    await tab.storage.saveEntry(makeEntry('a', 'First day'));
+
+    await tab.storage.enableVault('correct horse');
+
+    const [record] = await storedEntryRecords(tab);
+    expect(tab.vault.isSealed(record)).toBe(true);
+    expect(record.content).toBeUndefined();
+    expect((await tab.storage.getEntry('a'))?.content).toBe('First day');
+    expect(tab.vault.hasPendingEncrypt()).toBe(false);
+  });
+
+  it('finishes an interrupted enable on the next unlock', async () => {
+    const tab = await loadTab();
+    await tab.storage.saveEntry(makeEntry('a', 'Written before the vault'));
+    // The config is written, then the tab closes before any data was re-sealed
+    await tab.vault.createVault('correct horse');
+    tab.vault.lockVault();
+    expect(tab.vault.hasPendingEncrypt()).toBe(true);
+
+    await tab.storage.unlockJournal('correct horse');
+
+    const [record] = await storedEntryRecords(tab);
+    expect(tab.vault.isSealed(record)).toBe(true);
+    expect(tab.vault.hasPendingEncrypt()).toBe(false);
+    expect((await tab.storage.getEntry('a'))?.content).toBe('Written before the vault');
+  });
+
+  it('resumes an interrupted passphrase change with the new passphrase', async () => {
+    const tab = await loadTab();
+    await tab.storage.enableVault('old passphrase');
+    await tab.storage.saveEntries([makeEntry('a', 'One'), makeEntry('b', 'Two')]);
+    const oldKeyId = configKeyId();
+    // The key switches, then the tab closes before the data was re-sealed with it
+    await tab.vault.beginRekey('old passphrase', 'new passphrase');
+    tab.vault.lockVault();
+    expect(tab.vault.hasPendingRekey()).toBe(true);
+
+    await expect(tab.storage.unlockJournal('old passphrase')).rejects.toMatchObject({ code: 'wrong-passphrase' });
+    await tab.storage.unlockJournal('new passphrase');
+
+    expect(tab.vault.hasPendingRekey()).toBe(false);
+    const records = await storedEntryRecords(tab);
+    expect(records.map(r => r.keyId)).toEqual([configKeyId(), configKeyId()]);
+    expect(configKeyId()).not.toBe(oldKeyId);
+    expect((await tab.storage.getEntries()).map(e => e.content).sort()).toEqual(['One', 'Two']);
+  });
+
+  it('locks a tab whose passphrase was changed in another tab instead of sealing with the old key', async () => {
+    const first = await loadTab();
+    await first.storage.enableVault('old passphrase');
+    await first.storage.saveEntry(makeEntry('a', 'Shared'));
+
+    vi.resetModules();
+    const second = await loadTab();
+    await second.storage.unlockJournal('old passphrase');
+    await second.storage.changeVaultPassphrase('old passphrase', 'new passphrase');
+
+    await expect(first.storage.saveEntry(makeEntry('b', 'Written in the stale tab'))).rejects.toMatchObject({ code: 'locked' });
+    expect(first.vault.isVaultLocked()).toBe(true);
+
+    await first.storage.unlockJournal('new passphrase');
+    await first.storage.saveEntry(makeEntry('b', 'Written after unlocking again'));
+    expect((await second.storage.getEntry('b'))?.content).toBe('Written after unlocking again');
+  });
+});
@@ -0,0 +1,294 @@
+// Passphrase-based at-rest encryption (AES-GCM with a PBKDF2-derived key).
+// The key only ever lives in memory; reloading the page locks the vault again.
+
+const VAULT_CONFIG_KEY = 'lumina_vault_config';
+export const PBKDF2_ITERATIONS = 310000;
+const VERIFIER_TEXT = 'lumina-vault-verifier';
+
+export type VaultErrorCode = 'locked' | 'wrong-passphrase' | 'not-enabled' | 'already-enabled';
+
+export class VaultError extends Error {
+  code: VaultErrorCode;
+
+  constructor(code: VaultErrorCode, message: string) {
+    super(message);
+    this.name = 'VaultError';
+    this.code = code;
+  }
+}
+
+// Shape of every encrypted value written to IndexedDB
+export interface SealedPayload {
+  vault: 1;
+  keyId: string;
+  iv: Uint8Array;
+  data: ArrayBuffer;
+  mimeType?: string; // Only set for media blobs
+}
+
+interface EncodedCipher {
+  iv: string;
+  data: string;
+}
+
+interface VaultConfig {
+  keyId: string;
+  salt: string;
+  iterations: number;
+  verifier: EncodedCipher;
+  // Set while a passphrase change is re-encrypting data: the old key, wrapped with the new one
+  previous?: {
+    keyId: string;
+    wrappedKey: EncodedCipher;
+  };
+  // Set while data written before the vault existed is being encrypted for the first time
+  encrypting?: boolean;
+}
+
+// Each key is kept with the keyId it was unlocked for. The config is shared with other tabs, so
+// after a passphrase change there its keyId no longer belongs to the key held here.
+let activeKey: CryptoKey | null = null;
+let activeKeyId: string | null = null;
+let previousKey: CryptoKey | null = null;
+let previousKeyId: string | null = null;
+
+// --- Encoding Helpers ---
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+};
+
+export const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+const randomBytes = (length: number) => crypto.getRandomValues(new Uint8Array(length));
+
+const newKeyId = () => bytesToBase64(randomBytes(9));
+
+// --- Key Management ---
+
+const getConfig = (): VaultConfig | null => {
+  try {
+    const data = localStorage.getItem(VAULT_CONFIG_KEY);
+    return data ? JSON.parse(data) : null;
+  } catch {
+    return null;
+  }
+};
+
+const setConfig = (config: VaultConfig | null) => {
+  if (config) {
+    localStorage.setItem(VAULT_CONFIG_KEY, JSON.stringify(config));
+  } else {
+    localStorage.removeItem(VAULT_CONFIG_KEY);
+  }
+};
+
+export const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number = PBKDF2_ITERATIONS): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    true, // Extractable so an old key can be wrapped during a passphrase change
+    ['encrypt', 'decrypt', 'wrapKey', 'unwrapKey']
+  );
+};
+
+const encodeCipher = async (key: CryptoKey, plain: ArrayBuffer | Uint8Array): Promise<EncodedCipher> => {
+  const iv = randomBytes(12);
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plain);
+  return { iv: bytesToBase64(iv), data: bytesToBase64(new Uint8Array(data)) };
+};
+
+const decodeCipher = async (key: CryptoKey, cipher: EncodedCipher): Promise<ArrayBuffer> => {
+  return crypto.subtle.decrypt({ name: 'AES-GCM', iv: base64ToBytes(cipher.iv) }, key, base64ToBytes(cipher.data));
+};
+
+const buildConfig = async (passphrase: string): Promise<{ config: VaultConfig, key: CryptoKey }> => {
+  const salt = randomBytes(16);
+  const key = await deriveKey(passphrase, salt);
+  const verifier = await encodeCipher(key, new TextEncoder().encode(VERIFIER_TEXT));
+  return {
+    config: { keyId: newKeyId(), salt: bytesToBase64(salt), iterations: PBKDF2_ITERATIONS, verifier },
+    key
+  };
+};
+
+// Derives the key for the stored config and proves it against the verifier
+const keyFromPassphrase = async (config: VaultConfig, passphrase: string): Promise<CryptoKey> => {
+  const key = await deriveKey(passphrase, base64ToBytes(config.salt), config.iterations);
+  try {
+    await decodeCipher(key, config.verifier);
+  } catch {
+    throw new VaultError('wrong-passphrase', 'Incorrect passphrase. Please try again.');
+  }
+  return key;
+};
+
+export const isVaultEnabled = (): boolean => getConfig() !== null;
+
+export const isVaultLocked = (): boolean => {
+  const config = getConfig();
+  return config !== null && (activeKey === null || activeKeyId !== config.keyId);
+};
+
+// True when a passphrase change was interrupted and some data still uses the old key
+export const hasPendingRekey = (): boolean => !!getConfig()?.previous;
+
+// True when enabling the vault was interrupted and some data is still unencrypted
+export const hasPendingEncrypt = (): boolean => !!getConfig()?.encrypting;
+
+export const unlockVault = async (passphrase: string): Promise<void> => {
+  const config = getConfig();
+  if (!config) throw new VaultError('not-enabled', 'Vault mode is not enabled.');
+
+  const key = await keyFromPassphrase(config, passphrase);
+  if (config.previous) {
+    const { wrappedKey } = config.previous;
+    previousKey = await crypto.subtle.unwrapKey(
+      'raw', base64ToBytes(wrappedKey.data), key,
+      { name: 'AES-GCM', iv: base64ToBytes(wrappedKey.iv) },
+      { name: 'AES-GCM', length: 256 }, true,
+      ['encrypt', 'decrypt', 'wrapKey', 'unwrapKey']
+    );
+    previousKeyId = config.previous.keyId;
+  }
+  activeKey = key;
+  activeKeyId = config.keyId;
+};
+
+export const lockVault = () => {
+  activeKey = null;
+  activeKeyId = null;
+  previousKey = null;
+  previousKeyId = null;
+};
+
+// Writes a new vault config and unlocks it. Existing data must be re-sealed by the caller, which
+// calls completeEncrypt() once it is; until then unlocking resumes the encryption.
+export const createVault = async (passphrase: string): Promise<void> => {
+  if (isVaultEnabled()) throw new VaultError('already-enabled', 'Vault mode is already enabled.');
+  const { config, key } = await buildConfig(passphrase);
+  setConfig({ ...config, encrypting: true });
+  activeKey = key;
+  activeKeyId = config.keyId;
+};
+
+export const completeEncrypt = () => {
+  const config = getConfig();
+  if (!config) return;
+  delete config.encrypting;
+  setConfig(config);
+};
+
+// Switches to a key derived from the new passphrase. The old key stays available (wrapped
+// with the new one) until completeRekey() is called, so an interrupted re-encryption can resume.
+export const beginRekey = async (currentPassphrase: string, newPassphrase: string): Promise<void> => {
+  const config = getConfig();
+  if (!config) throw new VaultError('not-enabled', 'Vault mode is not enabled.');
+  if (config.previous) throw new VaultError('locked', 'Finish the pending passphrase change before starting another.');
+
+  const oldKey = await keyFromPassphrase(config, currentPassphrase);
+  const { config: nextConfig, key } = await buildConfig(newPassphrase);
+  const rawOldKey = await crypto.subtle.exportKey('raw', oldKey);
+  nextConfig.previous = { keyId: config.keyId, wrappedKey: await encodeCipher(key, rawOldKey) };
+
+  setConfig(nextConfig);
+  activeKey = key;
+  activeKeyId = nextConfig.keyId;
+  previousKey = oldKey;
+  previousKeyId = config.keyId;
+};
+
+export const completeRekey = () => {
+  const config = getConfig();
+  if (!config) return;
+  delete config.previous;
+  setConfig(config);
+  previousKey = null;
+  previousKeyId = null;
+};
+
+// Throws a 'wrong-passphrase' VaultError if the passphrase does not open the vault
+export const verifyPassphrase = async (passphrase: string): Promise<void> => {
+  const config = getConfig();
+  if (!config) throw new VaultError('not-enabled', 'Vault mode is not enabled.');
+  await keyFromPassphrase(config, passphrase);
+};
+
+export const destroyVault = () => {
+  setConfig(null);
+  lockVault();
+};
+
+// --- Sealing ---
+
+export const isSealed = (value: any): value is SealedPayload => !!value && value.vault === 1 && value.data instanceof ArrayBuffer;
+
+// True if the stored value is not encrypted with the current key (or encrypted while the vault is off)
+export const needsReseal = (value: any): boolean => {
+  const config = getConfig();
+  if (!config) return isSealed(value);
+  return !isSealed(value) || value.keyId !== config.keyId;
+};
+
+const requireKey = (): { key: CryptoKey, keyId: string } => {
+  const config = getConfig();
+  if (!config) throw new VaultError('not-enabled', 'Vault mode is not enabled.');
+  if (!activeKey) throw new VaultError('locked', 'Your journal is locked. Unlock it with your passphrase first.');
+  // Sealing under the new keyId with the old key would make the data unreadable for good
+  if (activeKeyId !== config.keyId) {
+    lockVault();
+    throw new VaultError('locked', 'The passphrase was changed in another tab. Unlock your journal with the new passphrase.');
+  }
+  return { key: activeKey, keyId: activeKeyId };
+};
+
+const keyForPayload = (payload: SealedPayload): CryptoKey => {
+  if (activeKey && payload.keyId === activeKeyId) return activeKey;
+  if (previousKey && payload.keyId === previousKeyId) return previousKey;
+  throw new VaultError('locked', 'Your journal is locked. Unlock it with your passphrase first.');
+};
+
+const sealBytes = async (plain: ArrayBuffer | Uint8Array): Promise<SealedPayload> => {
+  const { key, keyId } = requireKey();
+  const iv = randomBytes(12);
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plain);
+  return { vault: 1, keyId, iv, data };
+};
+
+const openBytes = (payload: SealedPayload): Promise<ArrayBuffer> => {
+  return crypto.subtle.decrypt({ name: 'AES-GCM', iv: payload.iv }, keyForPayload(payload), payload.data);
+};
+
+// Encrypts a JSON-serializable value when vault mode is on; otherwise returns it unchanged
+export const sealValue = async (value: any): Promise<any> => {
+  if (!isVaultEnabled()) return value;
+  return sealBytes(new TextEncoder().encode(JSON.stringify(value)));
+};
+
+// Plain values pass through, so data written before the vault was enabled stays readable
+export const openValue = async <T>(value: any): Promise<T> => {
+  if (!isSealed(value)) return value;
+  const plain = await openBytes(value);
+  return JSON.parse(new TextDecoder().decode(plain));
+};
+
+export const sealBlob = async (blob: Blob): Promise<Blob | SealedPayload> => {
+  if (!isVaultEnabled()) return blob;
+  const payload = await sealBytes(await blob.arrayBuffer());
+  return { ...payload, mimeType: blob.type };
+};
+
+export const openBlob = async (value: any): Promise<Blob | null> => {
+  if (!isSealed(value)) return value ?? null;
+  const plain = await openBytes(value);
+  return new Blob([plain], { type: value.mimeType || '' });
+};
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import { crc32, createZipWriter, openZip, ZipFormatError } from './zipStream';
+
+const bytes = (length: number) => Uint8Array.from({ length }, (_, i) => (i * 31 + 7) % 256);
+
+const readAll = async (file: Blob): Promise<Record<string, Uint8Array>> => {
+  const zip = await openZip(file);
+  const files: Record<string, Uint8Array> = {};
+  for (const entry of zip.entries.values()) {
+    files[entry.name] = new Uint8Array(await (await zip.read(entry)).arrayBuffer());
+  }
+  return files;
+};
+
+describe('streaming zip', () => {
+  it('computes the standard CRC-32', async () => {
+    expect(await crc32(new Blob(['123456789']))).toBe(0xCBF43926);
+    expect(await crc32(new Blob([]))).toBe(0);
+  });
+
+  it('reads back what it wrote, compressing text and storing media as is', async () => {
+    const zip = createZipWriter();
+    const media = new Blob([bytes(300_000)], { type: 'video/mp4' });
+    await Promise.all([
+      zip.addFile('journal_data.json', JSON.stringify({ entries: ['ünïcödé'.repeat(1000)] })),
+      zip.addFile('media/clip', media)
+    ]);
+
+    const reader = await openZip(zip.finish());
+
+    expect(reader.entries.get('journal_data.json')!.compressedSize).toBeLessThan(reader.entries.get('journal_data.json')!.size);
+    expect(reader.entries.get('media/clip')!.compressedSize).toBe(media.size);
+    expect(JSON.parse(await (await reader.read(reader.entries.get('journal_data.json')!)).text()).entries[0]).toBe('ünïcödé'.repeat(1000));
+    expect(new Uint8Array(await (await reader.read(reader.entries.get('media/clip')!)).arrayBuffer())).toEqual(bytes(300_000));
+  });
+
+  it('writes archives other ZIP tools can open', async () => {
+    const zip = createZipWriter();
+    await zip.addFile('notes/today.md', '# Today\n\nA quiet morning.');
+    await zip.addFile('media/photo', new Blob([bytes(1000)]));
+
+    const other = await JSZip.loadAsync(await zip.finish().arrayBuffer());
+
+    expect(await other.file('notes/today.md')!.async('string')).toBe('# Today\n\nA quiet morning.');
+    expect(await other.file('media/photo')!.async('uint8array')).toEqual(bytes(1000));
+  });
+
+  it('reads archives written by other ZIP tools, skipping folders', async () => {
+    const other = new JSZip();
+    other.file('journal_data.json', JSON.stringify({ version: 3 }), { compression: 'DEFLATE' });
+    other.file('media/photo', bytes(5000), { compression: 'STORE' });
+    other.folder('empty');
+
+    const files = await readAll(await other.generateAsync({ type: 'blob' }));
+
+    expect(Object.keys(files).sort()).toEqual(['journal_data.json', 'media/photo']);
+    expect(new TextDecoder().decode(files['journal_data.json'])).toBe('{"version":3}');
+    expect(files['media/photo']).toEqual(bytes(5000));
+  });
+
+  it('rejects files that are not ZIP archives or are cut off', async () => {
+    const zip = createZipWriter();
+    await zip.addFile('media/photo', new Blob([bytes(1000)]));
+    const archive = zip.finish();
+
+    await expect(openZip(new Blob(['just some text']))).rejects.toBeInstanceOf(ZipFormatError);
+    // The end of the archive survives, but the entry it points at does not
+    const truncated = new Blob([archive.slice(0, 500), archive.slice(archive.size - 200)]);
+    await expect(readAll(truncated)).rejects.toBeInstanceOf(ZipFormatError);
+  });
+});
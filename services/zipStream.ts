@@ -0,0 +1,238 @@
+// --- Streaming ZIP ---
+// A minimal ZIP writer and reader for archives too large to hold in memory. The writer builds the
+// archive as a Blob made of small headers and references to the original Blobs, so media is never
+// copied; only CRC-32 checksums are computed, a chunk at a time. The reader parses the central
+// directory and hands out slices of the file for stored entries, inflating deflated ones as a stream.
+// ZIP64 is not supported, which limits an archive to 4 GB and 65535 files.
+
+const READ_CHUNK_SIZE = 1024 * 1024;
+const MAX_ZIP_OFFSET = 0xFFFFFFFF;
+const MAX_ZIP_ENTRIES = 0xFFFF;
+const UTF8_FLAG = 0x0800;
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xFFFF;
+
+export class ZipFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZipFormatError';
+  }
+}
+
+// --- CRC-32 ---
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const updateCrc = (crc: number, bytes: Uint8Array): number => {
+  let c = crc;
+  for (let i = 0; i < bytes.length; i++) c = CRC_TABLE[(c ^ bytes[i]) & 0xFF] ^ (c >>> 8);
+  return c;
+};
+
+// Reads the blob in chunks so only READ_CHUNK_SIZE bytes are in memory at once
+export const crc32 = async (blob: Blob, signal?: AbortSignal): Promise<number> => {
+  let crc = 0xFFFFFFFF;
+  for (let offset = 0; offset < blob.size; offset += READ_CHUNK_SIZE) {
+    signal?.throwIfAborted();
+    crc = updateCrc(crc, new Uint8Array(await blob.slice(offset, offset + READ_CHUNK_SIZE).arrayBuffer()));
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+};
+
+// --- Writer ---
+
+export interface ZipWriter {
+  // Safe to call concurrently: the checksum work overlaps, entries are appended as each one finishes
+  addFile: (name: string, data: Blob | string, signal?: AbortSignal) => Promise<void>;
+  finish: () => Blob;
+}
+
+interface WrittenEntry {
+  name: Uint8Array;
+  method: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+}
+
+const dosDateTime = (date: Date): { time: number, date: number } => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: (Math.max(date.getFullYear() - 1980, 0) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+});
+
+const deflate = (blob: Blob): Promise<Blob> =>
+  new Response(blob.stream().pipeThrough(new CompressionStream('deflate-raw'))).blob();
+
+export const createZipWriter = (): ZipWriter => {
+  const parts: BlobPart[] = [];
+  const entries: WrittenEntry[] = [];
+  const stamp = dosDateTime(new Date());
+  let offset = 0;
+
+  const addFile = async (name: string, data: Blob | string, signal?: AbortSignal) => {
+    const plain = typeof data === 'string' ? new Blob([data]) : data;
+    const crc = await crc32(plain, signal);
+    // Text compresses well and is small; media is already compressed, so it is stored as is
+    const compress = typeof data === 'string' && typeof CompressionStream !== 'undefined';
+    const body = compress ? await deflate(plain) : plain;
+    signal?.throwIfAborted();
+
+    const nameBytes = new TextEncoder().encode(name);
+    const headerSize = 30 + nameBytes.length;
+    if (offset + headerSize + body.size > MAX_ZIP_OFFSET || entries.length >= MAX_ZIP_ENTRIES) {
+      throw new ZipFormatError("The archive would be larger than 4 GB. Export one notebook at a time instead.");
+    }
+
+    const header = new DataView(new ArrayBuffer(headerSize));
+    header.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+    header.setUint16(4, 20, true); // Version needed to extract
+    header.setUint16(6, UTF8_FLAG, true);
+    header.setUint16(8, compress ? METHOD_DEFLATE : METHOD_STORE, true);
+    header.setUint16(10, stamp.time, true);
+    header.setUint16(12, stamp.date, true);
+    header.setUint32(14, crc, true);
+    header.setUint32(18, body.size, true);
+    header.setUint32(22, plain.size, true);
+    header.setUint16(26, nameBytes.length, true);
+    header.setUint16(28, 0, true); // Extra field length
+    new Uint8Array(header.buffer).set(nameBytes, 30);
+
+    entries.push({ name: nameBytes, method: compress ? METHOD_DEFLATE : METHOD_STORE, crc, compressedSize: body.size, size: plain.size, offset });
+    parts.push(header.buffer, body);
+    offset += headerSize + body.size;
+  };
+
+  const finish = (): Blob => {
+    const directoryStart = offset;
+    let directorySize = 0;
+    entries.forEach(entry => {
+      const record = new DataView(new ArrayBuffer(46 + entry.name.length));
+      record.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+      record.setUint16(4, 20, true); // Version made by
+      record.setUint16(6, 20, true); // Version needed to extract
+      record.setUint16(8, UTF8_FLAG, true);
+      record.setUint16(10, entry.method, true);
+      record.setUint16(12, stamp.time, true);
+      record.setUint16(14, stamp.date, true);
+      record.setUint32(16, entry.crc, true);
+      record.setUint32(20, entry.compressedSize, true);
+      record.setUint32(24, entry.size, true);
+      record.setUint16(28, entry.name.length, true);
+      // Extra field, comment, disk number and attributes stay zero
+      record.setUint32(42, entry.offset, true);
+      new Uint8Array(record.buffer).set(entry.name, 46);
+      parts.push(record.buffer);
+      directorySize += record.byteLength;
+    });
+
+    const end = new DataView(new ArrayBuffer(END_OF_CENTRAL_DIRECTORY_SIZE));
+    end.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+    end.setUint16(8, entries.length, true);
+    end.setUint16(10, entries.length, true);
+    end.setUint32(12, directorySize, true);
+    end.setUint32(16, directoryStart, true);
+    parts.push(end.buffer);
+
+    return new Blob(parts, { type: 'application/zip' });
+  };
+
+  return { addFile, finish };
+};
+
+// --- Reader ---
+
+export interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  size: number;
+  localHeaderOffset: number;
+}
+
+export interface ZipReader {
+  entries: Map<string, ZipEntry>;
+  read: (entry: ZipEntry) => Promise<Blob>;
+}
+
+const readView = async (blob: Blob, start: number, end: number): Promise<DataView> =>
+  new DataView(await blob.slice(start, end).arrayBuffer());
+
+const findEndOfCentralDirectory = async (file: Blob): Promise<{ view: DataView, start: number }> => {
+  const tailStart = Math.max(0, file.size - END_OF_CENTRAL_DIRECTORY_SIZE - MAX_COMMENT_SIZE);
+  const tail = await readView(file, tailStart, file.size);
+  for (let i = tail.byteLength - END_OF_CENTRAL_DIRECTORY_SIZE; i >= 0; i--) {
+    if (tail.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      return { view: new DataView(tail.buffer, i, END_OF_CENTRAL_DIRECTORY_SIZE), start: tailStart + i };
+    }
+  }
+  throw new ZipFormatError("This file is not a ZIP archive.");
+};
+
+// Reads only the central directory; file contents are read on demand
+export const openZip = async (file: Blob): Promise<ZipReader> => {
+  const { view: end } = await findEndOfCentralDirectory(file);
+  const count = end.getUint16(10, true);
+  const directorySize = end.getUint32(12, true);
+  const directoryStart = end.getUint32(16, true);
+  if (count === MAX_ZIP_ENTRIES || directoryStart === MAX_ZIP_OFFSET) {
+    throw new ZipFormatError("ZIP64 archives are not supported.");
+  }
+  if (directoryStart + directorySize > file.size) throw new ZipFormatError("The ZIP archive is cut off.");
+
+  const directory = await readView(file, directoryStart, directoryStart + directorySize);
+  const decoder = new TextDecoder();
+  const entries = new Map<string, ZipEntry>();
+  let position = 0;
+  for (let i = 0; i < count; i++) {
+    if (position + 46 > directory.byteLength || directory.getUint32(position, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new ZipFormatError("The ZIP directory is damaged.");
+    }
+    const flags = directory.getUint16(position + 8, true);
+    const nameLength = directory.getUint16(position + 28, true);
+    const extraLength = directory.getUint16(position + 30, true);
+    const commentLength = directory.getUint16(position + 32, true);
+    const name = decoder.decode(new Uint8Array(directory.buffer, position + 46, nameLength));
+    const entry: ZipEntry = {
+      name,
+      method: directory.getUint16(position + 10, true),
+      compressedSize: directory.getUint32(position + 20, true),
+      size: directory.getUint32(position + 24, true),
+      localHeaderOffset: directory.getUint32(position + 42, true)
+    };
+    if (flags & 0x1) throw new ZipFormatError(`${name} is encrypted with a ZIP password, which is not supported.`);
+    if (!name.endsWith('/')) entries.set(name, entry);
+    position += 46 + nameLength + extraLength + commentLength;
+  }
+
+  const read = async (entry: ZipEntry): Promise<Blob> => {
+    const header = await readView(file, entry.localHeaderOffset, entry.localHeaderOffset + 30);
+    if (header.byteLength < 30 || header.getUint32(0, true) !== LOCAL_HEADER_SIGNATURE) {
+      throw new ZipFormatError(`The ZIP entry ${entry.name} is damaged.`);
+    }
+    const dataStart = entry.localHeaderOffset + 30 + header.getUint16(26, true) + header.getUint16(28, true);
+    if (dataStart + entry.compressedSize > file.size) throw new ZipFormatError(`The ZIP entry ${entry.name} is cut off.`);
+    const data = file.slice(dataStart, dataStart + entry.compressedSize);
+
+    if (entry.method === METHOD_STORE) return data;
+    if (entry.method === METHOD_DEFLATE) {
+      return new Response(data.stream().pipeThrough(new DecompressionStream('deflate-raw'))).blob();
+    }
+    throw new ZipFormatError(`The ZIP entry ${entry.name} uses an unsupported compression method.`);
+  };
+
+  return { entries, read };
+};
@@ -4,6 +4,8 @@ export interface JournalEntry {
   content: string;
   createdAt: string; // ISO string
   updatedAt: string;
+  deletedAt?: string; // Set while the entry is in the trash
+  notebookId?: string; // Missing means the default notebook
   
   // AI Analyzed Data
   moodScore?: number; // 1-10
@@ -15,6 +17,9 @@ export interface JournalEntry {
   reflectionQuestion?: string;
   
   isAnalyzed: boolean;
+  analysisSource?: 'ai' | 'local'; // 'local' marks the offline estimate, which can be upgraded to AI analysis; missing means AI
+  repairedFields?: string[]; // Analysis fields the AI got wrong or left out, which Lumina corrected or filled in
+  analysisHash?: string; // Hash of the content the analysis was computed from; differs once the entry is edited
 
   // Positive Reflection (Image + Quote)
   reflection?: {
@@ -31,6 +36,39 @@ export interface JournalEntry {
   schedule?: ScheduleBlock[];
 }
 
+export interface Notebook {
+  id: string;
+  name: string;
+  color: string; // Hex, used for the sidebar dot
+  createdAt: string;
+}
+
+// The parts of an entry captured by each revision. Media and the reflection image are not versioned.
+export type RevisionSnapshot = Pick<JournalEntry,
+  'content' | 'todos' | 'schedule' | 'isAnalyzed' | 'analysisSource' | 'repairedFields' | 'analysisHash' | 'moodScore' | 'moodLabel' | 'moodEmoji' | 'moodColor' | 'keywords' | 'summary' | 'reflectionQuestion'>;
+
+export interface EntryRevision {
+  id: string;
+  entryId: string;
+  savedAt: string; // ISO string, the entry's updatedAt when this version was saved
+  snapshot: RevisionSnapshot;
+}
+
+// Unsaved editor state, stored per entry so that a reload or crash loses nothing
+export interface EntryDraft {
+  entryId: string; // The entry being edited, or the id a new entry will be saved under
+  isNew: boolean; // True until the entry has been saved once
+  notebookId?: string; // Notebook a new entry will be saved in
+  baseUpdatedAt?: string; // updatedAt of the saved version the draft started from
+  content: string;
+  media: JournalMedia[];
+  reflection?: JournalEntry['reflection'];
+  todos: TodoItem[];
+  schedule: ScheduleBlock[];
+  analysis: Partial<JournalEntry> | null;
+  updatedAt: string;
+}
+
 export interface TodoItem {
   id: string;
   text: string;
@@ -41,6 +79,8 @@ export interface ScheduleBlock {
   id: string;
   time: string; // "08:00"
   activity: string;
+  durationMinutes?: number; // Missing on older blocks, which were planned in 30 minute steps
+  date?: string; // Local day, YYYY-MM-DD; missing means the day of the entry it belongs to
 }
 
 export interface JournalMedia {
@@ -51,6 +91,11 @@ export interface JournalMedia {
   externalUrl?: string; // For YouTube or other external links
   createdAt: string;
   altText?: string; // Prompt used for generation or transcript
+  offloaded?: { // Set when the blob was downloaded to the user's device and removed from IndexedDB
+    fileName: string;
+    size: number;
+    offloadedAt: string;
+  };
 }
 
 export interface PatternAnalysis {
@@ -59,6 +104,8 @@ export interface PatternAnalysis {
   habitInsight: string;
   improvementSuggestion: string;
   overallVibe: string;
+  repairedFields?: string[]; // See JournalEntry.repairedFields
+  inputHash?: string; // Hash of the entries the report was generated from
 }
 
 export interface DailyGuidance {
@@ -68,6 +115,8 @@ export interface DailyGuidance {
   improvementTips: string[];
   positiveReflection: string;
   reasoning: string; // Why these suggestions were made based on past entries
+  repairedFields?: string[]; // See JournalEntry.repairedFields
+  inputHash?: string; // See PatternAnalysis.inputHash
 }
 
 export interface LifeJourneyAnalysis {
@@ -93,6 +142,8 @@ export interface LifeJourneyAnalysis {
     resilienceNarrative: string; // Encouraging story of their struggles
     growthFocus: string[]; // Negatives reframed as positive challenges
   };
+  repairedFields?: string[]; // See JournalEntry.repairedFields
+  inputHash?: string; // See PatternAnalysis.inputHash
 }
 
 export enum ViewMode {
@@ -100,6 +151,7 @@ export enum ViewMode {
   LIST = 'LIST',
   ANALYTICS = 'ANALYTICS',
   GUIDANCE = 'GUIDANCE',
+  TRASH = 'TRASH',
   SETTINGS = 'SETTINGS'
 }
 
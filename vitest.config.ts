@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config';
+
+// Services run against fake-indexeddb and an in-memory localStorage; see vitest.setup.ts
+export default defineConfig({
+  test: {
+    environment: 'node',
+    setupFiles: ['./vitest.setup.ts']
+  }
+});
@@ -0,0 +1,46 @@
+import { beforeEach, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+
+// --- Browser Globals for Service Tests ---
+// Node has Blob, File, crypto.subtle, fetch and BroadcastChannel already. The rest of what the
+// services reach for is filled in here, and every test starts from an empty browser: a fresh
+// IndexedDB, an empty localStorage and freshly loaded modules (so no cached DB connection or
+// unlocked vault key carries over).
+
+class MemoryStorage implements Storage {
+  private items = new Map<string, string>();
+
+  get length() {
+    return this.items.size;
+  }
+
+  key(index: number): string | null {
+    return Array.from(this.items.keys())[index] ?? null;
+  }
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, String(value));
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+
+  clear(): void {
+    this.items.clear();
+  }
+}
+
+Object.defineProperty(globalThis, 'window', { value: globalThis, configurable: true, writable: true });
+Object.defineProperty(globalThis, 'navigator', { value: { onLine: true }, configurable: true, writable: true });
+Object.defineProperty(globalThis, 'localStorage', { value: new MemoryStorage(), configurable: true, writable: true });
+
+beforeEach(() => {
+  localStorage.clear();
+  globalThis.indexedDB = new IDBFactory();
+  vi.resetModules();
+});